@@ -3,6 +3,7 @@ import { Bytes, SExp } from "clvm";
 import { LineageProof } from "./cat";
 import { SmartCoin } from "./smart_coin";
 import { Util } from "./util";
+import { Network } from "./util/network";
 import { bytes, Coin, uint } from "./xch/providers/provider_types";
 
 export type SingletonConstructorArgs = {
@@ -178,10 +179,10 @@ export class Singleton extends SmartCoin {
         );
     }
 
-    public getPayToAddress(): string | null {
+    public getPayToAddress(network: Network = Network.mainnet): string | null {
         const ph = this.getPayToPuzzleHash();
         if(ph === null) return null;
         
-        return Util.address.puzzleHashToAddress(ph);
+        return Util.address.puzzleHashToAddress(ph, Util.network.getAddressPrefix(network));
     }
 }
\ No newline at end of file
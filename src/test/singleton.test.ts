@@ -5,6 +5,7 @@ import { initializeBLS, SExp } from "clvm";
 import { LineageProof } from "../cat";
 import { Singleton } from "../singleton";
 import { Util } from "../util";
+import { Network } from "../util/network";
 import { bytes, Coin } from "../xch/providers/provider_types";
 
 describe("Singleton", () => {
@@ -444,5 +445,11 @@ describe("Singleton", () => {
                 )
             );
         });
+
+        it("Uses the address prefix of the given network", () => {
+            const s = new Singleton({ launcherId: TEST_LAUNCHER_ID });
+
+            expect(s.getPayToAddress(Network.testnet10)?.startsWith("txch1")).to.be.true;
+        });
     });
 });
\ No newline at end of file
@@ -94,6 +94,25 @@ describe("CoinUtil", () => {
         });
     });
 
+    describe("hashCoinIds()", () => {
+        it("Hashes a single coin id", () => {
+            expect(
+                coinUtil.hashCoinIds(["01".repeat(32)])
+            ).to.equal(Util.stdHash("01".repeat(32)));
+        });
+
+        it("Hashes the coin ids sorted in descending order", () => {
+            const expected: string = Util.stdHash("03".repeat(32) + "02".repeat(32) + "01".repeat(32));
+
+            expect(
+                coinUtil.hashCoinIds(["02".repeat(32), "01".repeat(32), "03".repeat(32)])
+            ).to.equal(expected);
+            expect(
+                coinUtil.hashCoinIds(["01".repeat(32), "03".repeat(32), "02".repeat(32)])
+            ).to.equal(expected);
+        });
+    });
+
     describe("toProgram()", () => {
         it("Works", () => {
             const coin: Coin = new Coin();
@@ -6,6 +6,7 @@ import { CoinUtil } from "../../util/coin";
 import { GobyUtil } from "../../util/goby";
 import { KeyUtil } from "../../util/key";
 import { NetworkUtil } from "../../util/network";
+import { RpcUtil } from "../../util/rpc";
 import { SerializerUtil } from "../../util/serializer";
 import { SExpUtil } from "../../util/sexp";
 
@@ -145,6 +146,10 @@ describe("Util", function() {
         it("Exposes KeyUtil instance as .key", () => {
             expect(util.key instanceof KeyUtil).to.be.true;
         });
+
+        it("Exposes RpcUtil instance as .rpc", () => {
+            expect(util.rpc instanceof RpcUtil).to.be.true;
+        });
     });
 
     describe("Other exposed variables", () => {
@@ -0,0 +1,110 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { expect } from "chai";
+import { Util } from "../../util";
+import { MerkleSetUtil } from "../../util/merkle_set";
+
+const merkleSet = new MerkleSetUtil();
+
+// https://github.com/Chia-Network/chia-blockchain/blob/6205d954e8ac2ea40ee7386b1ee3124da21f4c4a/tests/core/util/test_merkle_set.py
+const a = "80" + "00".repeat(31);
+const b = "70" + "00".repeat(31);
+const c = "71" + "00".repeat(31);
+const d = "81" + "00".repeat(31);
+
+const _leaves = (count: number): string[] => {
+    const leaves: string[] = [];
+    for(let i = 0; i < count; ++i) {
+        leaves.push(Util.stdHash(i.toString(16).padStart(8, "0")));
+    }
+
+    return leaves;
+};
+
+describe("MerkleSetUtil", () => {
+    describe("computeRoot()", () => {
+        it("Returns 32 zero bytes for an empty set", () => {
+            expect(merkleSet.computeRoot([])).to.equal("00".repeat(32));
+        });
+
+        it("Works for a single leaf", () => {
+            expect(merkleSet.computeRoot([a])).to.equal(Util.stdHash("01" + a));
+        });
+
+        it("Works for two leaves", () => {
+            expect(merkleSet.computeRoot([a, b])).to.equal(
+                Util.stdHash("00".repeat(30) + "0101" + b + a)
+            );
+        });
+
+        it("Collapses middle nodes that only have two terminal nodes below them", () => {
+            // b and c share the first 7 bits - their node is moved up to the root's left child
+            const bc: string = Util.stdHash("00".repeat(30) + "0101" + b + c);
+            expect(merkleSet.computeRoot([a, b, c])).to.equal(
+                Util.stdHash("00".repeat(30) + "0201" + bc + a)
+            );
+            expect(merkleSet.computeRoot([b, c])).to.equal(bc);
+        });
+
+        it("Does not depend on the order of the leaves or on duplicates", () => {
+            expect(merkleSet.computeRoot([a, b, c, d])).to.equal(merkleSet.computeRoot([d, c, b, a, c]));
+            expect(merkleSet.computeRoot([a.toUpperCase(), b])).to.equal(merkleSet.computeRoot([a, b]));
+        });
+    });
+
+    describe("getProof()", () => {
+        for(const count of [0, 1, 2, 3, 7, 64]) {
+            it(`Returns valid proofs for a set with ${count} leaves`, () => {
+                const leaves: string[] = _leaves(count);
+                const root: string = merkleSet.computeRoot(leaves);
+
+                for(const leaf of leaves) {
+                    const [included, proof] = merkleSet.getProof(leaves, leaf);
+
+                    expect(included).to.be.true;
+                    expect(merkleSet.confirmIncluded(root, leaf, proof)).to.be.true;
+                    expect(merkleSet.confirmNotIncluded(root, leaf, proof)).to.be.false;
+                }
+
+                for(const value of [a, b, c, d]) {
+                    const [included, proof] = merkleSet.getProof(leaves, value);
+
+                    expect(included).to.be.false;
+                    expect(merkleSet.confirmNotIncluded(root, value, proof)).to.be.true;
+                    expect(merkleSet.confirmIncluded(root, value, proof)).to.be.false;
+                }
+            });
+        }
+    });
+
+    describe("confirmIncluded()", () => {
+        const leaves: string[] = _leaves(16);
+        const root: string = merkleSet.computeRoot(leaves);
+        const [, proof] = merkleSet.getProof(leaves, leaves[3]);
+
+        it("Rejects proofs for another root", () => {
+            expect(merkleSet.confirmIncluded(merkleSet.computeRoot(leaves.slice(1)), leaves[3], proof)).to.be.false;
+        });
+
+        it("Rejects proofs for another value", () => {
+            expect(merkleSet.confirmIncluded(root, leaves[4], proof)).to.be.false;
+        });
+
+        it("Rejects modified proofs", () => {
+            const lastByte: number = parseInt(proof.slice(-2), 16);
+            const modifiedProof: string = proof.slice(0, -2) + (lastByte ^ 1).toString(16).padStart(2, "0");
+
+            expect(merkleSet.confirmIncluded(root, leaves[3], modifiedProof)).to.be.false;
+            expect(merkleSet.confirmIncluded(root, leaves[3], proof + "00")).to.be.false;
+            expect(merkleSet.confirmIncluded(root, leaves[3], proof.slice(0, -2))).to.be.false;
+            expect(merkleSet.confirmIncluded(root, leaves[3], "")).to.be.false;
+        });
+
+        it("Rejects proofs that are not in canonical form", () => {
+            // a single terminal node below a middle node should have been collapsed
+            const single: string = merkleSet.computeRoot([a]);
+            const proof: string = "02" + "01" + a + "00";
+
+            expect(merkleSet.confirmIncluded(single, a, proof)).to.be.false;
+        });
+    });
+});
\ No newline at end of file
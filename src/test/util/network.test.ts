@@ -12,6 +12,7 @@ const genesisChallenges = [
     "ee7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015af",
     "117816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015af",
     "ae83525ba8d1dd3f09b277de18ca3e43fc0af20d20c4b3e92ef2a48bd291ccb2",
+    "37a90eb5185a9c4439a91ddc98bbadce7b4feba060d50116a067de66bf236615",
 ];
 const networkNames = [
     "mainnet",
@@ -22,6 +23,7 @@ const networkNames = [
     "testnet5",
     "testnet7",
     "testnet10",
+    "testnet11",
 ];
 
 describe("NetworkUtil", () => {
@@ -74,5 +76,71 @@ describe("NetworkUtil", () => {
                 ).to.equal("txch");
             }
         });
+
+        it("Throws error if supplied network id does not exist", () => {
+            expect(
+                () => networkUtil.getAddressPrefix("test" as Network)
+            ).to.throw("Unknown network id.");
+        });
+    });
+
+    describe("getDefaultPort()", () => {
+        it("Returns 8444 for mainnet and 58444 for testnets", () => {
+            expect(networkUtil.getDefaultPort(Network.mainnet)).to.equal(8444);
+            expect(networkUtil.getDefaultPort(Network.testnet11)).to.equal(58444);
+        });
+    });
+
+    describe("register()", () => {
+        it("Registers custom networks", () => {
+            const network: Network = networkUtil.register({
+                id: "simulator-test",
+                genesisChallenge: "EB".repeat(32),
+                addressPrefix: "sim",
+                defaultPort: 38444,
+            });
+
+            expect(network).to.equal("simulator-test");
+            expect(networkUtil.networks[networkUtil.networks.length - 1]).to.equal(network);
+            expect(networkUtil.getGenesisChallenge(network)).to.equal("eb".repeat(32));
+            expect(networkUtil.getAddressPrefix(network)).to.equal("sim");
+            expect(networkUtil.getDefaultPort(network)).to.equal(38444);
+            expect(new NetworkUtil().getNetwork(network)).to.deep.equal({
+                id: "simulator-test",
+                genesisChallenge: "eb".repeat(32),
+                addressPrefix: "sim",
+                defaultPort: 38444,
+            });
+        });
+
+        it("Uses testnet defaults", () => {
+            const network: Network = networkUtil.register({
+                id: "testnet-test",
+                genesisChallenge: "42".repeat(32),
+            });
+
+            expect(networkUtil.getAddressPrefix(network)).to.equal("txch");
+            expect(networkUtil.getDefaultPort(network)).to.equal(58444);
+        });
+
+        it("Throws if the genesis challenge is invalid", () => {
+            expect(
+                () => networkUtil.register({ id: "invalid-test", genesisChallenge: "42" })
+            ).to.throw("Invalid genesis challenge.");
+            expect(
+                () => networkUtil.register({ id: "", genesisChallenge: "42".repeat(32) })
+            ).to.throw("Invalid network id.");
+            expect(networkUtil.networks).to.not.include("invalid-test");
+        });
+
+        it("Adds custom networks to a replaced networks list", () => {
+            const util = new NetworkUtil();
+            util.networks = [Network.mainnet, Network.testnet11];
+
+            const network: Network = util.register({ id: "replaced-test", genesisChallenge: "43".repeat(32) });
+
+            expect(util.networks).to.deep.equal([Network.mainnet, Network.testnet11, network]);
+            expect(networkUtil.networks).to.include(network);
+        });
     });
 });
\ No newline at end of file
@@ -0,0 +1,129 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { BigNumber } from "@ethersproject/bignumber";
+import { expect } from "chai";
+import { SExp } from "clvm";
+import { Util } from "../../util";
+import { RpcUtil } from "../../util/rpc";
+import { CoinSpend } from "../../util/serializer/types/coin_spend";
+import { SpendBundle } from "../../util/serializer/types/spend_bundle";
+import { Coin } from "../../xch/providers/provider_types";
+
+const rpcUtil = new RpcUtil();
+
+describe("RpcUtil", () => {
+    const PARENT_COIN_INFO = "11".repeat(32);
+    const PUZZLE_HASH = "22".repeat(32);
+    const AMOUNT = 1337;
+    const PUZZLE_REVEAL = SExp.to(1);
+    const SOLUTION = SExp.to([SExp.to(42)]);
+    const AGG_SIG = "c0" + "00".repeat(95);
+
+    const coin = {
+        parent_coin_info: "0x" + PARENT_COIN_INFO,
+        puzzle_hash: "0x" + PUZZLE_HASH,
+        amount: AMOUNT,
+    };
+    const coinSpend = {
+        coin,
+        puzzle_reveal: "0x" + Util.sexp.toHex(PUZZLE_REVEAL),
+        solution: "0x" + Util.sexp.toHex(SOLUTION),
+    };
+    const spendBundle = {
+        coin_spends: [coinSpend, coinSpend],
+        aggregated_signature: "0x" + AGG_SIG,
+    };
+
+    describe("parseRpcCoin()", () => {
+        it("Works", () => {
+            const c: Coin | null = rpcUtil.parseRpcCoin(coin);
+
+            expect(c).to.not.be.null;
+            expect(c?.parentCoinInfo).to.equal(PARENT_COIN_INFO);
+            expect(c?.puzzleHash).to.equal(PUZZLE_HASH);
+            expect(
+                BigNumber.from(c?.amount).eq(AMOUNT)
+            ).to.be.true;
+        });
+
+        it("Works with amounts given as strings", () => {
+            const c: Coin | null = rpcUtil.parseRpcCoin({ ...coin, amount: "18446744073709551615" });
+
+            expect(
+                BigNumber.from(c?.amount).eq("18446744073709551615")
+            ).to.be.true;
+        });
+
+        it("Returns null when parameter can't be convered to Coin", () => {
+            expect(rpcUtil.parseRpcCoin({})).to.be.null;
+        });
+    });
+
+    describe("parseRpcCoinSpend()", () => {
+        it("Works", () => {
+            const cs: CoinSpend | null = rpcUtil.parseRpcCoinSpend(coinSpend);
+
+            expect(cs).to.not.be.null;
+            expect(
+                Util.sexp.toHex(cs?.puzzleReveal)
+            ).to.equal(Util.sexp.toHex(PUZZLE_REVEAL));
+            expect(
+                Util.sexp.toHex(cs?.solution)
+            ).to.equal(Util.sexp.toHex(SOLUTION));
+            expect(cs?.coin.parentCoinInfo).to.equal(PARENT_COIN_INFO);
+        });
+
+        it("Returns null when parameter can't be convered to CoinSpend (coin)", () => {
+            expect(rpcUtil.parseRpcCoinSpend({
+                puzzle_reveal: coinSpend.puzzle_reveal,
+                solution: coinSpend.solution,
+            })).to.be.null;
+        });
+
+        it("Returns null when parameter can't be convered to CoinSpend (puzzle_reveal)", () => {
+            expect(rpcUtil.parseRpcCoinSpend({
+                coin,
+                solution: coinSpend.solution,
+            })).to.be.null;
+        });
+    });
+
+    describe("parseRpcSpendBundle()", () => {
+        it("Works", () => {
+            const sb: SpendBundle | null = rpcUtil.parseRpcSpendBundle(spendBundle);
+
+            expect(sb).to.not.be.null;
+            expect(sb?.aggregatedSignature).to.equal(AGG_SIG);
+            expect(sb?.coinSpends.length).to.equal(2);
+        });
+
+        it("Returns null when a coin spend can't be parsed", () => {
+            expect(rpcUtil.parseRpcSpendBundle({
+                coin_spends: [coinSpend, {}],
+                aggregated_signature: "0x" + AGG_SIG,
+            })).to.be.null;
+        });
+
+        it("Returns null when parameter can't be convered to SpendBundle", () => {
+            expect(rpcUtil.parseRpcSpendBundle({})).to.be.null;
+        });
+    });
+
+    describe("amountToRpc()", () => {
+        it("Returns numbers for amounts that can be represented exactly", () => {
+            expect(rpcUtil.amountToRpc(BigNumber.from(AMOUNT))).to.equal(AMOUNT);
+            expect(rpcUtil.amountToRpc(Number.MAX_SAFE_INTEGER.toString())).to.equal(Number.MAX_SAFE_INTEGER);
+        });
+
+        it("Returns strings for amounts that can't be represented exactly", () => {
+            expect(rpcUtil.amountToRpc("18446744073709551615")).to.equal("18446744073709551615");
+        });
+    });
+
+    describe("spendBundleToRpc()", () => {
+        it("Is the inverse of parseRpcSpendBundle()", () => {
+            const sb = rpcUtil.parseRpcSpendBundle(spendBundle) as SpendBundle;
+
+            expect(rpcUtil.spendBundleToRpc(sb)).to.deep.equal(spendBundle);
+        });
+    });
+});
\ No newline at end of file
@@ -1,7 +1,10 @@
+import { BigNumber } from "@ethersproject/bignumber";
 import { expect } from "chai";
-import { makeMsg, NodeType } from "../../../../util/serializer/types/outbound_message";
+import { Serializer } from "../../../../util/serializer/serializer";
+import { makeMsg, Message, NodeType } from "../../../../util/serializer/types/outbound_message";
 import { ProtocolMessageTypes } from "../../../../util/serializer/types/protocol_message_types";
 import { Capability, Handshake } from "../../../../util/serializer/types/shared_protocol";
+import { RequestBlockHeader } from "../../../../util/serializer/types/wallet_protocol";
 
 describe("makeMsg()", () => {
     it("Can correctly serialize handshake message", () => {
@@ -23,4 +26,16 @@ describe("makeMsg()", () => {
 
         expect(handshakeMsg.toString("hex")).to.equal(expectedOutput);
     });
+
+    it("Sets the message id if one is given", () => {
+        const request = new RequestBlockHeader();
+        request.height = 42;
+
+        const msg: Message = Serializer.deserialize(
+            Message,
+            makeMsg(ProtocolMessageTypes.request_block_header, request, 1337)
+        );
+
+        expect(BigNumber.from(msg.id).toNumber()).to.equal(1337);
+    });
 });
\ No newline at end of file
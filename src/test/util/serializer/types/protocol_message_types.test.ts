@@ -0,0 +1,30 @@
+import { expect } from "chai";
+import { ProtocolMessageTypes } from "../../../../util/serializer/types/protocol_message_types";
+
+// values from chia/protocols/protocol_message_types.py - nodes ignore messages with the wrong type
+describe("ProtocolMessageTypes", () => {
+    it("Matches the values used by Chia", () => {
+        const expected: Array<[ProtocolMessageTypes, number]> = [
+            [ProtocolMessageTypes.handshake, 1],
+            [ProtocolMessageTypes.new_peak_wallet, 50],
+            [ProtocolMessageTypes.request_header_blocks, 60],
+            [ProtocolMessageTypes.coin_state_update, 69],
+            [ProtocolMessageTypes.respond_ses_hashes, 77],
+            [ProtocolMessageTypes.plot_sync_start, 78],
+            [ProtocolMessageTypes.plot_sync_response, 85],
+            [ProtocolMessageTypes.request_block_headers, 86],
+            [ProtocolMessageTypes.request_fee_estimates, 89],
+            [ProtocolMessageTypes.respond_fee_estimates, 90],
+            [ProtocolMessageTypes.new_unfinished_block2, 92],
+            [ProtocolMessageTypes.request_remove_puzzle_subscriptions, 94],
+            [ProtocolMessageTypes.request_puzzle_state, 98],
+            [ProtocolMessageTypes.reject_coin_state, 103],
+            [ProtocolMessageTypes.mempool_items_added, 104],
+            [ProtocolMessageTypes.respond_cost_info, 107],
+        ];
+
+        for(const [type, value] of expected) {
+            expect(type).to.equal(value);
+        }
+    });
+});
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Serializer } from "../../../../util/serializer/serializer";
 import { assert } from "chai";
-import { SendTransaction } from "../../../../util/serializer/types/wallet_protocol";
+import { CoinStateFilters, FeeEstimate, FeeEstimateGroup, FeeRate, MempoolItemsRemoved, RemovedMempoolItem, RequestPuzzleState, RespondFeeEstimates, SendTransaction, TransactionAck } from "../../../../util/serializer/types/wallet_protocol";
 import { SpendBundle } from "../../../../util/serializer/types/spend_bundle";
 import { Coin } from "../../../../util/serializer/types/coin";
 import { CoinSpend } from "../../../../util/serializer/types/coin_spend";
@@ -91,4 +91,87 @@ describe("Serializer", () => {
             assert.equal(coinSpend.coin.amount, 1.37  * 1000000000000);
         })
     });
+
+    describe("TransactionAck", () => {
+        it("serialize() and deserialize() keep the error string", () => {
+            const expectedOutput = "42".repeat(32) + "03" + "01" + "0000000c" + Buffer.from("DOUBLE_SPEND").toString("hex");
+            const ack: TransactionAck = new TransactionAck();
+            ack.txid = "42".repeat(32);
+            ack.status = 3;
+            ack.error = "DOUBLE_SPEND";
+
+            assert.equal(Serializer.serialize(ack).toString("hex"), expectedOutput);
+
+            const deserialized: TransactionAck = Serializer.deserialize(TransactionAck, Buffer.from(expectedOutput, "hex"));
+            assert.equal(deserialized.txid, "42".repeat(32));
+            assert.equal(deserialized.status.toString(), "3");
+            assert.equal(deserialized.error, "DOUBLE_SPEND");
+        });
+
+        it("serialize() and deserialize() work without an error", () => {
+            const expectedOutput = "42".repeat(32) + "01" + "00";
+            const ack: TransactionAck = new TransactionAck();
+            ack.txid = "42".repeat(32);
+            ack.status = 1;
+            ack.error = null;
+
+            assert.equal(Serializer.serialize(ack).toString("hex"), expectedOutput);
+            assert.isNull(Serializer.deserialize(TransactionAck, Buffer.from(expectedOutput, "hex")).error);
+        });
+    });
+
+    describe("RespondFeeEstimates", () => {
+        it("serialize() and deserialize()", () => {
+            const expectedOutput = "00" + "00000001" + "00" + "000000006553f100" + "0000000000000005";
+            const estimate: FeeEstimate = new FeeEstimate();
+            estimate.error = null;
+            estimate.timeTarget = 1700000000;
+            estimate.estimatedFeeRate = new FeeRate();
+            estimate.estimatedFeeRate.mojosPerClvmCost = 5;
+
+            const resp: RespondFeeEstimates = new RespondFeeEstimates();
+            resp.estimates = new FeeEstimateGroup();
+            resp.estimates.error = null;
+            resp.estimates.estimates = [estimate];
+
+            assert.equal(Serializer.serialize(resp).toString("hex"), expectedOutput);
+
+            const deserialized: RespondFeeEstimates = Serializer.deserialize(RespondFeeEstimates, Buffer.from(expectedOutput, "hex"));
+            assert.isNull(deserialized.estimates.error);
+            assert.equal(deserialized.estimates.estimates[0].timeTarget.toString(), "1700000000");
+            assert.equal(deserialized.estimates.estimates[0].estimatedFeeRate.mojosPerClvmCost.toString(), "5");
+        });
+    });
+
+    describe("RequestPuzzleState", () => {
+        it("serialize()", () => {
+            const req: RequestPuzzleState = new RequestPuzzleState();
+            req.puzzleHashes = ["42".repeat(32)];
+            req.previousHeight = null;
+            req.headerHash = "11".repeat(32);
+            req.filters = new CoinStateFilters();
+            req.filters.includeSpent = true;
+            req.filters.includeUnspent = true;
+            req.filters.includeHinted = false;
+            req.filters.minAmount = 0;
+            req.subscribeWhenFinished = true;
+
+            assert.equal(
+                Serializer.serialize(req).toString("hex"),
+                "00000001" + "42".repeat(32) + "00" + "11".repeat(32) + "01" + "01" + "00" + "00".repeat(8) + "01"
+            );
+        });
+    });
+
+    describe("MempoolItemsRemoved", () => {
+        it("deserialize()", () => {
+            const input = "00000001" + "42".repeat(32) + "02";
+            const deserialized: MempoolItemsRemoved = Serializer.deserialize(MempoolItemsRemoved, Buffer.from(input, "hex"));
+
+            assert.equal(deserialized.removedItems.length, 1);
+            assert.instanceOf(deserialized.removedItems[0], RemovedMempoolItem);
+            assert.equal(deserialized.removedItems[0].transactionId, "42".repeat(32));
+            assert.equal(deserialized.removedItems[0].reason.toString(), "2");
+        });
+    });
 });
\ No newline at end of file
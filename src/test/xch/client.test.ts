@@ -0,0 +1,153 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { expect } from "chai";
+import { Network } from "../../util/network";
+import { XCHClient, XCHModule } from "../../xch";
+import { MultiProvider } from "../../xch/providers/multi";
+import { SimulatorProvider } from "../../xch/providers/simulator";
+
+describe("XCHClient", () => {
+    it("Uses its own provider", async () => {
+        const mainnetClient = new XCHClient(new SimulatorProvider(Network.mainnet));
+        const testnetClient = new XCHClient(new SimulatorProvider(Network.testnet10));
+
+        expect(mainnetClient.getNetworkId()).to.equal(Network.mainnet);
+        expect(testnetClient.getNetworkId()).to.equal(Network.testnet10);
+        expect(XCHModule.provider).to.not.equal(mainnetClient.provider);
+
+        await testnetClient.connect();
+        expect(testnetClient.isConnected()).to.be.true;
+        expect(mainnetClient.isConnected()).to.be.false;
+    });
+
+    it("Receives the events of its provider", async () => {
+        const provider = new SimulatorProvider(Network.testnet10);
+        const client = new XCHClient(provider);
+        const otherClient = new XCHClient(new SimulatorProvider(Network.testnet10));
+
+        const heights: number[] = [];
+        client.on("peak", (peak) => heights.push(peak.height));
+        otherClient.on("peak", () => heights.push(-1));
+
+        await provider.connect();
+        await provider.farmBlock();
+        client.clearProvider();
+        await provider.farmBlock();
+
+        expect(heights).to.deep.equal([0]);
+    });
+
+    it("createProvider() uses the given network", () => {
+        const client = new XCHClient();
+        client.createProvider({ privateKey: "42".repeat(32), network: Network.testnet10 });
+
+        const provider = client.provider as MultiProvider;
+        expect(provider).to.be.instanceOf(MultiProvider);
+        expect(provider.providers[0].getNetworkId()).to.equal(Network.testnet10);
+        expect(XCHModule.provider).to.not.equal(provider);
+    });
+
+    it("Throws if no provider was set", async () => {
+        const client = new XCHClient();
+
+        expect(() => client.getNetworkId()).to.throw("Provider not set!");
+        expect(() => client.watchCoin("testtest")).to.throw("Provider not set!");
+    });
+
+    describe("Block timestamps", () => {
+        const _setup = async (timestamps: number[]): Promise<[SimulatorProvider, XCHClient, number[]]> => {
+            const provider = new SimulatorProvider(Network.testnet10);
+            await provider.connect();
+            for(const timestamp of timestamps) {
+                await provider.farmBlock(null, timestamp);
+            }
+
+            // heights passed to getBlockHeader
+            const requestedHeights: number[] = [];
+            const getBlockHeader = provider.getBlockHeader.bind(provider);
+            provider.getBlockHeader = (args) => {
+                requestedHeights.push(args.height);
+                return getBlockHeader(args);
+            };
+
+            return [provider, new XCHClient(provider), requestedHeights];
+        };
+
+        it("getBlockTimestamp() returns the timestamp of transaction blocks", async () => {
+            const [, client, requestedHeights] = await _setup([1000, 1010, 1020]);
+
+            expect(await client.getBlockTimestamp(1)).to.equal(1010);
+            expect(await client.getBlockTimestamp(1)).to.equal(1010);
+            expect(await client.getBlockTimestamp(3)).to.be.null;
+            expect(requestedHeights).to.deep.equal([1, 3]);
+        });
+
+        it("getBlockTimestamp() uses the last transaction block for other blocks", async () => {
+            const [provider, client] = await _setup([1000, 1010, 1020, 1030]);
+            const getBlockHeader = provider.getBlockHeader;
+            provider.getBlockHeader = async (args) => {
+                const header = await getBlockHeader(args);
+                if(header !== null && args.height % 2 === 1) {
+                    header.isTransactionBlock = false;
+                    header.timestamp = null;
+                }
+
+                return header;
+            };
+
+            expect(await client.getBlockTimestamp(3)).to.equal(1020);
+            expect(await client.getBlockTimestamp(2)).to.equal(1020);
+        });
+
+        it("findHeightForTimestamp() returns the first block at or after the given time", async () => {
+            const [, client] = await _setup([1000, 1000, 1010, 1020, 1030, 1040, 1050, 1060]);
+
+            expect(await client.findHeightForTimestamp(0)).to.equal(0);
+            expect(await client.findHeightForTimestamp(1000)).to.equal(0);
+            expect(await client.findHeightForTimestamp(1001)).to.equal(2);
+            expect(await client.findHeightForTimestamp(1020)).to.equal(3);
+            expect(await client.findHeightForTimestamp(1055)).to.equal(7);
+            expect(await client.findHeightForTimestamp(1060)).to.equal(7);
+            expect(await client.findHeightForTimestamp(1061)).to.be.null;
+        });
+
+        it("Removes cached timestamps above the fork height on rollbacks", async () => {
+            const [provider, client, requestedHeights] = await _setup([1000, 1010, 1020]);
+
+            await client.getBlockTimestamp(1);
+            await client.getBlockTimestamp(2);
+            provider.events.emit("rollback", 1);
+            await client.getBlockTimestamp(1);
+            await client.getBlockTimestamp(2);
+
+            expect(requestedHeights).to.deep.equal([1, 2, 2]);
+        });
+
+        it("Keeps at most maxBlockTimestamps timestamps", async () => {
+            const [, client, requestedHeights] = await _setup([1000, 1010, 1020]);
+            client.maxBlockTimestamps = 2;
+
+            await client.getBlockTimestamp(0);
+            await client.getBlockTimestamp(1);
+            await client.getBlockTimestamp(0);
+            // evicts the timestamp of block 1, which was used least recently
+            await client.getBlockTimestamp(2);
+            await client.getBlockTimestamp(0);
+            await client.getBlockTimestamp(1);
+
+            expect(requestedHeights).to.deep.equal([0, 1, 2, 1]);
+        });
+    });
+
+    it("Is used by XCHModule", () => {
+        const provider = new SimulatorProvider(Network.testnet10);
+        XCHModule.setProvider(provider);
+
+        expect(XCHModule.client).to.be.instanceOf(XCHClient);
+        expect(XCHModule.client.provider).to.equal(provider);
+        expect(XCHModule.events).to.equal(XCHModule.client.events);
+        expect(XCHModule.getNetworkId()).to.equal(Network.testnet10);
+
+        XCHModule.clearProvider();
+        expect(XCHModule.client.provider).to.be.null;
+    });
+});
\ No newline at end of file
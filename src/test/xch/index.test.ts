@@ -5,9 +5,11 @@ import { Network } from "../../util/network";
 import { SpendBundle } from "../../util/serializer/types/spend_bundle";
 import { XCHModule } from "../../xch";
 import { MultiProvider } from "../../xch/providers/multi";
-import { acceptOfferArgs, BlockHeader, changeNetworkArgs, Coin, CoinState, getBalanceArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinAdditionsArgs, getCoinChildrenArgs, getCoinRemovalsArgs, getPuzzleSolutionArgs, Optional, Provider, pushSpendBundleArgs, PuzzleSolution, signCoinSpendsArgs, subscribeToAddressChangesArgs, subscribeToCoinUpdatesArgs, subscribeToPuzzleHashUpdatesArgs, transferArgs, transferCATArgs } from "../../xch/providers/provider";
+import { acceptOfferArgs, BlockHeader, changeNetworkArgs, Coin, CoinState, getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinAdditionsArgs, getCoinChildrenArgs, getCoinRemovalsArgs, getPuzzleSolutionArgs, Optional, Provider, pushSpendBundleArgs, PuzzleSolution, signCoinSpendsArgs, subscribeToAddressChangesArgs, subscribeToCoinUpdatesArgs, subscribeToPuzzleHashUpdatesArgs, Subscription, transferArgs, transferCATArgs, ProviderEventEmitter, ProviderCapabilities, PROVIDER_METHODS } from "../../xch/providers/provider";
 
 class TestProvider implements Provider {
+    public events: ProviderEventEmitter = new ProviderEventEmitter();
+
     async connect(): Promise<void> {
         return;
     }
@@ -20,17 +22,31 @@ class TestProvider implements Provider {
     isConnected(): boolean {
         return true;
     }
+    capabilities(): ProviderCapabilities {
+        return { methods: [...PROVIDER_METHODS], networks: [Network.mainnet], features: [] };
+    }
     async getBlockNumber(): Promise<Optional<number>> {
         return 1337;
     }
     async getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> {
         return BigNumber.from(31337);
     }
-    subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): void {
+    async getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> {
+        return [];
+    }
+    async getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>> {
+        return null;
+    }
+    async getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]> {
+        return [];
+    }
+    subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription {
         args.callback([]);
+        return { unsubscribe: () => null };
     }
-    subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): void {
+    subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription {
         args.callback([])
+        return { unsubscribe: () => null };
     }
     async getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> {
         return null;
@@ -77,10 +93,10 @@ class TestProvider implements Provider {
 }
 
 describe("XCHModule", () => {
-    it("Exposes 4 providers", () => {
+    it("Exposes 12 providers", () => {
         expect(
             Object.keys(XCHModule.providers).length
-        ).to.be.equal(4);
+        ).to.be.equal(12);
     });
 
     it("Exposes its set provider", () => {
@@ -99,6 +115,23 @@ describe("XCHModule", () => {
         expect(XCHModule.provider).to.be.null;
     });
 
+    it("Sets or clears the provider when 'provider' is assigned", () => {
+        const emitted: string[] = [];
+        const subscription = XCHModule.on("addressChanged", (address: string) => emitted.push(address));
+        const provider = new TestProvider();
+
+        XCHModule.provider = provider;
+        expect(XCHModule.provider).to.equal(provider);
+        provider.events.emit("addressChanged", "set");
+
+        XCHModule.provider = null;
+        expect(XCHModule.provider).to.be.null;
+        provider.events.emit("addressChanged", "cleared");
+
+        subscription.unsubscribe();
+        expect(emitted).to.deep.equal(["set"]);
+    });
+
     describe("createProvider()", () => {
         afterEach(() => {
             XCHModule.clearProvider();
@@ -130,6 +163,13 @@ describe("XCHModule", () => {
                 expect(p.providers.length).to.equal(expectedProviderCount);
             });
         }
+
+        it("Enables strict mode for the created providers", () => {
+            XCHModule.createProvider({ useGoby: true, leafletAPIKey: "TEST-API-KEY", strict: true });
+
+            const p = XCHModule.provider as MultiProvider;
+            expect(p.providers.map((provider: any) => provider.strict)).to.deep.equal([true, true]);
+        });
     });
 
     describe("No provider set", () => {
@@ -154,11 +194,21 @@ describe("XCHModule", () => {
         _throwsException("close()", () => XCHModule.close());
         _throwsException("getNetworkId()", () => XCHModule.getNetworkId());
         _throwsException("isConnected()", () => XCHModule.isConnected());
+        _throwsException("capabilities()", () => XCHModule.capabilities());
         _throwsException("getBlockNumber()", () => XCHModule.getBlockNumber());
         _throwsException("getBalance()", () => XCHModule.getBalance({
             address: "xch1k6mv3caj73akwp0ygpqhjpat20mu3akc3f6xdrc5ahcqkynl7ejq2z74n3",
             minHeight: 7,
         }));
+        _throwsException("getUnspentCoins()", () => XCHModule.getUnspentCoins({
+            puzzleHash: "testtest",
+        }));
+        _throwsException("getCoinRecord()", () => XCHModule.getCoinRecord({
+            coinId: "testtest",
+        }));
+        _throwsException("getCoinRecords()", () => XCHModule.getCoinRecords({
+            coinIds: ["testtest"],
+        }));
         _throwsException("subscribeToPuzzleHashUpdates()", () => XCHModule.subscribeToPuzzleHashUpdates({
             puzzleHash: "testtest",
             callback: () => { throw new Error("oops"); },
@@ -214,6 +264,8 @@ describe("XCHModule", () => {
         _throwsException("changeNetwork()", () => XCHModule.changeNetwork({
             network: Network.mainnet,
         }));
+        _throwsException("watchPuzzleHash()", () => XCHModule.watchPuzzleHash("testtest"));
+        _throwsException("watchCoin()", () => XCHModule.watchCoin("testtest"));
     });
 
     describe("TestProvider", () => {
@@ -253,6 +305,11 @@ describe("XCHModule", () => {
             expect(XCHModule.isConnected()).to.equal(true);
         });
 
+        it("capabilities()", () => {
+            expect(XCHModule.capabilities().methods).to.deep.equal(PROVIDER_METHODS);
+            expect(XCHModule.capabilities().networks).to.deep.equal([Network.mainnet]);
+        });
+
         it("getBlockNumber()", async () => {
             expect(await XCHModule.getBlockNumber()).to.equal(1337);
         });
@@ -268,6 +325,24 @@ describe("XCHModule", () => {
             ).to.be.true;
         });
 
+        it("getUnspentCoins()", async () => {
+            expect(
+                await XCHModule.getUnspentCoins({ puzzleHash: "testtest" })
+            ).to.deep.equal([]);
+        });
+
+        it("getCoinRecord()", async () => {
+            expect(
+                await XCHModule.getCoinRecord({ coinId: "testtest" })
+            ).to.be.null;
+        });
+
+        it("getCoinRecords()", async () => {
+            expect(
+                await XCHModule.getCoinRecords({ coinIds: ["testtest"] })
+            ).to.deep.equal([]);
+        });
+
         it("subscribeToPuzzleHashUpdates()", () => {
             let callbackCalled: boolean = false;
             
@@ -290,6 +365,41 @@ describe("XCHModule", () => {
             expect(callbackCalled).to.be.true;
         });
 
+        it("watchPuzzleHash()", async () => {
+            const iterator = XCHModule.watchPuzzleHash("testtest");
+
+            expect(await iterator.next()).to.deep.equal({ value: [], done: false });
+            await iterator.return();
+            expect((await iterator.next()).done).to.be.true;
+        });
+
+        it("watchCoin()", async () => {
+            for await (const coinStates of XCHModule.watchCoin("testtest", 5)) {
+                expect(coinStates).to.deep.equal([]);
+                break;
+            }
+        });
+
+        it("on() & off() receive events from the current provider", () => {
+            const emitted: string[] = [];
+            const listener = (address: string) => emitted.push(address);
+            XCHModule.on("addressChanged", listener);
+
+            const oldProvider = XCHModule.provider as TestProvider;
+            const newProvider = new TestProvider();
+            XCHModule.setProvider(newProvider);
+
+            oldProvider.events.emit("addressChanged", "old");
+            newProvider.events.emit("addressChanged", "new");
+            XCHModule.clearProvider();
+            newProvider.events.emit("addressChanged", "cleared");
+            XCHModule.setProvider(newProvider);
+            XCHModule.off("addressChanged", listener);
+            newProvider.events.emit("addressChanged", "removed");
+
+            expect(emitted).to.deep.equal(["new"]);
+        });
+
         it("getPuzzleSolution()", async () => {
             expect(
                 await XCHModule.getPuzzleSolution({
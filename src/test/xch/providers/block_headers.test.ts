@@ -0,0 +1,139 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { expect } from "chai";
+import { BlockHeader, Optional } from "../../../xch/providers/provider_types";
+import { getBlocksHeadersArgs } from "../../../xch/providers/provider_args";
+import { InvalidArgumentError, ProviderError } from "../../../xch/providers/provider_errors";
+import { fetchChunks, iterateBlockHeaders, splitHeightRange } from "../../../xch/providers/block_headers";
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+const _header = (height: number): BlockHeader => {
+    const header = new BlockHeader();
+    header.height = height;
+    header.headerHash = height.toString(16).padStart(64, "0");
+
+    return header;
+};
+
+describe("block_headers", () => {
+    describe("splitHeightRange()", () => {
+        it("Works", () => {
+            expect(splitHeightRange(0, 99, 32)).to.deep.equal([[0, 31], [32, 63], [64, 95], [96, 99]]);
+            expect(splitHeightRange(10, 10, 32)).to.deep.equal([[10, 10]]);
+            expect(splitHeightRange(10, 9, 32)).to.deep.equal([]);
+        });
+
+        it("Throws InvalidArgumentError if chunkSize is not an integer >= 1", () => {
+            for(const chunkSize of [0, -1, 1.5, NaN, Infinity]) {
+                expect(() => splitHeightRange(0, 99, chunkSize)).to.throw(InvalidArgumentError);
+            }
+        });
+    });
+
+    describe("fetchChunks()", () => {
+        it("Yields results in order and limits the number of calls in flight", async () => {
+            let inFlight: number = 0;
+            let maxInFlight: number = 0;
+
+            const fetch = async (startHeight: number) => {
+                inFlight += 1;
+                maxInFlight = Math.max(maxInFlight, inFlight);
+                await sleep(startHeight % 3 === 0 ? 15 : 1); // some requests take longer
+                inFlight -= 1;
+
+                return startHeight;
+            };
+
+            const results: number[] = [];
+            for await (const result of fetchChunks(splitHeightRange(0, 19, 2), fetch, 3)) {
+                results.push(result);
+            }
+
+            expect(results).to.deep.equal([0, 2, 4, 6, 8, 10, 12, 14, 16, 18]);
+            expect(maxInFlight).to.equal(3);
+        });
+
+        it("Stops making calls if the consumer breaks", async () => {
+            const calls: number[] = [];
+            const fetch = async (startHeight: number) => {
+                calls.push(startHeight);
+                return startHeight;
+            };
+
+            for await (const result of fetchChunks(splitHeightRange(0, 99, 1), fetch, 2)) {
+                if(result === 3) break;
+            }
+
+            expect(calls.length).to.be.lessThan(10);
+        });
+    });
+
+    describe("iterateBlockHeaders()", () => {
+        it("Yields the headers one by one", async () => {
+            const requests: getBlocksHeadersArgs[] = [];
+            const getBlocksHeaders = async (args: getBlocksHeadersArgs): Promise<Optional<BlockHeader[]>> => {
+                requests.push(args);
+
+                const headers: BlockHeader[] = [];
+                for(let height = args.startHeight; height <= args.endHeight; ++height) {
+                    headers.push(_header(height));
+                }
+
+                return headers;
+            };
+
+            const heights: number[] = [];
+            for await (const header of iterateBlockHeaders(getBlocksHeaders, { startHeight: 5, endHeight: 74 })) {
+                heights.push(header.height as number);
+            }
+
+            expect(heights.length).to.equal(70);
+            expect(heights[0]).to.equal(5);
+            expect(heights[69]).to.equal(74);
+            expect(requests).to.deep.equal([
+                { startHeight: 5, endHeight: 36 },
+                { startHeight: 37, endHeight: 68 },
+                { startHeight: 69, endHeight: 74 },
+            ]);
+        });
+
+        it("Throws ProviderError if a chunk can't be fetched", async () => {
+            const getBlocksHeaders = async (args: getBlocksHeadersArgs): Promise<Optional<BlockHeader[]>> =>
+                args.startHeight >= 20 ? null : [_header(args.startHeight)];
+
+            const heights: number[] = [];
+            let error: any;
+            try {
+                for await (const header of iterateBlockHeaders(getBlocksHeaders, { startHeight: 0, endHeight: 39, chunkSize: 10 })) {
+                    heights.push(header.height as number);
+                }
+            } catch(e: any) {
+                error = e;
+            }
+
+            expect(heights).to.deep.equal([0, 10]);
+            expect(error).to.be.instanceOf(ProviderError);
+            expect(error.message).to.equal("Could not fetch the headers of blocks 20-29.");
+        });
+
+        it("Throws InvalidArgumentError if chunkSize or concurrency is not an integer >= 1", async () => {
+            let calls: number = 0;
+            const getBlocksHeaders = async (): Promise<Optional<BlockHeader[]>> => {
+                calls += 1;
+                return [];
+            };
+
+            for(const args of [{ chunkSize: 0 }, { chunkSize: 2.5 }, { concurrency: 0 }, { concurrency: -3 }, { concurrency: 1.5 }]) {
+                let error: any;
+                try {
+                    await iterateBlockHeaders(getBlocksHeaders, { startHeight: 0, endHeight: 9, ...args }).next();
+                } catch(e: any) {
+                    error = e;
+                }
+
+                expect(error).to.be.instanceOf(InvalidArgumentError);
+            }
+            expect(calls).to.equal(0);
+        });
+    });
+});
\ No newline at end of file
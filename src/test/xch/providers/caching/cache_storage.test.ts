@@ -0,0 +1,118 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CacheStorageAdapter, FileCacheStorage, IndexedDBCacheStorage, MemoryCacheStorage } from "../../../../xch/providers/caching";
+
+// minimal in-memory IndexedDB: requests succeed asynchronously, like the real thing
+const _fakeIndexedDB = (): IDBFactory => {
+    const stores: Map<string, Map<string, any>> = new Map();
+
+    const _request = (getResult: () => any): any => {
+        const request: any = { result: undefined, error: null };
+        setTimeout(() => {
+            request.result = getResult();
+            request.onsuccess?.();
+        }, 0);
+
+        return request;
+    };
+
+    const db: any = {
+        createObjectStore: (name: string) => stores.set(name, new Map()),
+        transaction: (name: string) => ({
+            objectStore: () => {
+                const store = stores.get(name)!; // eslint-disable-line @typescript-eslint/no-non-null-assertion
+                return {
+                    get: (key: string) => _request(() => store.get(key)),
+                    put: (value: any, key: string) => _request(() => store.set(key, value)),
+                    clear: () => _request(() => store.clear()),
+                };
+            },
+        }),
+    };
+
+    return {
+        open: () => {
+            const request: any = { result: db, error: null };
+            setTimeout(() => {
+                request.onupgradeneeded?.();
+                request.onsuccess?.();
+            }, 0);
+
+            return request;
+        },
+    } as any;
+};
+
+const _testStorage = (createStorage: () => CacheStorageAdapter) => {
+    it("get() returns the value set with set()", async () => {
+        const storage = createStorage();
+
+        expect(await storage.get("key")).to.be.null;
+        await storage.set("key", "value");
+        expect(await storage.get("key")).to.equal("value");
+        await storage.set("key", "value2");
+        expect(await storage.get("key")).to.equal("value2");
+    });
+
+    it("clear() removes all values", async () => {
+        const storage = createStorage();
+
+        await storage.set("key1", "value1");
+        await storage.set("key2:with/special:characters", "value2");
+        await storage.clear();
+
+        expect(await storage.get("key1")).to.be.null;
+        expect(await storage.get("key2:with/special:characters")).to.be.null;
+    });
+};
+
+describe("MemoryCacheStorage", () => {
+    _testStorage(() => new MemoryCacheStorage());
+
+    it("Evicts the least recently used entries", async () => {
+        const storage = new MemoryCacheStorage(2);
+
+        await storage.set("a", "1");
+        await storage.set("b", "2");
+        await storage.get("a");
+        await storage.set("c", "3");
+
+        expect(storage.size).to.equal(2);
+        expect(await storage.get("a")).to.equal("1");
+        expect(await storage.get("b")).to.be.null;
+        expect(await storage.get("c")).to.equal("3");
+    });
+});
+
+describe("FileCacheStorage", () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "greenweb-")), "cache");
+    });
+
+    afterEach(() => {
+        fs.rmdirSync(path.dirname(directory), { recursive: true });
+    });
+
+    _testStorage(() => new FileCacheStorage(directory));
+
+    it("Persists values across instances", async () => {
+        await new FileCacheStorage(directory).set("key", "value");
+
+        expect(await new FileCacheStorage(directory).get("key")).to.equal("value");
+    });
+
+    it("clear() works if the directory does not exist", async () => {
+        await new FileCacheStorage(directory).clear();
+
+        expect(fs.existsSync(directory)).to.be.false;
+    });
+});
+
+describe("IndexedDBCacheStorage", () => {
+    _testStorage(() => new IndexedDBCacheStorage("greenweb-cache", "cache", _fakeIndexedDB()));
+});
\ No newline at end of file
@@ -0,0 +1,260 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { BigNumber } from "@ethersproject/bignumber";
+import { expect } from "chai";
+import { SExp } from "clvm";
+import { Util } from "../../../../util";
+import { Network } from "../../../../util/network";
+import { CoinSpend } from "../../../../util/serializer/types/coin_spend";
+import { SpendBundle } from "../../../../util/serializer/types/spend_bundle";
+import { SpendModule } from "../../../../spend";
+import { CachingProvider, CacheStorageAdapter, MemoryCacheStorage } from "../../../../xch/providers/caching";
+import { SimulatorProvider } from "../../../../xch/providers/simulator";
+import { Coin } from "../../../../xch/providers/provider_types";
+
+// the puzzle '1' returns its solution - anyone can spend coins locked with it
+const ANYONE_CAN_SPEND_PUZZLE: SExp = Util.sexp.fromHex("01");
+const ANYONE_CAN_SPEND_PUZZLE_HASH: string = Util.sexp.sha256tree(ANYONE_CAN_SPEND_PUZZLE);
+
+const _spend = async (provider: SimulatorProvider, coin: Coin, amount: number): Promise<Coin> => {
+    const coinSpend = new CoinSpend();
+    coinSpend.coin = coin;
+    coinSpend.puzzleReveal = ANYONE_CAN_SPEND_PUZZLE;
+    coinSpend.solution = SExp.to([
+        SpendModule.createCoinCondition(ANYONE_CAN_SPEND_PUZZLE_HASH, amount),
+    ]);
+
+    const sb = new SpendBundle();
+    sb.coinSpends = [coinSpend];
+    sb.aggregatedSignature = "c0" + "00".repeat(95);
+    await provider.pushSpendBundle({ spendBundle: sb });
+
+    const child = new Coin();
+    child.parentCoinInfo = Util.coin.getId(coin);
+    child.puzzleHash = ANYONE_CAN_SPEND_PUZZLE_HASH;
+    child.amount = amount;
+
+    return child;
+};
+
+const _countCalls = (provider: any, methodName: string): { calls: number } => {
+    const counter = { calls: 0 };
+    const original = provider[methodName].bind(provider);
+
+    provider[methodName] = (...args: any[]) => {
+        counter.calls += 1;
+        return original(...args);
+    };
+
+    return counter;
+};
+
+// block 0: reward coins; block 1: coin -> child; block 2: child -> grandchild; blocks 3-4: empty
+const _setup = async (): Promise<[SimulatorProvider, CachingProvider, Coin, Coin]> => {
+    const simulator = new SimulatorProvider(Network.testnet10);
+    await simulator.connect();
+    const header = await simulator.farmBlock(ANYONE_CAN_SPEND_PUZZLE_HASH);
+    const coin: Coin = (await simulator.getCoinAdditions({ height: 0, headerHash: header.headerHash }))![0];
+
+    const child: Coin = await _spend(simulator, coin, 1337);
+    await simulator.farmBlock();
+    await _spend(simulator, child, 42);
+    await simulator.farmBlock();
+    await simulator.farmBlock();
+    await simulator.farmBlock();
+
+    return [simulator, new CachingProvider(simulator, new MemoryCacheStorage(), 2), coin, child];
+};
+
+describe("CachingProvider", () => {
+    it("Uses the events of the wrapped provider and forwards other calls", async () => {
+        const simulator = new SimulatorProvider(Network.testnet10);
+        const provider = new CachingProvider(simulator);
+
+        expect(provider.events).to.equal(simulator.events);
+        expect(provider.isConnected()).to.be.false;
+        await provider.connect();
+        expect(provider.isConnected()).to.be.true;
+        expect(provider.getNetworkId()).to.equal(Network.testnet10);
+        expect(await provider.getBlockNumber()).to.equal(await simulator.getBlockNumber());
+    });
+
+    it("Caches block headers that are deep enough", async () => {
+        const [simulator, provider] = await _setup();
+        const counter = _countCalls(simulator, "getBlockHeader");
+
+        const header = await provider.getBlockHeader({ height: 1 });
+        const cachedHeader = await provider.getBlockHeader({ height: 1 });
+        expect(counter.calls).to.equal(1);
+        expect(cachedHeader!.headerHash).to.equal(header!.headerHash);
+        expect(cachedHeader!.prevBlockHash).to.equal(header!.prevBlockHash);
+        expect(BigNumber.from(cachedHeader!.height).eq(1)).to.be.true;
+
+        // peak is 4 - height 3 might still be reorged
+        await provider.getBlockHeader({ height: 3 });
+        await provider.getBlockHeader({ height: 3 });
+        expect(counter.calls).to.equal(3);
+    });
+
+    it("Caches headers fetched with getBlocksHeaders() individually", async () => {
+        const [simulator, provider] = await _setup();
+        const rangeCounter = _countCalls(simulator, "getBlocksHeaders");
+        const headerCounter = _countCalls(simulator, "getBlockHeader");
+
+        const headers = await provider.getBlocksHeaders({ startHeight: 0, endHeight: 4 });
+        expect(headers!.length).to.equal(5);
+
+        expect((await provider.getBlocksHeaders({ startHeight: 0, endHeight: 2 }))!.length).to.equal(3);
+        expect((await provider.getBlockHeader({ height: 1 }))!.headerHash).to.equal(headers![1].headerHash);
+        expect(rangeCounter.calls).to.equal(1);
+        expect(headerCounter.calls).to.equal(0);
+
+        await provider.getBlocksHeaders({ startHeight: 1, endHeight: 3 });
+        expect(rangeCounter.calls).to.equal(2);
+    });
+
+    it("Caches puzzle solutions", async () => {
+        const [simulator, provider, coin] = await _setup();
+        const counter = _countCalls(simulator, "getPuzzleSolution");
+        const coinId = Util.coin.getId(coin);
+
+        await provider.getPuzzleSolution({ coinId, height: 1 });
+        const puzzleSolution = await provider.getPuzzleSolution({ coinId: "0x" + coinId, height: 1 });
+        expect(counter.calls).to.equal(1);
+        expect(Util.sexp.toHex(puzzleSolution!.puzzle)).to.equal("01");
+        expect(Util.sexp.toHex(puzzleSolution!.solution)).to.equal(
+            Util.sexp.toHex(SExp.to([SpendModule.createCoinCondition(ANYONE_CAN_SPEND_PUZZLE_HASH, 1337)]))
+        );
+
+        // null results are not cached
+        expect(await provider.getPuzzleSolution({ coinId, height: 0 })).to.be.null;
+        expect(await provider.getPuzzleSolution({ coinId, height: 0 })).to.be.null;
+        expect(counter.calls).to.equal(3);
+    });
+
+    it("Caches coin additions and removals by header hash", async () => {
+        const [simulator, provider, coin] = await _setup();
+        const additionsCounter = _countCalls(simulator, "getCoinAdditions");
+        const removalsCounter = _countCalls(simulator, "getCoinRemovals");
+        const header = await simulator.getBlockHeader({ height: 1 });
+
+        await provider.getCoinAdditions({ height: 1, headerHash: header!.headerHash });
+        const additions = await provider.getCoinAdditions({ height: 1, headerHash: header!.headerHash });
+        expect(additions!.length).to.equal(1);
+        expect(BigNumber.from(additions![0].amount).eq(1337)).to.be.true;
+
+        const filtered = await provider.getCoinAdditions({
+            height: 1, headerHash: header!.headerHash, puzzleHashes: ["42".repeat(32)]
+        });
+        expect(filtered!.length).to.equal(0);
+        expect(additionsCounter.calls).to.equal(2);
+
+        await provider.getCoinRemovals({ height: 1, headerHash: header!.headerHash, coinIds: [Util.coin.getId(coin)] });
+        const removals = await provider.getCoinRemovals({
+            height: 1, headerHash: header!.headerHash, coinIds: ["0x" + Util.coin.getId(coin)]
+        });
+        expect(removals!.length).to.equal(1);
+        expect(Util.coin.getId(removals![0])).to.equal(Util.coin.getId(coin));
+        expect(removalsCounter.calls).to.equal(1);
+    });
+
+    it("Only caches coin children if all of them were spent deep enough", async () => {
+        const [simulator, provider, coin, child] = await _setup();
+        const counter = _countCalls(simulator, "getCoinChildren");
+
+        // the child was spent at height 2
+        const children = await provider.getCoinChildren({ coinId: Util.coin.getId(coin) });
+        await provider.getCoinChildren({ coinId: Util.coin.getId(coin) });
+        expect(counter.calls).to.equal(1);
+        expect(children.length).to.equal(1);
+        expect(BigNumber.from(children[0].spentHeight).eq(2)).to.be.true;
+
+        // the grandchild is unspent
+        await provider.getCoinChildren({ coinId: Util.coin.getId(child) });
+        await provider.getCoinChildren({ coinId: Util.coin.getId(child) });
+        expect(counter.calls).to.equal(3);
+    });
+
+    it("Only caches coin records of coins spent deep enough", async () => {
+        const [simulator, provider, coin, child] = await _setup();
+        const recordCounter = _countCalls(simulator, "getCoinRecord");
+        const recordsCounter = _countCalls(simulator, "getCoinRecords");
+        const coinId: string = Util.coin.getId(coin);
+        const childId: string = Util.coin.getId(child);
+
+        // the coin was spent at height 1
+        const coinState = await provider.getCoinRecord({ coinId });
+        expect(BigNumber.from(coinState!.spentHeight).eq(1)).to.be.true;
+        expect((await provider.getCoinRecord({ coinId }))!.coin).to.deep.equal(coinState!.coin);
+        expect(recordCounter.calls).to.equal(1);
+
+        // the child was spent at height 2, which is final with a safety depth of 2 - its grandchild is unspent
+        const grandchildId: string = Util.coin.getId((await simulator.getCoinChildren({ coinId: childId }))[0].coin);
+        const coinStates = await provider.getCoinRecords({ coinIds: [grandchildId, "42".repeat(32), childId, coinId] });
+        expect(coinStates.map((cs) => Util.coin.getId(cs.coin))).to.deep.equal([grandchildId, childId, coinId]);
+        expect(recordsCounter.calls).to.equal(1);
+
+        // only the grandchild isn't cached
+        const originalGetCoinRecords = simulator.getCoinRecords.bind(simulator);
+        let requestedCoinIds: string[] = [];
+        simulator.getCoinRecords = (args) => {
+            requestedCoinIds = args.coinIds;
+            return originalGetCoinRecords(args);
+        };
+        expect(
+            (await provider.getCoinRecords({ coinIds: [coinId, childId, grandchildId] })).map((cs) => Util.coin.getId(cs.coin))
+        ).to.deep.equal([coinId, childId, grandchildId]);
+        expect(requestedCoinIds).to.deep.equal([grandchildId]);
+
+        await provider.getCoinRecords({ coinIds: [coinId, childId] });
+        expect(requestedCoinIds).to.deep.equal([grandchildId]);
+    });
+
+    it("Does not share cached data between networks", async () => {
+        const storage = new MemoryCacheStorage();
+        const [testnetSimulator] = await _setup();
+        await new CachingProvider(testnetSimulator, storage, 2).getBlockHeader({ height: 1 });
+        expect(storage.size).to.equal(1);
+
+        const mainnetSimulator = new SimulatorProvider(Network.mainnet);
+        await mainnetSimulator.connect();
+        for(let i = 0; i < 5; ++i) {
+            await mainnetSimulator.farmBlock();
+        }
+        const counter = _countCalls(mainnetSimulator, "getBlockHeader");
+        const provider = new CachingProvider(mainnetSimulator, storage, 2);
+
+        await provider.getBlockHeader({ height: 1 });
+        await provider.getBlockHeader({ height: 1 });
+        expect(counter.calls).to.equal(1);
+        expect(storage.size).to.equal(2);
+    });
+
+    it("Treats storage errors as cache misses", async () => {
+        const storage: CacheStorageAdapter = {
+            get: async () => { throw new Error("Err"); },
+            set: async () => { throw new Error("Err"); },
+            clear: async () => { throw new Error("Err"); },
+        };
+        const [simulator] = await _setup();
+        const provider = new CachingProvider(simulator, storage, 2);
+
+        expect((await provider.getBlockHeader({ height: 1 }))!.headerHash).to.equal(
+            (await simulator.getBlockHeader({ height: 1 }))!.headerHash
+        );
+    });
+
+    it("encode() and decode() keep BigNumbers and SExps", () => {
+        const decoded = CachingProvider.decode(CachingProvider.encode({
+            amount: BigNumber.from("18446744073709551615"),
+            puzzle: Util.sexp.fromHex("ff0180"),
+            nothing: null,
+        }));
+
+        expect(BigNumber.isBigNumber(decoded.amount)).to.be.true;
+        expect(decoded.amount.toString()).to.equal("18446744073709551615");
+        expect(decoded.puzzle).to.be.instanceOf(SExp);
+        expect(Util.sexp.toHex(decoded.puzzle)).to.equal("ff0180");
+        expect(decoded.nothing).to.be.null;
+    });
+});
\ No newline at end of file
@@ -0,0 +1,93 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { BigNumber } from "@ethersproject/bignumber";
+import { expect } from "chai";
+import { Network } from "../../../../util/network";
+import { Serializer } from "../../../../util/serializer/serializer";
+import { Message } from "../../../../util/serializer/types/outbound_message";
+import { ProtocolMessageTypes } from "../../../../util/serializer/types/protocol_message_types";
+import { Handshake } from "../../../../util/serializer/types/shared_protocol";
+import { FullNodeMessageChannel } from "../../../../xch/providers/full_node_peer";
+import { IWebSocket } from "../../../../xch/providers/leaflet/chia_message_channel";
+import { startStandInServer, TEST_CERT, TEST_KEY } from "./tls_fixtures";
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+describe("FullNodeMessageChannel", () => {
+    it("Uses the peer /ws endpoint instead of the leaflet API key URL", async () => {
+        let usedUrl: string = "";
+        const channel = new FullNodeMessageChannel({
+            host: "localhost",
+            port: 8444,
+            cert: TEST_CERT,
+            key: TEST_KEY,
+            onMessage: () => { },
+            network: Network.mainnet,
+            webSocketCreateFunc: (url: string) => {
+                usedUrl = url;
+                return {
+                    onmessage: null,
+                    onopen: null,
+                    onerror: null,
+                    send: () => { },
+                    close: () => { },
+                    readyState: 0,
+                } as IWebSocket;
+            },
+        });
+
+        expect(channel.isConnected()).to.be.false;
+        channel.connect();
+        await sleep(10);
+
+        expect(channel.isConnected()).to.be.false;
+        expect(usedUrl).to.equal("wss://localhost:8444/ws");
+    });
+
+    it("Connects over mutual TLS and performs the handshake", async () => {
+        const server = await startStandInServer();
+        const receivedMessages: Buffer[] = [];
+
+        const channel = new FullNodeMessageChannel({
+            host: "127.0.0.1",
+            port: server.port,
+            cert: TEST_CERT,
+            key: TEST_KEY,
+            onMessage: (msg) => receivedMessages.push(msg),
+            network: Network.testnet10,
+        });
+
+        try {
+            await channel.connect();
+            expect(channel.isConnected()).to.be.true;
+
+            while(server.received.length === 0) {
+                await sleep(10);
+            }
+
+            expect(server.paths).to.deep.equal(["/ws"]);
+            expect(server.clientCertificates).to.deep.equal(["Organic Farming Division"]);
+
+            const msg: Message = Serializer.deserialize(Message, server.received[0]);
+            expect(BigNumber.from(msg.type).toNumber()).to.equal(ProtocolMessageTypes.handshake);
+            const handshake: Handshake = Serializer.deserialize(Handshake, msg.data);
+            expect(handshake.networkId).to.equal(Network.testnet10);
+            expect(BigNumber.from(handshake.serverPort).toNumber()).to.equal(server.port);
+
+            const reply = new Message();
+            reply.type = ProtocolMessageTypes.handshake;
+            reply.id = null;
+            reply.data = msg.data;
+            server.send(Serializer.serialize(reply));
+
+            while(receivedMessages.length === 0) {
+                await sleep(10);
+            }
+            expect(receivedMessages[0].toString("hex")).to.equal(Serializer.serialize(reply).toString("hex"));
+        } finally {
+            channel.close();
+            await server.close();
+        }
+    });
+});
\ No newline at end of file
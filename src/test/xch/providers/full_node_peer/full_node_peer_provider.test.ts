@@ -0,0 +1,79 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { expect } from "chai";
+import { Network } from "../../../../util/network";
+import { makeMsg } from "../../../../util/serializer/types/outbound_message";
+import { ProtocolMessageTypes } from "../../../../util/serializer/types/protocol_message_types";
+import { NewPeakWallet } from "../../../../util/serializer/types/wallet_protocol";
+import { FullNodePeerProvider } from "../../../../xch/providers/full_node_peer";
+import { FullNodeMessageChannel } from "../../../../xch/providers/full_node_peer/full_node_message_channel";
+import { IWebSocket } from "../../../../xch/providers/leaflet/chia_message_channel";
+import { LeafletProvider } from "../../../../xch/providers/leaflet/leaflet_provider";
+import { startStandInServer, TEST_CERT, TEST_KEY } from "./tls_fixtures";
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+describe("FullNodePeerProvider", () => {
+    it("Is a LeafletProvider that uses a FullNodeMessageChannel", async () => {
+        const p = new FullNodePeerProvider("localhost", TEST_CERT, TEST_KEY);
+
+        expect(p).to.be.instanceOf(LeafletProvider);
+        expect(p.getNetworkId()).to.equal(Network.mainnet);
+        expect(p.isConnected()).to.be.false;
+        expect(await p.getBlockNumber()).to.be.null;
+    });
+
+    it("Uses the default port of the network if no port is given", async () => {
+        const usedUrls: string[] = [];
+        const p = new FullNodePeerProvider("localhost", TEST_CERT, TEST_KEY, undefined, Network.testnet10, (url: string) => {
+            usedUrls.push(url);
+            return {
+                onmessage: null,
+                onopen: null,
+                onerror: null,
+                send: () => null,
+                close: () => null,
+                readyState: 0,
+            } as IWebSocket;
+        });
+
+        p.connect().catch(() => null);
+        await sleep(10);
+
+        expect(usedUrls).to.deep.equal(["wss://localhost:58444/ws"]);
+        await p.close();
+    });
+
+    it("Connects to a full node peer port and tracks its peak", async () => {
+        const server = await startStandInServer();
+        const p = new FullNodePeerProvider("127.0.0.1", TEST_CERT, TEST_KEY, server.port, Network.testnet10);
+
+        try {
+            await p.connect();
+            expect(p.isConnected()).to.be.true;
+
+            while(server.received.length === 0) {
+                await sleep(10);
+            }
+
+            const channel = (p.messageManager as any)._msgChannel;
+            expect(channel).to.be.instanceOf(FullNodeMessageChannel);
+
+            const peak = new NewPeakWallet();
+            peak.headerHash = "00".repeat(32);
+            peak.height = 1337;
+            peak.weight = 1;
+            peak.forkPointWithPreviousPeak = 1336;
+            server.send(makeMsg(ProtocolMessageTypes.new_peak_wallet, peak));
+
+            for(let i = 0; i < 200 && (await p.getBlockNumber()) === null; ++i) {
+                await sleep(10);
+            }
+
+            expect(await p.getBlockNumber()).to.equal(1337);
+            expect(server.paths).to.deep.equal(["/ws"]);
+        } finally {
+            await p.close();
+            await server.close();
+        }
+    }).timeout(5000);
+});
\ No newline at end of file
@@ -0,0 +1,697 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* eslint-disable @typescript-eslint/no-empty-function */
+import { BigNumber } from "@ethersproject/bignumber";
+import { expect } from "chai";
+import { SExp } from "clvm";
+import { Util } from "../../../../util";
+import { AddressUtil } from "../../../../util/address";
+import { Network } from "../../../../util/network";
+import { Coin } from "../../../../util/serializer/types/coin";
+import { CoinSpend } from "../../../../util/serializer/types/coin_spend";
+import { SpendBundle } from "../../../../util/serializer/types/spend_bundle";
+import { FullNodeRpcProvider } from "../../../../xch/providers/full_node_rpc";
+import {
+    InvalidAddressError, InvalidArgumentError, ProviderConnectionError, ProviderTimeoutError, RequestRejectedError, TransactionRejectedError
+} from "../../../../xch/providers/provider_errors";
+import { TEST_CERT, TEST_KEY } from "../full_node_peer/tls_fixtures";
+import { RpcStub, startRpcStub } from "./rpc_stub";
+
+const addressUtil = new AddressUtil();
+
+const _coinJSON = (parent: string, puzzleHash: string, amount: number | string) => ({
+    parent_coin_info: "0x" + parent,
+    puzzle_hash: "0x" + puzzleHash,
+    amount,
+});
+
+const _coinRecordJSON = (coin: any, confirmedBlockIndex: number, spentBlockIndex = 0) => ({
+    coin,
+    coinbase: false,
+    confirmed_block_index: confirmedBlockIndex,
+    spent: spentBlockIndex !== 0,
+    spent_block_index: spentBlockIndex,
+    timestamp: 1337,
+});
+
+const _blockRecordJSON = (height: number, isTransactionBlock: boolean) => ({
+    header_hash: "0x" + height.toString(16).padStart(64, "0"),
+    height,
+    prev_hash: "0x" + (height - 1).toString(16).padStart(64, "0"),
+    timestamp: isTransactionBlock ? 1650000000 + height : null,
+    fees: isTransactionBlock ? height * 10 : null,
+    farmer_puzzle_hash: "0x" + "01".repeat(32),
+    pool_puzzle_hash: "0x" + "02".repeat(32),
+});
+
+describe("FullNodeRpcProvider", () => {
+    let stub: RpcStub;
+    let provider: FullNodeRpcProvider;
+
+    beforeEach(async () => {
+        stub = await startRpcStub();
+        provider = new FullNodeRpcProvider("127.0.0.1", TEST_CERT, TEST_KEY, stub.port, Network.testnet10, { ca: TEST_CERT });
+    });
+
+    afterEach(async () => {
+        await stub.close();
+    });
+
+    describe("connect()", () => {
+        it("Works if the full node responds", async () => {
+            stub.responses["get_blockchain_state"] = { success: true, blockchain_state: { peak: null } };
+
+            expect(provider.isConnected()).to.be.false;
+            await provider.connect();
+            expect(provider.isConnected()).to.be.true;
+
+            await provider.close();
+            expect(provider.isConnected()).to.be.false;
+        });
+
+        it("Emits 'connected' and 'disconnected' events", async () => {
+            stub.responses["get_blockchain_state"] = { success: true, blockchain_state: { peak: null } };
+            const emitted: string[] = [];
+            provider.events.on("connected", () => emitted.push("connected"));
+            provider.events.on("disconnected", () => emitted.push("disconnected"));
+
+            await provider.close();
+            await provider.connect();
+            await provider.close();
+
+            expect(emitted).to.deep.equal(["connected", "disconnected"]);
+        });
+
+        it("Does not report a connection if the full node does not respond", async () => {
+            await provider.connect();
+
+            expect(provider.isConnected()).to.be.false;
+        });
+    });
+
+    describe("getNetworkId()", () => {
+        it("Correctly reports network id when none is provided", () => {
+            const p = new FullNodeRpcProvider("localhost", TEST_CERT, TEST_KEY);
+
+            expect(p.getNetworkId()).to.equal(Network.mainnet);
+        });
+
+        it("Correctly reports network id when one is provided", () => {
+            expect(provider.getNetworkId()).to.equal(Network.testnet10);
+        });
+    });
+
+    describe("capabilities()", () => {
+        it("Reports node methods without subscriptions", () => {
+            const capabilities = provider.capabilities();
+
+            expect(capabilities.methods).to.include.members(["getBalance", "getBlockHeader", "pushSpendBundle"]);
+            expect(capabilities.methods).to.not.include("subscribeToPuzzleHashUpdates");
+            expect(capabilities.networks).to.deep.equal([Network.testnet10]);
+            expect(capabilities.features).to.deep.equal([]);
+        });
+    });
+
+    describe("getBlockNumber()", () => {
+        it("Returns the peak's height", async () => {
+            stub.responses["get_blockchain_state"] = { success: true, blockchain_state: { peak: { height: 1337 } } };
+
+            expect(await provider.getBlockNumber()).to.equal(1337);
+        });
+
+        it("Returns null if the node has no peak", async () => {
+            stub.responses["get_blockchain_state"] = { success: true, blockchain_state: { peak: null } };
+
+            expect(await provider.getBlockNumber()).to.be.null;
+        });
+
+        it("Returns null if the request fails", async () => {
+            expect(await provider.getBlockNumber()).to.be.null;
+        });
+    });
+
+    describe("getBalance()", () => {
+        it("Returns null if neither address nor puzzleHash are supplied", async () => {
+            expect(await provider.getBalance({})).to.be.null;
+        });
+
+        it("Returns null if the supplied address is not valid", async () => {
+            expect(await provider.getBalance({ address: "xch1invalid" })).to.be.null;
+        });
+
+        it("Works if given a puzzle hash", async () => {
+            stub.responses["get_coin_records_by_puzzle_hash"] = "{\"coin_records\": [" +
+                JSON.stringify(_coinRecordJSON(_coinJSON("00".repeat(32), "11".repeat(32), 1337), 1)) + "," +
+                JSON.stringify(_coinRecordJSON(_coinJSON("01".repeat(32), "11".repeat(32), "AMOUNT"), 2))
+                    .replace("\"AMOUNT\"", "18446744073709551615") +
+                "], \"success\": true}";
+
+            const balance = await provider.getBalance({ puzzleHash: "0x" + "11".repeat(32), minHeight: 42 });
+
+            expect(balance?.eq(BigNumber.from("18446744073709551615").add(1337))).to.be.true;
+            expect(stub.requests).to.deep.equal([{
+                endpoint: "get_coin_records_by_puzzle_hash",
+                data: {
+                    puzzle_hash: "0x" + "11".repeat(32),
+                    start_height: 42,
+                    include_spent_coins: false,
+                },
+            }]);
+        });
+
+        it("Works if given an address", async () => {
+            stub.responses["get_coin_records_by_puzzle_hash"] = {
+                success: true,
+                coin_records: [ _coinRecordJSON(_coinJSON("00".repeat(32), "11".repeat(32), 42), 1) ],
+            };
+
+            const balance = await provider.getBalance({
+                address: addressUtil.puzzleHashToAddress("11".repeat(32), "txch")
+            });
+
+            expect(balance?.eq(42)).to.be.true;
+            expect(stub.requests[0].data.puzzle_hash).to.equal("0x" + "11".repeat(32));
+            expect(stub.requests[0].data.start_height).to.equal(1);
+        });
+
+        it("Returns null if the request fails", async () => {
+            expect(await provider.getBalance({ puzzleHash: "11".repeat(32) })).to.be.null;
+        });
+    });
+
+    describe("getUnspentCoins()", () => {
+        it("Returns an empty list if the supplied address is not valid", async () => {
+            expect(await provider.getUnspentCoins({ address: "xch1invalid" })).to.deep.equal([]);
+        });
+
+        it("Works", async () => {
+            const coin = _coinJSON("00".repeat(32), "11".repeat(32), 42);
+            stub.responses["get_coin_records_by_puzzle_hash"] = {
+                success: true,
+                coin_records: [ _coinRecordJSON(coin, 3) ],
+            };
+
+            const result = await provider.getUnspentCoins({ puzzleHash: "11".repeat(32) });
+
+            expect(result.length).to.equal(1);
+            expect(Util.coin.getId(result[0].coin)).to.equal(Util.coin.getId(Util.rpc.parseRpcCoin(coin) as Coin));
+            expect(result[0].createdHeight).to.equal(3);
+            expect(result[0].spentHeight).to.be.null;
+            expect(stub.requests[0].data.include_spent_coins).to.be.false;
+        });
+    });
+
+    describe("getCoinRecords()", () => {
+        it("Correctly handles incorrect coin ids", async () => {
+            expect(await provider.getCoinRecords({ coinIds: ["00"] })).to.deep.equal([]);
+            expect(stub.requests).to.deep.equal([]);
+        });
+
+        it("Returns the coin states in the requested order", async () => {
+            const coin1 = _coinJSON("00".repeat(32), "11".repeat(32), 1);
+            const coin2 = _coinJSON("00".repeat(32), "11".repeat(32), 2);
+            const coinId1: string = Util.coin.getId(Util.rpc.parseRpcCoin(coin1) as Coin);
+            const coinId2: string = Util.coin.getId(Util.rpc.parseRpcCoin(coin2) as Coin);
+            stub.responses["get_coin_records_by_names"] = {
+                success: true,
+                coin_records: [ _coinRecordJSON(coin1, 5), _coinRecordJSON(coin2, 5, 7) ],
+            };
+
+            const result = await provider.getCoinRecords({ coinIds: [coinId2, "33".repeat(32), coinId1] });
+
+            expect(result.map((cs) => Util.coin.getId(cs.coin))).to.deep.equal([coinId2, coinId1]);
+            expect(result[0].spentHeight).to.equal(7);
+            expect(stub.requests[0]).to.deep.equal({
+                endpoint: "get_coin_records_by_names",
+                data: {
+                    names: ["0x" + coinId2, "0x" + "33".repeat(32), "0x" + coinId1],
+                    include_spent_coins: true,
+                },
+            });
+        });
+
+        it("Returns an empty list if the request fails", async () => {
+            expect(await provider.getCoinRecords({ coinIds: ["22".repeat(32)] })).to.deep.equal([]);
+        });
+    });
+
+    describe("getCoinRecord()", () => {
+        it("Returns null if the coin does not exist", async () => {
+            stub.responses["get_coin_records_by_names"] = { success: true, coin_records: [] };
+
+            expect(await provider.getCoinRecord({ coinId: "22".repeat(32) })).to.be.null;
+        });
+    });
+
+    describe("getPuzzleSolution()", () => {
+        it("Returns null if an invalid coinId is given", async () => {
+            expect(await provider.getPuzzleSolution({ coinId: "00", height: 1 })).to.be.null;
+        });
+
+        it("Works", async () => {
+            stub.responses["get_puzzle_and_solution"] = {
+                success: true,
+                coin_solution: {
+                    coin: _coinJSON("00".repeat(32), "11".repeat(32), 1),
+                    puzzle_reveal: "0xff0180",
+                    solution: "0xff8080",
+                },
+            };
+
+            const result = await provider.getPuzzleSolution({ coinId: "0x" + "22".repeat(32), height: 1337 });
+
+            expect(result?.coinName).to.equal("22".repeat(32));
+            expect(result?.height).to.equal(1337);
+            expect(Util.sexp.toHex(result?.puzzle)).to.equal("ff0180");
+            expect(Util.sexp.toHex(result?.solution)).to.equal("ff8080");
+            expect(stub.requests[0]).to.deep.equal({
+                endpoint: "get_puzzle_and_solution",
+                data: { coin_id: "0x" + "22".repeat(32), height: 1337 },
+            });
+        });
+
+        it("Returns null if the request fails", async () => {
+            expect(await provider.getPuzzleSolution({ coinId: "22".repeat(32), height: 1337 })).to.be.null;
+        });
+    });
+
+    describe("getCoinChildren()", () => {
+        it("Correctly handles incorrect coin ids", async () => {
+            expect(await provider.getCoinChildren({ coinId: "00" })).to.deep.equal([]);
+        });
+
+        it("Works", async () => {
+            stub.responses["get_coin_records_by_parent_ids"] = {
+                success: true,
+                coin_records: [
+                    _coinRecordJSON(_coinJSON("22".repeat(32), "11".repeat(32), 1), 5, 7),
+                    _coinRecordJSON(_coinJSON("22".repeat(32), "33".repeat(32), 2), 5),
+                ],
+            };
+
+            const result = await provider.getCoinChildren({ coinId: "22".repeat(32) });
+
+            expect(result.length).to.equal(2);
+            expect(result[0].coin.parentCoinInfo).to.equal("22".repeat(32));
+            expect(result[0].coin.puzzleHash).to.equal("11".repeat(32));
+            expect(BigNumber.from(result[0].coin.amount).eq(1)).to.be.true;
+            expect(result[0].createdHeight).to.equal(5);
+            expect(result[0].spentHeight).to.equal(7);
+            expect(result[1].coin.puzzleHash).to.equal("33".repeat(32));
+            expect(result[1].spentHeight).to.be.null;
+            expect(stub.requests[0].data).to.deep.equal({
+                parent_ids: ["0x" + "22".repeat(32)],
+                include_spent_coins: true,
+            });
+        });
+
+        it("Returns an empty list if the request fails", async () => {
+            expect(await provider.getCoinChildren({ coinId: "22".repeat(32) })).to.deep.equal([]);
+        });
+    });
+
+    describe("getBlockHeader()", () => {
+        it("Works for transaction blocks", async () => {
+            stub.responses["get_block_record_by_height"] = { success: true, block_record: _blockRecordJSON(16, true) };
+
+            const header = await provider.getBlockHeader({ height: 16 });
+
+            expect(header?.height).to.equal(16);
+            expect(header?.headerHash).to.equal("10".padStart(64, "0"));
+            expect(header?.prevBlockHash).to.equal("0f".padStart(64, "0"));
+            expect(header?.isTransactionBlock).to.be.true;
+            expect(header?.fees).to.equal(160);
+            expect(header?.timestamp).to.equal(1650000016);
+            expect(header?.farmerPuzzleHash).to.equal("01".repeat(32));
+            expect(header?.poolPuzzleHash).to.equal("02".repeat(32));
+            expect(stub.requests[0].data).to.deep.equal({ height: 16 });
+        });
+
+        it("Works for non-transaction blocks", async () => {
+            stub.responses["get_block_record_by_height"] = { success: true, block_record: _blockRecordJSON(17, false) };
+
+            const header = await provider.getBlockHeader({ height: 17 });
+
+            expect(header?.isTransactionBlock).to.be.false;
+            expect(header?.fees).to.be.null;
+            expect(header?.timestamp).to.be.null;
+        });
+
+        it("Returns null if the request fails", async () => {
+            expect(await provider.getBlockHeader({ height: 16 })).to.be.null;
+        });
+    });
+
+    describe("getBlocksHeaders()", () => {
+        it("Works", async () => {
+            stub.responses["get_block_records"] = {
+                success: true,
+                block_records: [
+                    _blockRecordJSON(10, true),
+                    _blockRecordJSON(11, false),
+                    _blockRecordJSON(12, true),
+                ],
+            };
+
+            const headers = await provider.getBlocksHeaders({ startHeight: 10, endHeight: 12 });
+
+            expect(headers?.map((h) => h.height)).to.deep.equal([10, 11, 12]);
+            expect(headers?.map((h) => h.isTransactionBlock)).to.deep.equal([true, false, true]);
+            expect(stub.requests[0].data).to.deep.equal({ start: 10, end: 13 });
+        });
+
+        it("Returns null if the request fails", async () => {
+            expect(await provider.getBlocksHeaders({ startHeight: 10, endHeight: 12 })).to.be.null;
+        });
+    });
+
+    const _additionsAndRemovals = {
+        success: true,
+        additions: [
+            _coinRecordJSON(_coinJSON("00".repeat(32), "11".repeat(32), 1), 10),
+            _coinRecordJSON(_coinJSON("00".repeat(32), "33".repeat(32), 2), 10),
+        ],
+        removals: [
+            _coinRecordJSON(_coinJSON("44".repeat(32), "55".repeat(32), 3), 9, 10),
+            _coinRecordJSON(_coinJSON("66".repeat(32), "77".repeat(32), 4), 9, 10),
+        ],
+    };
+
+    describe("getCoinRemovals()", () => {
+        it("Correctly handles an invalid headerHash", async () => {
+            expect(await provider.getCoinRemovals({ height: 10, headerHash: "00" })).to.be.null;
+        });
+
+        it("Correctly handles invalid coinIds", async () => {
+            expect(await provider.getCoinRemovals({
+                height: 10, headerHash: "99".repeat(32), coinIds: ["00"]
+            })).to.be.null;
+        });
+
+        it("Works", async () => {
+            stub.responses["get_additions_and_removals"] = _additionsAndRemovals;
+
+            const result = await provider.getCoinRemovals({ height: 10, headerHash: "99".repeat(32) });
+
+            expect(result?.map((c) => c.parentCoinInfo)).to.deep.equal(["44".repeat(32), "66".repeat(32)]);
+            expect(stub.requests[0].data).to.deep.equal({ header_hash: "0x" + "99".repeat(32) });
+        });
+
+        it("Filters results by coinIds", async () => {
+            stub.responses["get_additions_and_removals"] = _additionsAndRemovals;
+            const coin = new Coin();
+            coin.parentCoinInfo = "66".repeat(32);
+            coin.puzzleHash = "77".repeat(32);
+            coin.amount = 4;
+
+            const result = await provider.getCoinRemovals({
+                height: 10, headerHash: "99".repeat(32), coinIds: [Util.coin.getId(coin)]
+            });
+
+            expect(result?.map((c) => c.parentCoinInfo)).to.deep.equal(["66".repeat(32)]);
+        });
+
+        it("Returns null if the request fails", async () => {
+            expect(await provider.getCoinRemovals({ height: 10, headerHash: "99".repeat(32) })).to.be.null;
+        });
+    });
+
+    describe("getCoinAdditions()", () => {
+        it("Correctly handles an invalid headerHash", async () => {
+            expect(await provider.getCoinAdditions({ height: 10, headerHash: "00" })).to.be.null;
+        });
+
+        it("Correctly handles invalid puzzleHashes", async () => {
+            expect(await provider.getCoinAdditions({
+                height: 10, headerHash: "99".repeat(32), puzzleHashes: ["00"]
+            })).to.be.null;
+        });
+
+        it("Works", async () => {
+            stub.responses["get_additions_and_removals"] = _additionsAndRemovals;
+
+            const result = await provider.getCoinAdditions({ height: 10, headerHash: "99".repeat(32) });
+
+            expect(result?.map((c) => c.puzzleHash)).to.deep.equal(["11".repeat(32), "33".repeat(32)]);
+        });
+
+        it("Filters results by puzzleHashes", async () => {
+            stub.responses["get_additions_and_removals"] = _additionsAndRemovals;
+
+            const result = await provider.getCoinAdditions({
+                height: 10, headerHash: "99".repeat(32), puzzleHashes: ["0x" + "33".repeat(32)]
+            });
+
+            expect(result?.map((c) => c.puzzleHash)).to.deep.equal(["33".repeat(32)]);
+        });
+
+        it("Returns null if the request fails", async () => {
+            expect(await provider.getCoinAdditions({ height: 10, headerHash: "99".repeat(32) })).to.be.null;
+        });
+    });
+
+    describe("pushSpendBundle()", () => {
+        const _spendBundle = (amount: string): SpendBundle => {
+            const coin = new Coin();
+            coin.parentCoinInfo = "00".repeat(32);
+            coin.puzzleHash = "11".repeat(32);
+            coin.amount = BigNumber.from(amount);
+
+            const coinSpend = new CoinSpend();
+            coinSpend.coin = coin;
+            coinSpend.puzzleReveal = SExp.to(1);
+            coinSpend.solution = SExp.to([]);
+
+            const sb = new SpendBundle();
+            sb.coinSpends = [coinSpend];
+            sb.aggregatedSignature = "c0" + "00".repeat(95);
+
+            return sb;
+        };
+
+        it("Sends the spend bundle as JSON", async () => {
+            stub.responses["push_tx"] = { success: true, status: "SUCCESS" };
+
+            expect(await provider.pushSpendBundle({ spendBundle: _spendBundle("1337") })).to.be.true;
+            expect(stub.requests[0]).to.deep.equal({
+                endpoint: "push_tx",
+                data: {
+                    spend_bundle: {
+                        coin_spends: [{
+                            coin: _coinJSON("00".repeat(32), "11".repeat(32), 1337),
+                            puzzle_reveal: "0x01",
+                            solution: "0x80",
+                        }],
+                        aggregated_signature: "0xc0" + "00".repeat(95),
+                    },
+                },
+            });
+        });
+
+        it("Does not lose precision for large amounts", async () => {
+            stub.responses["push_tx"] = { success: true, status: "SUCCESS" };
+
+            await provider.pushSpendBundle({ spendBundle: _spendBundle("18446744073709551615") });
+
+            expect(stub.requests[0].data.spend_bundle.coin_spends[0].coin.amount).to.equal("18446744073709551615");
+        });
+
+        it("Works when response says tx is pending", async () => {
+            stub.responses["push_tx"] = { success: true, status: "PENDING" };
+
+            expect(await provider.pushSpendBundle({ spendBundle: _spendBundle("1") })).to.be.true;
+        });
+
+        it("Works when response says tx failed", async () => {
+            stub.responses["push_tx"] = { success: true, status: "FAILED" };
+
+            expect(await provider.pushSpendBundle({ spendBundle: _spendBundle("1") })).to.be.false;
+        });
+
+        it("Works when the request fails", async () => {
+            stub.responses["push_tx"] = { success: false, error: "Failed to include transaction" };
+
+            expect(await provider.pushSpendBundle({ spendBundle: _spendBundle("1") })).to.be.false;
+        });
+
+        it("Throws TransactionRejectedError in strict mode", async () => {
+            stub.responses["push_tx"] = { success: false, error: "Failed to include transaction" };
+            provider.strict = true;
+
+            let error: any = null;
+            try {
+                await provider.pushSpendBundle({ spendBundle: _spendBundle("1") });
+            } catch(e) {
+                error = e;
+            }
+
+            expect(error).to.be.instanceOf(TransactionRejectedError);
+            expect(error.error).to.equal("Failed to include transaction");
+        });
+
+        it("Emits 'transactionRejected' with the node's error", async () => {
+            stub.responses["push_tx"] = { success: false, error: "Failed to include transaction" };
+            const rejected: Array<[SpendBundle, TransactionRejectedError]> = [];
+            provider.events.on("transactionRejected", (sb, e) => rejected.push([sb, e]));
+
+            const spendBundle: SpendBundle = _spendBundle("1");
+            expect(await provider.pushSpendBundle({ spendBundle })).to.be.false;
+
+            expect(rejected.length).to.equal(1);
+            expect(rejected[0][0]).to.equal(spendBundle);
+            expect(rejected[0][1].error).to.equal("Failed to include transaction");
+
+            stub.responses["push_tx"] = { success: true, status: "FAILED" };
+            expect(await provider.pushSpendBundle({ spendBundle })).to.be.false;
+            expect(rejected.length).to.equal(2);
+            expect(rejected[1][1].error).to.equal("FAILED");
+        });
+    });
+
+    describe("strict mode", () => {
+        const _rejects = async (promise: Promise<any>): Promise<any> => {
+            try {
+                await promise;
+            } catch(e) {
+                return e;
+            }
+
+            return null;
+        };
+
+        beforeEach(() => {
+            provider.strict = true;
+        });
+
+        it("Throws RequestRejectedError if the node does not report success", async () => {
+            const error = await _rejects(provider.getBlockNumber());
+
+            expect(error).to.be.instanceOf(RequestRejectedError);
+            expect(error.request).to.equal("get_blockchain_state");
+            expect(error.reason).to.equal("No such endpoint");
+        });
+
+        it("Throws ProviderConnectionError if the node is unreachable", async () => {
+            const p = new FullNodeRpcProvider("127.0.0.1", TEST_CERT, TEST_KEY, 1, Network.testnet10);
+            p.strict = true;
+
+            expect(await _rejects(p.getBlockNumber())).to.be.instanceOf(ProviderConnectionError);
+        });
+
+        it("Throws ProviderTimeoutError if the node does not respond in time", async () => {
+            const p = new FullNodeRpcProvider(
+                "127.0.0.1", TEST_CERT, TEST_KEY, stub.port, Network.testnet10, { ca: TEST_CERT, timeout: 50 }
+            );
+            p.strict = true;
+            stub.stalledEndpoints.push("get_blockchain_state");
+
+            expect(await _rejects(p.getBlockNumber())).to.be.instanceOf(ProviderTimeoutError);
+        });
+
+        it("Throws InvalidAddressError if the supplied address is not valid", async () => {
+            const error = await _rejects(provider.getBalance({ address: "xch1invalid" }));
+
+            expect(error).to.be.instanceOf(InvalidAddressError);
+            expect(error.address).to.equal("xch1invalid");
+        });
+
+        it("Throws InvalidAddressError if the address is for another network", async () => {
+            const address: string = addressUtil.puzzleHashToAddress("11".repeat(32), "xch");
+
+            expect(await _rejects(provider.getBalance({ address }))).to.be.instanceOf(InvalidAddressError);
+            expect(stub.requests.length).to.equal(0);
+        });
+
+        it("Throws InvalidArgumentError if an invalid coinId is given", async () => {
+            expect(await _rejects(provider.getPuzzleSolution({ coinId: "test", height: 5 }))).to.be.instanceOf(InvalidArgumentError);
+        });
+    });
+
+    const _throwsNotImplemented = (func: any) => {
+        it("Throws 'not implemented' error.", async () => {
+            let errOk: boolean = false;
+
+            try {
+                await func(provider);
+            } catch(e: any) {
+                errOk = e.message === "FullNodeRpcProvider does not implement this method.";
+            }
+
+            expect(errOk).to.be.true;
+        });
+    };
+
+    describe("subscribeToPuzzleHashUpdates()", () => {
+        _throwsNotImplemented(
+            (p: FullNodeRpcProvider) => p.subscribeToPuzzleHashUpdates({
+                puzzleHash: "11".repeat(32),
+                callback: () => { }
+            })
+        );
+    });
+
+    describe("subscribeToCoinUpdates()", () => {
+        _throwsNotImplemented(
+            (p: FullNodeRpcProvider) => p.subscribeToCoinUpdates({
+                coinId: "11".repeat(32),
+                callback: () => { }
+            })
+        );
+    });
+
+    describe("getAddress()", () => {
+        _throwsNotImplemented(
+            (p: FullNodeRpcProvider) => p.getAddress()
+        );
+    });
+
+    describe("transfer()", () => {
+        _throwsNotImplemented(
+            (p: FullNodeRpcProvider) => p.transfer({
+                to: "xch1k6mv3caj73akwp0ygpqhjpat20mu3akc3f6xdrc5ahcqkynl7ejq2z74n3",
+                value: 1337
+            })
+        );
+    });
+
+    describe("transferCAT()", () => {
+        _throwsNotImplemented(
+            (p: FullNodeRpcProvider) => p.transferCAT({
+                to: "xch1k6mv3caj73akwp0ygpqhjpat20mu3akc3f6xdrc5ahcqkynl7ejq2z74n3",
+                assetId: "00".repeat(32),
+                value: 1337
+            })
+        );
+    });
+
+    describe("acceptOffer()", () => {
+        _throwsNotImplemented(
+            (p: FullNodeRpcProvider) => p.acceptOffer({
+                offer: "offer12345"
+            })
+        );
+    });
+
+    describe("subscribeToAddressChanges()", () => {
+        _throwsNotImplemented(
+            (p: FullNodeRpcProvider) => p.subscribeToAddressChanges({
+                callback: () => { }
+            })
+        );
+    });
+
+    describe("signCoinSpends()", () => {
+        _throwsNotImplemented(
+            (p: FullNodeRpcProvider) => p.signCoinSpends({
+                coinSpends: []
+            })
+        );
+    });
+
+    describe("changeNetwork()", () => {
+        _throwsNotImplemented(
+            (p: FullNodeRpcProvider) => p.changeNetwork({
+                network: Network.testnet10
+            })
+        );
+    });
+});
\ No newline at end of file
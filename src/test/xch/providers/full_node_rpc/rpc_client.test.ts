@@ -0,0 +1,215 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { BigNumber } from "@ethersproject/bignumber";
+import { expect } from "chai";
+import { RpcClient } from "../../../../xch/providers/full_node_rpc";
+import { ProviderConnectionError, ProviderTimeoutError, RequestRejectedError } from "../../../../xch/providers/provider_errors";
+import { OTHER_CA_CERT, TEST_CERT, TEST_KEY } from "../full_node_peer/tls_fixtures";
+import { RpcStub, startRpcStub } from "./rpc_stub";
+
+describe("RpcClient", () => {
+    let stub: RpcStub;
+    let client: RpcClient;
+
+    beforeEach(async () => {
+        stub = await startRpcStub();
+        client = new RpcClient({
+            host: "127.0.0.1",
+            port: stub.port,
+            cert: TEST_CERT,
+            key: TEST_KEY,
+            ca: TEST_CERT,
+        });
+    });
+
+    afterEach(async () => {
+        await stub.close();
+    });
+
+    describe("call()", () => {
+        it("POSTs the given data to the endpoint and returns the response", async () => {
+            stub.responses["get_blockchain_state"] = { success: true, blockchain_state: { peak: null } };
+
+            const resp = await client.call("get_blockchain_state", { test: 1 });
+
+            expect(resp).to.deep.equal({ success: true, blockchain_state: { peak: null } });
+            expect(stub.requests).to.deep.equal([{ endpoint: "get_blockchain_state", data: { test: 1 } }]);
+            expect(stub.clientCertificates).to.deep.equal(["Organic Farming Division"]);
+        });
+
+        it("Sends an empty object if no data is given", async () => {
+            stub.responses["healthz"] = { success: true };
+
+            expect(await client.call("healthz")).to.not.be.null;
+            expect(stub.requests[0].data).to.deep.equal({});
+        });
+
+        it("Returns null if the response does not report success", async () => {
+            stub.responses["push_tx"] = { success: false, error: "nope" };
+
+            expect(await client.call("push_tx")).to.be.null;
+        });
+
+        it("Returns null if the response is not valid JSON", async () => {
+            stub.responses["push_tx"] = "not json";
+
+            expect(await client.call("push_tx")).to.be.null;
+        });
+
+        it("Returns null if the service is unreachable", async () => {
+            const unreachableClient = new RpcClient({
+                host: "127.0.0.1",
+                port: 1,
+                cert: TEST_CERT,
+                key: TEST_KEY,
+            });
+
+            expect(await unreachableClient.call("get_blockchain_state")).to.be.null;
+        });
+
+        it("Returns null if the service does not respond in time", async () => {
+            const impatientClient = new RpcClient({
+                host: "127.0.0.1",
+                port: stub.port,
+                cert: TEST_CERT,
+                key: TEST_KEY,
+                ca: TEST_CERT,
+                timeout: 50,
+            });
+            stub.stalledEndpoints.push("get_blockchain_state");
+
+            expect(await impatientClient.call("get_blockchain_state")).to.be.null;
+        });
+
+        it("Does not lose precision for large amounts", async () => {
+            stub.responses["get_coin_record_by_name"] =
+                "{\"coin_record\": {\"coin\": {\"amount\": 18446744073709551615}}, \"success\": true}";
+
+            const resp = await client.call("get_coin_record_by_name");
+
+            expect(
+                BigNumber.from(resp.coin_record.coin.amount).eq("18446744073709551615")
+            ).to.be.true;
+        });
+    });
+
+    describe("request()", () => {
+        const _rejects = async (promise: Promise<any>): Promise<any> => {
+            try {
+                await promise;
+            } catch(e) {
+                return e;
+            }
+
+            return null;
+        };
+
+        it("Returns the response if the service reports success", async () => {
+            stub.responses["healthz"] = { success: true };
+
+            expect(await client.request("healthz")).to.deep.equal({ success: true });
+        });
+
+        it("Throws RequestRejectedError if the response does not report success", async () => {
+            stub.responses["push_tx"] = { success: false, error: "Failed to include transaction" };
+
+            const error = await _rejects(client.request("push_tx"));
+            expect(error).to.be.instanceOf(RequestRejectedError);
+            expect(error.request).to.equal("push_tx");
+            expect(error.reason).to.equal("Failed to include transaction");
+        });
+
+        it("Throws ProviderConnectionError if the service is unreachable", async () => {
+            const unreachableClient = new RpcClient({
+                host: "127.0.0.1",
+                port: 1,
+                cert: TEST_CERT,
+                key: TEST_KEY,
+            });
+
+            const error = await _rejects(unreachableClient.request("get_blockchain_state"));
+            expect(error).to.be.instanceOf(ProviderConnectionError);
+        });
+
+        it("Throws ProviderTimeoutError if the service does not respond in time", async () => {
+            const impatientClient = new RpcClient({
+                host: "127.0.0.1",
+                port: stub.port,
+                cert: TEST_CERT,
+                key: TEST_KEY,
+                ca: TEST_CERT,
+                timeout: 50,
+            });
+            stub.stalledEndpoints.push("get_blockchain_state");
+
+            const startTime: number = Date.now();
+            const error = await _rejects(impatientClient.request("get_blockchain_state"));
+            expect(error).to.be.instanceOf(ProviderTimeoutError);
+            expect(error.message).to.equal("RPC request 'get_blockchain_state' timed out.");
+            expect(Date.now() - startTime).to.be.lessThan(1000);
+        });
+
+        it("Throws ProviderConnectionError if the certificate is not signed by the given CA", async () => {
+            const otherCaClient = new RpcClient({
+                host: "127.0.0.1",
+                port: stub.port,
+                cert: TEST_CERT,
+                key: TEST_KEY,
+                ca: OTHER_CA_CERT,
+            });
+            stub.responses["healthz"] = { success: true };
+
+            const error = await _rejects(otherCaClient.request("healthz"));
+            expect(error).to.be.instanceOf(ProviderConnectionError);
+            expect(stub.requests.length).to.equal(0);
+        });
+
+        it("Throws ProviderConnectionError if no CA is given and the certificate is not trusted by the system", async () => {
+            const noCaClient = new RpcClient({
+                host: "127.0.0.1",
+                port: stub.port,
+                cert: TEST_CERT,
+                key: TEST_KEY,
+            });
+            stub.responses["healthz"] = { success: true };
+
+            const error = await _rejects(noCaClient.request("healthz"));
+            expect(error).to.be.instanceOf(ProviderConnectionError);
+            expect(error.message).to.include("self");
+        });
+
+        it("Accepts any certificate if insecure is set", async () => {
+            const insecureClient = new RpcClient({
+                host: "127.0.0.1",
+                port: stub.port,
+                cert: TEST_CERT,
+                key: TEST_KEY,
+                insecure: true,
+            });
+            stub.responses["healthz"] = { success: true };
+
+            expect(await insecureClient.request("healthz")).to.deep.equal({ success: true });
+        });
+    });
+
+    describe("quoteBigIntegers()", () => {
+        it("Only quotes integers that can't be represented exactly", () => {
+            expect(
+                RpcClient.quoteBigIntegers("{\"a\": 1337, \"b\": [12345678901234567890,1], \"c\": \"12345678901234567890\"}")
+            ).to.equal("{\"a\": 1337, \"b\": [\"12345678901234567890\",1], \"c\": \"12345678901234567890\"}");
+        });
+
+        it("Does not modify numbers inside strings", () => {
+            const json: string = JSON.stringify({
+                memo: "paid, 12345678901234567890]",
+                error: "coin \"x\": 12345678901234567890, spent",
+                amount: 1,
+            }).replace("1}", "12345678901234567890}");
+
+            expect(JSON.parse(RpcClient.quoteBigIntegers(json))).to.deep.equal({
+                memo: "paid, 12345678901234567890]",
+                error: "coin \"x\": 12345678901234567890, spent",
+                amount: "12345678901234567890",
+            });
+        });
+    });
+});
\ No newline at end of file
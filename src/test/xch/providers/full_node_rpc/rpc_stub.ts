@@ -0,0 +1,57 @@
+import https from "https";
+import { AddressInfo } from "net";
+import { TLSSocket } from "tls";
+import { TEST_CERT, TEST_KEY } from "../full_node_peer/tls_fixtures";
+
+export type RpcStub = {
+    port: number,
+    requests: Array<{ endpoint: string, data: any }>,
+    // endpoint => response object (or raw response text)
+    responses: { [endpoint: string]: any },
+    clientCertificates: string[],
+    stalledEndpoints: string[], // never answered
+    close: () => Promise<void>,
+};
+
+// local HTTPS server that stands in for a chia service's RPC
+export const startRpcStub = async (): Promise<RpcStub> => {
+    const requests: Array<{ endpoint: string, data: any }> = [];
+    const responses: { [endpoint: string]: any } = {};
+    const clientCertificates: string[] = [];
+    const stalledEndpoints: string[] = [];
+
+    const server = https.createServer({
+        cert: TEST_CERT,
+        key: TEST_KEY,
+        requestCert: true,
+        rejectUnauthorized: false,
+    }, (req, res) => {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk: Buffer) => chunks.push(chunk));
+        req.on("end", () => {
+            const endpoint: string = (req.url ?? "").slice(1);
+            requests.push({ endpoint, data: JSON.parse(Buffer.concat(chunks).toString()) });
+
+            const peerCertificate = (req.socket as TLSSocket).getPeerCertificate();
+            clientCertificates.push(peerCertificate?.subject?.OU ?? "");
+            if(stalledEndpoints.includes(endpoint)) {
+                return;
+            }
+
+            const resp = responses[endpoint] ?? { success: false, error: "No such endpoint" };
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(typeof resp === "string" ? resp : JSON.stringify(resp));
+        });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+
+    return {
+        port: (server.address() as AddressInfo).port,
+        requests,
+        responses,
+        clientCertificates,
+        stalledEndpoints,
+        close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    };
+};
\ No newline at end of file
@@ -4,6 +4,9 @@ import { Util } from "../../../../util";
 import { Network } from "../../../../util/network";
 import { SpendBundle } from "../../../../util/serializer/types/spend_bundle";
 import { GobyProvider } from "../../../../xch/providers/goby/goby_provider";
+import {
+    InvalidArgumentError, ProviderConnectionError, RequestRejectedError, UserRejectedError
+} from "../../../../xch/providers/provider_errors";
 
 const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
 
@@ -687,6 +690,77 @@ describe("GobyProvider", () => {
         });
     });
 
+    describe("capabilities()", () => {
+        it("Reports wallet methods, supported networks and user approval", () => {
+            const p = new GobyProvider(
+                false,
+                {
+                    isGoby: true,
+                    request: async ({ method, params }: { method: string, params?: any }) => {
+                        // do nothing
+                    },
+                    on: (event: string, callback: any) => {
+                        // do nothing
+                    }
+                }
+            );
+            const capabilities = p.capabilities();
+
+            expect(capabilities.methods).to.include.members(["getAddress", "transfer", "changeNetwork"]);
+            expect(capabilities.methods).to.not.include("getBalance");
+            expect(capabilities.networks).to.deep.equal([Network.mainnet, Network.testnet10]);
+            expect(capabilities.features).to.deep.equal(["signing", "userApproval"]);
+        });
+    });
+
+    describe("events", () => {
+        it("Emits connection, address and network events", async () => {
+            let accountsChangedCallback: any;
+            let chainChangedCallback: any;
+            const emitted: string[] = [];
+
+            const p = new GobyProvider(
+                false,
+                {
+                    isGoby: true,
+                    request: async ({ method, params }: { method: string, params?: any }) => {
+                        if(method === "requestAccounts") {
+                            return ["xch1k6mv3caj73akwp0ygpqhjpat20mu3akc3f6xdrc5ahcqkynl7ejq2z74n3"];
+                        }
+                        return [];
+                    },
+                    on: async (event: string, callback: any) => {
+                        if(event === "accountsChanged") {
+                            accountsChangedCallback = callback;
+                        }
+                        if(event === "chainChanged") {
+                            chainChangedCallback = callback;
+                        }
+                    }
+                }
+            );
+            p.events.on("connected", () => emitted.push("connected"));
+            p.events.on("disconnected", () => emitted.push("disconnected"));
+            p.events.on("addressChanged", (address) => emitted.push("addressChanged:" + address));
+            p.events.on("networkChanged", (network) => emitted.push("networkChanged:" + network));
+
+            await p.connect();
+            await chainChangedCallback("0x02");
+            await accountsChangedCallback(["testAddress"]);
+            await accountsChangedCallback(["testAddress"]);
+            await p.close();
+
+            expect(emitted).to.deep.equal([
+                "connected",
+                "addressChanged:xch1k6mv3caj73akwp0ygpqhjpat20mu3akc3f6xdrc5ahcqkynl7ejq2z74n3",
+                "networkChanged:testnet10",
+                "addressChanged:testAddress",
+                "addressChanged:",
+                "disconnected",
+            ]);
+        });
+    });
+
     const _expectNotImplError = (funcName: string, func: (p: GobyProvider) => any) => {
         describe(funcName, () => {
             it("Throws 'not implemented' error", async () => {
@@ -1277,4 +1351,75 @@ describe("GobyProvider", () => {
             });
         }
     });
+
+    describe("strict mode", () => {
+        const _connectedProvider = (request: (method: string) => any) => {
+            const p = new GobyProvider(
+                false,
+                {
+                    isGoby: true,
+                    request: async ({ method, params }: { method: string, params?: any }) => {
+                        if(method === "requestAccounts") {
+                            return ["xch1k6mv3caj73akwp0ygpqhjpat20mu3akc3f6xdrc5ahcqkynl7ejq2z74n3"];
+                        }
+                        return request(method);
+                    },
+                    on: async (event: string, callback: any) => {
+                        // do nothing
+                    }
+                }
+            );
+            p.strict = true;
+
+            return p;
+        };
+
+        const _rejects = async (promise: Promise<any>): Promise<any> => {
+            try {
+                await promise;
+            } catch(e) {
+                return e;
+            }
+
+            return null;
+        };
+
+        it("Throws ProviderConnectionError if not connected", async () => {
+            const p = _connectedProvider(() => null);
+
+            const error = await _rejects(p.transfer({ to: "xch1k6mv3caj73akwp0ygpqhjpat20mu3akc3f6xdrc5ahcqkynl7ejq2z74n3", value: 1 }));
+            expect(error).to.be.instanceOf(ProviderConnectionError);
+        });
+
+        it("Throws UserRejectedError if the user rejects the request (code 4001)", async () => {
+            const p = _connectedProvider(() => {
+                throw Object.assign(new Error("User rejected the request."), { code: 4001 });
+            });
+            await p.connect();
+
+            const error = await _rejects(p.acceptOffer({ offer: THE_OFFER }));
+            expect(error).to.be.instanceOf(UserRejectedError);
+            expect(error.message).to.equal("User rejected the request.");
+        });
+
+        it("Throws RequestRejectedError for other errors", async () => {
+            const p = _connectedProvider(() => {
+                throw new Error("oops");
+            });
+            await p.connect();
+
+            const error = await _rejects(p.changeNetwork({ network: Network.testnet10 }));
+            expect(error).to.be.instanceOf(RequestRejectedError);
+            expect(error.request).to.equal("walletSwitchChain");
+            expect(error.reason).to.equal("oops");
+        });
+
+        it("Throws InvalidArgumentError for unsupported networks", async () => {
+            const p = _connectedProvider(() => null);
+            await p.connect();
+
+            const error = await _rejects(p.changeNetwork({ network: Network.testnet7 }));
+            expect(error).to.be.instanceOf(InvalidArgumentError);
+        });
+    });
 });
\ No newline at end of file
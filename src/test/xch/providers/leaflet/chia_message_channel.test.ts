@@ -176,6 +176,63 @@ describe("ChiaMessageChannel", () => {
     
             expect(msgChannel.isConnected()).to.be.false;
         });
+
+        it("Calls onClose if the connection is lost, but not after close()", async () => {
+            let closeCalls: number = 0;
+    
+            const obj: IWebSocket = {
+                onmessage: null,
+                onopen: () => { },
+                send: () => { },
+                close: () => { },
+                onerror: () => { },
+                onclose: null,
+                readyState: WebSocket.CONNECTING
+            };
+            const msgChannel: ChiaMessageChannel = new ChiaMessageChannel({
+                host: "host",
+                port: 1337,
+                apiKey: "API-KEY",
+                onMessage: () => { },
+                onClose: () => { closeCalls += 1; },
+                network: Network.mainnet,
+                webSocketCreateFunc: () => obj
+            });
+    
+            const opener = async () => {
+                while(obj.onmessage === null) {
+                    await sleep(20);
+                }
+    
+                obj.readyState = WebSocket.OPEN;
+                obj.onopen?.("hey");
+            };
+    
+            await Promise.all([
+                msgChannel.connect(),
+                opener()
+            ]);
+            expect(msgChannel.isConnected()).to.be.true;
+    
+            obj.readyState = WebSocket.CLOSED;
+            obj.onclose?.("closed");
+    
+            expect(msgChannel.isConnected()).to.be.false;
+            expect(closeCalls).to.equal(1);
+    
+            obj.onmessage = null;
+            obj.readyState = WebSocket.CONNECTING;
+            await Promise.all([
+                msgChannel.connect(),
+                opener()
+            ]);
+    
+            const onclose = obj.onclose;
+            msgChannel.close();
+            onclose?.("closed");
+    
+            expect(closeCalls).to.equal(1);
+        });
     });
 
     describe("sendMessage()", () => {
@@ -5,12 +5,13 @@
 import { BigNumber } from "@ethersproject/bignumber";
 import { expect } from "chai";
 import { SExp } from "clvm";
+import { Util } from "../../../../util";
 import { AddressUtil } from "../../../../util/address";
 import { CoinUtil } from "../../../../util/coin";
-import { Network } from "../../../../util/network";
+import { Network, NetworkUtil } from "../../../../util/network";
 import { Serializer } from "../../../../util/serializer/serializer";
 import { Coin } from "../../../../util/serializer/types/coin";
-import { Foliage, FoliageBlockData, TransactionsInfo } from "../../../../util/serializer/types/foliage";
+import { Foliage, FoliageBlockData, FoliageTransactionBlock, TransactionsInfo } from "../../../../util/serializer/types/foliage";
 import { HeaderBlock } from "../../../../util/serializer/types/header_block";
 import { Message, NodeType } from "../../../../util/serializer/types/outbound_message";
 import { PoolTarget } from "../../../../util/serializer/types/pool_target";
@@ -20,11 +21,13 @@ import { RewardChainBlock } from "../../../../util/serializer/types/reward_chain
 import { Capability, Handshake } from "../../../../util/serializer/types/shared_protocol";
 import { SpendBundle } from "../../../../util/serializer/types/spend_bundle";
 import { VDFInfo, VDFProof } from "../../../../util/serializer/types/vdf";
-import { CoinState, NewPeakWallet, PuzzleSolutionResponse, RejectAdditionsRequest, RejectHeaderBlocks, RejectHeaderRequest, RejectPuzzleSolution, RejectRemovalsRequest, RespondAdditions, RespondBlockHeader, RespondChildren, RespondHeaderBlocks, RespondRemovals, RespondToCoinUpdates, RespondToPhUpdates, TransactionAck } from "../../../../util/serializer/types/wallet_protocol";
+import { CoinState, CoinStateUpdate, NewPeakWallet, PuzzleSolutionResponse, RegisterForCoinUpdates, RejectAdditionsRequest, RejectHeaderBlocks, RejectHeaderRequest, RejectPuzzleSolution, RejectRemovalsRequest, RequestHeaderBlocks, RespondAdditions, RespondBlockHeader, RespondChildren, RespondHeaderBlocks, RespondRemovals, RespondToCoinUpdates, RespondToPhUpdates, TransactionAck, FeeEstimate, FeeEstimateGroup, FeeRate, RequestFeeEstimates, RespondFeeEstimates, RequestPuzzleState, RespondPuzzleState, RejectPuzzleState, RequestCoinState, RespondCoinState, RejectCoinState, RejectStateReason, RequestRemoveCoinSubscriptions, RequestRemovePuzzleSubscriptions } from "../../../../util/serializer/types/wallet_protocol";
 import { getSoftwareVersion } from "../../../../util/software_version";
 import { LeafletProvider } from "../../../../xch/providers/leaflet";
+import { getBlocksHeadersArgs } from "../../../../xch/providers/provider_args";
 import { IWebSocket } from "../../../../xch/providers/leaflet/chia_message_channel";
 import { Optional, PuzzleSolution } from "../../../../xch/providers/provider_types";
+import { InvalidAddressError, InvalidArgumentError, InvalidProofError, MethodNotSupportedError, ProviderConnectionError, ProviderError, RequestRejectedError, TransactionRejectedError } from "../../../../xch/providers/provider_errors";
 
 const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
 
@@ -35,7 +38,7 @@ describe("LeafletProvider", function () {
     this.timeout(4000);
 
     let openProvider: LeafletProvider;
-    const _setup: (onMessageSent: (msg: Message) => void) => Promise<[LeafletProvider, (msg: Message) => void]> =
+    const _setup: (onMessageSent: (msg: Message) => void) => Promise<[LeafletProvider, (msg: Message) => void, () => Promise<void>]> =
         async (onMessageSent) => {
             const obj: IWebSocket = {
                 onmessage: null,
@@ -72,8 +75,18 @@ describe("LeafletProvider", function () {
                 data: Serializer.serialize(msg)
             });
 
+            const reconnect = async () => {
+                obj.onmessage = null;
+                obj.readyState = WebSocket.CONNECTING;
+
+                await Promise.all([
+                    provider.connect(),
+                    opener()
+                ]);
+            };
+
             openProvider = provider;
-            return [provider, sendMessage]
+            return [provider, sendMessage, reconnect]
         };
 
     afterEach(async () => {
@@ -142,6 +155,53 @@ describe("LeafletProvider", function () {
             ).to.equal(Capability.BASE);
             expect(handshake.capabilities[0][1]).to.equal("1");
         });
+
+        it("Emits a 'disconnected' event when closed", async () => {
+            const [provider] = await _setup(() => {});
+            let disconnectedEvents: number = 0;
+            provider.events.on("disconnected", () => { disconnectedEvents += 1; });
+
+            await provider.close();
+            await provider.close();
+
+            expect(disconnectedEvents).to.equal(1);
+        });
+
+        it("Handles pushed messages only once after reconnecting", async () => {
+            const puzzHash = "42".repeat(32);
+            const [coinState1] = _getMockCoinStates(puzzHash);
+            const [provider, sendMessage, reconnect] = await _setup(() => {});
+
+            await provider.close();
+            await reconnect();
+            expect(provider.isConnected()).to.be.true;
+
+            let callbackCalls: number = 0;
+            let coinStateEvents: number = 0;
+            let peakEvents: number = 0;
+            provider.subscribeToPuzzleHashUpdates({
+                puzzleHash: puzzHash,
+                callback: () => { callbackCalls += 1; }
+            });
+            provider.events.on("coinState", () => { coinStateEvents += 1; });
+            provider.events.on("peak", () => { peakEvents += 1; });
+
+            const update: CoinStateUpdate = new CoinStateUpdate();
+            update.height = 7;
+            update.forkHeight = 6;
+            update.peakHash = "07".repeat(32);
+            update.items = [coinState1];
+
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.coin_state_update;
+            msg.id = null;
+            msg.data = Serializer.serialize(update).toString("hex");
+            sendMessage(msg);
+
+            expect(callbackCalls).to.equal(1);
+            expect(coinStateEvents).to.equal(1);
+            expect(peakEvents).to.equal(1);
+        });
     });
 
     describe("getNetworkId()", () => {
@@ -162,6 +222,20 @@ describe("LeafletProvider", function () {
         });
     });
 
+    describe("capabilities()", () => {
+        it("Reports node methods, the provider's network and subscriptions", () => {
+            const provider: LeafletProvider = new LeafletProvider(
+                "leaflet.fireacademy.io", "TEST-API-KEY", 12345, Network.testnet7
+            );
+            const capabilities = provider.capabilities();
+
+            expect(capabilities.methods).to.include.members(["getBalance", "getCoinChildren", "pushSpendBundle"]);
+            expect(capabilities.methods).to.not.include("transfer");
+            expect(capabilities.networks).to.deep.equal([Network.testnet7]);
+            expect(capabilities.features).to.deep.equal(["subscriptions"]);
+        });
+    });
+
     describe("getBlockNumber()", () => {
         it("Returns null if the channel is not connected", async () => {
             const provider: LeafletProvider = new LeafletProvider(
@@ -213,6 +287,27 @@ describe("LeafletProvider", function () {
             sendMessage(newNewPeakMessage);
             expect(await provider.getBlockNumber()).to.equal(42000000);
         });
+
+        it("Emits 'peak' events", async () => {
+            const [provider, sendMessage] = await _setup(() => {});
+            const peaks: Array<{height: number, headerHash: string}> = [];
+            provider.events.on("peak", (peak) => peaks.push(peak));
+
+            const newPeak: NewPeakWallet = new NewPeakWallet();
+            newPeak.headerHash = "07".repeat(32);
+            newPeak.height = 1337;
+            newPeak.weight = 1;
+            newPeak.forkPointWithPreviousPeak = 1336;
+
+            const newPeakMessage: Message = new Message();
+            newPeakMessage.type = ProtocolMessageTypes.new_peak_wallet;
+            newPeakMessage.id = null;
+            newPeakMessage.data = Serializer.serialize(newPeak).toString("hex");
+
+            sendMessage(newPeakMessage);
+
+            expect(peaks).to.deep.equal([{ height: 1337, headerHash: "07".repeat(32) }]);
+        });
     });
 
     const _getMockCoinStates = (puzzHash: string) => {
@@ -276,6 +371,26 @@ describe("LeafletProvider", function () {
             ).to.be.null;
         });
 
+        it("Returns null if the provider is closed before the node replies", async () => {
+            let lastMessage: Message;
+            const [provider] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+
+            const funcPromise = provider.getBalance({
+                puzzleHash: "42".repeat(32),
+            });
+
+            while(
+                BigNumber.from(lastMessage!.type).toNumber() !== ProtocolMessageTypes.register_interest_in_puzzle_hash
+            ) {
+                await sleep(10);
+            }
+            await provider.close();
+
+            expect(await funcPromise).to.be.null;
+        });
+
         it("Works if given a puzzle hash", async () => {
             let lastMessage: Message;
             const [provider, sendMessage] = await _setup((msg) => {
@@ -319,7 +434,7 @@ describe("LeafletProvider", function () {
             });
 
             const puzzHash = "42".repeat(32);
-            const address = addressUtil.puzzleHashToAddress(puzzHash);
+            const address = addressUtil.puzzleHashToAddress(puzzHash, "txch");
             const funcPromise = provider.getBalance({
                 address
             });
@@ -391,6 +506,174 @@ describe("LeafletProvider", function () {
         });
     });
 
+    describe("getUnspentCoins()", () => {
+        it("Returns [] if neither address nor puzzleHash are supplied", async () => {
+            const [provider] = await _setup(() => { });
+            expect(
+                await provider.getUnspentCoins({})
+            ).to.deep.equal([]);
+        });
+
+        it("Returns the unspent coins of the puzzle hash", async () => {
+            let lastMessage: Message;
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+
+            const puzzHash = "42".repeat(32);
+            const funcPromise = provider.getUnspentCoins({
+                address: addressUtil.puzzleHashToAddress(puzzHash, "txch"),
+            });
+
+            while(
+                BigNumber.from(lastMessage!.type).toNumber() !== ProtocolMessageTypes.register_interest_in_puzzle_hash
+            ) {
+                await sleep(10);
+            }
+
+            const [coinState1, coinState2, coinState3, coinState4] = _getMockCoinStates(puzzHash);
+
+            const resp: RespondToPhUpdates = new RespondToPhUpdates();
+            resp.puzzleHashes = [ puzzHash, "43".repeat(32) ];
+            resp.minHeight = 1;
+            resp.coinStates = [ coinState1, coinState2, coinState3, coinState4 ];
+
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.respond_to_ph_update;
+            msg.id = null;
+            msg.data = Serializer.serialize(resp).toString("hex");
+
+            sendMessage(msg);
+
+            const result = await funcPromise;
+            expect(
+                result.map((cs) => BigNumber.from(cs.coin.amount).toNumber())
+            ).to.deep.equal([13, 29]);
+        });
+    });
+
+    describe("getCoinRecords()", () => {
+        it("Returns [] if a coin id is not valid", async () => {
+            const [provider] = await _setup(() => { });
+            expect(
+                await provider.getCoinRecords({ coinIds: ["42".repeat(32), "42".repeat(31)] })
+            ).to.deep.equal([]);
+        });
+
+        it("Throws InvalidArgumentError if a coin id is not valid (strict mode)", async () => {
+            const [provider] = await _setup(() => { });
+            provider.strict = true;
+
+            let thrown: any = null;
+            try {
+                await provider.getCoinRecords({ coinIds: ["42".repeat(31)] });
+            } catch(e) {
+                thrown = e;
+            }
+            expect(thrown).to.be.instanceOf(InvalidArgumentError);
+        });
+
+        it("Returns [] if the provider is closed before the node replies", async () => {
+            let lastMessage: Message;
+            const [provider] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+
+            const funcPromise = provider.getCoinRecords({ coinIds: ["42".repeat(32)] });
+
+            while(
+                BigNumber.from(lastMessage!.type).toNumber() !== ProtocolMessageTypes.register_interest_in_coin
+            ) {
+                await sleep(10);
+            }
+            await provider.close();
+
+            expect(await funcPromise).to.deep.equal([]);
+        });
+
+        it("Returns the coin states in the requested order", async () => {
+            let lastMessage: Message;
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+
+            const [coinState1, , coinState3] = _getMockCoinStates("42".repeat(32));
+            const coinId1: string = coinUtil.getId(coinState1.coin);
+            const coinId3: string = coinUtil.getId(coinState3.coin);
+            const funcPromise = provider.getCoinRecords({ coinIds: [coinId3, "00".repeat(32), coinId1] });
+
+            while(
+                BigNumber.from(lastMessage!.type).toNumber() !== ProtocolMessageTypes.register_interest_in_coin
+            ) {
+                await sleep(10);
+            }
+
+            const sentPckt: RegisterForCoinUpdates = Serializer.deserialize(RegisterForCoinUpdates, lastMessage!.data);
+            expect(sentPckt.coinIds).to.deep.equal([coinId3, "00".repeat(32), coinId1]);
+            expect(BigNumber.from(sentPckt.minHeight).eq(0)).to.be.true;
+
+            // test to make sure that the filter doesn't pick messages about other coins
+            const resp2: RespondToCoinUpdates = new RespondToCoinUpdates();
+            resp2.coinIds = [coinId1];
+            resp2.minHeight = 0;
+            resp2.coinStates = [coinState1];
+
+            const msg2: Message = new Message();
+            msg2.type = ProtocolMessageTypes.respond_to_coin_update;
+            msg2.id = null;
+            msg2.data = Serializer.serialize(resp2).toString("hex");
+
+            sendMessage(msg2);
+
+            const resp: RespondToCoinUpdates = new RespondToCoinUpdates();
+            resp.coinIds = [coinId3, "00".repeat(32), coinId1];
+            resp.minHeight = 0;
+            resp.coinStates = [coinState1, coinState3];
+
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.respond_to_coin_update;
+            msg.id = null;
+            msg.data = Serializer.serialize(resp).toString("hex");
+
+            sendMessage(msg);
+
+            const result = await funcPromise;
+            expect(result.map((cs) => coinUtil.getId(cs.coin))).to.deep.equal([coinId3, coinId1]);
+            expect(BigNumber.from(result[0].spentHeight!).eq(11)).to.be.true;
+        });
+    });
+
+    describe("getCoinRecord()", () => {
+        it("Returns null if the coin does not exist", async () => {
+            let lastMessage: Message;
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+
+            const funcPromise = provider.getCoinRecord({ coinId: "42".repeat(32) });
+
+            while(
+                BigNumber.from(lastMessage!.type).toNumber() !== ProtocolMessageTypes.register_interest_in_coin
+            ) {
+                await sleep(10);
+            }
+
+            const resp: RespondToCoinUpdates = new RespondToCoinUpdates();
+            resp.coinIds = ["42".repeat(32)];
+            resp.minHeight = 0;
+            resp.coinStates = [];
+
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.respond_to_coin_update;
+            msg.id = null;
+            msg.data = Serializer.serialize(resp).toString("hex");
+
+            sendMessage(msg);
+
+            expect(await funcPromise).to.be.null;
+        });
+    });
+
     describe("subscribeToPuzzleHashUpdates()", () => {
         it("Retrns if puzzleHash is not valid", async () => {
             let lastMessage: Message = new Message();
@@ -399,10 +682,11 @@ describe("LeafletProvider", function () {
                 lastMessage = msg;
             });
 
-            provider.subscribeToPuzzleHashUpdates({
+            const subscription = provider.subscribeToPuzzleHashUpdates({
                 puzzleHash: "42".repeat(33),
                 callback: () => { }
             });
+            subscription.unsubscribe();
 
             await sleep(42);
 
@@ -420,6 +704,8 @@ describe("LeafletProvider", function () {
             const [provider, sendMessage] = await _setup((msg) => {
                 lastMessage = msg;
             });
+            let coinStateEvents: number = 0;
+            provider.events.on("coinState", () => { coinStateEvents += 1; });
 
             provider.subscribeToPuzzleHashUpdates({
                 puzzleHash: puzzHash,
@@ -516,6 +802,63 @@ describe("LeafletProvider", function () {
             expect(lastStates[0].coin.parentCoinInfo).to.equal("01".repeat(32));
             expect(lastStates[1].coin.parentCoinInfo).to.equal("03".repeat(32));
             expect(lastStates[2].coin.parentCoinInfo).to.equal("04".repeat(32));
+            expect(coinStateEvents).to.equal(2);
+        });
+        it("Stops calling the callback after unsubscribe()", async () => {
+            const puzzHash = "42".repeat(32);
+            let callbackCalls: number = 0;
+            let lastMessage: Message;
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+
+            const subscription = provider.subscribeToPuzzleHashUpdates({
+                puzzleHash: puzzHash,
+                callback: () => { callbackCalls += 1; }
+            });
+
+            while(
+                BigNumber.from(lastMessage!.type).toNumber() !== ProtocolMessageTypes.register_interest_in_puzzle_hash
+            ) {
+                await sleep(10);
+            }
+
+            const resp: RespondToPhUpdates = new RespondToPhUpdates();
+            resp.minHeight = 1;
+            resp.coinStates = _getMockCoinStates(puzzHash);
+            resp.puzzleHashes = [puzzHash];
+
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.respond_to_ph_update;
+            msg.id = null;
+            msg.data = Serializer.serialize(resp).toString("hex");
+
+            sendMessage(msg);
+            expect(callbackCalls).to.equal(1);
+
+            subscription.unsubscribe();
+            sendMessage(msg);
+            expect(callbackCalls).to.equal(1);
+        });
+        it("Asks the node to remove the subscription after unsubscribe()", async () => {
+            const messages: Message[] = [];
+
+            const [provider] = await _setup((msg) => {
+                messages.push(msg);
+            });
+
+            const puzzleHash = "42".repeat(32);
+            provider.subscribeToPuzzleHashUpdates({ puzzleHash: "43".repeat(32), callback: () => { } });
+            provider.subscribeToPuzzleHashUpdates({ puzzleHash, callback: () => { } }).unsubscribe();
+
+            const removeMessages = messages.filter(
+                (msg) => BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.request_remove_puzzle_subscriptions
+            );
+            expect(removeMessages.length).to.equal(1);
+            expect(
+                Serializer.deserialize(RequestRemovePuzzleSubscriptions, removeMessages[0].data).puzzleHashes
+            ).to.deep.equal([puzzleHash]);
         });
     });
 
@@ -527,10 +870,11 @@ describe("LeafletProvider", function () {
                 lastMessage = msg;
             });
 
-            provider.subscribeToCoinUpdates({
+            const subscription = provider.subscribeToCoinUpdates({
                 coinId: "42".repeat(33),
                 callback: () => { }
             });
+            subscription.unsubscribe();
 
             await sleep(42);
 
@@ -650,21 +994,8 @@ describe("LeafletProvider", function () {
             expect(lastStates.length).to.equal(1);
             expect(coinUtil.getId(lastStates[0].coin)).to.equal(coinId);
         });
-    });
-
-    describe("getPuzzleSolution()", () => {
-        it("Returns null if an invalid coinId is given", async () => {
-            let sentMessages: number = 0;
-            const [provider] = await _setup(() => { sentMessages += 1; });
-            expect(
-                await provider.getPuzzleSolution({
-                    height: 5, coinId: "0xinvalid"
-                })
-            ).to.be.null;
-            expect(sentMessages).to.equal(1);
-        });
-
-        it("Correctly handles puzzle solution responses", async () => {
+        it("Stops calling the callback after unsubscribe()", async () => {
+            let callbackCalls: number = 0;
             let lastMessage: Message;
 
             const [provider, sendMessage] = await _setup((msg) => {
@@ -672,26 +1003,282 @@ describe("LeafletProvider", function () {
             });
 
             const coinId = "42".repeat(32);
-            const promise = provider.getPuzzleSolution({
-                height: 5, coinId
+            const subscription = provider.subscribeToCoinUpdates({
+                coinId,
+                callback: () => { callbackCalls += 1; }
             });
 
             while(
-                BigNumber.from(lastMessage!.type).toNumber() !== ProtocolMessageTypes.request_puzzle_solution
+                BigNumber.from(lastMessage!.type).toNumber() !== ProtocolMessageTypes.register_interest_in_coin
             ) {
                 await sleep(10);
             }
 
-            // test to make sure that the filter doesn't pick messages about other coins
-            const resp1: PuzzleSolutionResponse = new PuzzleSolutionResponse();
-            resp1.coinName = "43".repeat(7);
-            resp1.height = 5;
-            resp1.puzzle = SExp.to(1);
-            resp1.solution = SExp.to(2);
+            const resp: RespondToCoinUpdates = new RespondToCoinUpdates();
+            resp.minHeight = 1;
+            resp.coinIds = [coinId];
+            resp.coinStates = [];
 
-            const msg1: Message = new Message();
-            msg1.type = ProtocolMessageTypes.respond_puzzle_solution;
-            msg1.id = null;
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.respond_to_coin_update;
+            msg.id = null;
+            msg.data = Serializer.serialize(resp).toString("hex");
+
+            sendMessage(msg);
+            expect(callbackCalls).to.equal(1);
+
+            subscription.unsubscribe();
+            sendMessage(msg);
+            expect(callbackCalls).to.equal(1);
+        });
+    });
+
+    describe("coin_state_update", () => {
+        const _coinStateUpdateMessage = (height: number, items: CoinState[]) => {
+            const update: CoinStateUpdate = new CoinStateUpdate();
+            update.height = height;
+            update.forkHeight = height - 1;
+            update.peakHash = BigNumber.from(height).toHexString().slice(2).padStart(64, "0");
+            update.items = items;
+
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.coin_state_update;
+            msg.id = null;
+            msg.data = Serializer.serialize(update).toString("hex");
+            return msg;
+        };
+
+        it("Routes pushed coin states to puzzle hash and coin subscribers", async () => {
+            const puzzHash = "42".repeat(32);
+            const [coinState1, coinState2, coinState3] = _getMockCoinStates(puzzHash);
+            const coinId3 = coinUtil.getId(coinState3.coin);
+            let registerMessages: number = 0;
+            const phReceived: CoinState[][] = [];
+            const coinReceived: CoinState[][] = [];
+            const coinStateEvents: CoinState[][] = [];
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                const type = BigNumber.from(msg.type).toNumber();
+                if(
+                    type === ProtocolMessageTypes.register_interest_in_puzzle_hash ||
+                    type === ProtocolMessageTypes.register_interest_in_coin
+                ) {
+                    registerMessages += 1;
+                }
+            });
+            provider.events.on("coinState", (states) => coinStateEvents.push(states));
+
+            provider.subscribeToPuzzleHashUpdates({
+                puzzleHash: puzzHash,
+                callback: (states) => phReceived.push(states),
+            });
+            const coinSubscription = provider.subscribeToCoinUpdates({
+                coinId: coinId3,
+                callback: (states) => coinReceived.push(states),
+            });
+            while(registerMessages < 2) {
+                await sleep(10);
+            }
+
+            sendMessage(_coinStateUpdateMessage(12, [coinState1, coinState2]));
+            expect(phReceived.length).to.equal(1);
+            expect(phReceived[0].length).to.equal(1);
+            expect(phReceived[0][0].coin.parentCoinInfo).to.equal("01".repeat(32));
+            expect(coinReceived.length).to.equal(0);
+
+            sendMessage(_coinStateUpdateMessage(13, [coinState3]));
+            expect(phReceived.length).to.equal(2);
+            expect(coinReceived.length).to.equal(1);
+            expect(coinUtil.getId(coinReceived[0][0].coin)).to.equal(coinId3);
+
+            coinSubscription.unsubscribe();
+            sendMessage(_coinStateUpdateMessage(14, [coinState3]));
+            expect(phReceived.length).to.equal(3);
+            expect(coinReceived.length).to.equal(1);
+
+            // not interesting
+            sendMessage(_coinStateUpdateMessage(15, [coinState2]));
+            expect(phReceived.length).to.equal(3);
+
+            expect(coinStateEvents.length).to.equal(4);
+            expect(await provider.getBlockNumber()).to.equal(15);
+        });
+    });
+
+    describe("reorgs", () => {
+        const _peakMessage = (height: number, forkPoint: number, headerHash: string) => {
+            const newPeak: NewPeakWallet = new NewPeakWallet();
+            newPeak.headerHash = headerHash;
+            newPeak.height = height;
+            newPeak.weight = height;
+            newPeak.forkPointWithPreviousPeak = forkPoint;
+
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.new_peak_wallet;
+            msg.id = null;
+            msg.data = Serializer.serialize(newPeak).toString("hex");
+            return msg;
+        };
+
+        const _phUpdateMessage = (puzzHash: string, coinStates: CoinState[]) => {
+            const resp: RespondToPhUpdates = new RespondToPhUpdates();
+            resp.minHeight = 1;
+            resp.coinStates = coinStates;
+            resp.puzzleHashes = [puzzHash];
+
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.respond_to_ph_update;
+            msg.id = null;
+            msg.data = Serializer.serialize(resp).toString("hex");
+            return msg;
+        };
+
+        it("Re-queries affected subscriptions and notifies them when the fork point is below the previous peak", async () => {
+            const puzzHash = "42".repeat(32);
+            const [coinState1, , coinState3] = _getMockCoinStates(puzzHash);
+            let registerMessages: number = 0;
+            const rollbacks: number[] = [];
+            const rollbackEvents: number[] = [];
+            const received: CoinState[][] = [];
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                if(BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.register_interest_in_puzzle_hash) {
+                    registerMessages += 1;
+                }
+            });
+            provider.events.on("rollback", (forkHeight) => rollbackEvents.push(forkHeight));
+
+            provider.subscribeToPuzzleHashUpdates({
+                puzzleHash: puzzHash,
+                callback: (states) => received.push(states),
+                rollbackCallback: (forkHeight) => rollbacks.push(forkHeight),
+            });
+            while(registerMessages === 0) {
+                await sleep(10);
+            }
+
+            // coinState3 was spent at height 11
+            sendMessage(_phUpdateMessage(puzzHash, [coinState1, coinState3]));
+            sendMessage(_peakMessage(11, 10, "11".repeat(32)));
+            sendMessage(_peakMessage(12, 11, "12".repeat(32)));
+            expect(rollbacks).to.deep.equal([]);
+            expect(registerMessages).to.equal(1);
+
+            // new chain: blocks 11 and 12 were orphaned
+            sendMessage(_peakMessage(13, 10, "13".repeat(32)));
+            expect(rollbacks).to.deep.equal([10]);
+            expect(rollbackEvents).to.deep.equal([10]);
+            expect(registerMessages).to.equal(2);
+            expect(await provider.getBlockNumber()).to.equal(13);
+
+            const unspentCoinState3 = new CoinState();
+            unspentCoinState3.coin = coinState3.coin;
+            unspentCoinState3.createdHeight = coinState3.createdHeight;
+            unspentCoinState3.spentHeight = null;
+            sendMessage(_phUpdateMessage(puzzHash, [coinState1, unspentCoinState3]));
+
+            expect(received.length).to.equal(2);
+            expect(received[1][1].spentHeight).to.be.null;
+        });
+
+        it("Does not re-query subscriptions that only saw coin states below the fork point", async () => {
+            const puzzHash = "42".repeat(32);
+            const [coinState1] = _getMockCoinStates(puzzHash);
+            let registerMessages: number = 0;
+            let rollbacks: number = 0;
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                if(BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.register_interest_in_puzzle_hash) {
+                    registerMessages += 1;
+                }
+            });
+
+            provider.subscribeToPuzzleHashUpdates({
+                puzzleHash: puzzHash,
+                callback: () => { },
+                rollbackCallback: () => { rollbacks += 1; },
+            });
+            while(registerMessages === 0) {
+                await sleep(10);
+            }
+
+            sendMessage(_phUpdateMessage(puzzHash, [coinState1]));
+            sendMessage(_peakMessage(12, 11, "12".repeat(32)));
+            sendMessage(_peakMessage(13, 10, "13".repeat(32)));
+
+            expect(rollbacks).to.equal(0);
+            expect(registerMessages).to.equal(1);
+        });
+
+        it("Uses coin_state_update messages to track the peak", async () => {
+            const [provider, sendMessage] = await _setup(() => {});
+            const peaks: number[] = [];
+            const rollbackEvents: number[] = [];
+            provider.events.on("peak", (peak) => peaks.push(peak.height));
+            provider.events.on("rollback", (forkHeight) => rollbackEvents.push(forkHeight));
+
+            sendMessage(_peakMessage(12, 11, "12".repeat(32)));
+
+            const update: CoinStateUpdate = new CoinStateUpdate();
+            update.height = 12;
+            update.forkHeight = 9;
+            update.peakHash = "a2".repeat(32);
+            update.items = [];
+
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.coin_state_update;
+            msg.id = null;
+            msg.data = Serializer.serialize(update).toString("hex");
+
+            sendMessage(msg);
+            // the same peak might be announced by both message types
+            sendMessage(_peakMessage(12, 9, "a2".repeat(32)));
+
+            expect(peaks).to.deep.equal([12, 12]);
+            expect(rollbackEvents).to.deep.equal([9]);
+        });
+    });
+
+    describe("getPuzzleSolution()", () => {
+        it("Returns null if an invalid coinId is given", async () => {
+            let sentMessages: number = 0;
+            const [provider] = await _setup(() => { sentMessages += 1; });
+            expect(
+                await provider.getPuzzleSolution({
+                    height: 5, coinId: "0xinvalid"
+                })
+            ).to.be.null;
+            expect(sentMessages).to.equal(1);
+        });
+
+        it("Correctly handles puzzle solution responses", async () => {
+            let lastMessage: Message;
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+
+            const coinId = "42".repeat(32);
+            const promise = provider.getPuzzleSolution({
+                height: 5, coinId
+            });
+
+            while(
+                BigNumber.from(lastMessage!.type).toNumber() !== ProtocolMessageTypes.request_puzzle_solution
+            ) {
+                await sleep(10);
+            }
+
+            // test to make sure that the filter doesn't pick messages about other coins
+            const resp1: PuzzleSolutionResponse = new PuzzleSolutionResponse();
+            resp1.coinName = "43".repeat(7);
+            resp1.height = 5;
+            resp1.puzzle = SExp.to(1);
+            resp1.solution = SExp.to(2);
+
+            const msg1: Message = new Message();
+            msg1.type = ProtocolMessageTypes.respond_puzzle_solution;
+            msg1.id = null;
             msg1.data = Serializer.serialize(resp1).toString("hex");
 
             sendMessage(msg1);
@@ -1298,6 +1885,266 @@ describe("LeafletProvider", function () {
                 expect(result?.[i].headerHash).to.equal(expectedHeaderBlocks[i].headerHash());
             }
         });
+
+        it("Splits large ranges into chunks and includes timestamps", async () => {
+            const requests: RequestHeaderBlocks[] = [];
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                if(BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.request_header_blocks) {
+                    requests.push(Serializer.deserialize(RequestHeaderBlocks, msg.data));
+                }
+            });
+
+            const promise = provider.getBlocksHeaders({ startHeight: 0, endHeight: 69 });
+            while(requests.length < 3) {
+                await sleep(10);
+            }
+
+            for(const request of requests) {
+                const startHeight = BigNumber.from(request.startHeight).toNumber();
+                const endHeight = BigNumber.from(request.endHeight).toNumber();
+
+                const resp: RespondHeaderBlocks = new RespondHeaderBlocks();
+                resp.startHeight = startHeight;
+                resp.endHeight = endHeight;
+                resp.headerBlocks = [];
+                for(let i = startHeight; i <= endHeight; ++i) {
+                    const hb: HeaderBlock = _createDummyHeaderBlock(i, "42", 3);
+                    if(i % 2 === 0) {
+                        const ftb: FoliageTransactionBlock = new FoliageTransactionBlock();
+                        ftb.prevTransactionBlockHash = "00".repeat(32);
+                        ftb.timestamp = 1660000000 + i;
+                        ftb.filterHash = "00".repeat(32);
+                        ftb.additionsRoot = "00".repeat(32);
+                        ftb.removalsroot = "00".repeat(32);
+                        ftb.transactionsInfoHash = "00".repeat(32);
+
+                        hb.foliageTransactionBlock = ftb;
+                    }
+
+                    resp.headerBlocks.push(hb);
+                }
+
+                const msg: Message = new Message();
+                msg.type = ProtocolMessageTypes.respond_header_blocks;
+                msg.id = null;
+                msg.data = Serializer.serialize(resp).toString("hex");
+
+                sendMessage(msg);
+            }
+
+            const result = await promise;
+            expect(requests.map((r) => [r.startHeight, r.endHeight].map((h) => BigNumber.from(h).toNumber()))).to.deep.equal([
+                [0, 31], [32, 63], [64, 69]
+            ]);
+            expect(result?.length).to.equal(70);
+            expect(BigNumber.from(result?.[69].height).toNumber()).to.equal(69);
+            expect(BigNumber.from(result?.[42].timestamp).toNumber()).to.equal(1660000042);
+            expect(result?.[43].timestamp).to.be.null;
+        });
+
+        describe("Header chain verification", () => {
+            const checkpointHash = "ab".repeat(32);
+
+            // 'modify' is called before the block's header hash is computed
+            const _createChain = (startHeight: number, endHeight: number, modify: (hb: HeaderBlock) => void = () => null) => {
+                const headerBlocks: HeaderBlock[] = [];
+                let prevHash: string = checkpointHash;
+                for(let i = startHeight; i <= endHeight; ++i) {
+                    const hb: HeaderBlock = _createDummyHeaderBlock(i, "42", 3);
+                    hb.foliage.prevBlockHash = prevHash;
+                    modify(hb);
+
+                    headerBlocks.push(hb);
+                    prevHash = hb.headerHash();
+                }
+
+                return headerBlocks;
+            };
+
+            const _run = async (
+                args: getBlocksHeadersArgs,
+                headerBlocks: HeaderBlock[],
+                strict: boolean = false,
+                peak: Optional<NewPeakWallet> = null,
+            ) => {
+                let lastMessage: Message;
+
+                const [provider, sendMessage] = await _setup((msg) => {
+                    lastMessage = msg;
+                });
+                provider.strict = strict;
+
+                if(peak !== null) {
+                    const peakMsg: Message = new Message();
+                    peakMsg.type = ProtocolMessageTypes.new_peak_wallet;
+                    peakMsg.id = null;
+                    peakMsg.data = Serializer.serialize(peak).toString("hex");
+
+                    sendMessage(peakMsg);
+                }
+
+                const promise = provider.getBlocksHeaders(args);
+                while(
+                    BigNumber.from(lastMessage!.type).toNumber() !== ProtocolMessageTypes.request_header_blocks
+                ) {
+                    await sleep(10);
+                }
+
+                const resp: RespondHeaderBlocks = new RespondHeaderBlocks();
+                resp.startHeight = args.startHeight;
+                resp.endHeight = args.startHeight + headerBlocks.length - 1;
+                resp.headerBlocks = headerBlocks;
+
+                const msg: Message = new Message();
+                msg.type = ProtocolMessageTypes.respond_header_blocks;
+                msg.id = null;
+                msg.data = Serializer.serialize(resp).toString("hex");
+
+                sendMessage(msg);
+
+                return promise;
+            };
+
+            it("Works if the headers connect to the checkpoint", async () => {
+                const headerBlocks: HeaderBlock[] = _createChain(10, 15);
+                const result = await _run({
+                    startHeight: 10,
+                    endHeight: 15,
+                    verify: true,
+                    checkpoint: { height: 9, headerHash: checkpointHash },
+                }, headerBlocks);
+
+                expect(result?.length).to.equal(6);
+                expect(result?.[5].headerHash).to.equal(headerBlocks[5].headerHash());
+            });
+
+            it("Fetches the headers up to the peak if no checkpoint is given", async () => {
+                const headerBlocks: HeaderBlock[] = _createChain(10, 17);
+
+                const peak: NewPeakWallet = new NewPeakWallet();
+                peak.headerHash = headerBlocks[7].headerHash();
+                peak.height = 17;
+                peak.weight = 1;
+                peak.forkPointWithPreviousPeak = 16;
+
+                const result = await _run({ startHeight: 10, endHeight: 15, verify: true }, headerBlocks, false, peak);
+
+                expect(result?.length).to.equal(6);
+                expect(result?.[0].headerHash).to.equal(headerBlocks[0].headerHash());
+            });
+
+            it("Returns null if the headers do not connect to the checkpoint", async () => {
+                const result = await _run({
+                    startHeight: 10,
+                    endHeight: 15,
+                    verify: true,
+                    checkpoint: { height: 12, headerHash: "cd".repeat(32) },
+                }, _createChain(10, 15));
+
+                expect(result).to.be.null;
+            });
+
+            it("Does not fetch the headers up to a checkpoint that is too far above the range", async () => {
+                const requests: Message[] = [];
+                const [provider] = await _setup((msg) => {
+                    if(BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.request_header_blocks) {
+                        requests.push(msg);
+                    }
+                });
+                const args: getBlocksHeadersArgs = {
+                    startHeight: 10,
+                    endHeight: 15,
+                    verify: true,
+                    checkpoint: { height: 1040, headerHash: checkpointHash },
+                };
+
+                expect(await provider.getBlocksHeaders(args)).to.be.null;
+
+                provider.strict = true;
+                let error: any;
+                try {
+                    await provider.getBlocksHeaders(args);
+                } catch(e: any) {
+                    error = e;
+                }
+
+                expect(error).to.be.instanceOf(InvalidArgumentError);
+                expect(requests.length).to.equal(0);
+            });
+
+            it("Returns null if there is no checkpoint or peak", async () => {
+                const result = await _run({ startHeight: 10, endHeight: 15, verify: true }, _createChain(10, 15));
+
+                expect(result).to.be.null;
+            });
+
+            it("Throws InvalidProofError if a header does not link to the previous one (strict mode)", async () => {
+                const headerBlocks: HeaderBlock[] = _createChain(10, 15);
+                headerBlocks[3].foliage.prevBlockHash = "cd".repeat(32);
+
+                let error: any;
+                try {
+                    await _run({
+                        startHeight: 10,
+                        endHeight: 15,
+                        verify: true,
+                        checkpoint: { height: 9, headerHash: checkpointHash },
+                    }, headerBlocks, true);
+                } catch(e: any) {
+                    error = e;
+                }
+
+                expect(error).to.be.instanceOf(InvalidProofError);
+            });
+
+            it("Returns null if the foliage hashes are not consistent", async () => {
+                const headerBlocks: HeaderBlock[] = _createChain(10, 15, (hb) => {
+                    if(BigNumber.from(hb.rewardChainBlock.height).toNumber() === 12) {
+                        hb.foliage.foliageTransactionBlockHash = "cd".repeat(32);
+                    }
+                });
+
+                const result = await _run({
+                    startHeight: 10,
+                    endHeight: 15,
+                    verify: true,
+                    checkpoint: { height: 9, headerHash: checkpointHash },
+                }, headerBlocks);
+
+                expect(result).to.be.null;
+            });
+
+            it("Returns null if a transaction block has no TransactionsInfo", async () => {
+                const headerBlocks: HeaderBlock[] = _createChain(10, 15, (hb) => {
+                    if(BigNumber.from(hb.rewardChainBlock.height).toNumber() !== 12) {
+                        return;
+                    }
+
+                    const ftb: FoliageTransactionBlock = new FoliageTransactionBlock();
+                    ftb.prevTransactionBlockHash = "00".repeat(32);
+                    ftb.timestamp = 1337;
+                    ftb.filterHash = "00".repeat(32);
+                    ftb.additionsRoot = "00".repeat(32);
+                    ftb.removalsroot = "00".repeat(32);
+                    ftb.transactionsInfoHash = "00".repeat(32);
+
+                    hb.rewardChainBlock.isTransactionBlock = true;
+                    hb.foliageTransactionBlock = ftb;
+                    hb.foliage.foliageTransactionBlockHash = Util.stdHash(Serializer.serialize(ftb).toString("hex"));
+                    hb.transactionsInfo = null;
+                });
+
+                const result = await _run({
+                    startHeight: 10,
+                    endHeight: 15,
+                    verify: true,
+                    checkpoint: { height: 9, headerHash: checkpointHash },
+                }, headerBlocks);
+
+                expect(result).to.be.null;
+            });
+        });
     });
 
     describe("getCoinRemovals()", () => {
@@ -1367,6 +2214,8 @@ describe("LeafletProvider", function () {
             const headerHash = "42".repeat(32);
             const height = 18;
 
+            provider.verifyProofs = false; // dummy coins
+
             const promise = provider.getCoinRemovals({ headerHash, height });
 
             while(
@@ -1501,6 +2350,8 @@ describe("LeafletProvider", function () {
             const headerHash = "42".repeat(32);
             const height = 18;
 
+            provider.verifyProofs = false; // dummy coins
+
             const promise = provider.getCoinAdditions({ headerHash, height });
 
             while(
@@ -1567,47 +2418,298 @@ describe("LeafletProvider", function () {
         });
     });
 
-    const _throwsNotImplemented = (func: any) => {
-        it("Throws 'not implemented' error.", async () => {
-            const [provider] = await _setup(() => { });
-            let errOk: boolean = false;
+    describe("Merkle proofs", () => {
+        const _createCoin = (dummyStr: string, puzzleHash: string) => {
+            const c: Coin = new Coin();
+            c.amount = 1;
+            c.parentCoinInfo = dummyStr.repeat(32);
+            c.puzzleHash = puzzleHash;
 
-            try {
-                await func(provider);
-            } catch(e: any) {
-                errOk = e.message === "LeafletProvider does not implement this method.";
-            }
-            
-            expect(errOk).to.be.true;
-        });
-    };
+            return c;
+        };
 
-    describe("pushSpendBundle()", () => {
-        const tests = [
-            "Works when response says tx was successful",
-            "Works when response says tx is pending",
-            "Works when response says tx failed (no error)",
-            "Works when response says tx failed (with error)",
+        const height = 18;
+        const ph1 = "a1".repeat(32);
+        const ph2 = "a2".repeat(32);
+        const ph3 = "a3".repeat(32); // no coins were created with this puzzle hash
+
+        const ph1Coins: Coin[] = [_createCoin("01", ph1), _createCoin("02", ph1)];
+        const ph2Coins: Coin[] = [_createCoin("03", ph2)];
+        const ph1CoinsHash = coinUtil.hashCoinIds(ph1Coins.map((c) => coinUtil.getId(c)));
+        const additionsLeaves: string[] = [
+            ph1, ph1CoinsHash,
+            ph2, coinUtil.hashCoinIds(ph2Coins.map((c) => coinUtil.getId(c))),
         ];
-        const responseStatuses = [1, 2, 3, 3];
-        const responseErrors = [null, null, null, "error"];
-        const expectToFail = [false, false, true, true];
 
-        for(let i = 0; i < tests.length; i++) {
-            it(tests[i], async () => {
-                let lastMessage: Message;
-    
-                const [provider, sendMessage] = await _setup((msg) => {
-                    lastMessage = msg;
-                });
-    
-                const sb = new SpendBundle();
-                sb.aggregatedSignature = "00".repeat(96);
-                sb.coinSpends = [];
-                
-                const promise = provider.pushSpendBundle({ spendBundle: sb });
-    
-                while(
+        const removedCoins: Coin[] = [_createCoin("04", ph1), _createCoin("05", ph2)];
+        const removedCoinIds: string[] = removedCoins.map((c) => coinUtil.getId(c));
+        const notRemovedCoinId = coinUtil.getId(_createCoin("06", ph1));
+
+        const _createTransactionHeaderBlock = (additionsRoot: string, removalsRoot: string) => {
+            const hb: HeaderBlock = _createDummyHeaderBlock(height, "00", 0, true);
+
+            const ftb: FoliageTransactionBlock = new FoliageTransactionBlock();
+            ftb.prevTransactionBlockHash = "00".repeat(32);
+            ftb.timestamp = 1337;
+            ftb.filterHash = "00".repeat(32);
+            ftb.additionsRoot = additionsRoot;
+            ftb.removalsroot = removalsRoot;
+            ftb.transactionsInfoHash = Util.stdHash(Serializer.serialize(hb.transactionsInfo).toString("hex"));
+
+            hb.rewardChainBlock.isTransactionBlock = true;
+            hb.foliageTransactionBlock = ftb;
+            hb.foliage.foliageTransactionBlockHash = Util.stdHash(Serializer.serialize(ftb).toString("hex"));
+
+            return hb;
+        };
+
+        const headerBlock: HeaderBlock = _createTransactionHeaderBlock(
+            Util.merkleSet.computeRoot(additionsLeaves),
+            Util.merkleSet.computeRoot(removedCoinIds),
+        );
+
+        // replies to the request and then to the RequestBlockHeader message
+        const _run = async <T>(
+            call: (provider: LeafletProvider, headerHash: string) => Promise<T>,
+            requestType: ProtocolMessageTypes,
+            responseType: ProtocolMessageTypes,
+            response: RespondAdditions | RespondRemovals,
+            hb: HeaderBlock = headerBlock,
+            strict: boolean = false,
+        ): Promise<T> => {
+            let lastMessage: Message;
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+            provider.strict = strict;
+
+            const promise = call(provider, response.headerHash);
+            const _reply = async (waitFor: ProtocolMessageTypes, type: ProtocolMessageTypes, pckt: any) => {
+                while(BigNumber.from(lastMessage!.type).toNumber() !== waitFor) {
+                    await sleep(10);
+                }
+
+                const msg: Message = new Message();
+                msg.type = type;
+                msg.id = null;
+                msg.data = Serializer.serialize(pckt).toString("hex");
+
+                sendMessage(msg);
+            };
+
+            await _reply(requestType, responseType, response);
+
+            const headerResp: RespondBlockHeader = new RespondBlockHeader();
+            headerResp.headerBlock = hb;
+            await _reply(ProtocolMessageTypes.request_block_header, ProtocolMessageTypes.respond_block_header, headerResp);
+
+            return promise;
+        };
+
+        const _additionsResponse = (coins: Array<[string, Coin[]]>, proofs: Optional<Array<[string, string, Optional<string>]>>) => {
+            const resp: RespondAdditions = new RespondAdditions();
+            resp.height = height;
+            resp.headerHash = headerBlock.headerHash();
+            resp.coins = coins;
+            resp.proofs = proofs;
+
+            return resp;
+        };
+
+        const _removalsResponse = (coins: Array<[string, Optional<Coin>]>, proofs: Optional<Array<[string, string]>>) => {
+            const resp: RespondRemovals = new RespondRemovals();
+            resp.height = height;
+            resp.headerHash = headerBlock.headerHash();
+            resp.coins = coins;
+            resp.proofs = proofs;
+
+            return resp;
+        };
+
+        const _getCoinAdditions = (puzzleHashes?: string[]) => (provider: LeafletProvider, headerHash: string) =>
+            provider.getCoinAdditions({ height, headerHash, puzzleHashes });
+        const _getCoinRemovals = (coinIds?: string[]) => (provider: LeafletProvider, headerHash: string) =>
+            provider.getCoinRemovals({ height, headerHash, coinIds });
+
+        const validAdditionsProofs: Array<[string, string, Optional<string>]> = [
+            [ph1, Util.merkleSet.getProof(additionsLeaves, ph1)[1], Util.merkleSet.getProof(additionsLeaves, ph1CoinsHash)[1]],
+            [ph3, Util.merkleSet.getProof(additionsLeaves, ph3)[1], null],
+        ];
+
+        it("getCoinAdditions() verifies the proofs of the requested puzzle hashes", async () => {
+            const result = await _run(
+                _getCoinAdditions([ph1, ph3]),
+                ProtocolMessageTypes.request_additions,
+                ProtocolMessageTypes.respond_additions,
+                _additionsResponse([[ph1, ph1Coins], [ph3, []]], validAdditionsProofs),
+            );
+
+            expect(result?.length).to.equal(2);
+            expect(result?.[0].parentCoinInfo).to.equal("01".repeat(32));
+            expect(result?.[1].parentCoinInfo).to.equal("02".repeat(32));
+        });
+
+        it("getCoinAdditions() verifies the additions root if all additions were requested", async () => {
+            const result = await _run(
+                _getCoinAdditions(),
+                ProtocolMessageTypes.request_additions,
+                ProtocolMessageTypes.respond_additions,
+                _additionsResponse([[ph1, ph1Coins], [ph2, ph2Coins]], null),
+            );
+
+            expect(result?.length).to.equal(3);
+        });
+
+        it("getCoinAdditions() returns null if a coin is hidden", async () => {
+            const result = await _run(
+                _getCoinAdditions([ph1, ph3]),
+                ProtocolMessageTypes.request_additions,
+                ProtocolMessageTypes.respond_additions,
+                _additionsResponse([[ph1, [ph1Coins[0]]], [ph3, []]], validAdditionsProofs),
+            );
+
+            expect(result).to.be.null;
+        });
+
+        it("getCoinAdditions() throws InvalidProofError if a coin is invented (strict mode)", async () => {
+            let error: any;
+            try {
+                await _run(
+                    _getCoinAdditions(),
+                    ProtocolMessageTypes.request_additions,
+                    ProtocolMessageTypes.respond_additions,
+                    _additionsResponse([[ph1, ph1Coins], [ph2, [...ph2Coins, _createCoin("07", ph2)]]], null),
+                    headerBlock,
+                    true,
+                );
+            } catch(e: any) {
+                error = e;
+            }
+
+            expect(error).to.be.instanceOf(InvalidProofError);
+        });
+
+        it("getCoinAdditions() returns null if a requested puzzle hash is missing", async () => {
+            const result = await _run(
+                _getCoinAdditions([ph1, ph3]),
+                ProtocolMessageTypes.request_additions,
+                ProtocolMessageTypes.respond_additions,
+                _additionsResponse([[ph1, ph1Coins]], [validAdditionsProofs[0]]),
+            );
+
+            expect(result).to.be.null;
+        });
+
+        it("getCoinRemovals() verifies the proofs of the requested coin ids", async () => {
+            const result = await _run(
+                _getCoinRemovals([removedCoinIds[0], notRemovedCoinId]),
+                ProtocolMessageTypes.request_removals,
+                ProtocolMessageTypes.respond_removals,
+                _removalsResponse(
+                    [[removedCoinIds[0], removedCoins[0]], [notRemovedCoinId, null]],
+                    [
+                        [removedCoinIds[0], Util.merkleSet.getProof(removedCoinIds, removedCoinIds[0])[1]],
+                        [notRemovedCoinId, Util.merkleSet.getProof(removedCoinIds, notRemovedCoinId)[1]],
+                    ]
+                ),
+            );
+
+            expect(result?.length).to.equal(1);
+            expect(result?.[0].parentCoinInfo).to.equal("04".repeat(32));
+        });
+
+        it("getCoinRemovals() verifies the removals root if all removals were requested", async () => {
+            const result = await _run(
+                _getCoinRemovals(),
+                ProtocolMessageTypes.request_removals,
+                ProtocolMessageTypes.respond_removals,
+                _removalsResponse([[removedCoinIds[0], removedCoins[0]], [removedCoinIds[1], removedCoins[1]]], null),
+            );
+
+            expect(result?.length).to.equal(2);
+        });
+
+        it("getCoinRemovals() throws InvalidProofError if a removal is hidden (strict mode)", async () => {
+            let error: any;
+            try {
+                await _run(
+                    _getCoinRemovals([removedCoinIds[1]]),
+                    ProtocolMessageTypes.request_removals,
+                    ProtocolMessageTypes.respond_removals,
+                    _removalsResponse(
+                        [[removedCoinIds[1], null]],
+                        [[removedCoinIds[1], Util.merkleSet.getProof(removedCoinIds, removedCoinIds[1])[1]]]
+                    ),
+                    headerBlock,
+                    true,
+                );
+            } catch(e: any) {
+                error = e;
+            }
+
+            expect(error).to.be.instanceOf(InvalidProofError);
+        });
+
+        it("getCoinRemovals() returns null if the header block does not match the header hash", async () => {
+            const otherHeaderBlock: HeaderBlock = _createTransactionHeaderBlock(
+                Util.merkleSet.computeRoot(additionsLeaves),
+                Util.merkleSet.computeRoot([removedCoinIds[0]]),
+            );
+
+            const result = await _run(
+                _getCoinRemovals(),
+                ProtocolMessageTypes.request_removals,
+                ProtocolMessageTypes.respond_removals,
+                _removalsResponse([[removedCoinIds[0], removedCoins[0]]], null),
+                otherHeaderBlock,
+            );
+
+            expect(result).to.be.null;
+        });
+    });
+
+    const _throwsNotImplemented = (func: any) => {
+        it("Throws 'not implemented' error.", async () => {
+            const [provider] = await _setup(() => { });
+            let errOk: boolean = false;
+
+            try {
+                await func(provider);
+            } catch(e: any) {
+                errOk = e.message === "LeafletProvider does not implement this method.";
+            }
+            
+            expect(errOk).to.be.true;
+        });
+    };
+
+    describe("pushSpendBundle()", () => {
+        const tests = [
+            "Works when response says tx was successful",
+            "Works when response says tx is pending",
+            "Works when response says tx failed (no error)",
+            "Works when response says tx failed (with error)",
+        ];
+        const responseStatuses = [1, 2, 3, 3];
+        const responseErrors = [null, null, null, "error"];
+        const expectToFail = [false, false, true, true];
+
+        for(let i = 0; i < tests.length; i++) {
+            it(tests[i], async () => {
+                let lastMessage: Message;
+    
+                const [provider, sendMessage] = await _setup((msg) => {
+                    lastMessage = msg;
+                });
+    
+                const sb = new SpendBundle();
+                sb.aggregatedSignature = "00".repeat(96);
+                sb.coinSpends = [];
+                
+                const promise = provider.pushSpendBundle({ spendBundle: sb });
+    
+                while(
                     BigNumber.from(lastMessage!.type).toNumber() !== ProtocolMessageTypes.send_transaction
                 ) {
                     await sleep(10);
@@ -1645,6 +2747,302 @@ describe("LeafletProvider", function () {
                 }
             });
         }
+        it("Asks the node to remove the subscription after the last unsubscribe()", async () => {
+            const messages: Message[] = [];
+
+            const [provider] = await _setup((msg) => {
+                messages.push(msg);
+            });
+            const sentTypes = () => messages.map((msg) => BigNumber.from(msg.type).toNumber());
+
+            const coinId = "42".repeat(32);
+            const subscription1 = provider.subscribeToCoinUpdates({ coinId, callback: () => { } });
+            const subscription2 = provider.subscribeToCoinUpdates({ coinId, callback: () => { } });
+
+            // the node's subscription is still used by subscription2
+            subscription1.unsubscribe();
+            expect(sentTypes()).to.not.include(ProtocolMessageTypes.request_remove_coin_subscriptions);
+
+            subscription2.unsubscribe();
+            subscription2.unsubscribe();
+            const removeMessages = messages.filter(
+                (msg) => BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.request_remove_coin_subscriptions
+            );
+            expect(removeMessages.length).to.equal(1);
+            expect(
+                Serializer.deserialize(RequestRemoveCoinSubscriptions, removeMessages[0].data).coinIds
+            ).to.deep.equal([coinId]);
+        });
+    });
+
+    describe("getFeeEstimate()", () => {
+        const _estimate = (timeTarget: number, mojosPerClvmCost: number, error: Optional<string> = null): FeeEstimate => {
+            const estimate = new FeeEstimate();
+            estimate.error = error;
+            estimate.timeTarget = timeTarget;
+            estimate.estimatedFeeRate = new FeeRate();
+            estimate.estimatedFeeRate.mojosPerClvmCost = mojosPerClvmCost;
+
+            return estimate;
+        };
+
+        const _respond = async (
+            sendMessage: (msg: Message) => void,
+            getLastMessage: () => Message,
+            estimates: FeeEstimate[],
+            error: Optional<string> = null,
+        ): Promise<RequestFeeEstimates> => {
+            while(
+                BigNumber.from(getLastMessage().type).toNumber() !== ProtocolMessageTypes.request_fee_estimates
+            ) {
+                await sleep(10);
+            }
+
+            const resp = new RespondFeeEstimates();
+            resp.estimates = new FeeEstimateGroup();
+            resp.estimates.error = error;
+            resp.estimates.estimates = estimates;
+
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.respond_fee_estimates;
+            msg.id = null;
+            msg.data = Serializer.serialize(resp).toString("hex");
+            sendMessage(msg);
+
+            return Serializer.deserialize(RequestFeeEstimates, getLastMessage().data);
+        };
+
+        it("Works", async () => {
+            let lastMessage: Message;
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+
+            const now: number = Math.floor(Date.now() / 1000);
+            const promise = provider.getFeeEstimate({ cost: 1000, targetTimes: [60, 300] });
+            const request = await _respond(sendMessage, () => lastMessage!, [
+                _estimate(now + 60, 5),
+                _estimate(now + 300, 0, "Not enough data"),
+            ]);
+
+            const estimates = await promise;
+            expect(request.timeTargets.length).to.equal(2);
+            expect(BigNumber.from(request.timeTargets[0]).sub(now).toNumber()).to.be.within(60, 61);
+            expect(BigNumber.from(request.timeTargets[1]).sub(now).toNumber()).to.be.within(300, 301);
+
+            expect(estimates!.length).to.equal(2);
+            expect(estimates![0].targetTime).to.equal(60);
+            expect(estimates![0].error).to.be.null;
+            expect(estimates![0].feeRate!.eq(5)).to.be.true;
+            expect(estimates![0].fee!.eq(5000)).to.be.true;
+            expect(estimates![1].targetTime).to.equal(300);
+            expect(estimates![1].error).to.equal("Not enough data");
+            expect(estimates![1].feeRate).to.be.null;
+            expect(estimates![1].fee).to.be.null;
+        });
+
+        it("Returns null if the node could not estimate fees", async () => {
+            let lastMessage: Message;
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+
+            const promise = provider.getFeeEstimate({ cost: 1000, targetTimes: [60] });
+            await _respond(sendMessage, () => lastMessage!, [], "Fee estimator not ready");
+
+            expect(await promise).to.be.null;
+        });
+
+        it("Throws RequestRejectedError in strict mode", async () => {
+            let lastMessage: Message;
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+            provider.strict = true;
+
+            const promise = provider.getFeeEstimate({ cost: 1000, targetTimes: [60] }).catch((e) => e);
+            await _respond(sendMessage, () => lastMessage!, [], "Fee estimator not ready");
+
+            const error = await promise;
+            expect(error).to.be.instanceOf(RequestRejectedError);
+            expect(error.reason).to.equal("Fee estimator not ready");
+        });
+    });
+
+    describe("requestPuzzleState()", () => {
+        const _respond = async (
+            sendMessage: (msg: Message) => void,
+            getLastMessage: () => Message,
+            type: ProtocolMessageTypes,
+            pckt: RespondPuzzleState | RejectPuzzleState,
+        ): Promise<RequestPuzzleState> => {
+            while(
+                BigNumber.from(getLastMessage().type).toNumber() !== ProtocolMessageTypes.request_puzzle_state
+            ) {
+                await sleep(10);
+            }
+
+            const msg: Message = new Message();
+            msg.type = type;
+            msg.id = null;
+            msg.data = Serializer.serialize(pckt).toString("hex");
+            sendMessage(msg);
+
+            return Serializer.deserialize(RequestPuzzleState, getLastMessage().data);
+        };
+
+        it("Works", async () => {
+            let lastMessage: Message;
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+
+            const coin = new Coin();
+            coin.amount = 1;
+            coin.parentCoinInfo = "12".repeat(32);
+            coin.puzzleHash = "34".repeat(32);
+
+            const coinState = new CoinState();
+            coinState.coin = coin;
+            coinState.createdHeight = 7;
+            coinState.spentHeight = null;
+
+            const resp = new RespondPuzzleState();
+            resp.puzzleHashes = ["34".repeat(32)];
+            resp.height = 42;
+            resp.headerHash = "56".repeat(32);
+            resp.isFinished = false;
+            resp.coinStates = [coinState];
+
+            const promise = provider.requestPuzzleState({ puzzleHashes: ["34".repeat(32)], includeSpent: false, minAmount: 5 });
+            const request = await _respond(sendMessage, () => lastMessage!, ProtocolMessageTypes.respond_puzzle_state, resp);
+
+            expect(request.puzzleHashes).to.deep.equal(["34".repeat(32)]);
+            expect(request.previousHeight).to.be.null;
+            expect(request.headerHash).to.equal(new NetworkUtil().getGenesisChallenge(Network.testnet10));
+            expect(request.filters.includeSpent).to.be.false;
+            expect(request.filters.includeUnspent).to.be.true;
+            expect(request.filters.includeHinted).to.be.true;
+            expect(BigNumber.from(request.filters.minAmount).eq(5)).to.be.true;
+            expect(request.subscribeWhenFinished).to.be.false;
+
+            const puzzleState = await promise;
+            expect(puzzleState!.height).to.equal(42);
+            expect(puzzleState!.headerHash).to.equal("56".repeat(32));
+            expect(puzzleState!.isFinished).to.be.false;
+            expect(puzzleState!.coinStates.length).to.equal(1);
+            expect(coinUtil.getId(puzzleState!.coinStates[0].coin)).to.equal(coinUtil.getId(coin));
+        });
+
+        it("Returns null if previousHeight is set without headerHash", async () => {
+            const [provider] = await _setup(() => { });
+
+            expect(
+                await provider.requestPuzzleState({ puzzleHashes: ["34".repeat(32)], previousHeight: 42 })
+            ).to.be.null;
+        });
+
+        it("Throws RequestRejectedError in strict mode", async () => {
+            let lastMessage: Message;
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+            provider.strict = true;
+
+            const reject = new RejectPuzzleState();
+            reject.reason = RejectStateReason.REORG;
+
+            const promise = provider.requestPuzzleState({
+                puzzleHashes: ["34".repeat(32)], previousHeight: 42, headerHash: "56".repeat(32),
+            }).catch((e) => e);
+            const request = await _respond(sendMessage, () => lastMessage!, ProtocolMessageTypes.reject_puzzle_state, reject);
+            expect(BigNumber.from(request.previousHeight!).eq(42)).to.be.true;
+            expect(request.headerHash).to.equal("56".repeat(32));
+
+            const error = await promise;
+            expect(error).to.be.instanceOf(RequestRejectedError);
+            expect(error.reason).to.equal("REORG");
+        });
+    });
+
+    describe("requestCoinState()", () => {
+        const _respond = async (
+            sendMessage: (msg: Message) => void,
+            getLastMessage: () => Message,
+            type: ProtocolMessageTypes,
+            pckt: RespondCoinState | RejectCoinState,
+        ): Promise<RequestCoinState> => {
+            while(
+                BigNumber.from(getLastMessage().type).toNumber() !== ProtocolMessageTypes.request_coin_state
+            ) {
+                await sleep(10);
+            }
+
+            const msg: Message = new Message();
+            msg.type = type;
+            msg.id = null;
+            msg.data = Serializer.serialize(pckt).toString("hex");
+            sendMessage(msg);
+
+            return Serializer.deserialize(RequestCoinState, getLastMessage().data);
+        };
+
+        it("Works", async () => {
+            let lastMessage: Message;
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+
+            const coin = new Coin();
+            coin.amount = 1;
+            coin.parentCoinInfo = "12".repeat(32);
+            coin.puzzleHash = "34".repeat(32);
+            const coinId = coinUtil.getId(coin);
+
+            const coinState = new CoinState();
+            coinState.coin = coin;
+            coinState.createdHeight = 7;
+            coinState.spentHeight = 9;
+
+            const resp = new RespondCoinState();
+            resp.coinIds = [coinId];
+            resp.coinStates = [coinState];
+
+            const promise = provider.requestCoinState({ coinIds: [coinId], subscribe: true });
+            const request = await _respond(sendMessage, () => lastMessage!, ProtocolMessageTypes.respond_coin_state, resp);
+
+            expect(request.coinIds).to.deep.equal([coinId]);
+            expect(request.previousHeight).to.be.null;
+            expect(request.headerHash).to.equal(new NetworkUtil().getGenesisChallenge(Network.testnet10));
+            expect(request.subscribe).to.be.true;
+
+            const coinStates = await promise;
+            expect(coinStates!.length).to.equal(1);
+            expect(coinUtil.getId(coinStates![0].coin)).to.equal(coinId);
+            expect(BigNumber.from(coinStates![0].spentHeight!).eq(9)).to.be.true;
+        });
+
+        it("Returns null if the node rejects the request", async () => {
+            let lastMessage: Message;
+
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+
+            const reject = new RejectCoinState();
+            reject.reason = RejectStateReason.EXCEEDED_SUBSCRIPTION_LIMIT;
+
+            const promise = provider.requestCoinState({ coinIds: ["42".repeat(32)], subscribe: true });
+            await _respond(sendMessage, () => lastMessage!, ProtocolMessageTypes.reject_coin_state, reject);
+
+            expect(await promise).to.be.null;
+        });
     });
 
     describe("getAddress()", () => {
@@ -1703,4 +3101,126 @@ describe("LeafletProvider", function () {
             })
         );
     });
+
+    describe("strict mode", () => {
+        const _rejects = async (func: () => Promise<any>): Promise<any> => {
+            try {
+                await func();
+            } catch(e) {
+                return e;
+            }
+
+            return null;
+        };
+
+        const _waitForMessage = async (getLastMessage: () => Message | undefined, type: ProtocolMessageTypes) => {
+            while(getLastMessage() === undefined || BigNumber.from(getLastMessage()!.type).toNumber() !== type) {
+                await sleep(10);
+            }
+        };
+
+        it("Is disabled by default", async () => {
+            const [provider] = await _setup(() => { });
+
+            expect(provider.strict).to.be.false;
+            expect(await provider.getBalance({ address: "xchnotvalid" })).to.be.null;
+        });
+
+        it("Throws InvalidAddressError and InvalidArgumentError", async () => {
+            const [provider] = await _setup(() => { });
+            provider.strict = true;
+
+            const error = await _rejects(() => provider.getBalance({ address: "xchnotvalid" }));
+            expect(error).to.be.instanceOf(InvalidAddressError);
+            expect(error.address).to.equal("xchnotvalid");
+
+            // the provider is connected to testnet10
+            const mainnetAddress: string = addressUtil.puzzleHashToAddress("42".repeat(32), "xch");
+            expect(await _rejects(() => provider.getBalance({ address: mainnetAddress }))).to.be.instanceOf(InvalidAddressError);
+
+            expect(await _rejects(() => provider.getBalance({}))).to.be.instanceOf(InvalidArgumentError);
+            expect(await _rejects(() => provider.getCoinChildren({ coinId: "invalid" }))).to.be.instanceOf(InvalidArgumentError);
+            expect(
+                () => provider.subscribeToCoinUpdates({ coinId: "invalid", callback: () => { } })
+            ).to.throw(InvalidArgumentError);
+        });
+
+        it("Throws RequestRejectedError if the node rejects the request", async () => {
+            let lastMessage: Message | undefined;
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+            provider.strict = true;
+
+            const promise = _rejects(() => provider.getBlockHeader({ height: 7 }));
+            await _waitForMessage(() => lastMessage, ProtocolMessageTypes.request_block_header);
+
+            const resp: RejectHeaderRequest = new RejectHeaderRequest();
+            resp.height = 7;
+
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.reject_header_request;
+            msg.id = null;
+            msg.data = Serializer.serialize(resp).toString("hex");
+            sendMessage(msg);
+
+            const error = await promise;
+            expect(error).to.be.instanceOf(RequestRejectedError);
+            expect(error.request).to.equal("reject_header_request");
+        });
+
+        it("Throws TransactionRejectedError with the TransactionAck error", async () => {
+            let lastMessage: Message | undefined;
+            const [provider, sendMessage] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+            provider.strict = true;
+
+            const sb = new SpendBundle();
+            sb.aggregatedSignature = "00".repeat(96);
+            sb.coinSpends = [];
+
+            const promise = _rejects(() => provider.pushSpendBundle({ spendBundle: sb }));
+            await _waitForMessage(() => lastMessage, ProtocolMessageTypes.send_transaction);
+
+            const ack = new TransactionAck();
+            ack.txid = "00".repeat(32);
+            ack.status = 3;
+            ack.error = "DOUBLE_SPEND";
+
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.transaction_ack;
+            msg.id = null;
+            msg.data = Serializer.serialize(ack).toString("hex");
+            sendMessage(msg);
+
+            const error = await promise;
+            expect(error).to.be.instanceOf(TransactionRejectedError);
+            expect(error.status).to.equal(3);
+            expect(error.error).to.equal("DOUBLE_SPEND");
+        });
+
+        it("Throws ProviderConnectionError if the provider is closed before the node replies", async () => {
+            let lastMessage: Message | undefined;
+            const [provider] = await _setup((msg) => {
+                lastMessage = msg;
+            });
+            provider.strict = true;
+
+            const promise = _rejects(() => provider.getBalance({ puzzleHash: "42".repeat(32) }));
+            await _waitForMessage(() => lastMessage, ProtocolMessageTypes.register_interest_in_puzzle_hash);
+            await provider.close();
+
+            expect(await promise).to.be.instanceOf(ProviderConnectionError);
+        });
+
+        it("Throws MethodNotSupportedError for methods that are not implemented", async () => {
+            const [provider] = await _setup(() => { });
+
+            const error = await _rejects(() => provider.getAddress());
+            expect(error).to.be.instanceOf(MethodNotSupportedError);
+            expect(error).to.be.instanceOf(ProviderError);
+            expect(error.providerName).to.equal("LeafletProvider");
+        });
+    });
 });
\ No newline at end of file
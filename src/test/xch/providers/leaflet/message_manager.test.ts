@@ -9,6 +9,7 @@ import { Message } from "../../../../util/serializer/types/outbound_message";
 import { ProtocolMessageTypes } from "../../../../util/serializer/types/protocol_message_types";
 import { IChiaMessageChannel } from "../../../../xch/providers/leaflet/chia_message_channel";
 import { MessageManager } from "../../../../xch/providers/leaflet/message_manager";
+import { ProviderConnectionError, ProviderTimeoutError } from "../../../../xch/providers/provider_errors";
 
 const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
 
@@ -75,7 +76,7 @@ describe("MessageManager", () => {
                     handleMsg = hMsg;
                     return msgChannel;
                 },
-                10000,
+                10,
                 100
             );
 
@@ -124,7 +125,9 @@ describe("MessageManager", () => {
 
             expect(sentMessages).to.equal(1);
             expect(lastSentMessage!).to.not.be.undefined;
-            expect(lastSentMessage!.toString("hex")).to.equal(msgToSendSerialized.toString("hex"));
+            // the manager assigns the message id
+            msgToSend.id = 0;
+            expect(lastSentMessage!.toString("hex")).to.equal(Serializer.serialize(msgToSend).toString("hex"));
 
             expect(actualReceivedMessage!).to.not.be.undefined;
             expect(
@@ -140,7 +143,7 @@ describe("MessageManager", () => {
             await manager.close();
         });
 
-        it("Restarts if expected response is not received in time", async () => {
+        it("Rejects the promise if the expected response is not received in time", async () => {
             let sentMessages: number = 0;
             let channelRestarts: number = 0;
             let handleMsg: (rawMsg: Buffer) => void = () => { };
@@ -157,7 +160,7 @@ describe("MessageManager", () => {
                     return msgChannel;
                 },
                 10,
-                10
+                100
             );
 
             const handshakeMsg: Message = new Message();
@@ -176,18 +179,74 @@ describe("MessageManager", () => {
             msgToSend.data = "313337";
             const msgToSendSerialized = Serializer.serialize(msgToSend);
 
-            manager.registerFilter({
+            const promise = manager.registerFilter({
                 messageToSend: msgToSendSerialized,
                 consumeMessage: (msg: Message) => false,
-                expectedMaxRensponseWait: 1000
+                expectedMaxRensponseWait: 100
             });
 
-            await sleep(1100);
+            let error: any = null;
+            try {
+                await promise;
+            } catch(e: any) {
+                error = e;
+            }
+
+            expect(error).to.be.instanceOf(ProviderTimeoutError);
+            expect(error.message).to.equal("Request timed out.");
+            // the connection is not restarted because of a single request
+            expect(channelRestarts).to.equal(1);
+            expect(sentMessages).to.equal(1);
+
+            await manager.close();
+        });
+
+        it("Restarts the connection if a persistent filter does not consume a message in time", async () => {
+            let sentMessages: number = 0;
+            let channelRestarts: number = 0;
+            let handleMsg: (rawMsg: Buffer) => void = () => { };
+
+            const msgChannel: IChiaMessageChannel = {
+                connect: async () => { channelRestarts += 1 },
+                sendMessage: async (msg) => { sentMessages += 1; },
+                close: () => { },
+                isConnected: () => channelRestarts > 0,
+            };
+            const manager = new MessageManager(
+                async (hMsg) => {
+                    handleMsg = hMsg;
+                    return msgChannel;
+                },
+                10,
+                10
+            );
+
+            const handshakeMsg: Message = new Message();
+            handshakeMsg.type = ProtocolMessageTypes.handshake;
+            handshakeMsg.id = null;
+            handshakeMsg.data = "";
+
+            await manager.initialize();
+            handleMsg(Serializer.serialize(handshakeMsg));
+
+            const msgToSend: Message = new Message();
+            msgToSend.type = ProtocolMessageTypes.register_interest_in_puzzle_hash;
+            msgToSend.id = null;
+            msgToSend.data = "313337";
+
+            manager.registerFilter({
+                messageToSend: Serializer.serialize(msgToSend),
+                consumeMessage: (msg: Message) => false,
+                deleteAfterFirstMessageConsumed: false,
+                expectedMaxRensponseWait: 500
+            });
+
+            await sleep(600);
 
             expect(channelRestarts).to.equal(2);
             expect(sentMessages).to.equal(2);
-            
-            await sleep(1100);
+
+            await sleep(500);
 
             expect(channelRestarts).to.equal(3);
             expect(sentMessages).to.equal(3);
@@ -211,8 +270,8 @@ describe("MessageManager", () => {
                     handleMsg = hMsg;
                     return msgChannel;
                 },
-                10000,
-                10
+                10,
+                100
             );
 
             const handshakeMsg: Message = new Message();
@@ -279,8 +338,8 @@ describe("MessageManager", () => {
                     handleMsg = hMsg;
                     return msgChannel;
                 },
-                10000,
-                10
+                10,
+                100
             );
 
             const handshakeMsg: Message = new Message();
@@ -301,13 +360,406 @@ describe("MessageManager", () => {
 
             await sleep(42);
 
-            manager.registerFilter({
+            const promise = manager.registerFilter({
                 messageToSend: msgToSendSerialized,
                 consumeMessage: (msg: Message) => false,
             });
 
             expect(sentMessages).to.equal(1);
 
+            await manager.close();
+            // the request was never answered
+            await promise.catch(() => null);
+        });
+    });
+
+    describe("reconnecting", () => {
+        it("Retries failed connection attempts with exponential backoff", async () => {
+            const connectTimes: number[] = [];
+
+            const msgChannel: IChiaMessageChannel = {
+                connect: async () => { connectTimes.push(new Date().getTime()); },
+                sendMessage: async () => { },
+                close: () => { },
+                isConnected: () => false,
+            };
+            const manager = new MessageManager(
+                async () => msgChannel,
+                40,
+                160
+            );
+            await manager.initialize();
+
+            // delays (with jitter): 20-40ms, 40-80ms, 80-160ms, 80-160ms
+            await sleep(500);
+            await manager.close();
+
+            const attempts: number = connectTimes.length;
+            await sleep(200);
+            expect(connectTimes.length).to.equal(attempts);
+
+            expect(attempts).to.be.within(4, 8);
+            expect(connectTimes[1] - connectTimes[0]).to.be.within(15, 60);
+            expect(connectTimes[3] - connectTimes[2]).to.be.within(75, 200);
+        });
+
+        it("close() rejects pending requests", async () => {
+            const msgChannel: IChiaMessageChannel = {
+                connect: async () => { },
+                sendMessage: async () => { },
+                close: () => { },
+                isConnected: () => true,
+            };
+            const manager = new MessageManager(
+                async () => msgChannel,
+                10,
+                100
+            );
+            await manager.initialize();
+            await sleep(20);
+
+            const promise = manager.registerFilter({
+                consumeMessage: () => false,
+                expectedMaxRensponseWait: 0,
+            });
+            await manager.close();
+
+            let error: any = null;
+            try {
+                await promise;
+            } catch(e: any) {
+                error = e;
+            }
+
+            expect(error).to.be.instanceOf(ProviderConnectionError);
+            expect(error.message).to.equal("MessageManager was closed.");
+        });
+    });
+
+    describe("removeFilter()", () => {
+        it("Stops consuming messages and resolves the filter's promise with null", async () => {
+            let handleMsg: (rawMsg: Buffer) => void = () => { };
+            let channelRestarts: number = 0;
+
+            const msgChannel: IChiaMessageChannel = {
+                connect: async () => { channelRestarts += 1; },
+                sendMessage: async () => { },
+                close: () => { },
+                isConnected: () => channelRestarts > 0,
+            };
+            const manager = new MessageManager(
+                async (hMsg) => {
+                    handleMsg = hMsg;
+                    return msgChannel;
+                },
+                10,
+                100
+            );
+            await manager.initialize();
+            await sleep(20);
+
+            const msgToConsume: Message = new Message();
+            msgToConsume.type = ProtocolMessageTypes.transaction_ack;
+            msgToConsume.id = null;
+            msgToConsume.data = "313337";
+
+            let consumedMessages: number = 0;
+            const filter = {
+                consumeMessage: (msg: Message) => {
+                    consumedMessages += 1;
+                    return true;
+                },
+                deleteAfterFirstMessageConsumed: false,
+                expectedMaxRensponseWait: 0,
+            };
+            const promise = manager.registerFilter(filter);
+
+            handleMsg(Serializer.serialize(msgToConsume));
+            expect(consumedMessages).to.equal(1);
+
+            manager.removeFilter(filter);
+            handleMsg(Serializer.serialize(msgToConsume));
+            expect(consumedMessages).to.equal(1);
+
+            // the first message already resolved it
+            expect(await promise).to.not.be.null;
+
+            const promise2 = manager.registerFilter({ ...filter });
+            manager.removeFilter(filter); // different object - nothing happens
+            handleMsg(Serializer.serialize(msgToConsume));
+            expect(consumedMessages).to.equal(2);
+
+            const filter3 = { consumeMessage: () => false };
+            const promise3 = manager.registerFilter(filter3);
+            manager.removeFilter(filter3);
+            expect(await promise3).to.be.null;
+            expect(await promise2).to.not.be.null;
+
+            await manager.close();
+        });
+
+        it("Removed filters are not re-sent when the channel reconnects", async () => {
+            let sentMessages: number = 0;
+            let channelRestarts: number = 0;
+            let connected: boolean = false;
+
+            const msgChannel: IChiaMessageChannel = {
+                connect: async () => { channelRestarts += 1; connected = true; },
+                sendMessage: async () => { sentMessages += 1; },
+                close: () => { },
+                isConnected: () => connected,
+            };
+            let handleClose: () => void = () => { };
+            const manager = new MessageManager(
+                async (_, hClose) => {
+                    handleClose = hClose;
+                    return msgChannel;
+                },
+                10,
+                10
+            );
+            await manager.initialize();
+            await sleep(20);
+
+            const msgToSend: Message = new Message();
+            msgToSend.type = ProtocolMessageTypes.register_interest_in_puzzle_hash;
+            msgToSend.id = null;
+            msgToSend.data = "313337";
+
+            const filter = {
+                messageToSend: Serializer.serialize(msgToSend),
+                consumeMessage: () => false,
+                deleteAfterFirstMessageConsumed: false,
+                expectedMaxRensponseWait: 0,
+            };
+            manager.registerFilter(filter);
+            expect(sentMessages).to.equal(1);
+
+            connected = false;
+            handleClose();
+            await sleep(50);
+            expect(channelRestarts).to.equal(2);
+            expect(sentMessages).to.equal(2);
+
+            manager.removeFilter(filter);
+            connected = false;
+            handleClose();
+            await sleep(50);
+            expect(channelRestarts).to.equal(3);
+            expect(sentMessages).to.equal(2);
+
+            await manager.close();
+        });
+
+        it("Filters can be removed while a message is being dispatched", async () => {
+            let handleMsg: (rawMsg: Buffer) => void = () => { };
+            const msgChannel: IChiaMessageChannel = {
+                connect: async () => { },
+                sendMessage: async () => { },
+                close: () => { },
+                isConnected: () => true,
+            };
+            const manager = new MessageManager(
+                async (hMsg) => {
+                    handleMsg = hMsg;
+                    return msgChannel;
+                },
+                10,
+                100
+            );
+            await manager.initialize();
+            await sleep(20);
+
+            const _message = (type: ProtocolMessageTypes, data: string) => {
+                const msg: Message = new Message();
+                msg.type = type;
+                msg.id = null;
+                msg.data = data;
+
+                return Serializer.serialize(msg);
+            };
+
+            // the subscription's callback unsubscribes
+            let updates: number = 0;
+            const subscription = {
+                consumeMessage: (msg: Message) => {
+                    if(!BigNumber.from(msg.type).eq(ProtocolMessageTypes.coin_state_update)) {
+                        return false;
+                    }
+
+                    updates += 1;
+                    manager.removeFilter(subscription);
+                    return true;
+                },
+                deleteAfterFirstMessageConsumed: false,
+                expectedMaxRensponseWait: 0,
+            };
+            manager.registerFilter(subscription);
+
+            const pendingRequest = manager.registerFilter({
+                consumeMessage: (msg: Message) => BigNumber.from(msg.type).eq(ProtocolMessageTypes.respond_block_header),
+                expectedMaxRensponseWait: 10000,
+            });
+
+            handleMsg(_message(ProtocolMessageTypes.coin_state_update, "01"));
+            handleMsg(_message(ProtocolMessageTypes.coin_state_update, "02"));
+            expect(updates).to.equal(1);
+
+            handleMsg(_message(ProtocolMessageTypes.respond_block_header, "03"));
+            const resp = (await pendingRequest) as Message;
+            expect(BigNumber.from(resp.type).toNumber()).to.equal(ProtocolMessageTypes.respond_block_header);
+            expect(resp.data).to.equal("03");
+
+            await manager.close();
+        });
+    });
+
+    describe("resendFilter()", () => {
+        it("Re-sends the filter's message if the channel is open", async () => {
+            const sentMessages: Buffer[] = [];
+
+            const msgChannel: IChiaMessageChannel = {
+                connect: async () => { },
+                sendMessage: async (msg: Buffer) => { sentMessages.push(msg); },
+                close: () => { },
+                isConnected: () => true,
+            };
+            const manager = new MessageManager(
+                async () => msgChannel,
+                10,
+                100
+            );
+
+            const msgToSend: Message = new Message();
+            msgToSend.type = ProtocolMessageTypes.register_interest_in_coin;
+            msgToSend.id = null;
+            msgToSend.data = "313337";
+
+            const filter = {
+                messageToSend: Serializer.serialize(msgToSend),
+                consumeMessage: () => false,
+                deleteAfterFirstMessageConsumed: false,
+                expectedMaxRensponseWait: 0,
+            };
+            manager.registerFilter(filter);
+
+            // channel not open yet
+            manager.resendFilter(filter);
+            expect(sentMessages.length).to.equal(0);
+
+            await manager.initialize();
+            await sleep(20);
+            expect(sentMessages.length).to.equal(1);
+
+            manager.resendFilter(filter);
+            manager.resendFilter({ ...filter });
+            expect(sentMessages.length).to.equal(2);
+            expect(sentMessages[1].toString("hex")).to.equal(sentMessages[0].toString("hex"));
+
+            await manager.close();
+        });
+    });
+
+    describe("message ids", () => {
+        const openManager = async (sentMessages: Message[]) => {
+            let handleMsg: (rawMsg: Buffer) => void = () => { };
+            const msgChannel: IChiaMessageChannel = {
+                connect: async () => { },
+                sendMessage: async (msg) => { sentMessages.push(Serializer.deserialize(Message, msg)); },
+                close: () => { },
+                isConnected: () => true,
+            };
+            const manager = new MessageManager(
+                async (hMsg) => {
+                    handleMsg = hMsg;
+                    return msgChannel;
+                },
+                10,
+                100
+            );
+
+            const handshakeMsg: Message = new Message();
+            handshakeMsg.type = ProtocolMessageTypes.handshake;
+            handshakeMsg.id = null;
+            handshakeMsg.data = "";
+
+            await manager.initialize();
+            handleMsg(Serializer.serialize(handshakeMsg));
+
+            return { manager, handleMsg };
+        };
+
+        const makeRequest = () => {
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.request_block_header;
+            msg.id = null;
+            msg.data = "00000539";
+
+            return {
+                messageToSend: Serializer.serialize(msg),
+                consumeMessage: (m: Message) => BigNumber.from(m.type).eq(ProtocolMessageTypes.respond_block_header),
+            };
+        };
+
+        const makeResponse = (id: number | null, data: string) => {
+            const msg: Message = new Message();
+            msg.type = ProtocolMessageTypes.respond_block_header;
+            msg.id = id;
+            msg.data = data;
+
+            return Serializer.serialize(msg);
+        };
+
+        it("Assigns distinct ids to identical requests and routes replies by id", async () => {
+            const sentMessages: Message[] = [];
+            const { manager, handleMsg } = await openManager(sentMessages);
+
+            const promise1 = manager.registerFilter(makeRequest());
+            const promise2 = manager.registerFilter(makeRequest());
+
+            while(sentMessages.length !== 2) {
+                await sleep(10);
+            }
+            const id1: number = BigNumber.from(sentMessages[0].id).toNumber();
+            const id2: number = BigNumber.from(sentMessages[1].id).toNumber();
+            expect(id1).to.not.equal(id2);
+            expect(sentMessages[0].data).to.equal(sentMessages[1].data);
+
+            // answer the second request first
+            handleMsg(makeResponse(id2, "02"));
+            handleMsg(makeResponse(id1, "01"));
+
+            expect(((await promise1) as Message).data).to.equal("01");
+            expect(((await promise2) as Message).data).to.equal("02");
+
+            await manager.close();
+        });
+
+        it("Matches replies without an id using the predicate", async () => {
+            const sentMessages: Message[] = [];
+            const { manager, handleMsg } = await openManager(sentMessages);
+
+            const promise = manager.registerFilter(makeRequest());
+            handleMsg(makeResponse(null, "01"));
+
+            expect(((await promise) as Message).data).to.equal("01");
+
+            await manager.close();
+        });
+
+        it("Matches replies with an unknown id using the predicate", async () => {
+            const sentMessages: Message[] = [];
+            const { manager, handleMsg } = await openManager(sentMessages);
+
+            const promise = manager.registerFilter(makeRequest());
+            while(sentMessages.length !== 1) {
+                await sleep(10);
+            }
+            const id: number = BigNumber.from(sentMessages[0].id).toNumber();
+            handleMsg(makeResponse((id + 1) % 65536, "01"));
+
+            expect(((await promise) as Message).data).to.equal("01");
+
             await manager.close();
         });
     });
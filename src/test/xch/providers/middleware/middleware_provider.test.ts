@@ -0,0 +1,116 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { expect } from "chai";
+import { Network } from "../../../../util/network";
+import { SimulatorProvider } from "../../../../xch/providers/simulator";
+import { MiddlewareProvider, ProviderCallContext, ProviderMiddleware, withMiddleware } from "../../../../xch/providers/middleware";
+
+const _record = (name: string, calls: string[]): ProviderMiddleware => async (context, next) => {
+    calls.push(`${name}:before:${context.method}`);
+    await next();
+    calls.push(`${name}:after:${context.method}`);
+};
+
+describe("MiddlewareProvider", () => {
+    it("withMiddleware() wraps the provider and keeps its events", () => {
+        const simulator = new SimulatorProvider(Network.testnet10);
+        const provider = withMiddleware(simulator, []);
+
+        expect(provider).to.be.instanceOf(MiddlewareProvider);
+        expect(provider.provider).to.equal(simulator);
+        expect(provider.events).to.equal(simulator.events);
+        expect(provider.getNetworkId()).to.equal(Network.testnet10);
+        expect(provider.capabilities()).to.deep.equal(simulator.capabilities());
+    });
+
+    it("Calls middlewares in order, outermost first", async () => {
+        const calls: string[] = [];
+        const provider = withMiddleware(new SimulatorProvider(), [_record("a", calls), _record("b", calls)]);
+
+        await provider.connect();
+        expect(provider.isConnected()).to.be.true;
+        expect(calls).to.deep.equal([
+            "a:before:connect", "b:before:connect", "b:after:connect", "a:after:connect"
+        ]);
+    });
+
+    it("Passes the method name, args, result and latency to middlewares", async () => {
+        const contexts: ProviderCallContext[] = [];
+        const simulator = new SimulatorProvider();
+        const provider = withMiddleware(simulator, [
+            async (context, next) => {
+                await next();
+                contexts.push(context);
+            },
+        ]);
+        await simulator.connect();
+        await simulator.farmBlock();
+
+        const header = await provider.getBlockHeader({ height: 0 });
+        expect(header).to.not.be.null;
+        expect(contexts.length).to.equal(1);
+        expect(contexts[0].method).to.equal("getBlockHeader");
+        expect(contexts[0].args).to.deep.equal([{ height: 0 }]);
+        expect(contexts[0].result).to.equal(header);
+        expect(contexts[0].error).to.be.undefined;
+        expect(contexts[0].latency).to.be.gte(0);
+    });
+
+    it("Passes errors to middlewares and throws them", async () => {
+        let error: any;
+        const provider = withMiddleware(new SimulatorProvider(), [
+            async (context, next) => {
+                await next();
+                error = context.error;
+            },
+        ]);
+
+        let thrown: any;
+        try {
+            await provider.getAddress();
+        } catch(e) {
+            thrown = e;
+        }
+
+        expect(thrown).to.not.be.undefined;
+        expect(thrown).to.equal(error);
+        expect(thrown.message).to.equal("SimulatorProvider does not implement this method.");
+    });
+
+    it("Lets middlewares recover from errors and change results", async () => {
+        const provider = withMiddleware(new SimulatorProvider(), [
+            async (context, next) => {
+                await next();
+                if(context.error !== undefined) {
+                    context.error = undefined;
+                    context.result = "xch1fallback";
+                }
+            },
+        ]);
+
+        expect(await provider.getAddress()).to.equal("xch1fallback");
+    });
+
+    it("Lets middlewares short-circuit calls", async () => {
+        const simulator = new SimulatorProvider();
+        const provider = withMiddleware(simulator, [
+            async (context) => {
+                context.result = 1337;
+            },
+        ]);
+
+        expect(await provider.getBlockNumber()).to.equal(1337);
+        expect(await simulator.getBlockNumber()).to.be.null;
+    });
+
+    it("Does not intercept sync methods", () => {
+        const calls: string[] = [];
+        const provider = withMiddleware(new SimulatorProvider(), [_record("a", calls)]);
+
+        const subscription = provider.subscribeToCoinUpdates({ coinId: "00".repeat(32), callback: () => null });
+        subscription.unsubscribe();
+        provider.isConnected();
+
+        expect(calls).to.deep.equal([]);
+    });
+});
\ No newline at end of file
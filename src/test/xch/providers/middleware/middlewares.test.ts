@@ -0,0 +1,172 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { expect } from "chai";
+import { SimulatorProvider } from "../../../../xch/providers/simulator";
+import { log, metrics, ProviderMetrics, rateLimit, retry, withMiddleware } from "../../../../xch/providers/middleware";
+import { ProviderConnectionError, ProviderTimeoutError, UserRejectedError } from "../../../../xch/providers/provider_errors";
+
+// getBlockNumber() throws the first 'failures' times
+const _flakyProvider = (
+    failures: number,
+    createError: () => Error = () => new ProviderConnectionError("Temporary failure"),
+): [SimulatorProvider, { calls: number }] => {
+    const simulator = new SimulatorProvider();
+    const counter = { calls: 0 };
+
+    simulator.getBlockNumber = async () => {
+        counter.calls += 1;
+        if(counter.calls <= failures) {
+            throw createError();
+        }
+
+        return 42;
+    };
+
+    return [simulator, counter];
+};
+
+describe("Provider middlewares", () => {
+    describe("retry()", () => {
+        it("Retries failed calls", async () => {
+            const [simulator, counter] = _flakyProvider(2);
+            const provider = withMiddleware(simulator, [retry({ retries: 2, delay: 1 })]);
+
+            expect(await provider.getBlockNumber()).to.equal(42);
+            expect(counter.calls).to.equal(3);
+        });
+
+        it("Throws the last error if all retries fail", async () => {
+            const [simulator, counter] = _flakyProvider(5);
+            const provider = withMiddleware(simulator, [retry({ retries: 2, delay: 1 })]);
+
+            let thrown: any;
+            try {
+                await provider.getBlockNumber();
+            } catch(e) {
+                thrown = e;
+            }
+
+            expect(thrown?.message).to.equal("Temporary failure");
+            expect(counter.calls).to.equal(3);
+        });
+
+        it("Only retries timeouts and connection errors by default", async () => {
+            const [timeoutSimulator, timeoutCounter] = _flakyProvider(1, () => new ProviderTimeoutError());
+            expect(await withMiddleware(timeoutSimulator, [retry({ delay: 1 })]).getBlockNumber()).to.equal(42);
+            expect(timeoutCounter.calls).to.equal(2);
+
+            for(const createError of [() => new Error("Err"), () => new UserRejectedError()]) {
+                const [simulator, counter] = _flakyProvider(1, createError);
+                const provider = withMiddleware(simulator, [retry({ delay: 1 })]);
+
+                let thrown: any;
+                try {
+                    await provider.getBlockNumber();
+                } catch(e) {
+                    thrown = e;
+                }
+
+                expect(thrown).to.be.instanceOf(Error);
+                expect(counter.calls).to.equal(1);
+            }
+        });
+
+        it("Does not retry methods that send transactions or need approval by default", async () => {
+            const simulator = new SimulatorProvider();
+            let calls: number = 0;
+            simulator.pushSpendBundle = async () => {
+                calls += 1;
+                throw new ProviderTimeoutError();
+            };
+            const provider = withMiddleware(simulator, [retry({ delay: 1 })]);
+
+            let thrown: any;
+            try {
+                await provider.pushSpendBundle({ spendBundle: null as any });
+            } catch(e) {
+                thrown = e;
+            }
+
+            expect(thrown).to.be.instanceOf(ProviderTimeoutError);
+            expect(calls).to.equal(1);
+        });
+
+        it("Uses shouldRetry() to decide whether to retry", async () => {
+            const [simulator, counter] = _flakyProvider(0);
+            const provider = withMiddleware(simulator, [
+                retry({ retries: 3, delay: 1, shouldRetry: (context) => context.result === 42 }),
+            ]);
+
+            expect(await provider.getBlockNumber()).to.equal(42);
+            expect(counter.calls).to.equal(4);
+        });
+    });
+
+    describe("rateLimit()", () => {
+        it("Spaces out calls", async () => {
+            const [simulator, counter] = _flakyProvider(0);
+            const provider = withMiddleware(simulator, [rateLimit({ requestsPerSecond: 20 })]);
+
+            const startTime = Date.now();
+            await Promise.all([
+                provider.getBlockNumber(),
+                provider.getBlockNumber(),
+                provider.getBlockNumber(),
+            ]);
+
+            expect(counter.calls).to.equal(3);
+            expect(Date.now() - startTime).to.be.gte(90);
+        });
+    });
+
+    describe("log()", () => {
+        it("Logs method names, latencies and errors", async () => {
+            const messages: string[] = [];
+            const provider = withMiddleware(new SimulatorProvider(), [log((message) => messages.push(message))]);
+
+            await provider.getBlockNumber();
+            try {
+                await provider.getAddress();
+            } catch(_) {
+                // expected
+            }
+
+            expect(messages.length).to.equal(2);
+            expect(messages[0]).to.match(/^getBlockNumber took \d+ms$/);
+            expect(messages[1]).to.match(/^getAddress failed after \d+ms: SimulatorProvider does not implement this method\.$/);
+        });
+    });
+
+    describe("metrics()", () => {
+        it("Counts calls, errors and null results per method", async () => {
+            const collector = new ProviderMetrics();
+            const [simulator] = _flakyProvider(1);
+            const provider = withMiddleware(simulator, [metrics(collector)]);
+
+            for(let i = 0; i < 3; ++i) {
+                await provider.getBlockNumber().catch(() => null);
+            }
+            await provider.getBlockHeader({ height: 7 });
+
+            expect(collector.getMethods()).to.deep.equal(["getBlockNumber", "getBlockHeader"]);
+            expect(collector.get("getBlockNumber").calls).to.equal(3);
+            expect(collector.get("getBlockNumber").errors).to.equal(1);
+            expect(collector.get("getBlockNumber").nullResults).to.equal(0);
+            expect(collector.get("getBlockHeader").nullResults).to.equal(1);
+            expect(collector.get("getBlockHeader").totalLatency).to.be.gte(0);
+            expect(collector.get("getBalance").calls).to.equal(0);
+
+            collector.reset();
+            expect(collector.getMethods()).to.deep.equal([]);
+        });
+
+        it("Records each attempt when placed after retry()", async () => {
+            const collector = new ProviderMetrics();
+            const [simulator] = _flakyProvider(2);
+            const provider = withMiddleware(simulator, [retry({ delay: 1 }), metrics(collector)]);
+
+            expect(await provider.getBlockNumber()).to.equal(42);
+            expect(collector.get("getBlockNumber").calls).to.equal(3);
+            expect(collector.get("getBlockNumber").errors).to.equal(2);
+        });
+    });
+});
\ No newline at end of file
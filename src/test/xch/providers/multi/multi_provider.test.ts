@@ -4,11 +4,15 @@ import { BigNumber } from "@ethersproject/bignumber";
 import { expect } from "chai";
 import { Network } from "../../../../util/network";
 import { SpendBundle } from "../../../../util/serializer/types/spend_bundle";
-import { MultiProvider } from "../../../../xch/providers/multi";
-import { acceptOfferArgs, BlockHeader, changeNetworkArgs, Coin, CoinState, getBalanceArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinAdditionsArgs, getCoinChildrenArgs, getCoinRemovalsArgs, getPuzzleSolutionArgs, Optional, Provider, pushSpendBundleArgs, PuzzleSolution, signCoinSpendsArgs, subscribeToAddressChangesArgs, subscribeToCoinUpdatesArgs, subscribeToPuzzleHashUpdatesArgs, transferArgs, transferCATArgs } from "../../../../xch/providers/provider";
+import { MultiProvider, MultiProviderDisagreement } from "../../../../xch/providers/multi";
+import { MethodNotSupportedError, ProviderTimeoutError } from "../../../../xch/providers/provider_errors";
+import { acceptOfferArgs, BlockHeader, changeNetworkArgs, Coin, CoinState, getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinAdditionsArgs, getCoinChildrenArgs, getCoinRemovalsArgs, getPuzzleSolutionArgs, Optional, Provider, pushSpendBundleArgs, PuzzleSolution, signCoinSpendsArgs, subscribeToAddressChangesArgs, subscribeToCoinUpdatesArgs, subscribeToPuzzleHashUpdatesArgs, Subscription, transferArgs, transferCATArgs, ProviderEventEmitter, ProviderCapabilities, PROVIDER_METHODS } from "../../../../xch/providers/provider";
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
 
 let calledMethods: Array<{id: number, methodName: string}> = [];
 let overwriteMethods: Map<string, (id: number) => any> = new Map<string, (id: number) => any>();
+let capabilities: Map<number, ProviderCapabilities> = new Map<number, ProviderCapabilities>();
 
 const METHODS: Array<Record<string, any>> = [
     ["connect", (obj: Provider) => obj.connect()],
@@ -33,11 +37,15 @@ const METHODS: Array<Record<string, any>> = [
     ["subscribeToAddressChanges", (obj: Provider) => obj.subscribeToAddressChanges({ callback: () => { } })],
     ["signCoinSpends", (obj: Provider) => obj.signCoinSpends({ coinSpends: [] })],
     ["changeNetwork", (obj: Provider) => obj.changeNetwork({ network: Network.mainnet })],
+    ["getUnspentCoins", (obj: Provider) => obj.getUnspentCoins({})],
+    ["getCoinRecord", (obj: Provider) => obj.getCoinRecord({ coinId: "" })],
+    ["getCoinRecords", (obj: Provider) => obj.getCoinRecords({ coinIds: [] })],
 ];
 
 const EXCEPTIONS = [0, 1, 3];
 
 class ObservableProvider implements Provider {
+    public events: ProviderEventEmitter = new ProviderEventEmitter();
     private _id: number;
 
     constructor(id: number) {
@@ -71,16 +79,19 @@ class ObservableProvider implements Provider {
     isConnected(): boolean {
         return this._processMethod(METHODS[3][0]);
     }
+    capabilities(): ProviderCapabilities {
+        return capabilities.get(this._id) ?? { methods: [...PROVIDER_METHODS], networks: [Network.mainnet], features: [] };
+    }
     getBlockNumber(): Promise<Optional<number>> {
         return this._processMethod(METHODS[4][0]);
     }
     getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> {
         return this._processMethod(METHODS[5][0]);
     }
-    subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): void {
+    subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription {
         return this._processMethod(METHODS[6][0]);
     }
-    subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): void {
+    subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription {
         return this._processMethod(METHODS[7][0]);
     }
     getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> {
@@ -125,15 +136,25 @@ class ObservableProvider implements Provider {
     changeNetwork(args: changeNetworkArgs): Promise<boolean> {
         return this._processMethod(METHODS[21][0]);
     }
+    getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> {
+        return this._processMethod(METHODS[22][0]);
+    }
+    getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>> {
+        return this._processMethod(METHODS[23][0]);
+    }
+    getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]> {
+        return this._processMethod(METHODS[24][0]);
+    }
 }
 
 describe("MultiProvider", () => {
     beforeEach(() => {
         calledMethods = [];
         overwriteMethods = new Map<string, (id: number) => any>();
+        capabilities = new Map<number, ProviderCapabilities>();
     });
 
-    const MASK = "0001111001011001010100";
+    const MASK = "0001111001011001010100101";
 
     it("Calls fallbacks correctly (#1)", async () => {
         const provider1: ObservableProvider = new ObservableProvider(1);
@@ -278,6 +299,101 @@ describe("MultiProvider", () => {
         }
     });
 
+    it("Skips Providers that do not support the method", async () => {
+        const provider1: ObservableProvider = new ObservableProvider(1);
+        const provider2: ObservableProvider = new ObservableProvider(2);
+
+        const p: MultiProvider = new MultiProvider([provider1, provider2]);
+
+        overwriteMethods.set(
+            "isConnected",
+            (id: number) => true
+        );
+        capabilities.set(1, { methods: ["getBlockNumber"], networks: [Network.mainnet], features: [] });
+
+        await p.getBlockNumber();
+        await p.getAddress();
+
+        expect(calledMethods.filter((e) => e.methodName !== "isConnected")).to.deep.equal([
+            { id: 1, methodName: "getBlockNumber" },
+            { id: 2, methodName: "getAddress" },
+        ]);
+    });
+
+    it("capabilities() combines the capabilities of all Providers", () => {
+        const provider1: ObservableProvider = new ObservableProvider(1);
+        const provider2: ObservableProvider = new ObservableProvider(2);
+
+        const p: MultiProvider = new MultiProvider([provider1, provider2]);
+
+        capabilities.set(1, { methods: ["transfer", "getAddress"], networks: [Network.mainnet], features: ["signing"] });
+        capabilities.set(2, {
+            methods: ["getBlockNumber", "getAddress"], networks: [Network.mainnet, Network.testnet10], features: ["subscriptions"]
+        });
+
+        expect(p.capabilities()).to.deep.equal({
+            methods: ["getBlockNumber", "getAddress", "transfer"],
+            networks: [Network.mainnet, Network.testnet10],
+            features: ["signing", "subscriptions"],
+        });
+    });
+
+    it("Throws the last typed error if all Providers fail", async () => {
+        const provider1: ObservableProvider = new ObservableProvider(1);
+        const provider2: ObservableProvider = new ObservableProvider(2);
+
+        const p: MultiProvider = new MultiProvider([provider1, provider2]);
+
+        overwriteMethods.set(
+            "isConnected",
+            (id: number) => true
+        );
+        overwriteMethods.set(
+            "getBlockNumber",
+            async (id: number) => {
+                if(id === 1) {
+                    throw new MethodNotSupportedError("ObservableProvider");
+                }
+
+                throw new ProviderTimeoutError();
+            }
+        );
+
+        let error: any = null;
+        try {
+            await p.getBlockNumber();
+        } catch(e) {
+            error = e;
+        }
+
+        expect(error).to.be.instanceOf(ProviderTimeoutError);
+    });
+
+    it("Throws MethodNotSupportedError if no Provider implements the method", async () => {
+        const provider1: ObservableProvider = new ObservableProvider(1);
+
+        const p: MultiProvider = new MultiProvider([provider1]);
+
+        overwriteMethods.set(
+            "isConnected",
+            (id: number) => true
+        );
+        overwriteMethods.set(
+            "getAddress",
+            async () => { throw new MethodNotSupportedError("ObservableProvider"); }
+        );
+
+        let error: any = null;
+        try {
+            await p.getAddress();
+        } catch(e) {
+            error = e;
+        }
+
+        expect(error).to.be.instanceOf(MethodNotSupportedError);
+        expect(error.providerName).to.equal("MultiProvider");
+    });
+
     it("connect() calls the connect() method of all Providers that are not connected", async () => {
         const provider1: ObservableProvider = new ObservableProvider(1);
         const provider2: ObservableProvider = new ObservableProvider(2);
@@ -399,4 +515,237 @@ describe("MultiProvider", () => {
         expect(isConnectedEvents[2].id).to.equal(3);
         expect(isConnectedEvents[3].id).to.equal(4);
     });
+
+    it("Re-emits the events of all Providers", () => {
+        const provider1: ObservableProvider = new ObservableProvider(1);
+        const provider2: ObservableProvider = new ObservableProvider(2);
+
+        const p: MultiProvider = new MultiProvider([provider1, provider2]);
+
+        const emitted: string[] = [];
+        p.events.on("connected", () => emitted.push("connected"));
+        p.events.on("addressChanged", (address) => emitted.push(address));
+
+        provider1.events.emit("connected");
+        provider2.events.emit("addressChanged", "xch1test");
+
+        expect(emitted).to.deep.equal(["connected", "xch1test"]);
+    });
+
+    describe("strategies", () => {
+        beforeEach(() => {
+            overwriteMethods.set(
+                "isConnected",
+                (id: number) => true
+            );
+        });
+
+        it("race: returns the first non-null result", async () => {
+            const provider1: ObservableProvider = new ObservableProvider(1);
+            const provider2: ObservableProvider = new ObservableProvider(2);
+            const provider3: ObservableProvider = new ObservableProvider(3);
+
+            const p: MultiProvider = new MultiProvider([provider1, provider2, provider3], { strategy: "race" });
+
+            overwriteMethods.set(
+                "getBlockNumber",
+                async (id: number) => {
+                    if(id === 1) {
+                        await sleep(50);
+                        return 1;
+                    }
+                    if(id === 2) {
+                        return null;
+                    }
+
+                    await sleep(10);
+                    return 3;
+                }
+            );
+
+            expect(await p.getBlockNumber()).to.equal(3);
+            expect(
+                calledMethods.filter((e) => e.methodName === "getBlockNumber").length
+            ).to.equal(3);
+        });
+
+        it("race: returns null if all providers return null and throws if all fail", async () => {
+            const provider1: ObservableProvider = new ObservableProvider(1);
+            const provider2: ObservableProvider = new ObservableProvider(2);
+
+            const p: MultiProvider = new MultiProvider([provider1, provider2], { strategy: "race" });
+
+            overwriteMethods.set(
+                "getBlockHeader",
+                async (id: number) => {
+                    if(id === 1) {
+                        throw new Error("Err");
+                    }
+
+                    return null;
+                }
+            );
+            expect(await p.getBlockHeader({ height: 1 })).to.be.null;
+
+            overwriteMethods.set(
+                "getBlockHeader",
+                async () => { throw new Error("Err"); }
+            );
+            let thrownOk: boolean = false;
+            try {
+                await p.getBlockHeader({ height: 1 });
+            } catch(err: any) {
+                thrownOk = err.message === "MultiProvider could not find an active Provider that implements this method.";
+            }
+            expect(thrownOk).to.be.true;
+        });
+
+        it("round-robin: spreads calls over all providers", async () => {
+            const provider1: ObservableProvider = new ObservableProvider(1);
+            const provider2: ObservableProvider = new ObservableProvider(2);
+
+            const p: MultiProvider = new MultiProvider([provider1, provider2], { strategy: "round-robin" });
+
+            overwriteMethods.set(
+                "getBlockNumber",
+                async (id: number) => id
+            );
+
+            const results: Array<Optional<number>> = [];
+            for(let i = 0; i < 3; ++i) {
+                results.push(await p.getBlockNumber());
+            }
+
+            expect(results).to.deep.equal([1, 2, 1]);
+        });
+
+        it("round-robin: tries unhealthy providers last", async () => {
+            const provider1: ObservableProvider = new ObservableProvider(1);
+            const provider2: ObservableProvider = new ObservableProvider(2);
+
+            const p: MultiProvider = new MultiProvider([provider1, provider2], { strategy: "round-robin" });
+
+            overwriteMethods.set(
+                "getBlockNumber",
+                async (id: number) => {
+                    if(id === 1) {
+                        throw new Error("Err");
+                    }
+
+                    return id;
+                }
+            );
+
+            for(let i = 0; i < 10; ++i) {
+                expect(await p.getBlockNumber()).to.equal(2);
+            }
+
+            // provider 1 is tried first on every other call until its score drops below 0.5 (4 failures)
+            expect(
+                calledMethods.filter((e) => e.methodName === "getBlockNumber" && e.id === 1).length
+            ).to.equal(4);
+            expect(p.getHealth(provider1).failures).to.equal(4);
+            expect(p.getHealth(provider1).score).to.be.lessThan(0.5);
+            expect(p.getHealth(provider2).successes).to.equal(10);
+            expect(p.getHealth(provider2).score).to.equal(1);
+        });
+
+        it("quorum: returns the result most providers agree on and flags disagreement", async () => {
+            const provider1: ObservableProvider = new ObservableProvider(1);
+            const provider2: ObservableProvider = new ObservableProvider(2);
+            const provider3: ObservableProvider = new ObservableProvider(3);
+
+            const disagreements: MultiProviderDisagreement[] = [];
+            const p: MultiProvider = new MultiProvider([provider1, provider2, provider3], {
+                quorum: 2,
+                onDisagreement: (d) => disagreements.push(d),
+            });
+
+            overwriteMethods.set(
+                "getBalance",
+                async (id: number) => BigNumber.from(id === 2 ? 1337 : 42)
+            );
+
+            const balance = await p.getBalance({});
+            expect(balance?.eq(42)).to.be.true;
+
+            expect(disagreements.length).to.equal(1);
+            expect(disagreements[0].method).to.equal("getBalance");
+            expect(disagreements[0].results.length).to.equal(3);
+
+            expect(p.getHealth(provider1).failures).to.equal(0);
+            expect(p.getHealth(provider2).failures).to.equal(1);
+        });
+
+        it("quorum: returns null (or an empty list) if not enough providers agree", async () => {
+            const provider1: ObservableProvider = new ObservableProvider(1);
+            const provider2: ObservableProvider = new ObservableProvider(2);
+
+            const p: MultiProvider = new MultiProvider([provider1, provider2], { quorum: 2 });
+
+            overwriteMethods.set(
+                "getBalance",
+                async (id: number) => BigNumber.from(id)
+            );
+            overwriteMethods.set(
+                "getCoinChildren",
+                async (id: number) => {
+                    if(id === 1) {
+                        throw new Error("Err");
+                    }
+
+                    const coinState = new CoinState();
+                    coinState.coin = new Coin();
+                    coinState.coin.parentCoinInfo = "01".repeat(32);
+                    coinState.coin.puzzleHash = "02".repeat(32);
+                    coinState.coin.amount = 1;
+                    coinState.createdHeight = 1;
+                    coinState.spentHeight = null;
+
+                    return [coinState];
+                }
+            );
+
+            expect(await p.getBalance({})).to.be.null;
+            expect(await p.getCoinChildren({ coinId: "" })).to.deep.equal([]);
+        });
+
+        it("quorum: does not count results of providers that timed out as votes", async () => {
+            const provider1: ObservableProvider = new ObservableProvider(1);
+            const provider2: ObservableProvider = new ObservableProvider(2);
+            const provider3: ObservableProvider = new ObservableProvider(3);
+            const provider4: ObservableProvider = new ObservableProvider(4);
+
+            const disagreements: MultiProviderDisagreement[] = [];
+            const p: MultiProvider = new MultiProvider([provider1, provider2, provider3], {
+                quorum: 2,
+                onDisagreement: (d) => disagreements.push(d),
+            });
+
+            // non-strict providers return null after a timeout
+            overwriteMethods.set(
+                "getBalance",
+                async (id: number) => {
+                    if(id === 2 || id === 3) {
+                        await sleep(20);
+                        return null;
+                    }
+
+                    return BigNumber.from(42);
+                }
+            );
+
+            expect(await p.getBalance({})).to.be.null;
+            expect(disagreements.length).to.equal(0);
+            expect(p.getHealth(provider1).failures).to.equal(0);
+
+            // the responsive providers reach the quorum
+            p.providers.push(provider4);
+            const balance = await p.getBalance({});
+            expect(balance?.eq(42)).to.be.true;
+            expect(disagreements.length).to.equal(0);
+            expect(p.getHealth(provider1).failures).to.equal(0);
+            expect(p.getHealth(provider4).failures).to.equal(0);
+        });
+    });
 });
\ No newline at end of file
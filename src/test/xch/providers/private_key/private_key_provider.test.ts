@@ -53,6 +53,29 @@ describe("PrivateKeyProvider", () => {
             await provider.close();
             expect(provider.isConnected()).to.be.false;
         });
+
+        it("Emits 'connected' and 'disconnected' events", async () => {
+            const provider = new PrivateKeyProvider("00".repeat(32));
+            const emitted: string[] = [];
+            provider.events.on("connected", () => emitted.push("connected"));
+            provider.events.on("disconnected", () => emitted.push("disconnected"));
+
+            await provider.close();
+            await provider.connect();
+            await provider.close();
+
+            expect(emitted).to.deep.equal(["connected", "disconnected"]);
+        });
+    });
+
+    describe("capabilities()", () => {
+        it("Reports signCoinSpends, changeNetwork and all networks", () => {
+            const capabilities = new PrivateKeyProvider("00".repeat(32)).capabilities();
+
+            expect(capabilities.methods).to.deep.equal(["signCoinSpends", "changeNetwork"]);
+            expect(capabilities.networks).to.include.members([Network.mainnet, Network.testnet10]);
+            expect(capabilities.features).to.deep.equal(["signing"]);
+        });
     });
 
     describe("getNetworkId()", () => {
@@ -651,6 +674,29 @@ describe("PrivateKeyProvider", () => {
             expect(provider.getNetworkId()).to.equal(Network.testnet7);
         });
 
+        it("Emits a 'networkChanged' event", async () => {
+            const provider = new PrivateKeyProvider("01".repeat(32));
+            const networks: Network[] = [];
+            provider.events.on("networkChanged", (network) => networks.push(network));
+
+            await provider.changeNetwork({ network: Network.testnet10 });
+            await provider.changeNetwork({ network: "yakuhito" as Network });
+
+            expect(networks).to.deep.equal([Network.testnet10]);
+        });
+
+        it("Accepts registered networks", async () => {
+            const network: Network = Util.network.register({
+                id: "private-key-provider-test",
+                genesisChallenge: "42".repeat(32),
+            });
+            const provider = new PrivateKeyProvider("01".repeat(32));
+
+            expect(await provider.changeNetwork({ network })).to.be.true;
+            expect(provider.getNetworkId()).to.equal(network);
+            expect(provider.capabilities().networks).to.include(network);
+        });
+
         it("Doesn't do anything if provided network id is invalid", async () => {
             const provider = new PrivateKeyProvider("01".repeat(32));
             await provider.connect();
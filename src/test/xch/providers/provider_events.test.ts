@@ -0,0 +1,140 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { expect } from "chai";
+import { Network } from "../../../util/network";
+import { ProviderEventEmitter, SubscriptionIterator } from "../../../xch/providers/provider_events";
+
+describe("ProviderEventEmitter", () => {
+    it("Calls listeners with the emitted arguments", () => {
+        const emitter = new ProviderEventEmitter();
+        const peaks: number[] = [];
+        const networks: Network[] = [];
+
+        emitter.on("peak", (peak) => peaks.push(peak.height));
+        emitter.on("networkChanged", (network) => networks.push(network));
+
+        emitter.emit("peak", { height: 7, headerHash: "42".repeat(32) });
+        emitter.emit("peak", { height: 8, headerHash: "43".repeat(32) });
+        emitter.emit("networkChanged", Network.testnet10);
+
+        expect(peaks).to.deep.equal([7, 8]);
+        expect(networks).to.deep.equal([Network.testnet10]);
+    });
+
+    it("Stops calling listeners after unsubscribe() or off()", () => {
+        const emitter = new ProviderEventEmitter();
+        let calls1: number = 0;
+        let calls2: number = 0;
+
+        const listener2 = () => { calls2 += 1; };
+        const subscription = emitter.on("connected", () => { calls1 += 1; });
+        emitter.on("connected", listener2);
+        expect(emitter.listenerCount("connected")).to.equal(2);
+
+        emitter.emit("connected");
+        subscription.unsubscribe();
+        emitter.emit("connected");
+        emitter.off("connected", listener2);
+        emitter.emit("connected");
+
+        expect(calls1).to.equal(1);
+        expect(calls2).to.equal(2);
+        expect(emitter.listenerCount("connected")).to.equal(0);
+    });
+
+    it("Handles listeners that unsubscribe while being called", () => {
+        const emitter = new ProviderEventEmitter();
+        let calls: number = 0;
+
+        const subscription = emitter.on("disconnected", () => {
+            calls += 1;
+            subscription.unsubscribe();
+        });
+        emitter.on("disconnected", () => { calls += 1; });
+
+        emitter.emit("disconnected");
+        emitter.emit("disconnected");
+
+        expect(calls).to.equal(3);
+    });
+
+    it("pipe() re-emits all events until unsubscribed", () => {
+        const source = new ProviderEventEmitter();
+        const destination = new ProviderEventEmitter();
+        const addresses: string[] = [];
+
+        destination.on("addressChanged", (address) => addresses.push(address));
+        const subscription = source.pipe(destination);
+
+        source.emit("addressChanged", "xch1");
+        subscription.unsubscribe();
+        source.emit("addressChanged", "xch2");
+
+        expect(addresses).to.deep.equal(["xch1"]);
+        expect(source.listenerCount("addressChanged")).to.equal(0);
+    });
+
+    it("iterate() yields emitted values", async () => {
+        const emitter = new ProviderEventEmitter();
+        const iterator = emitter.iterate("peak");
+
+        emitter.emit("peak", { height: 1, headerHash: "01".repeat(32) });
+        emitter.emit("peak", { height: 2, headerHash: "02".repeat(32) });
+
+        const heights: number[] = [];
+        for await (const peak of iterator) {
+            heights.push(peak.height);
+            if(heights.length === 2) {
+                break;
+            }
+        }
+
+        expect(heights).to.deep.equal([1, 2]);
+        expect(emitter.listenerCount("peak")).to.equal(0);
+    });
+});
+
+describe("SubscriptionIterator", () => {
+    it("Buffers values pushed before they are requested", async () => {
+        let push: (value: number) => void = () => null;
+        const iterator = new SubscriptionIterator<number>((p) => {
+            push = p;
+            p(1);
+            return { unsubscribe: () => null };
+        });
+
+        push(2);
+
+        expect(await iterator.next()).to.deep.equal({ value: 1, done: false });
+        expect(await iterator.next()).to.deep.equal({ value: 2, done: false });
+    });
+
+    it("Resolves pending next() calls when a value is pushed", async () => {
+        let push: (value: number) => void = () => null;
+        const iterator = new SubscriptionIterator<number>((p) => {
+            push = p;
+            return { unsubscribe: () => null };
+        });
+
+        const result = iterator.next();
+        push(42);
+
+        expect(await result).to.deep.equal({ value: 42, done: false });
+    });
+
+    it("return() unsubscribes and finishes pending next() calls", async () => {
+        let unsubscribed: boolean = false;
+        let push: (value: number) => void = () => null;
+        const iterator = new SubscriptionIterator<number>((p) => {
+            push = p;
+            return { unsubscribe: () => { unsubscribed = true; } };
+        });
+
+        const result = iterator.next();
+        await iterator.return();
+        push(42);
+
+        expect(unsubscribed).to.be.true;
+        expect((await result).done).to.be.true;
+        expect((await iterator.next()).done).to.be.true;
+    });
+});
\ No newline at end of file
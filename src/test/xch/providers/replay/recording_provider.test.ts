@@ -0,0 +1,122 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Util } from "../../../../util";
+import { Network } from "../../../../util/network";
+import { RecordingProvider } from "../../../../xch/providers/replay";
+import { SimulatorProvider } from "../../../../xch/providers/simulator";
+import { CoinState } from "../../../../xch/providers/provider_types";
+
+const ANYONE_CAN_SPEND_PUZZLE_HASH: string = Util.sexp.sha256tree(Util.sexp.fromHex("01"));
+
+describe("RecordingProvider", () => {
+    let simulator: SimulatorProvider;
+
+    beforeEach(async () => {
+        simulator = new SimulatorProvider(Network.testnet10);
+        await simulator.connect();
+        await simulator.farmBlock(ANYONE_CAN_SPEND_PUZZLE_HASH);
+    });
+
+    it("Uses the events, network and capabilities of the wrapped provider", () => {
+        const provider = new RecordingProvider(simulator);
+
+        expect(provider.events).to.equal(simulator.events);
+        expect(provider.isConnected()).to.be.true;
+        expect(provider.fixture.network).to.equal(Network.testnet10);
+        expect(provider.fixture.capabilities).to.deep.equal(simulator.capabilities());
+        expect(provider.fixture.calls).to.deep.equal([]);
+    });
+
+    it("Records calls and their results", async () => {
+        const provider = new RecordingProvider(simulator);
+
+        expect(await provider.getBlockNumber()).to.equal(0);
+        const header = await provider.getBlockHeader({ height: 0 });
+
+        expect(provider.fixture.calls.length).to.equal(2);
+        expect(provider.fixture.calls[0]).to.deep.equal({ method: "getBlockNumber", args: "{}", result: 0 });
+        expect(provider.fixture.calls[1].method).to.equal("getBlockHeader");
+        expect(provider.fixture.calls[1].args).to.equal("{\"height\":0}");
+        expect(provider.fixture.calls[1].result).to.be.a("string");
+        expect(provider.fixture.calls[1].result).to.include(header!.headerHash);
+    });
+
+    it("Records errors and re-throws them", async () => {
+        const provider = new RecordingProvider(simulator);
+
+        let thrown: any = null;
+        try {
+            await provider.getAddress();
+        } catch(e) {
+            thrown = e;
+        }
+
+        expect(thrown?.message).to.equal("SimulatorProvider does not implement this method.");
+        expect(provider.fixture.calls[0].error).to.deep.equal({
+            name: "MethodNotSupportedError",
+            message: "SimulatorProvider does not implement this method.",
+            properties: { providerName: "SimulatorProvider" },
+        });
+    });
+
+    it("Records subscription updates", async () => {
+        const provider = new RecordingProvider(simulator);
+        const updates: CoinState[][] = [];
+
+        provider.subscribeToPuzzleHashUpdates({
+            puzzleHash: ANYONE_CAN_SPEND_PUZZLE_HASH,
+            callback: (coinStates) => updates.push(coinStates),
+        });
+        await simulator.farmBlock(ANYONE_CAN_SPEND_PUZZLE_HASH);
+
+        expect(updates.length).to.equal(2);
+        expect(provider.fixture.calls[0].method).to.equal("subscribeToPuzzleHashUpdates");
+        expect(provider.fixture.calls[0].args).to.not.include("callback");
+        expect(provider.fixture.calls[0].updates!.length).to.equal(2);
+        expect(provider.fixture.calls[0].updates![0].length).to.equal(updates[0].length);
+    });
+
+    it("Writes the fixture file after each call", async () => {
+        const directory: string = fs.mkdtempSync(path.join(os.tmpdir(), "greenweb-"));
+        const fixturePath: string = path.join(directory, "fixture.json");
+
+        try {
+            const provider = new RecordingProvider(simulator, fixturePath);
+            await provider.getBlockNumber();
+            await provider.getCoinChildren({ coinId: "00".repeat(32) });
+
+            const fixture = JSON.parse(fs.readFileSync(fixturePath, "utf8"));
+            expect(fixture).to.deep.equal(provider.fixture);
+            expect(fixture.calls.length).to.equal(2);
+        } finally {
+            fs.rmdirSync(directory, { recursive: true });
+        }
+    });
+
+    it("Does not change the result or error of a call if the fixture can't be written", async () => {
+        const directory: string = fs.mkdtempSync(path.join(os.tmpdir(), "greenweb-"));
+
+        try {
+            const provider = new RecordingProvider(simulator, path.join(directory, "missing", "fixture.json"));
+            expect(await provider.getBlockNumber()).to.equal(0);
+
+            let thrown: any = null;
+            try {
+                await provider.getAddress();
+            } catch(e) {
+                thrown = e;
+            }
+            expect(thrown?.name).to.equal("MethodNotSupportedError");
+
+            let saveError: any = null;
+            await provider.save().catch((e) => { saveError = e; });
+            expect(saveError?.code).to.equal("ENOENT");
+        } finally {
+            fs.rmdirSync(directory, { recursive: true });
+        }
+    });
+});
\ No newline at end of file
@@ -0,0 +1,257 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { BigNumber } from "@ethersproject/bignumber";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SExp } from "clvm";
+import { Util } from "../../../../util";
+import { Network } from "../../../../util/network";
+import { CoinSpend } from "../../../../util/serializer/types/coin_spend";
+import { SpendBundle } from "../../../../util/serializer/types/spend_bundle";
+import { SpendModule } from "../../../../spend";
+import { ProviderFixture, RecordingProvider, ReplayProvider } from "../../../../xch/providers/replay";
+import { SimulatorProvider } from "../../../../xch/providers/simulator";
+import { MethodNotSupportedError, ProviderError, ProviderTimeoutError, RequestRejectedError, UserRejectedError } from "../../../../xch/providers/provider_errors";
+import { Coin, CoinState } from "../../../../xch/providers/provider_types";
+
+// the puzzle '1' returns its solution - anyone can spend coins locked with it
+const ANYONE_CAN_SPEND_PUZZLE: SExp = Util.sexp.fromHex("01");
+const ANYONE_CAN_SPEND_PUZZLE_HASH: string = Util.sexp.sha256tree(ANYONE_CAN_SPEND_PUZZLE);
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// block 0: reward coins; block 1: coin -> child
+const _setup = async (): Promise<[RecordingProvider, Coin]> => {
+    const simulator = new SimulatorProvider(Network.testnet10);
+    await simulator.connect();
+    const header = await simulator.farmBlock(ANYONE_CAN_SPEND_PUZZLE_HASH);
+    const coin: Coin = (await simulator.getCoinAdditions({ height: 0, headerHash: header.headerHash }))![0];
+
+    const coinSpend = new CoinSpend();
+    coinSpend.coin = coin;
+    coinSpend.puzzleReveal = ANYONE_CAN_SPEND_PUZZLE;
+    coinSpend.solution = SExp.to([
+        SpendModule.createCoinCondition(ANYONE_CAN_SPEND_PUZZLE_HASH, 1337),
+    ]);
+
+    const sb = new SpendBundle();
+    sb.coinSpends = [coinSpend];
+    sb.aggregatedSignature = "c0" + "00".repeat(95);
+
+    const provider = new RecordingProvider(simulator);
+    await provider.pushSpendBundle({ spendBundle: sb });
+    await simulator.farmBlock();
+
+    return [provider, coin];
+};
+
+// fixtures are stored as JSON
+const _replay = (recorder: RecordingProvider): ReplayProvider => new ReplayProvider(
+    JSON.parse(JSON.stringify(recorder.fixture))
+);
+
+const _rejects = async (func: () => Promise<any>): Promise<any> => {
+    try {
+        await func();
+    } catch(e) {
+        return e;
+    }
+
+    return null;
+};
+
+describe("ReplayProvider", () => {
+    it("Reports the recorded network and capabilities", async () => {
+        const [recorder] = await _setup();
+        const provider = _replay(recorder);
+
+        expect(provider.getNetworkId()).to.equal(Network.testnet10);
+        expect(provider.capabilities()).to.deep.equal(recorder.capabilities());
+
+        expect(provider.isConnected()).to.be.false;
+        await provider.connect();
+        expect(provider.isConnected()).to.be.true;
+        await provider.close();
+        expect(provider.isConnected()).to.be.false;
+    });
+
+    it("Replays recorded results", async () => {
+        const [recorder, coin] = await _setup();
+        const coinId: string = Util.coin.getId(coin);
+
+        const blockNumber = await recorder.getBlockNumber();
+        const balance = await recorder.getBalance({ puzzleHash: ANYONE_CAN_SPEND_PUZZLE_HASH });
+        const header = await recorder.getBlockHeader({ height: 1 });
+        const headers = await recorder.getBlocksHeaders({ startHeight: 0, endHeight: 1 });
+        const children = await recorder.getCoinChildren({ coinId });
+        const puzzleSolution = await recorder.getPuzzleSolution({ coinId, height: 1 });
+        const additions = await recorder.getCoinAdditions({ height: 1, headerHash: header!.headerHash });
+        const removals = await recorder.getCoinRemovals({ height: 1, headerHash: header!.headerHash });
+
+        const provider = _replay(recorder);
+        await provider.connect();
+
+        expect(await provider.getBlockNumber()).to.equal(blockNumber);
+        expect((await provider.getBalance({ puzzleHash: ANYONE_CAN_SPEND_PUZZLE_HASH }))!.eq(balance!)).to.be.true;
+
+        const replayedHeader = await provider.getBlockHeader({ height: 1 });
+        expect(replayedHeader!.headerHash).to.equal(header!.headerHash);
+        expect(replayedHeader!.prevBlockHash).to.equal(header!.prevBlockHash);
+        expect(replayedHeader!.isTransactionBlock).to.equal(header!.isTransactionBlock);
+        expect(BigNumber.from(replayedHeader!.height).eq(1)).to.be.true;
+
+        const replayedHeaders = await provider.getBlocksHeaders({ startHeight: 0, endHeight: 1 });
+        expect(replayedHeaders!.map((h) => h.headerHash)).to.deep.equal(headers!.map((h) => h.headerHash));
+
+        const replayedChildren = await provider.getCoinChildren({ coinId });
+        expect(replayedChildren.length).to.equal(1);
+        expect(Util.coin.getId(replayedChildren[0].coin)).to.equal(Util.coin.getId(children[0].coin));
+        expect(BigNumber.from(replayedChildren[0].createdHeight).eq(children[0].createdHeight!)).to.be.true;
+        expect(replayedChildren[0].spentHeight).to.be.null;
+
+        const replayedPuzzleSolution = await provider.getPuzzleSolution({ coinId, height: 1 });
+        expect(replayedPuzzleSolution!.coinName).to.equal(puzzleSolution!.coinName);
+        expect(Util.sexp.toHex(replayedPuzzleSolution!.puzzle)).to.equal("01");
+        expect(Util.sexp.toHex(replayedPuzzleSolution!.solution)).to.equal(Util.sexp.toHex(puzzleSolution!.solution));
+
+        expect(
+            (await provider.getCoinAdditions({ height: 1, headerHash: header!.headerHash }))!.map((c) => Util.coin.getId(c))
+        ).to.deep.equal(additions!.map((c) => Util.coin.getId(c)));
+        expect(
+            (await provider.getCoinRemovals({ height: 1, headerHash: header!.headerHash }))!.map((c) => Util.coin.getId(c))
+        ).to.deep.equal([coinId]);
+        expect(removals!.length).to.equal(1);
+    });
+
+    it("Does not replay calls with different arguments", async () => {
+        const [recorder] = await _setup();
+        const provider = _replay(recorder);
+
+        const sb = new SpendBundle();
+        sb.coinSpends = [];
+        sb.aggregatedSignature = "c0" + "00".repeat(95);
+
+        expect(await _rejects(() => provider.pushSpendBundle({ spendBundle: sb }))).to.be.instanceOf(ProviderError);
+        expect(recorder.fixture.calls[0].method).to.equal("pushSpendBundle");
+        expect(recorder.fixture.calls[0].args).to.include("\"puzzleReveal\":\"01\"");
+    });
+
+    it("Returns the results of repeated calls in order", async () => {
+        const provider = new ReplayProvider({
+            network: Network.mainnet,
+            capabilities: { methods: ["getBlockNumber"], networks: [Network.mainnet], features: [] },
+            calls: [
+                { method: "getBlockNumber", args: "{}", result: 1 },
+                { method: "getBlockNumber", args: "{}", result: 2 },
+            ],
+        });
+
+        expect(await provider.getBlockNumber()).to.equal(1);
+        expect(await provider.getBlockNumber()).to.equal(2);
+        expect(await provider.getBlockNumber()).to.equal(2);
+    });
+
+    it("Throws recorded errors", async () => {
+        const [recorder] = await _setup();
+        await _rejects(() => recorder.getAddress());
+        const provider = _replay(recorder);
+
+        const error = await _rejects(() => provider.getAddress());
+        expect(error).to.be.instanceOf(MethodNotSupportedError);
+        expect(error.message).to.equal("SimulatorProvider does not implement this method.");
+    });
+
+    it("Throws recorded errors as instances of the exported error classes", async () => {
+        const recorder = new RecordingProvider(new SimulatorProvider(Network.mainnet));
+        recorder.provider.getBlockNumber = async () => { throw new ProviderTimeoutError(); };
+        recorder.provider.getBalance = async () => { throw new RequestRejectedError("request_balance", "busy"); };
+        recorder.provider.getCoinRecord = async () => { throw new UserRejectedError(); };
+        recorder.provider.getCoinChildren = async () => { throw new TypeError("Err"); };
+        for(const call of [
+            () => recorder.getBlockNumber(),
+            () => recorder.getBalance({}),
+            () => recorder.getCoinRecord({ coinId: "00".repeat(32) }),
+            () => recorder.getCoinChildren({ coinId: "00".repeat(32) }),
+        ]) {
+            await _rejects(call);
+        }
+        const provider = _replay(recorder);
+
+        expect(await _rejects(() => provider.getBlockNumber())).to.be.instanceOf(ProviderTimeoutError);
+
+        const rejectedError = await _rejects(() => provider.getBalance({}));
+        expect(rejectedError).to.be.instanceOf(RequestRejectedError);
+        expect(rejectedError.message).to.equal("Request rejected: request_balance (busy)");
+        expect(rejectedError.request).to.equal("request_balance");
+        expect(rejectedError.reason).to.equal("busy");
+
+        const userRejectedError = await _rejects(() => provider.getCoinRecord({ coinId: "00".repeat(32) }));
+        expect(userRejectedError).to.be.instanceOf(UserRejectedError);
+        expect(userRejectedError.name).to.equal("UserRejectedError");
+
+        const otherError = await _rejects(() => provider.getCoinChildren({ coinId: "00".repeat(32) }));
+        expect(otherError).to.be.instanceOf(ProviderError);
+        expect(otherError.name).to.equal("TypeError");
+        expect(otherError.message).to.equal("Err");
+    });
+
+    it("Throws if a call was not recorded", async () => {
+        const [recorder] = await _setup();
+        const provider = _replay(recorder);
+
+        const error = await _rejects(() => provider.getBlockHeader({ height: 1 }));
+        expect(error).to.be.instanceOf(ProviderError);
+        expect(error.message).to.equal("ReplayProvider has no recorded call for getBlockHeader({\"height\":1}).");
+    });
+
+    it("Replays subscription updates", async () => {
+        const [recorder, coin] = await _setup();
+        recorder.subscribeToCoinUpdates({ coinId: Util.coin.getId(coin), callback: () => null });
+        const provider = _replay(recorder);
+
+        const updates: CoinState[][] = [];
+        provider.subscribeToCoinUpdates({
+            coinId: Util.coin.getId(coin),
+            callback: (coinStates) => updates.push(coinStates),
+        });
+        expect(updates.length).to.equal(0);
+
+        await sleep(10);
+        expect(updates.length).to.equal(1);
+        expect(Util.coin.getId(updates[0][0].coin)).to.equal(Util.coin.getId(coin));
+        expect(BigNumber.from(updates[0][0].spentHeight).eq(1)).to.be.true;
+    });
+
+    it("Stops delivering updates after unsubscribe()", async () => {
+        const [recorder, coin] = await _setup();
+        recorder.subscribeToCoinUpdates({ coinId: Util.coin.getId(coin), callback: () => null });
+        const provider = _replay(recorder);
+
+        const updates: CoinState[][] = [];
+        provider.subscribeToCoinUpdates({
+            coinId: Util.coin.getId(coin),
+            callback: (coinStates) => updates.push(coinStates),
+        }).unsubscribe();
+
+        await sleep(10);
+        expect(updates.length).to.equal(0);
+    });
+
+    it("Loads fixture files", async () => {
+        const directory: string = fs.mkdtempSync(path.join(os.tmpdir(), "greenweb-"));
+        const fixturePath: string = path.join(directory, "fixture.json");
+
+        try {
+            const recorder = new RecordingProvider(new SimulatorProvider(Network.testnet10), fixturePath);
+            await recorder.getBlockNumber();
+
+            const fixture: ProviderFixture = JSON.parse(fs.readFileSync(fixturePath, "utf8"));
+            expect(fixture.network).to.equal(Network.testnet10);
+            expect(await new ReplayProvider(fixturePath).getBlockNumber()).to.be.null;
+        } finally {
+            fs.rmdirSync(directory, { recursive: true });
+        }
+    });
+});
\ No newline at end of file
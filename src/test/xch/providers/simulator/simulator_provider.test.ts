@@ -0,0 +1,610 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { BigNumber } from "@ethersproject/bignumber";
+import { expect } from "chai";
+import { getBLSModule, SExp } from "clvm";
+import { Util } from "../../../../util";
+import { Network } from "../../../../util/network";
+import { Serializer } from "../../../../util/serializer/serializer";
+import { CoinSpend } from "../../../../util/serializer/types/coin_spend";
+import { SpendBundle } from "../../../../util/serializer/types/spend_bundle";
+import { ConditionOpcode } from "../../../../util/sexp/condition_opcodes";
+import { SpendModule } from "../../../../spend";
+import { SimulatorProvider } from "../../../../xch/providers/simulator";
+import { SIMULATOR_FARMER_REWARD, SIMULATOR_POOL_REWARD } from "../../../../xch/providers/simulator/simulator_provider";
+import { Coin, CoinState } from "../../../../xch/providers/provider_types";
+
+const NOT_IMPL_ERROR: string = "SimulatorProvider does not implement this method.";
+
+// the puzzle '1' returns its solution - anyone can spend coins locked with it
+const ANYONE_CAN_SPEND_PUZZLE: SExp = Util.sexp.fromHex("01");
+const ANYONE_CAN_SPEND_PUZZLE_HASH: string = Util.sexp.sha256tree(ANYONE_CAN_SPEND_PUZZLE);
+const OTHER_PUZZLE_HASH: string = "42".repeat(32);
+
+const EMPTY_SIGNATURE: string = "c0" + "00".repeat(95);
+
+const _spend = (coin: Coin, conditions: SExp[]): CoinSpend => {
+    const coinSpend = new CoinSpend();
+    coinSpend.coin = coin;
+    coinSpend.puzzleReveal = ANYONE_CAN_SPEND_PUZZLE;
+    coinSpend.solution = SExp.to(conditions);
+
+    return coinSpend;
+};
+
+const _bundle = (coinSpends: CoinSpend[], aggregatedSignature: string = EMPTY_SIGNATURE): SpendBundle => {
+    const sb = new SpendBundle();
+    sb.coinSpends = coinSpends;
+    sb.aggregatedSignature = aggregatedSignature;
+
+    return sb;
+};
+
+const _setup = async (): Promise<[SimulatorProvider, Coin, Coin]> => {
+    const provider = new SimulatorProvider(Network.testnet10);
+    await provider.connect();
+    await provider.farmBlock(ANYONE_CAN_SPEND_PUZZLE_HASH);
+
+    const header = await provider.getBlockHeader({ height: 0 });
+    const coins = await provider.getCoinAdditions({ height: 0, headerHash: header!.headerHash });
+
+    return [provider, coins![0], coins![1]];
+};
+
+describe("SimulatorProvider", () => {
+    describe("connect() & close()", () => {
+        it("Work", async () => {
+            const provider = new SimulatorProvider();
+
+            expect(provider.isConnected()).to.be.false;
+            expect(provider.getNetworkId()).to.equal(Network.mainnet);
+            await provider.connect();
+            expect(provider.isConnected()).to.be.true;
+            await provider.close();
+            expect(provider.isConnected()).to.be.false;
+        });
+    });
+
+    describe("capabilities()", () => {
+        it("Reports node methods, the simulated network and subscriptions", () => {
+            const capabilities = new SimulatorProvider(Network.testnet10).capabilities();
+
+            expect(capabilities.methods).to.include.members(["getBlockNumber", "getCoinAdditions", "pushSpendBundle"]);
+            expect(capabilities.methods).to.not.include("signCoinSpends");
+            expect(capabilities.networks).to.deep.equal([Network.testnet10]);
+            expect(capabilities.features).to.deep.equal(["subscriptions"]);
+        });
+    });
+
+    describe("farmBlock()", () => {
+        it("Creates reward coins and headers", async () => {
+            const provider = new SimulatorProvider(Network.testnet10);
+            await provider.connect();
+
+            expect(await provider.getBlockNumber()).to.be.null;
+
+            const header0 = await provider.farmBlock(ANYONE_CAN_SPEND_PUZZLE_HASH);
+            const header1 = await provider.farmBlock();
+
+            expect(await provider.getBlockNumber()).to.equal(1);
+            expect(header0.prevBlockHash).to.equal(Util.network.getGenesisChallenge(Network.testnet10));
+            expect(header1.prevBlockHash).to.equal(header0.headerHash);
+            expect(header0.farmerPuzzleHash).to.equal(ANYONE_CAN_SPEND_PUZZLE_HASH);
+            expect(header1.farmerPuzzleHash).to.equal("00".repeat(32));
+
+            expect(
+                (await provider.getBalance({ puzzleHash: ANYONE_CAN_SPEND_PUZZLE_HASH, minHeight: 0 }))!.eq(
+                    SIMULATOR_POOL_REWARD.add(SIMULATOR_FARMER_REWARD)
+                )
+            ).to.be.true;
+            expect((await provider.getBlocksHeaders({ startHeight: 0, endHeight: 1 }))!.length).to.equal(2);
+            expect(await provider.getBlocksHeaders({ startHeight: 0, endHeight: 2 })).to.be.null;
+            expect(await provider.getBlockHeader({ height: 2 })).to.be.null;
+        });
+    });
+
+    describe("pushSpendBundle()", () => {
+        it("Accepts a valid spend bundle and updates coin states when a block is farmed", async () => {
+            const [provider, coin] = await _setup();
+
+            const sb = _bundle([
+                _spend(coin, [
+                    SpendModule.createCoinCondition(OTHER_PUZZLE_HASH, 1337),
+                    SpendModule.reserveFeeCondition(1),
+                ]),
+            ]);
+
+            expect(await provider.pushSpendBundle({ spendBundle: sb })).to.be.true;
+            expect(provider.getMempool().length).to.equal(1);
+            expect(
+                (await provider.getBalance({ puzzleHash: OTHER_PUZZLE_HASH, minHeight: 0 }))!.eq(0)
+            ).to.be.true;
+
+            const header = await provider.farmBlock(ANYONE_CAN_SPEND_PUZZLE_HASH);
+
+            expect(provider.getMempool().length).to.equal(0);
+            expect(
+                (await provider.getBalance({ puzzleHash: OTHER_PUZZLE_HASH }))!.eq(1337)
+            ).to.be.true;
+            expect(
+                BigNumber.from(header.fees).eq(BigNumber.from(coin.amount).sub(1337))
+            ).to.be.true;
+
+            const coinId = Util.coin.getId(coin);
+            const removals = await provider.getCoinRemovals({ height: 1, headerHash: header.headerHash });
+            expect(removals!.length).to.equal(1);
+            expect(Util.coin.getId(removals![0])).to.equal(coinId);
+            expect(
+                (await provider.getCoinRemovals({ height: 1, headerHash: header.headerHash, coinIds: ["00".repeat(32)] }))!.length
+            ).to.equal(0);
+            expect(
+                await provider.getCoinRemovals({ height: 1, headerHash: "00".repeat(32) })
+            ).to.be.null;
+
+            const additions = await provider.getCoinAdditions({
+                height: 1, headerHash: header.headerHash, puzzleHashes: [OTHER_PUZZLE_HASH]
+            });
+            expect(additions!.length).to.equal(1);
+            expect(additions![0].parentCoinInfo).to.equal(coinId);
+
+            const children = await provider.getCoinChildren({ coinId });
+            expect(children.length).to.equal(1);
+            expect(BigNumber.from(children[0].createdHeight).toNumber()).to.equal(1);
+
+            const puzzleSolution = await provider.getPuzzleSolution({ coinId, height: 1 });
+            expect(puzzleSolution).to.not.be.null;
+            expect(Util.sexp.toHex(puzzleSolution!.puzzle)).to.equal("01");
+            expect(await provider.getPuzzleSolution({ coinId, height: 0 })).to.be.null;
+        });
+
+        it("Rejects spends of unknown coins", async () => {
+            const [provider, coin] = await _setup();
+            const unknownCoin = new Coin();
+            unknownCoin.parentCoinInfo = "00".repeat(32);
+            unknownCoin.puzzleHash = coin.puzzleHash;
+            unknownCoin.amount = coin.amount;
+
+            expect(
+                await provider.pushSpendBundle({ spendBundle: _bundle([_spend(unknownCoin, [])]) })
+            ).to.be.false;
+        });
+
+        it("Rejects double spends", async () => {
+            const [provider, coin] = await _setup();
+
+            expect(
+                await provider.pushSpendBundle({ spendBundle: _bundle([_spend(coin, [])]) })
+            ).to.be.true;
+            expect(
+                await provider.pushSpendBundle({ spendBundle: _bundle([_spend(coin, [])]) })
+            ).to.be.false;
+
+            await provider.farmBlock();
+
+            expect(
+                await provider.pushSpendBundle({ spendBundle: _bundle([_spend(coin, [])]) })
+            ).to.be.false;
+        });
+
+        it("Rejects spend bundles that create more value than they spend", async () => {
+            const [provider, coin] = await _setup();
+
+            expect(
+                await provider.pushSpendBundle({
+                    spendBundle: _bundle([
+                        _spend(coin, [SpendModule.createCoinCondition(OTHER_PUZZLE_HASH, BigNumber.from(coin.amount).add(1))]),
+                    ])
+                })
+            ).to.be.false;
+            expect(
+                await provider.pushSpendBundle({
+                    spendBundle: _bundle([
+                        _spend(coin, [
+                            SpendModule.createCoinCondition(OTHER_PUZZLE_HASH, coin.amount),
+                            SpendModule.reserveFeeCondition(1),
+                        ]),
+                    ])
+                })
+            ).to.be.false;
+        });
+
+        it("Rejects spends with a wrong puzzle reveal", async () => {
+            const [provider, coin] = await _setup();
+            const coinSpend = _spend(coin, []);
+            coinSpend.puzzleReveal = Util.sexp.fromHex("ff0180");
+
+            expect(
+                await provider.pushSpendBundle({ spendBundle: _bundle([coinSpend]) })
+            ).to.be.false;
+        });
+
+        it("Checks announcements", async () => {
+            const [provider, coin1, coin2] = await _setup();
+            const announcementId = Util.stdHash(Util.coin.getId(coin1) + "1337");
+            const puzzleAnnouncementId = Util.stdHash(coin1.puzzleHash + "42");
+
+            expect(
+                await provider.pushSpendBundle({
+                    spendBundle: _bundle([
+                        _spend(coin2, [SpendModule.assertCoinAnnouncementCondition(announcementId)]),
+                    ])
+                })
+            ).to.be.false;
+            expect(
+                await provider.pushSpendBundle({
+                    spendBundle: _bundle([
+                        _spend(coin1, [
+                            SpendModule.createCoinAnnouncementCondition("1337"),
+                            SpendModule.createPuzzleAnnouncementCondition("42"),
+                        ]),
+                        _spend(coin2, [
+                            SpendModule.assertCoinAnnouncementCondition(announcementId),
+                            SpendModule.assertPuzzleAnnouncementCondition(puzzleAnnouncementId),
+                        ]),
+                    ])
+                })
+            ).to.be.true;
+        });
+
+        it("Checks ASSERT_MY_* and ASSERT_HEIGHT_* conditions", async () => {
+            const [provider, coin] = await _setup();
+            const _condition = (opcode: ConditionOpcode, arg: string) => SExp.to([
+                Util.sexp.bytesToAtom(opcode),
+                Util.sexp.bytesToAtom(arg),
+            ]);
+
+            const valid = [
+                _condition(ConditionOpcode.ASSERT_MY_COIN_ID, Util.coin.getId(coin)),
+                _condition(ConditionOpcode.ASSERT_MY_PARENT_ID, coin.parentCoinInfo),
+                _condition(ConditionOpcode.ASSERT_MY_PUZZLEHASH, coin.puzzleHash),
+                _condition(ConditionOpcode.ASSERT_MY_AMOUNT, Util.coin.amountToBytes(coin.amount)),
+                _condition(ConditionOpcode.ASSERT_HEIGHT_ABSOLUTE, "01"),
+                _condition(ConditionOpcode.ASSERT_HEIGHT_RELATIVE, "01"),
+            ];
+            const invalid = [
+                _condition(ConditionOpcode.ASSERT_MY_COIN_ID, "00".repeat(32)),
+                _condition(ConditionOpcode.ASSERT_MY_PARENT_ID, "00".repeat(32)),
+                _condition(ConditionOpcode.ASSERT_MY_PUZZLEHASH, "00".repeat(32)),
+                _condition(ConditionOpcode.ASSERT_MY_AMOUNT, "01"),
+                _condition(ConditionOpcode.ASSERT_HEIGHT_ABSOLUTE, "02"),
+                _condition(ConditionOpcode.ASSERT_HEIGHT_RELATIVE, "02"),
+            ];
+
+            for(const condition of invalid) {
+                expect(
+                    await provider.pushSpendBundle({ spendBundle: _bundle([_spend(coin, [condition])]) })
+                ).to.be.false;
+            }
+            expect(
+                await provider.pushSpendBundle({ spendBundle: _bundle([_spend(coin, valid)]) })
+            ).to.be.true;
+        });
+
+        it("Accepts ephemeral coins", async () => {
+            const [provider, coin] = await _setup();
+            const ephemeralCoin = new Coin();
+            ephemeralCoin.parentCoinInfo = Util.coin.getId(coin);
+            ephemeralCoin.puzzleHash = ANYONE_CAN_SPEND_PUZZLE_HASH;
+            ephemeralCoin.amount = coin.amount;
+
+            expect(
+                await provider.pushSpendBundle({
+                    spendBundle: _bundle([
+                        _spend(coin, [SpendModule.createCoinCondition(ANYONE_CAN_SPEND_PUZZLE_HASH, coin.amount)]),
+                        _spend(ephemeralCoin, [SpendModule.createCoinCondition(OTHER_PUZZLE_HASH, coin.amount)]),
+                    ])
+                })
+            ).to.be.true;
+
+            await provider.farmBlock();
+
+            const coinStates: CoinState[] = await provider.getCoinChildren({ coinId: Util.coin.getId(coin) });
+            expect(coinStates.length).to.equal(1);
+            expect(BigNumber.from(coinStates[0].spentHeight).toNumber()).to.equal(1);
+            expect(
+                (await provider.getBalance({ puzzleHash: OTHER_PUZZLE_HASH }))!.eq(coin.amount)
+            ).to.be.true;
+        });
+
+        it("Verifies AGG_SIG_ME signatures", async () => {
+            const [provider, coin] = await _setup();
+            const { PrivateKey, AugSchemeMPL } = getBLSModule();
+
+            const sk = PrivateKey.from_bytes(Buffer.from("01".repeat(32), "hex"), false);
+            const pk = Buffer.from(sk.get_g1().serialize()).toString("hex");
+            const conditions = [
+                SExp.to([
+                    Util.sexp.bytesToAtom(ConditionOpcode.AGG_SIG_ME),
+                    Util.sexp.bytesToAtom(pk),
+                    Util.sexp.bytesToAtom("1337"),
+                ]),
+            ];
+
+            const messageToSign = Buffer.from(
+                "1337" + Util.coin.getId(coin) + Util.network.getGenesisChallenge(Network.testnet10),
+                "hex"
+            );
+            const wrongMessage = Buffer.from(
+                "1337" + Util.coin.getId(coin) + Util.network.getGenesisChallenge(Network.mainnet),
+                "hex"
+            );
+
+            expect(
+                await provider.pushSpendBundle({ spendBundle: _bundle([_spend(coin, conditions)]) })
+            ).to.be.false;
+            expect(
+                await provider.pushSpendBundle({
+                    spendBundle: _bundle(
+                        [_spend(coin, conditions)],
+                        Buffer.from(AugSchemeMPL.sign(sk, wrongMessage).serialize()).toString("hex")
+                    )
+                })
+            ).to.be.false;
+            expect(
+                await provider.pushSpendBundle({
+                    spendBundle: _bundle(
+                        [_spend(coin, conditions)],
+                        Buffer.from(AugSchemeMPL.sign(sk, messageToSign).serialize()).toString("hex")
+                    )
+                })
+            ).to.be.true;
+        });
+
+        it("Drops conflicting mempool items when farming", async () => {
+            const [provider, coin] = await _setup();
+
+            expect(
+                await provider.pushSpendBundle({ spendBundle: _bundle([_spend(coin, [])]) })
+            ).to.be.true;
+            (provider as any).mempool.push(_bundle([_spend(coin, [])]));
+
+            const header = await provider.farmBlock();
+
+            expect(
+                (await provider.getCoinRemovals({ height: 1, headerHash: header.headerHash }))!.length
+            ).to.equal(1);
+        });
+    });
+
+    describe("removeFromMempool() & clearMempool()", () => {
+        it("Drop pending spend bundles", async () => {
+            const [provider, coin1, coin2] = await _setup();
+            const sb1 = _bundle([_spend(coin1, [])]);
+            const sb2 = _bundle([_spend(coin2, [])]);
+            await provider.pushSpendBundle({ spendBundle: sb1 });
+            await provider.pushSpendBundle({ spendBundle: sb2 });
+
+            const name1: string = Util.stdHash(Serializer.serialize(sb1).toString("hex"));
+            expect(provider.removeFromMempool(name1.toUpperCase())).to.be.true;
+            expect(provider.removeFromMempool(name1)).to.be.false;
+            expect(provider.getMempool()).to.deep.equal([sb2]);
+
+            // the removed bundle's coin can be spent again
+            expect(await provider.pushSpendBundle({ spendBundle: sb1 })).to.be.true;
+
+            provider.clearMempool();
+            expect(provider.getMempool().length).to.equal(0);
+
+            const header = await provider.farmBlock();
+            expect(
+                (await provider.getCoinRemovals({ height: 1, headerHash: header.headerHash }))!.length
+            ).to.equal(0);
+        });
+    });
+
+    describe("subscribeToPuzzleHashUpdates()", () => {
+        it("Calls callback with current and future coin states", async () => {
+            const [provider, coin] = await _setup();
+            const received: CoinState[][] = [];
+
+            provider.subscribeToPuzzleHashUpdates({
+                puzzleHash: OTHER_PUZZLE_HASH,
+                callback: (coinStates) => received.push(coinStates),
+            });
+            provider.subscribeToPuzzleHashUpdates({
+                puzzleHash: "invalid",
+                callback: () => { throw new Error("oops"); },
+            });
+
+            expect(received.length).to.equal(1);
+            expect(received[0].length).to.equal(0);
+
+            await provider.pushSpendBundle({
+                spendBundle: _bundle([_spend(coin, [SpendModule.createCoinCondition(OTHER_PUZZLE_HASH, 1)])])
+            });
+            await provider.farmBlock();
+
+            expect(received.length).to.equal(2);
+            expect(received[1].length).to.equal(1);
+            expect(received[1][0].coin.puzzleHash).to.equal(OTHER_PUZZLE_HASH);
+        });
+
+        it("Stops calling callback after unsubscribe()", async () => {
+            const [provider, coin] = await _setup();
+            const received: CoinState[][] = [];
+
+            const subscription = provider.subscribeToPuzzleHashUpdates({
+                puzzleHash: OTHER_PUZZLE_HASH,
+                callback: (coinStates) => received.push(coinStates),
+            });
+            subscription.unsubscribe();
+
+            await provider.pushSpendBundle({
+                spendBundle: _bundle([_spend(coin, [SpendModule.createCoinCondition(OTHER_PUZZLE_HASH, 1)])])
+            });
+            await provider.farmBlock();
+
+            expect(received.length).to.equal(1);
+        });
+    });
+
+    describe("subscribeToCoinUpdates()", () => {
+        it("Calls callback with current and future coin states", async () => {
+            const [provider, coin] = await _setup();
+            const received: CoinState[][] = [];
+
+            provider.subscribeToCoinUpdates({
+                coinId: Util.coin.getId(coin),
+                callback: (coinStates) => received.push(coinStates),
+                minHeight: 0,
+            });
+            provider.subscribeToCoinUpdates({
+                coinId: "invalid",
+                callback: () => { throw new Error("oops"); },
+            });
+
+            expect(received.length).to.equal(1);
+            expect(received[0].length).to.equal(1);
+            expect(received[0][0].spentHeight).to.be.null;
+
+            await provider.pushSpendBundle({ spendBundle: _bundle([_spend(coin, [])]) });
+            await provider.farmBlock();
+
+            expect(received.length).to.equal(2);
+            expect(BigNumber.from(received[1][0].spentHeight).toNumber()).to.equal(1);
+        });
+
+        it("Stops calling callback after unsubscribe()", async () => {
+            const [provider, coin] = await _setup();
+            const received: CoinState[][] = [];
+
+            const subscription = provider.subscribeToCoinUpdates({
+                coinId: Util.coin.getId(coin),
+                callback: (coinStates) => received.push(coinStates),
+                minHeight: 0,
+            });
+            subscription.unsubscribe();
+
+            await provider.pushSpendBundle({ spendBundle: _bundle([_spend(coin, [])]) });
+            await provider.farmBlock();
+
+            expect(received.length).to.equal(1);
+        });
+    });
+
+    describe("events", () => {
+        it("Emits 'connected' and 'disconnected' events", async () => {
+            const provider = new SimulatorProvider();
+            const emitted: string[] = [];
+            provider.events.on("connected", () => emitted.push("connected"));
+            provider.events.on("disconnected", () => emitted.push("disconnected"));
+
+            await provider.close();
+            await provider.connect();
+            await provider.close();
+
+            expect(emitted).to.deep.equal(["connected", "disconnected"]);
+        });
+
+        it("Emits 'peak' and 'coinState' events when a block is farmed", async () => {
+            const [provider, coin] = await _setup();
+            const heights: number[] = [];
+            const coinStates: CoinState[][] = [];
+            provider.events.on("peak", (peak) => heights.push(peak.height));
+            provider.events.on("coinState", (states) => coinStates.push(states));
+
+            await provider.farmBlock();
+            await provider.pushSpendBundle({ spendBundle: _bundle([_spend(coin, [])]) });
+            const header = await provider.farmBlock();
+
+            expect(heights).to.deep.equal([1, 2]);
+            expect(coinStates.length).to.equal(1);
+            expect(coinStates[0].length).to.equal(1);
+            expect(BigNumber.from(coinStates[0][0].spentHeight).toNumber()).to.equal(2);
+            expect(header.height).to.equal(2);
+        });
+    });
+
+    describe("getBalance()", () => {
+        it("Returns null if no valid address or puzzle hash is given", async () => {
+            const [provider] = await _setup();
+
+            expect(await provider.getBalance({})).to.be.null;
+            expect(await provider.getBalance({ address: "xch1invalid" })).to.be.null;
+        });
+
+        it("Works with addresses", async () => {
+            const [provider] = await _setup();
+
+            const balance = await provider.getBalance({
+                address: Util.address.puzzleHashToAddress(ANYONE_CAN_SPEND_PUZZLE_HASH, "txch"),
+                minHeight: 0
+            });
+            expect(balance!.eq(SIMULATOR_POOL_REWARD.add(SIMULATOR_FARMER_REWARD))).to.be.true;
+        });
+
+        it("Returns null if the address is for another network", async () => {
+            const [provider] = await _setup();
+
+            expect(await provider.getBalance({
+                address: Util.address.puzzleHashToAddress(ANYONE_CAN_SPEND_PUZZLE_HASH, "xch"),
+                minHeight: 0
+            })).to.be.null;
+        });
+    });
+
+    describe("getUnspentCoins()", () => {
+        it("Does not return spent coins", async () => {
+            const [provider, coin1, coin2] = await _setup();
+            await provider.pushSpendBundle({ spendBundle: _bundle([_spend(coin1, [])]) });
+            await provider.farmBlock();
+
+            const coinStates = await provider.getUnspentCoins({ puzzleHash: ANYONE_CAN_SPEND_PUZZLE_HASH, minHeight: 0 });
+            expect(coinStates.map((cs) => Util.coin.getId(cs.coin))).to.deep.equal([Util.coin.getId(coin2)]);
+            expect(await provider.getUnspentCoins({ address: "xch1invalid" })).to.deep.equal([]);
+        });
+    });
+
+    describe("getCoinRecords()", () => {
+        it("Returns known coins in the requested order", async () => {
+            const [provider, coin1, coin2] = await _setup();
+            await provider.pushSpendBundle({ spendBundle: _bundle([_spend(coin1, [])]) });
+            await provider.farmBlock();
+
+            const coinStates = await provider.getCoinRecords({
+                coinIds: [Util.coin.getId(coin2), OTHER_PUZZLE_HASH, Util.coin.getId(coin1)],
+            });
+            expect(coinStates.map((cs) => Util.coin.getId(cs.coin))).to.deep.equal([
+                Util.coin.getId(coin2), Util.coin.getId(coin1),
+            ]);
+            expect(coinStates[0].spentHeight).to.be.null;
+            expect(BigNumber.from(coinStates[1].spentHeight).toNumber()).to.equal(1);
+        });
+    });
+
+    describe("getCoinRecord()", () => {
+        it("Works", async () => {
+            const [provider, coin] = await _setup();
+
+            const coinState = await provider.getCoinRecord({ coinId: Util.coin.getId(coin) });
+            expect(Util.coin.getId(coinState!.coin)).to.equal(Util.coin.getId(coin));
+            expect(BigNumber.from(coinState!.createdHeight).toNumber()).to.equal(0);
+            expect(await provider.getCoinRecord({ coinId: OTHER_PUZZLE_HASH })).to.be.null;
+        });
+    });
+
+    const _expectNotImplementedError = (methodName: string, func: (p: SimulatorProvider) => any) => {
+        describe(`${methodName}()`, () => {
+            it("Throws 'not implemented' error.", async () => {
+                const provider = new SimulatorProvider();
+
+                let errorOk = false;
+                try {
+                    await func(provider);
+                } catch(e: any) {
+                    errorOk = e.message === NOT_IMPL_ERROR;
+                }
+
+                expect(errorOk).to.be.true;
+            });
+        });
+    };
+
+    _expectNotImplementedError("getAddress", (p) => p.getAddress());
+    _expectNotImplementedError("transfer", (p) => p.transfer({ to: "", value: 1 }));
+    _expectNotImplementedError("transferCAT", (p) => p.transferCAT({ to: "", assetId: "", value: 1 }));
+    _expectNotImplementedError("acceptOffer", (p) => p.acceptOffer({ offer: "" }));
+    _expectNotImplementedError("subscribeToAddressChanges", (p) => p.subscribeToAddressChanges({ callback: () => null }));
+    _expectNotImplementedError("signCoinSpends", (p) => p.signCoinSpends({ coinSpends: [] }));
+    _expectNotImplementedError("changeNetwork", (p) => p.changeNetwork({ network: Network.mainnet }));
+});
\ No newline at end of file
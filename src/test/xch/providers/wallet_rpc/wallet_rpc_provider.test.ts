@@ -0,0 +1,320 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+/* eslint-disable @typescript-eslint/no-empty-function */
+import { expect } from "chai";
+import { Network } from "../../../../util/network";
+import { MultiProvider } from "../../../../xch/providers/multi";
+import { WalletRpcProvider } from "../../../../xch/providers/wallet_rpc";
+import { LeafletProvider } from "../../../../xch/providers/leaflet";
+import { TEST_CERT, TEST_KEY } from "../full_node_peer/tls_fixtures";
+import { RpcStub, startRpcStub } from "../full_node_rpc/rpc_stub";
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+const ADDRESS = "xch1k6mv3caj73akwp0ygpqhjpat20mu3akc3f6xdrc5ahcqkynl7ejq2z74n3";
+
+const _spendBundleJSON = (aggSig: string) => ({
+    coin_spends: [{
+        coin: {
+            parent_coin_info: "0x" + "11".repeat(32),
+            puzzle_hash: "0x" + "22".repeat(32),
+            amount: 1337,
+        },
+        puzzle_reveal: "0x01",
+        solution: "0x80",
+    }],
+    aggregated_signature: "0x" + aggSig,
+});
+
+describe("WalletRpcProvider", () => {
+    let stub: RpcStub;
+    let provider: WalletRpcProvider;
+
+    beforeEach(async () => {
+        stub = await startRpcStub();
+        provider = new WalletRpcProvider("127.0.0.1", TEST_CERT, TEST_KEY, stub.port, Network.testnet10, 1, { ca: TEST_CERT });
+    });
+
+    afterEach(async () => {
+        await stub.close();
+    });
+
+    describe("connect()", () => {
+        it("Works if the wallet responds", async () => {
+            stub.responses["get_sync_status"] = { success: true, synced: true, syncing: false };
+
+            expect(provider.isConnected()).to.be.false;
+            await provider.connect();
+            expect(provider.isConnected()).to.be.true;
+
+            await provider.close();
+            expect(provider.isConnected()).to.be.false;
+        });
+
+        it("Emits 'connected' and 'disconnected' events", async () => {
+            stub.responses["get_sync_status"] = { success: true, synced: true, syncing: false };
+            const emitted: string[] = [];
+            provider.events.on("connected", () => emitted.push("connected"));
+            provider.events.on("disconnected", () => emitted.push("disconnected"));
+
+            await provider.close();
+            await provider.connect();
+            await provider.close();
+
+            expect(emitted).to.deep.equal(["connected", "disconnected"]);
+        });
+
+        it("Does not report a connection if the wallet does not respond", async () => {
+            await provider.connect();
+
+            expect(provider.isConnected()).to.be.false;
+        });
+    });
+
+    describe("getNetworkId()", () => {
+        it("Correctly reports network id when none is provided", () => {
+            const p = new WalletRpcProvider("localhost", TEST_CERT, TEST_KEY);
+
+            expect(p.getNetworkId()).to.equal(Network.mainnet);
+        });
+
+        it("Correctly reports network id when one is provided", () => {
+            expect(provider.getNetworkId()).to.equal(Network.testnet10);
+        });
+    });
+
+    describe("capabilities()", () => {
+        it("Reports wallet methods and signing", () => {
+            const capabilities = provider.capabilities();
+
+            expect(capabilities.methods).to.include.members(["getAddress", "transfer", "transferCAT", "acceptOffer"]);
+            expect(capabilities.methods).to.not.include("getBalance");
+            expect(capabilities.networks).to.deep.equal([Network.testnet10]);
+            expect(capabilities.features).to.deep.equal(["signing"]);
+        });
+    });
+
+    describe("getAddress()", () => {
+        it("Works", async () => {
+            stub.responses["get_next_address"] = { success: true, address: ADDRESS, wallet_id: 1 };
+
+            expect(await provider.getAddress()).to.equal(ADDRESS);
+            expect(stub.requests[0].data).to.deep.equal({ wallet_id: 1, new_address: false });
+        });
+
+        it("Uses the given wallet id", async () => {
+            const p = new WalletRpcProvider("127.0.0.1", TEST_CERT, TEST_KEY, stub.port, Network.testnet10, 5, { ca: TEST_CERT });
+            stub.responses["get_next_address"] = { success: true, address: ADDRESS, wallet_id: 5 };
+
+            await p.getAddress();
+
+            expect(stub.requests[0].data.wallet_id).to.equal(5);
+        });
+
+        it("Returns an empty string if the request fails", async () => {
+            expect(await provider.getAddress()).to.equal("");
+        });
+    });
+
+    describe("transfer()", () => {
+        it("Works with older wallets ('transaction')", async () => {
+            stub.responses["send_transaction"] = {
+                success: true,
+                transaction: { spend_bundle: _spendBundleJSON("aa".repeat(96)) },
+                transaction_id: "0x" + "33".repeat(32),
+            };
+
+            const sb = await provider.transfer({ to: ADDRESS, value: 1337, fee: 42 });
+
+            expect(sb?.aggregatedSignature).to.equal("aa".repeat(96));
+            expect(sb?.coinSpends[0].coin.puzzleHash).to.equal("22".repeat(32));
+            expect(stub.requests[0]).to.deep.equal({
+                endpoint: "send_transaction",
+                data: { wallet_id: 1, address: ADDRESS, amount: 1337, fee: 42 },
+            });
+        });
+
+        it("Works with newer wallets ('transactions')", async () => {
+            stub.responses["send_transaction"] = {
+                success: true,
+                transaction: { spend_bundle: null },
+                transactions: [
+                    { spend_bundle: null },
+                    { spend_bundle: _spendBundleJSON("bb".repeat(96)) },
+                ],
+            };
+
+            const sb = await provider.transfer({ to: ADDRESS, value: 1337 });
+
+            expect(sb?.aggregatedSignature).to.equal("bb".repeat(96));
+            expect(stub.requests[0].data.fee).to.equal(0);
+        });
+
+        it("Returns null if the response does not contain a spend bundle", async () => {
+            stub.responses["send_transaction"] = { success: true, transactions: [{ spend_bundle: null }] };
+
+            expect(await provider.transfer({ to: ADDRESS, value: 1337 })).to.be.null;
+        });
+
+        it("Returns null if the request fails", async () => {
+            expect(await provider.transfer({ to: ADDRESS, value: 1337 })).to.be.null;
+        });
+    });
+
+    describe("transferCAT()", () => {
+        it("Works", async () => {
+            stub.responses["cat_asset_id_to_name"] = { success: true, wallet_id: 2, name: "Spacebucks" };
+            stub.responses["cat_spend"] = {
+                success: true,
+                transaction: { spend_bundle: _spendBundleJSON("cc".repeat(96)) },
+            };
+
+            const sb = await provider.transferCAT({
+                to: ADDRESS, assetId: "0x" + "44".repeat(32), value: "18446744073709551615", fee: 1
+            });
+
+            expect(sb?.aggregatedSignature).to.equal("cc".repeat(96));
+            expect(stub.requests).to.deep.equal([
+                {
+                    endpoint: "cat_asset_id_to_name",
+                    data: { asset_id: "44".repeat(32) },
+                },
+                {
+                    endpoint: "cat_spend",
+                    data: { wallet_id: 2, inner_address: ADDRESS, amount: "18446744073709551615", fee: 1 },
+                },
+            ]);
+        });
+
+        it("Returns null if the wallet does not have a CAT wallet for the asset id", async () => {
+            stub.responses["cat_asset_id_to_name"] = { success: true, wallet_id: null, name: "Spacebucks" };
+
+            expect(await provider.transferCAT({
+                to: ADDRESS, assetId: "44".repeat(32), value: 1
+            })).to.be.null;
+            expect(stub.requests.length).to.equal(1);
+        });
+
+        it("Returns null if the asset id is unknown", async () => {
+            expect(await provider.transferCAT({
+                to: ADDRESS, assetId: "44".repeat(32), value: 1
+            })).to.be.null;
+        });
+    });
+
+    describe("acceptOffer()", () => {
+        it("Works", async () => {
+            stub.responses["take_offer"] = {
+                success: true,
+                trade_record: {},
+                transactions: [{ spend_bundle: _spendBundleJSON("dd".repeat(96)) }],
+            };
+
+            const sb = await provider.acceptOffer({ offer: "offer1test", fee: 5 });
+
+            expect(sb?.aggregatedSignature).to.equal("dd".repeat(96));
+            expect(stub.requests[0]).to.deep.equal({
+                endpoint: "take_offer",
+                data: { offer: "offer1test", fee: 5 },
+            });
+        });
+
+        it("Returns null if the request fails", async () => {
+            expect(await provider.acceptOffer({ offer: "offer1test" })).to.be.null;
+        });
+    });
+
+    describe("subscribeToAddressChanges()", () => {
+        it("Calls the callback with the current address", async () => {
+            stub.responses["get_next_address"] = { success: true, address: ADDRESS, wallet_id: 1 };
+            let address: string | null = null;
+
+            provider.subscribeToAddressChanges({
+                callback: (addr) => { address = addr; }
+            });
+            while(address === null) {
+                await sleep(10);
+            }
+
+            expect(address).to.equal(ADDRESS);
+        });
+    });
+
+    describe("signMessageByAddress()", () => {
+        it("Works", async () => {
+            stub.responses["sign_message_by_address"] = {
+                success: true,
+                pubkey: "0x" + "ab".repeat(48),
+                signature: "0x" + "cd".repeat(96),
+                signing_mode: "BLS_MESSAGE_AUGMENTATION_UTF8_INPUT",
+            };
+
+            const signed = await provider.signMessageByAddress(ADDRESS, "hello");
+
+            expect(signed).to.deep.equal({
+                publicKey: "ab".repeat(48),
+                signature: "cd".repeat(96),
+                signingMode: "BLS_MESSAGE_AUGMENTATION_UTF8_INPUT",
+            });
+            expect(stub.requests[0].data).to.deep.equal({ address: ADDRESS, message: "hello" });
+        });
+
+        it("Returns null if the request fails", async () => {
+            expect(await provider.signMessageByAddress(ADDRESS, "hello")).to.be.null;
+        });
+    });
+
+    describe("MultiProvider", () => {
+        it("Uses WalletRpcProvider for wallet methods when combined with a LeafletProvider", async () => {
+            stub.responses["get_sync_status"] = { success: true, synced: true, syncing: false };
+            stub.responses["send_transaction"] = {
+                success: true,
+                transaction: { spend_bundle: _spendBundleJSON("ee".repeat(96)) },
+            };
+
+            const leafletProvider = new LeafletProvider("localhost", "TEST-API-KEY");
+            leafletProvider.isConnected = () => true;
+            await provider.connect();
+
+            const p = new MultiProvider([leafletProvider, provider]);
+            const sb = await p.transfer({ to: ADDRESS, value: 1 });
+
+            expect(sb?.aggregatedSignature).to.equal("ee".repeat(96));
+        });
+    });
+
+    const _throwsNotImplemented = (func: any) => {
+        it("Throws 'not implemented' error.", async () => {
+            let errOk: boolean = false;
+
+            try {
+                await func(provider);
+            } catch(e: any) {
+                errOk = e.message === "WalletRpcProvider does not implement this method.";
+            }
+
+            expect(errOk).to.be.true;
+        });
+    };
+
+    const notImplemented: Array<[string, (p: WalletRpcProvider) => any]> = [
+        ["getBlockNumber", (p) => p.getBlockNumber()],
+        ["getBalance", (p) => p.getBalance({})],
+        ["subscribeToPuzzleHashUpdates", (p) => p.subscribeToPuzzleHashUpdates({ puzzleHash: "", callback: () => { } })],
+        ["subscribeToCoinUpdates", (p) => p.subscribeToCoinUpdates({ coinId: "", callback: () => { } })],
+        ["getPuzzleSolution", (p) => p.getPuzzleSolution({ coinId: "", height: 1 })],
+        ["getCoinChildren", (p) => p.getCoinChildren({ coinId: "" })],
+        ["getBlockHeader", (p) => p.getBlockHeader({ height: 1 })],
+        ["getBlocksHeaders", (p) => p.getBlocksHeaders({ startHeight: 1, endHeight: 2 })],
+        ["getCoinRemovals", (p) => p.getCoinRemovals({ height: 1, headerHash: "" })],
+        ["getCoinAdditions", (p) => p.getCoinAdditions({ height: 1, headerHash: "" })],
+        ["pushSpendBundle", (p) => p.pushSpendBundle({ spendBundle: null as any })],
+        ["signCoinSpends", (p) => p.signCoinSpends({ coinSpends: [] })],
+        ["changeNetwork", (p) => p.changeNetwork({ network: Network.testnet10 })],
+    ];
+
+    for(const [method, func] of notImplemented) {
+        describe(`${method}()`, () => {
+            _throwsNotImplemented(func);
+        });
+    }
+});
\ No newline at end of file
@@ -0,0 +1,277 @@
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+import { BigNumber } from "@ethersproject/bignumber";
+import { expect } from "chai";
+import { SExp } from "clvm";
+import { Util } from "../../util";
+import { Network } from "../../util/network";
+import { Coin } from "../../util/serializer/types/coin";
+import { CoinSpend } from "../../util/serializer/types/coin_spend";
+import { SpendBundle } from "../../util/serializer/types/spend_bundle";
+import { SpendModule } from "../../spend";
+import { XCHClient } from "../../xch";
+import { SimulatorProvider } from "../../xch/providers/simulator";
+import { LeafletProvider } from "../../xch/providers/leaflet";
+import { IWebSocket } from "../../xch/providers/leaflet/chia_message_channel";
+import { TransactionHandle } from "../../xch/transaction";
+import { Serializer } from "../../util/serializer/serializer";
+import { Message } from "../../util/serializer/types/outbound_message";
+import { ProtocolMessageTypes } from "../../util/serializer/types/protocol_message_types";
+import { CoinState, RespondToCoinUpdates, TransactionAck } from "../../util/serializer/types/wallet_protocol";
+import { DoubleSpendError, TransactionDroppedError, TransactionRejectedError } from "../../xch/providers/provider_errors";
+
+const ANYONE_CAN_SPEND_PUZZLE: SExp = Util.sexp.fromHex("01");
+const ANYONE_CAN_SPEND_PUZZLE_HASH: string = Util.sexp.sha256tree(ANYONE_CAN_SPEND_PUZZLE);
+
+const _bundle = (coin: Coin, conditions: SExp[] = []): SpendBundle => {
+    const coinSpend = new CoinSpend();
+    coinSpend.coin = coin;
+    coinSpend.puzzleReveal = ANYONE_CAN_SPEND_PUZZLE;
+    coinSpend.solution = SExp.to(conditions);
+
+    const sb = new SpendBundle();
+    sb.coinSpends = [coinSpend];
+    sb.aggregatedSignature = "c0" + "00".repeat(95);
+
+    return sb;
+};
+
+const _coin = (amount: number): Coin => {
+    const coin = new Coin();
+    coin.parentCoinInfo = "00".repeat(32);
+    coin.puzzleHash = ANYONE_CAN_SPEND_PUZZLE_HASH;
+    coin.amount = amount;
+
+    return coin;
+};
+
+const _setup = async (): Promise<[SimulatorProvider, XCHClient, Coin]> => {
+    const provider = new SimulatorProvider(Network.testnet10);
+    await provider.connect();
+    const header = await provider.farmBlock(ANYONE_CAN_SPEND_PUZZLE_HASH);
+    const coins = await provider.getCoinAdditions({ height: 0, headerHash: header.headerHash });
+
+    return [provider, new XCHClient(provider), (coins as Coin[])[0]];
+};
+
+const _rejects = async (promise: Promise<any>): Promise<any> => {
+    try {
+        await promise;
+    } catch(e) {
+        return e;
+    }
+
+    return null;
+};
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+describe("TransactionHandle", () => {
+    it("Resolves confirmed() once the removals are spent", async () => {
+        const [provider, client, coin] = await _setup();
+        const handle = await client.sendTransaction({ spendBundle: _bundle(coin) });
+
+        expect(handle.accepted).to.be.true;
+        expect(handle.error).to.be.null;
+        expect(handle.state).to.equal("pending");
+        expect(handle.name.length).to.equal(64);
+
+        await provider.farmBlock();
+        expect(await handle.confirmed()).to.equal(1);
+        expect(handle.state).to.equal("confirmed");
+        expect(handle.height).to.equal(1);
+
+        let confirmedHeight: number | null = null;
+        handle.confirmed(3).then((height) => { confirmedHeight = height; });
+
+        await provider.farmBlock();
+        await sleep(10);
+        expect(confirmedHeight).to.be.null;
+        expect(handle.getConfirmations()).to.equal(2);
+
+        await provider.farmBlock();
+        await sleep(10);
+        expect(confirmedHeight).to.equal(1);
+
+        handle.close();
+    });
+
+    it("Stops tracking the transaction once the last confirmed() promise resolved", async () => {
+        const [provider, client, coin] = await _setup();
+        const peakListeners: number = provider.events.listenerCount("peak");
+        const handle = await client.sendTransaction({ spendBundle: _bundle(coin) });
+        expect(provider.events.listenerCount("peak")).to.equal(peakListeners + 1);
+
+        const confirmed = handle.confirmed(2);
+        await provider.farmBlock();
+        await sleep(10);
+        expect(provider.events.listenerCount("peak")).to.equal(peakListeners + 1);
+
+        await provider.farmBlock();
+        expect(await confirmed).to.equal(1);
+        expect(provider.events.listenerCount("peak")).to.equal(peakListeners);
+
+        // confirmed() resumes tracking
+        const confirmedAgain = handle.confirmed(3);
+        expect(provider.events.listenerCount("peak")).to.equal(peakListeners + 1);
+        await provider.farmBlock();
+        expect(await confirmedAgain).to.equal(1);
+        expect(provider.events.listenerCount("peak")).to.equal(peakListeners);
+    });
+
+    it("Reports transactions that were not accepted into the mempool", async () => {
+        const [, client] = await _setup();
+
+        const handle = await client.sendTransaction({ spendBundle: _bundle(_coin(1)) }); // the coin does not exist
+
+        expect(handle.accepted).to.be.false;
+        expect(handle.state).to.equal("failed");
+        expect(await _rejects(handle.confirmed())).to.be.instanceOf(TransactionRejectedError);
+    });
+
+    it("Includes the TransactionAck error of strict providers", async () => {
+        const provider = new SimulatorProvider(Network.testnet10);
+        provider.pushSpendBundle = async () => {
+            throw new TransactionRejectedError(3, "DOUBLE_SPEND");
+        };
+
+        const handle = await new XCHClient(provider).sendTransaction({ spendBundle: _bundle(_coin(1)) });
+
+        expect(handle.accepted).to.be.false;
+        expect(handle.error).to.equal("DOUBLE_SPEND");
+        expect((await _rejects(handle.confirmed())).message).to.equal("Transaction rejected: DOUBLE_SPEND");
+    });
+
+    it("Includes the rejection reason of providers that are not in strict mode", async () => {
+        const provider = new SimulatorProvider(Network.testnet10);
+        const spendBundle: SpendBundle = _bundle(_coin(1));
+        provider.pushSpendBundle = async (args) => {
+            provider.events.emit("transactionRejected", args.spendBundle, new TransactionRejectedError(3, "DOUBLE_SPEND"));
+            return false;
+        };
+
+        const client = new XCHClient(provider);
+        const listeners: number = provider.events.listenerCount("transactionRejected");
+        const handle = await client.sendTransaction({ spendBundle });
+
+        expect(handle.accepted).to.be.false;
+        expect(handle.error).to.equal("DOUBLE_SPEND");
+        expect(provider.events.listenerCount("transactionRejected")).to.equal(listeners);
+    });
+
+    it("Detects dropped transactions", async () => {
+        const [provider, client, coin] = await _setup();
+        const handle = await client.sendTransaction({ spendBundle: _bundle(coin), maxPendingBlocks: 2 });
+        await sleep(10);
+
+        provider.clearMempool();
+        await provider.farmBlock();
+        expect(handle.state).to.equal("pending");
+        await provider.farmBlock();
+
+        expect(handle.state).to.equal("dropped");
+        expect(await _rejects(handle.confirmed())).to.be.instanceOf(TransactionDroppedError);
+    });
+
+    it("Detects double spends", async () => {
+        const [provider, client, coin] = await _setup();
+        const handle = await client.sendTransaction({ spendBundle: _bundle(coin) });
+        const confirmed = _rejects(handle.confirmed());
+
+        provider.clearMempool();
+        await provider.pushSpendBundle({
+            spendBundle: _bundle(coin, [SpendModule.createCoinCondition(ANYONE_CAN_SPEND_PUZZLE_HASH, 1)]),
+        });
+        await provider.farmBlock();
+
+        const error = await confirmed;
+        expect(error).to.be.instanceOf(DoubleSpendError);
+        expect(error.transactionName).to.equal(handle.name);
+        expect(handle.state).to.equal("doubleSpent");
+    });
+
+    it("Does not disturb other requests when it stops tracking the transaction (LeafletProvider)", async () => {
+        const sentMessages: Message[] = [];
+        const ws: IWebSocket = {
+            onmessage: null,
+            onopen: () => null,
+            send: (msg: Buffer) => sentMessages.push(Serializer.deserialize(Message, msg)),
+            close: () => null,
+            onerror: () => null,
+            readyState: WebSocket.CONNECTING,
+        };
+        const provider = new LeafletProvider("leaflet.fireacademy.io", "TEST-API-KEY", 12345, Network.testnet10, () => ws);
+        const opener = async () => {
+            while(ws.onmessage === null) {
+                await sleep(10);
+            }
+
+            ws.readyState = WebSocket.OPEN;
+            ws.onopen?.("hey");
+        };
+        await Promise.all([provider.connect(), opener()]);
+
+        const _send = (type: ProtocolMessageTypes, id: number | null, data: any) => {
+            const msg = new Message();
+            msg.type = type;
+            msg.id = id;
+            msg.data = Serializer.serialize(data).toString("hex");
+
+            ws.onmessage?.({ data: Serializer.serialize(msg) });
+        };
+        const _sent = (type: ProtocolMessageTypes) => sentMessages.filter((m) => BigNumber.from(m.type).eq(type));
+        const _coinUpdate = (coin: Coin, spentHeight: number) => {
+            const coinState = new CoinState();
+            coinState.coin = coin;
+            coinState.createdHeight = 1;
+            coinState.spentHeight = spentHeight;
+
+            const resp = new RespondToCoinUpdates();
+            resp.coinIds = [Util.coin.getId(coin)];
+            resp.minHeight = 0;
+            resp.coinStates = [coinState];
+            return resp;
+        };
+
+        const [coin1, coin2] = [_coin(1), _coin(2)];
+        const spendBundle = _bundle(coin1);
+        spendBundle.coinSpends.push(_bundle(coin2).coinSpends[0]);
+
+        const handle = new TransactionHandle(provider, spendBundle, true);
+        const confirmed = _rejects(handle.confirmed());
+        while(_sent(ProtocolMessageTypes.register_interest_in_coin).length < 2) {
+            await sleep(10);
+        }
+
+        // requests registered after the transaction's subscriptions
+        const pushed = [
+            provider.pushSpendBundle({ spendBundle: _bundle(_coin(3)) }),
+            provider.pushSpendBundle({ spendBundle: _bundle(_coin(4)) }),
+        ];
+        while(_sent(ProtocolMessageTypes.send_transaction).length < 2) {
+            await sleep(10);
+        }
+
+        // the removals were spent in different blocks - the handle stops tracking the transaction
+        _send(ProtocolMessageTypes.respond_to_coin_update, null, _coinUpdate(coin1, 5));
+        _send(ProtocolMessageTypes.respond_to_coin_update, null, _coinUpdate(coin2, 6));
+        expect(await confirmed).to.be.instanceOf(DoubleSpendError);
+
+        // the requests must still be waiting for their replies
+        let settled: boolean = false;
+        Promise.race(pushed).finally(() => { settled = true; }).catch(() => null);
+        await sleep(10);
+        expect(settled).to.be.false;
+
+        for(const request of _sent(ProtocolMessageTypes.send_transaction)) {
+            const ack = new TransactionAck();
+            ack.txid = "00".repeat(32);
+            ack.status = 1;
+            ack.error = null;
+
+            _send(ProtocolMessageTypes.transaction_ack, BigNumber.from(request.id).toNumber(), ack);
+        }
+        expect(await Promise.all(pushed)).to.deep.equal([true, true]);
+
+        await provider.close();
+    });
+});
\ No newline at end of file
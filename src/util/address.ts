@@ -21,6 +21,15 @@ export class AddressUtil {
         return bech32m.encode(prefix, bech32m.toWords(puzzHash));
     }
 
+    // returns "" if the address is invalid
+    public getPrefix(address: string, maxLen?: number): string {
+        try {
+            return bech32m.decode(address, maxLen).prefix;
+        } catch(_) {
+            return "";
+        }
+    }
+
     public addressToPuzzleHash(address: string, maxLen?: number): string {
         try {
             return Buffer.from(
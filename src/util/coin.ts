@@ -45,6 +45,17 @@ export class CoinUtil {
         return this.getId(coin);
     }
 
+    // hash of a list of coin ids, as used in the additions root of transaction blocks (hash_coin_ids)
+    public hashCoinIds(coinIds: bytes[]): bytes {
+        if(coinIds.length === 1) {
+            return Util.stdHash(coinIds[0]);
+        }
+
+        return Util.stdHash(
+            coinIds.map((coinId) => coinId.toLowerCase()).sort().reverse().join("")
+        );
+    }
+
     public toProgram(coin: Coin): SExp {
         return SExp.to([
             Bytes.from(coin.parentCoinInfo, "hex"),
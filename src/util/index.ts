@@ -3,7 +3,9 @@ import { AddressUtil } from "./address";
 import { CoinUtil } from "./coin";
 import { GobyUtil } from "./goby";
 import { KeyUtil } from "./key";
+import { MerkleSetUtil } from "./merkle_set";
 import { NetworkUtil } from "./network";
+import { RpcUtil } from "./rpc";
 import { SerializerUtil } from "./serializer";
 import { SExpUtil } from "./sexp";
 import CryptoJS from "crypto-js";
@@ -17,6 +19,8 @@ export class Util {
     public static sexp: SExpUtil = new SExpUtil();
     public static goby: GobyUtil = new GobyUtil();
     public static key: KeyUtil = new KeyUtil();
+    public static rpc: RpcUtil = new RpcUtil();
+    public static merkleSet: MerkleSetUtil = new MerkleSetUtil();
     public static mojoPerXCH: BigNumber = BigNumber.from(1000000000000);
 
     public static formatToken(amount: BigNumberish, amountPerUnit: BigNumberish = 1000): string {
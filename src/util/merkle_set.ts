@@ -0,0 +1,192 @@
+// port of the MerkleSet used for the additions and removals roots of transaction blocks
+// https://github.com/Chia-Network/chia-blockchain/blob/6205d954e8ac2ea40ee7386b1ee3124da21f4c4a/chia/util/merkle_set.py
+import { bytes } from "./serializer/basic_types";
+import { Util } from ".";
+
+const EMPTY = "00";
+const TERMINAL = "01";
+const MIDDLE = "02";
+const TRUNCATED = "03";
+
+const BLANK = "00".repeat(32);
+
+type _Node = {
+    type: "empty" | "terminal" | "middle" | "truncated",
+    hash: bytes,
+    isDouble: boolean, // middle node with exactly two terminal nodes below it - collapsed into its parent
+    children: [_Node, _Node] | null,
+};
+
+class SetError extends Error {}
+
+const _empty: _Node = { type: "empty", hash: BLANK, isDouble: false, children: null };
+
+const _getBit = (value: bytes, pos: number): number => {
+    const byte: number = parseInt(value.slice((pos >> 3) * 2, (pos >> 3) * 2 + 2), 16);
+
+    return (byte >> (7 - (pos % 8))) & 1;
+};
+
+const _typeByte = (node: _Node): string => node.type === "empty" ? EMPTY : (node.type === "terminal" ? TERMINAL : MIDDLE);
+
+const _hashdown = (left: _Node, right: _Node): bytes => Util.stdHash(
+    "00".repeat(30) + _typeByte(left) + _typeByte(right) + left.hash + right.hash
+);
+
+const _terminal = (hash: bytes): _Node => ({ type: "terminal", hash, isDouble: false, children: null });
+
+const _middle = (left: _Node, right: _Node): _Node => {
+    if(left.type === "empty" && right.isDouble) {
+        return { type: "middle", hash: right.hash, isDouble: true, children: [left, right] };
+    }
+    if(right.type === "empty" && left.isDouble) {
+        return { type: "middle", hash: left.hash, isDouble: true, children: [left, right] };
+    }
+
+    // proofs have to use the canonical form
+    if(left.type === "empty" && (right.type === "empty" || right.type === "terminal")) {
+        throw new SetError();
+    }
+    if(right.type === "empty" && left.type === "terminal") {
+        throw new SetError();
+    }
+    if(left.type === "terminal" && right.type === "terminal" && left.hash >= right.hash) {
+        throw new SetError();
+    }
+
+    return {
+        type: "middle",
+        hash: _hashdown(left, right),
+        isDouble: left.type === "terminal" && right.type === "terminal",
+        children: [left, right],
+    };
+};
+
+const _build = (leaves: bytes[], depth: number): _Node => {
+    if(leaves.length === 0) return _empty;
+    if(leaves.length === 1) return _terminal(leaves[0]);
+
+    const left = leaves.filter((leaf) => _getBit(leaf, depth) === 0);
+    const right = leaves.filter((leaf) => _getBit(leaf, depth) === 1);
+
+    return _middle(_build(left, depth + 1), _build(right, depth + 1));
+};
+
+const _compressRoot = (node: _Node): bytes => {
+    if(node.type === "empty") return BLANK;
+    if(node.type === "terminal") return Util.stdHash(TERMINAL + node.hash);
+
+    return node.hash;
+};
+
+const _deserialize = (proof: bytes, pos: number, depth: number): [_Node, number] => {
+    const type: string = proof.slice(pos, pos + 2);
+    if(type === EMPTY) {
+        return [_empty, pos + 2];
+    }
+    if(type === TERMINAL || type === TRUNCATED) {
+        const hash: bytes = proof.slice(pos + 2, pos + 66);
+        if(hash.length !== 64) throw new SetError();
+
+        return [
+            type === TERMINAL ? _terminal(hash) : { type: "truncated", hash, isDouble: false, children: null },
+            pos + 66
+        ];
+    }
+    if(type !== MIDDLE || depth >= 256) {
+        throw new SetError();
+    }
+
+    const [left, leftEnd] = _deserialize(proof, pos + 2, depth + 1);
+    const [right, rightEnd] = _deserialize(proof, leftEnd, depth + 1);
+    return [_middle(left, right), rightEnd];
+};
+
+const _isIncluded = (node: _Node, value: bytes, depth: number): boolean => {
+    if(node.type === "empty") return false;
+    if(node.type === "terminal") return node.hash === value;
+    if(node.type === "truncated" || node.children === null) throw new SetError();
+
+    return _isIncluded(node.children[_getBit(value, depth)], value, depth + 1);
+};
+
+// appends the nodes needed to check whether 'value' is included (MerkleSet.is_included_already_hashed)
+const _prove = (node: _Node, value: bytes, depth: number, proof: string[]): void => {
+    if(node.type !== "middle" || node.children === null) {
+        proof.push(node.type === "empty" ? EMPTY : TERMINAL + node.hash);
+        return;
+    }
+
+    proof.push(MIDDLE);
+    const bit: number = _getBit(value, depth);
+    const [left, right] = node.children;
+
+    if(bit === 0) {
+        _prove(left, value, depth + 1, proof);
+        _proveOther(right, value, depth + 1, proof, left.type !== "empty");
+    } else {
+        _proveOther(left, value, depth + 1, proof, right.type !== "empty");
+        _prove(right, value, depth + 1, proof);
+    }
+};
+
+const _proveOther = (node: _Node, value: bytes, depth: number, proof: string[], collapse: boolean): void => {
+    if(node.type === "middle" && (collapse || !node.isDouble)) {
+        proof.push(TRUNCATED + node.hash);
+        return;
+    }
+
+    _prove(node, value, depth, proof);
+};
+
+export class MerkleSetUtil {
+    public computeRoot(leaves: bytes[]): bytes {
+        return _compressRoot(_build(this._normalize(leaves), 0));
+    }
+
+    // returns whether the value is included and a proof of (non-)inclusion
+    public getProof(leaves: bytes[], value: bytes): [boolean, bytes] {
+        value = Util.address.validateHashString(value).toLowerCase();
+        const root: _Node = _build(this._normalize(leaves), 0);
+        const proof: string[] = [];
+
+        _prove(root, value, 0, proof);
+        return [_isIncluded(root, value, 0), proof.join("")];
+    }
+
+    public confirmIncluded(root: bytes, value: bytes, proof: bytes): boolean {
+        return this._confirm(root, value, proof, true);
+    }
+
+    public confirmNotIncluded(root: bytes, value: bytes, proof: bytes): boolean {
+        return this._confirm(root, value, proof, false);
+    }
+
+    private _confirm(root: bytes, value: bytes, proof: bytes, expected: boolean): boolean {
+        root = Util.address.validateHashString(root).toLowerCase();
+        value = Util.address.validateHashString(value).toLowerCase();
+        if(root.length === 0 || value.length === 0) {
+            return false;
+        }
+
+        try {
+            const [node, end] = _deserialize(proof.toLowerCase(), 0, 0);
+            if(end !== proof.length || _compressRoot(node) !== root) {
+                return false;
+            }
+
+            return _isIncluded(node, value, 0) === expected;
+        } catch(e) {
+            if(e instanceof SetError) {
+                return false;
+            }
+
+            throw e;
+        }
+    }
+
+    // lowercase, no duplicates, sorted (the order of the leaves does not change the root)
+    private _normalize(leaves: bytes[]): bytes[] {
+        return [...new Set(leaves.map((leaf) => Util.address.validateHashString(leaf).toLowerCase()))].sort();
+    }
+}
\ No newline at end of file
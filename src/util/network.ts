@@ -10,50 +10,98 @@ export enum Network {
     // why no testnet6 :(
     testnet7 = "testnet7",
     testnet10 = "testnet10",
+    testnet11 = "testnet11",
 }
 
+export type NetworkInfo = {
+    id: string, // also used as the 'networkId' of handshakes
+    genesisChallenge: bytes,
+    addressPrefix: string,
+    defaultPort: number, // full node peer port
+};
+
+export type registerNetworkArgs = {
+    id: string,
+    genesisChallenge: bytes,
+    addressPrefix?: string,
+    defaultPort?: number,
+};
+
+// shared by all NetworkUtil instances
+const NETWORKS: Map<string, NetworkInfo> = new Map();
+const NETWORK_IDS: Network[] = [];
+
+const _registerBuiltIn = (id: Network, genesisChallenge: bytes) => {
+    NETWORKS.set(id, {
+        id,
+        genesisChallenge,
+        addressPrefix: id === Network.mainnet ? "xch" : "txch",
+        defaultPort: id === Network.mainnet ? 8444 : 58444,
+    });
+    NETWORK_IDS.push(id);
+};
+
+_registerBuiltIn(Network.mainnet, "ccd5bb71183532bff220ba46c268991a3ff07eb358e8255a65c30a2dce0e5fbb");
+_registerBuiltIn(Network.testnet0, "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+_registerBuiltIn(Network.testnet2, "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+_registerBuiltIn(Network.testnet3, "ca7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015af");
+_registerBuiltIn(Network.testnet4, "dd7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015af");
+_registerBuiltIn(Network.testnet5, "ee7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015af");
+_registerBuiltIn(Network.testnet7, "117816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015af");
+_registerBuiltIn(Network.testnet10, "ae83525ba8d1dd3f09b277de18ca3e43fc0af20d20c4b3e92ef2a48bd291ccb2");
+_registerBuiltIn(Network.testnet11, "37a90eb5185a9c4439a91ddc98bbadce7b4feba060d50116a067de66bf236615");
+
 export class NetworkUtil {
     public Network = Network;
 
-    public networks: Network[] = [
-        Network.mainnet,
-        Network.testnet0,
-        Network.testnet2,
-        Network.testnet3,
-        Network.testnet4,
-        Network.testnet5,
-        Network.testnet7,
-        Network.testnet10
-    ];
+    // built-in networks first, then custom ones (in the order they were registered)
+    // the list is shared by all instances until it's replaced
+    public networks: Network[] = NETWORK_IDS;
 
-    public getGenesisChallenge(networkId: Network): bytes {
-        switch(networkId) {
-            case Network.mainnet:
-                return "ccd5bb71183532bff220ba46c268991a3ff07eb358e8255a65c30a2dce0e5fbb";
-            case Network.testnet0:
-                return "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
-            case Network.testnet2:
-                return "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad";
-            case Network.testnet3:
-                return "ca7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015af";
-            case Network.testnet4:
-                return "dd7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015af";
-            case Network.testnet5:
-                return "ee7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015af";
-            case Network.testnet7:
-                return "117816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015af";
-            case Network.testnet10:
-                return "ae83525ba8d1dd3f09b277de18ca3e43fc0af20d20c4b3e92ef2a48bd291ccb2";
-            default:
-                throw new Error("Unknown network id.");
+    // adds a network (e.g., a simulator or a new testnet) or replaces an existing one
+    // the returned id can be used wherever a Network is expected
+    public register({
+        id,
+        genesisChallenge,
+        addressPrefix = "txch",
+        defaultPort = 58444,
+    }: registerNetworkArgs): Network {
+        if(id.length === 0) {
+            throw new Error("Invalid network id.");
         }
+        if(!(/^[0-9a-fA-F]{64}$/).test(genesisChallenge)) {
+            throw new Error("Invalid genesis challenge.");
+        }
+
+        NETWORKS.set(id, { id, genesisChallenge: genesisChallenge.toLowerCase(), addressPrefix, defaultPort });
+        if(!NETWORK_IDS.includes(id as Network)) {
+            NETWORK_IDS.push(id as Network);
+        }
+        if(!this.networks.includes(id as Network)) {
+            this.networks.push(id as Network); // the instance's list was replaced
+        }
+
+        return id as Network;
     }
-    
-    public getAddressPrefix(networkId: Network): string {
-        if(networkId === Network.mainnet) {
-            return "xch";
+
+    public getNetwork(networkId: Network): NetworkInfo {
+        const network: NetworkInfo | undefined = NETWORKS.get(networkId);
+        if(network === undefined) {
+            throw new Error("Unknown network id.");
         }
 
-        return "txch";
+        return network;
+    }
+
+    public getGenesisChallenge(networkId: Network): bytes {
+        return this.getNetwork(networkId).genesisChallenge;
+    }
+
+    public getAddressPrefix(networkId: Network): string {
+        return this.getNetwork(networkId).addressPrefix;
+    }
+
+    public getDefaultPort(networkId: Network): number {
+        return this.getNetwork(networkId).defaultPort;
     }
 }
\ No newline at end of file
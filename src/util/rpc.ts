@@ -0,0 +1,94 @@
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+import { Util } from ".";
+import { Coin } from "./serializer/types/coin";
+import { CoinSpend } from "./serializer/types/coin_spend";
+import { SpendBundle } from "./serializer/types/spend_bundle";
+
+// converts between greenweb types and the JSON used by chia's RPC
+// https://github.com/Chia-Network/chia-blockchain/blob/main/chia/util/streamable.py
+export class RpcUtil {
+    public parseRpcCoin(coin: any): Coin | null {
+        try {
+            const c = new Coin();
+            c.parentCoinInfo = Util.dehexlify(coin["parent_coin_info"]) as string;
+            c.puzzleHash = Util.dehexlify(coin["puzzle_hash"]) as string;
+            c.amount = BigNumber.from(coin["amount"]);
+
+            return c;
+        } catch(_) {
+            return null;
+        }
+    }
+
+    public parseRpcCoinSpend(coinSpend: any): CoinSpend | null {
+        try {
+            const cs = new CoinSpend();
+
+            const coin = this.parseRpcCoin(coinSpend["coin"]);
+            if(coin === null) {
+                return null;
+            }
+            cs.coin = coin;
+
+            cs.puzzleReveal = Util.sexp.fromHex(Util.dehexlify(coinSpend["puzzle_reveal"]) as string);
+            cs.solution = Util.sexp.fromHex(Util.dehexlify(coinSpend["solution"]) as string);
+
+            return cs;
+        } catch(_) {
+            return null;
+        }
+    }
+
+    public parseRpcSpendBundle(spendBundle: any): SpendBundle | null {
+        try {
+            const sb = new SpendBundle();
+            sb.coinSpends = [];
+
+            const coinSpends = spendBundle["coin_spends"];
+            for(let i = 0; i < coinSpends.length; ++i) {
+                const coinSpend = this.parseRpcCoinSpend(coinSpends[i]);
+                if(coinSpend === null) {
+                    return null;
+                }
+
+                sb.coinSpends.push(coinSpend);
+            }
+
+            sb.aggregatedSignature = Util.dehexlify(spendBundle["aggregated_signature"]) as string;
+
+            return sb;
+        } catch(_) {
+            return null;
+        }
+    }
+
+    // uint64s that don't fit in a JS number are sent as strings
+    public amountToRpc(amount: BigNumberish): number | string {
+        const a = BigNumber.from(amount);
+
+        return a.lte(Number.MAX_SAFE_INTEGER.toString()) ? a.toNumber() : a.toString();
+    }
+
+    public coinToRpc(coin: Coin): any {
+        return {
+            parent_coin_info: Util.hexlify(coin.parentCoinInfo),
+            puzzle_hash: Util.hexlify(coin.puzzleHash),
+            amount: this.amountToRpc(coin.amount),
+        };
+    }
+
+    public coinSpendToRpc(coinSpend: CoinSpend): any {
+        return {
+            coin: this.coinToRpc(coinSpend.coin),
+            puzzle_reveal: Util.hexlify(Util.sexp.toHex(coinSpend.puzzleReveal)),
+            solution: Util.hexlify(Util.sexp.toHex(coinSpend.solution)),
+        };
+    }
+
+    public spendBundleToRpc(spendBundle: SpendBundle): any {
+        return {
+            coin_spends: spendBundle.coinSpends.map((coinSpend) => this.coinSpendToRpc(coinSpend)),
+            aggregated_signature: Util.hexlify(spendBundle.aggregatedSignature),
+        };
+    }
+}
\ No newline at end of file
@@ -12,7 +12,7 @@ import { Handshake } from "./shared_protocol";
 import { ChallengeBlockInfo, ChallengeChainSubSlot, InfusedChallengeChainSubSlot, RewardChainSubSlot, SubSlotProofs } from "./slots";
 import { SpendBundle } from "./spend_bundle";
 import { VDFInfo, VDFProof } from "./vdf";
-import { CoinState, CoinStateUpdate, NewPeakWallet, PuzzleSolutionResponse, RegisterForCoinUpdates, RegisterForPhUpdates, RejectAdditionsRequest, RejectHeaderBlocks, RejectHeaderRequest, RejectPuzzleSolution, RejectRemovalsRequest, RequestAdditions, RequestBlockHeader, RequestChildren, RequestHeaderBlocks, RequestPuzzleSolution, RequestRemovals, RequestSESInfo, RespondAdditions, RespondBlockHeader, RespondChildren, RespondHeaderBlocks, RespondPuzzleSolution, RespondRemovals, RespondSESInfo, RespondToCoinUpdates, RespondToPhUpdates, SendTransaction, TransactionAck } from "./wallet_protocol";
+import { CoinState, CoinStateUpdate, NewPeakWallet, PuzzleSolutionResponse, RegisterForCoinUpdates, RegisterForPhUpdates, RejectAdditionsRequest, RejectHeaderBlocks, RejectHeaderRequest, RejectPuzzleSolution, RejectRemovalsRequest, RequestAdditions, RequestBlockHeader, RequestChildren, RequestHeaderBlocks, RequestPuzzleSolution, RequestRemovals, RequestSESInfo, RespondAdditions, RespondBlockHeader, RespondChildren, RespondHeaderBlocks, RespondPuzzleSolution, RespondRemovals, RespondSESInfo, RespondToCoinUpdates, RespondToPhUpdates, SendTransaction, TransactionAck, RequestFeeEstimates, FeeRate, FeeEstimate, FeeEstimateGroup, RespondFeeEstimates, RequestRemovePuzzleSubscriptions, RespondRemovePuzzleSubscriptions, RequestRemoveCoinSubscriptions, RespondRemoveCoinSubscriptions, CoinStateFilters, RequestPuzzleState, RespondPuzzleState, RejectPuzzleState, RequestCoinState, RespondCoinState, RejectCoinState, RemovedMempoolItem, MempoolItemsAdded, MempoolItemsRemoved } from "./wallet_protocol";
 
 export default {
   fields,
@@ -65,5 +65,24 @@ export default {
   RequestChildren,
   RespondChildren,
   RequestSESInfo,
-  RespondSESInfo
+  RespondSESInfo,
+  RequestFeeEstimates,
+  FeeRate,
+  FeeEstimate,
+  FeeEstimateGroup,
+  RespondFeeEstimates,
+  RequestRemovePuzzleSubscriptions,
+  RespondRemovePuzzleSubscriptions,
+  RequestRemoveCoinSubscriptions,
+  RespondRemoveCoinSubscriptions,
+  CoinStateFilters,
+  RequestPuzzleState,
+  RespondPuzzleState,
+  RejectPuzzleState,
+  RequestCoinState,
+  RespondCoinState,
+  RejectCoinState,
+  RemovedMempoolItem,
+  MempoolItemsAdded,
+  MempoolItemsRemoved
 };
\ No newline at end of file
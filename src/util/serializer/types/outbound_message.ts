@@ -37,10 +37,10 @@ export class Message {
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function makeMsg(msgType: ProtocolMessageTypes, data: any): Buffer {
+export function makeMsg(msgType: ProtocolMessageTypes, data: any, id: Optional<number> = null): Buffer {
     const msg: Message = new Message();
     msg.type = msgType;
-    msg.id = null;
+    msg.id = id;
     msg.data = Serializer.serialize(data).toString("hex");
 
     return Serializer.serialize(msg);
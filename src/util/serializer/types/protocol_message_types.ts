@@ -94,5 +94,44 @@ export enum ProtocolMessageTypes {
     request_children = 74,
     respond_children = 75,
     request_ses_hashes = 76,
-    respond_ses_hashes = 77
+    respond_ses_hashes = 77,
+
+    // Plot sync protocol (harvester -> farmer)
+    plot_sync_start = 78,
+    plot_sync_loaded = 79,
+    plot_sync_removed = 80,
+    plot_sync_invalid = 81,
+    plot_sync_keys_missing = 82,
+    plot_sync_duplicates = 83,
+    plot_sync_done = 84,
+    plot_sync_response = 85,
+
+    // More wallet protocol
+    request_block_headers = 86,
+    reject_block_headers = 87,
+    respond_block_headers = 88,
+    request_fee_estimates = 89,
+    respond_fee_estimates = 90,
+
+    // Unfinished block protocol
+    new_unfinished_block2 = 92,
+    request_unfinished_block2 = 93,
+
+    // New wallet sync protocol
+    request_remove_puzzle_subscriptions = 94,
+    respond_remove_puzzle_subscriptions = 95,
+    request_remove_coin_subscriptions = 96,
+    respond_remove_coin_subscriptions = 97,
+    request_puzzle_state = 98,
+    respond_puzzle_state = 99,
+    reject_puzzle_state = 100,
+    request_coin_state = 101,
+    respond_coin_state = 102,
+    reject_coin_state = 103,
+
+    // Wallet protocol mempool updates
+    mempool_items_added = 104,
+    mempool_items_removed = 105,
+    request_cost_info = 106,
+    respond_cost_info = 107
 }
\ No newline at end of file
@@ -40,7 +40,7 @@ export class SendTransaction {
 export class TransactionAck {
     @fields.Bytes(32) txid: bytes;
     @fields.Uint(8) status: uint;
-    @fields.Optional(fields.String) error: Optional<string>;
+    @fields.Optional(fields.String()) error: Optional<string>;
 }
 
 
@@ -192,4 +192,126 @@ export class RequestSESInfo {
 export class RespondSESInfo {
     @fields.List(fields.Bytes(32)) coinRewardChainHash: bytes[];
     @fields.List(fields.List(fields.Uint(32))) heights: uint[][];
+}
+
+
+export class RequestFeeEstimates {
+    @fields.List(fields.Uint(64)) timeTargets: uint[]; // unix timestamps (seconds)
+}
+
+
+// https://github.com/Chia-Network/chia-blockchain/blob/main/chia/types/fee_rate.py
+export class FeeRate {
+    @fields.Uint(64) mojosPerClvmCost: uint;
+}
+
+
+export class FeeEstimate {
+    @fields.Optional(fields.String()) error: Optional<string>;
+    @fields.Uint(64) timeTarget: uint;
+    @fields.Object(FeeRate) estimatedFeeRate: FeeRate;
+}
+
+
+export class FeeEstimateGroup {
+    @fields.Optional(fields.String()) error: Optional<string>;
+    @fields.List(fields.Object(FeeEstimate)) estimates: FeeEstimate[];
+}
+
+
+export class RespondFeeEstimates {
+    @fields.Object(FeeEstimateGroup) estimates: FeeEstimateGroup;
+}
+
+
+export class RequestRemovePuzzleSubscriptions {
+    @fields.Optional(fields.List(fields.Bytes(32))) puzzleHashes: Optional<bytes[]>; // null removes all subscriptions
+}
+
+
+export class RespondRemovePuzzleSubscriptions {
+    @fields.List(fields.Bytes(32)) puzzleHashes: bytes[];
+}
+
+
+export class RequestRemoveCoinSubscriptions {
+    @fields.Optional(fields.List(fields.Bytes(32))) coinIds: Optional<bytes[]>; // null removes all subscriptions
+}
+
+
+export class RespondRemoveCoinSubscriptions {
+    @fields.List(fields.Bytes(32)) coinIds: bytes[];
+}
+
+
+export class CoinStateFilters {
+    @fields.Boolean() includeSpent: boolean;
+    @fields.Boolean() includeUnspent: boolean;
+    @fields.Boolean() includeHinted: boolean;
+    @fields.Uint(64) minAmount: uint;
+}
+
+
+export class RequestPuzzleState {
+    @fields.List(fields.Bytes(32)) puzzleHashes: bytes[];
+    @fields.Optional(fields.Uint(32)) previousHeight: Optional<uint>;
+    @fields.Bytes(32) headerHash: bytes;
+    @fields.Object(CoinStateFilters) filters: CoinStateFilters;
+    @fields.Boolean() subscribeWhenFinished: boolean;
+}
+
+
+export class RespondPuzzleState {
+    @fields.List(fields.Bytes(32)) puzzleHashes: bytes[];
+    @fields.Uint(32) height: uint;
+    @fields.Bytes(32) headerHash: bytes;
+    @fields.Boolean() isFinished: boolean;
+    @fields.List(fields.Object(CoinState)) coinStates: CoinState[];
+}
+
+
+// https://github.com/Chia-Network/chia-blockchain/blob/main/chia/protocols/wallet_protocol.py - RejectStateReason
+export enum RejectStateReason {
+    REORG = 0,
+    EXCEEDED_SUBSCRIPTION_LIMIT = 1
+}
+
+
+export class RejectPuzzleState {
+    @fields.Uint(8) reason: uint;
+}
+
+
+export class RequestCoinState {
+    @fields.List(fields.Bytes(32)) coinIds: bytes[];
+    @fields.Optional(fields.Uint(32)) previousHeight: Optional<uint>;
+    @fields.Bytes(32) headerHash: bytes;
+    @fields.Boolean() subscribe: boolean;
+}
+
+
+export class RespondCoinState {
+    @fields.List(fields.Bytes(32)) coinIds: bytes[];
+    @fields.List(fields.Object(CoinState)) coinStates: CoinState[];
+}
+
+
+export class RejectCoinState {
+    @fields.Uint(8) reason: uint;
+}
+
+
+export class RemovedMempoolItem {
+    @fields.Bytes(32) transactionId: bytes;
+    @fields.Uint(8) reason: uint;
+}
+
+
+export class MempoolItemsAdded {
+    @fields.List(fields.Bytes(32)) transactionIds: bytes[];
+}
+
+
+export class MempoolItemsRemoved {
+    @fields.List(fields.Object(RemovedMempoolItem)) removedItems: RemovedMempoolItem[];
 }
\ No newline at end of file
@@ -0,0 +1,304 @@
+import { Provider, BlockHeader, Coin, CoinState, getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, getBlockHeaderArgs, getBlocksHeadersArgs, iterateBlockHeadersArgs, getCoinAdditionsArgs, getCoinChildrenArgs, getCoinRemovalsArgs, getPuzzleSolutionArgs, Optional, PuzzleSolution, subscribeToCoinUpdatesArgs, subscribeToPuzzleHashUpdatesArgs, acceptOfferArgs, transferCATArgs, transferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, pushSpendBundleArgs, changeNetworkArgs, Subscription, ProviderEvent, ProviderEventEmitter, ProviderEventListeners, SubscriptionIterator, ProviderCapabilities } from "./providers/provider";
+import { LeafletProvider } from "./providers/leaflet";
+import { GobyProvider } from "./providers/goby";
+import { MultiProvider } from "./providers/multi";
+import { BigNumber } from "@ethersproject/bignumber";
+import { PrivateKeyProvider } from "./providers/private_key";
+import { SpendBundle } from "../util/serializer/types/spend_bundle";
+import { Network } from "../util/network";
+import { TransactionHandle, sendTransactionArgs } from "./transaction";
+import { iterateBlockHeaders } from "./providers/block_headers";
+import { TransactionRejectedError } from "./providers/provider_errors";
+
+export type CreateProviderArgs = {
+    leafletHost?: string,
+    leafletAPIKey?: string,
+    leafletPort?: number,
+    useGoby?: boolean,
+    gobyTryNonInteractiveConnect?: boolean,
+    network?: Network,
+    privateKey?: string,
+    strict?: boolean,
+};
+
+// wraps a provider - each instance has its own provider (and network), so multiple clients can be used in one process
+export class XCHClient {
+    public provider: Provider | null = null;
+
+    // receives the events of the current provider - listeners are kept when the provider changes
+    public events: ProviderEventEmitter = new ProviderEventEmitter();
+    private providerEventsSubscription: Subscription | null = null;
+
+    // block timestamps by height (see getBlockTimestamp) - blocks above the fork height are removed on rollbacks
+    private blockTimestamps: Map<number, number> = new Map();
+    // the most recently used timestamps are kept
+    public maxBlockTimestamps: number = 1000;
+
+    constructor(provider: Optional<Provider> = null) {
+        if(provider !== null) {
+            this.setProvider(provider);
+        }
+
+        this.events.on("rollback", (forkHeight) => {
+            for(const height of this.blockTimestamps.keys()) {
+                if(height > forkHeight) this.blockTimestamps.delete(height);
+            }
+        });
+    }
+
+    private _getProvider(): Provider {
+        if(this.provider === null)
+            throw new Error("Provider not set!");
+
+        return this.provider;
+    }
+
+    setProvider(p: Provider): void {
+        this.providerEventsSubscription?.unsubscribe();
+
+        this.provider = p;
+        this.providerEventsSubscription = p.events.pipe(this.events);
+        this.blockTimestamps.clear();
+    }
+
+    createProvider({
+        leafletHost = "leaflet.fireacademy.io",
+        leafletAPIKey,
+        leafletPort = 18444,
+        useGoby = false,
+        gobyTryNonInteractiveConnect = true,
+        network = Network.mainnet,
+        privateKey,
+        strict = false,
+    }: CreateProviderArgs): void {
+        const providers: Provider[] = [];
+
+        if(useGoby) {
+            const gobyProvider = new GobyProvider(gobyTryNonInteractiveConnect);
+            gobyProvider.strict = strict;
+
+            providers.push(gobyProvider);
+        }
+        if(leafletAPIKey) {
+            const leafletProvider = new LeafletProvider(leafletHost, leafletAPIKey, leafletPort, network);
+            leafletProvider.strict = strict;
+
+            providers.push(leafletProvider);
+        }
+        if(privateKey) {
+            providers.push(
+                new PrivateKeyProvider(privateKey, network)
+            );
+        }
+
+        this.setProvider(new MultiProvider(providers));
+    }
+
+    clearProvider(): void {
+        this.providerEventsSubscription?.unsubscribe();
+        this.providerEventsSubscription = null;
+
+        this.provider = null;
+        this.blockTimestamps.clear();
+    }
+
+    // events
+    on<E extends ProviderEvent>(event: E, listener: ProviderEventListeners[E]): Subscription {
+        return this.events.on(event, listener);
+    }
+    off<E extends ProviderEvent>(event: E, listener: ProviderEventListeners[E]): void {
+        return this.events.off(event, listener);
+    }
+
+    // async iterators - use 'break' to unsubscribe
+    watchPuzzleHash(puzzleHash: string, minHeight?: number): SubscriptionIterator<CoinState[]> {
+        const provider: Provider = this._getProvider();
+
+        return new SubscriptionIterator(
+            (push) => provider.subscribeToPuzzleHashUpdates({ puzzleHash, minHeight, callback: push })
+        );
+    }
+    watchCoin(coinId: string, minHeight?: number): SubscriptionIterator<CoinState[]> {
+        const provider: Provider = this._getProvider();
+
+        return new SubscriptionIterator(
+            (push) => provider.subscribeToCoinUpdates({ coinId, minHeight, callback: push })
+        );
+    }
+
+    // fetches large ranges in chunks (with a few requests in flight) - use 'break' to stop early
+    iterateBlockHeaders(args: iterateBlockHeadersArgs): AsyncGenerator<BlockHeader> {
+        const provider: Provider = this._getProvider();
+
+        return iterateBlockHeaders((chunkArgs) => provider.getBlocksHeaders(chunkArgs), args);
+    }
+
+    // only transaction blocks have a timestamp - for other blocks, the timestamp of the last transaction block below them is returned
+    // this is the time ASSERT_SECONDS_ABSOLUTE conditions are checked against
+    async getBlockTimestamp(height: number): Promise<Optional<number>> {
+        const cached: number | undefined = this.blockTimestamps.get(height);
+        if(cached !== undefined) {
+            // Maps keep insertion order - re-inserting marks the entry as recently used
+            this.blockTimestamps.delete(height);
+            this.blockTimestamps.set(height, cached);
+            return cached;
+        }
+
+        const header: Optional<BlockHeader> = await this._getProvider().getBlockHeader({ height });
+        if(header === null) {
+            return null;
+        }
+
+        let timestamp: Optional<number> = null;
+        if(header.timestamp !== null && header.timestamp !== undefined) {
+            timestamp = BigNumber.from(header.timestamp).toNumber();
+        } else if(header.isTransactionBlock === false && height > 0) {
+            timestamp = await this.getBlockTimestamp(height - 1);
+        }
+
+        if(timestamp !== null) {
+            this.blockTimestamps.set(height, timestamp);
+            while(this.blockTimestamps.size > this.maxBlockTimestamps) {
+                this.blockTimestamps.delete(this.blockTimestamps.keys().next().value);
+            }
+        }
+        return timestamp;
+    }
+
+    // the first block with a timestamp (see getBlockTimestamp) at or after 'unixTime'; null if the peak is older
+    // binary search over the block headers
+    async findHeightForTimestamp(unixTime: number): Promise<Optional<number>> {
+        const peakHeight: Optional<number> = await this._getProvider().getBlockNumber();
+        if(peakHeight === null) {
+            return null;
+        }
+
+        const peakTimestamp: Optional<number> = await this.getBlockTimestamp(peakHeight);
+        if(peakTimestamp === null || peakTimestamp < unixTime) {
+            return null;
+        }
+
+        let low: number = 0;
+        let high: number = peakHeight;
+        while(low < high) {
+            const mid: number = Math.floor((low + high) / 2);
+            const timestamp: Optional<number> = await this.getBlockTimestamp(mid);
+            if(timestamp === null) {
+                return null;
+            }
+
+            if(timestamp >= unixTime) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+
+        return low;
+    }
+
+    // pushes the spend bundle and returns a handle that tracks it until it's confirmed, dropped or double-spent
+    async sendTransaction({ spendBundle, maxPendingBlocks }: sendTransactionArgs): Promise<TransactionHandle> {
+        const provider: Provider = this._getProvider();
+
+        let accepted: boolean = false;
+        let error: Optional<string> = null;
+        // providers that aren't in strict mode only return false
+        const rejectedSubscription: Subscription = provider.events.on("transactionRejected", (sb, e) => {
+            if(sb === spendBundle) error = e.error;
+        });
+        try {
+            accepted = await provider.pushSpendBundle({ spendBundle });
+        } catch(e: any) {
+            if(!(e instanceof TransactionRejectedError)) {
+                throw e;
+            }
+
+            error = e.error;
+        } finally {
+            rejectedSubscription.unsubscribe();
+        }
+
+        return new TransactionHandle(provider, spendBundle, accepted, error, maxPendingBlocks);
+    }
+
+    // Provider method wrappers
+    connect(): Promise<void> {
+        return this._getProvider().connect();
+    }
+    close(): Promise<void> {
+        return this._getProvider().close();
+    }
+    getNetworkId(): Network {
+        return this._getProvider().getNetworkId();
+    }
+    isConnected(): boolean {
+        return this._getProvider().isConnected();
+    }
+    capabilities(): ProviderCapabilities {
+        return this._getProvider().capabilities();
+    }
+    getBlockNumber(): Promise<Optional<number>> {
+        return this._getProvider().getBlockNumber();
+    }
+    getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> {
+        return this._getProvider().getBalance(args);
+    }
+    getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> {
+        return this._getProvider().getUnspentCoins(args);
+    }
+    getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>> {
+        return this._getProvider().getCoinRecord(args);
+    }
+    getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]> {
+        return this._getProvider().getCoinRecords(args);
+    }
+    subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription {
+        return this._getProvider().subscribeToPuzzleHashUpdates(args);
+    }
+    subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription {
+        return this._getProvider().subscribeToCoinUpdates(args);
+    }
+    getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> {
+        return this._getProvider().getPuzzleSolution(args);
+    }
+    getCoinChildren(args: getCoinChildrenArgs): Promise<CoinState[]> {
+        return this._getProvider().getCoinChildren(args);
+    }
+    getBlockHeader(args: getBlockHeaderArgs): Promise<Optional<BlockHeader>> {
+        return this._getProvider().getBlockHeader(args);
+    }
+    getBlocksHeaders(args: getBlocksHeadersArgs): Promise<Optional<BlockHeader[]>> {
+        return this._getProvider().getBlocksHeaders(args);
+    }
+    getCoinRemovals(args: getCoinRemovalsArgs): Promise<Optional<Coin[]>> {
+        return this._getProvider().getCoinRemovals(args);
+    }
+    getCoinAdditions(args: getCoinAdditionsArgs): Promise<Optional<Coin[]>> {
+        return this._getProvider().getCoinAdditions(args);
+    }
+    pushSpendBundle(args: pushSpendBundleArgs): Promise<boolean> {
+        return this._getProvider().pushSpendBundle(args);
+    }
+    getAddress(): Promise<string> {
+        return this._getProvider().getAddress();
+    }
+    transfer(args: transferArgs): Promise<Optional<SpendBundle>> {
+        return this._getProvider().transfer(args);
+    }
+    transferCAT(args: transferCATArgs): Promise<Optional<SpendBundle>> {
+        return this._getProvider().transferCAT(args);
+    }
+    acceptOffer(args: acceptOfferArgs): Promise<Optional<SpendBundle>> {
+        return this._getProvider().acceptOffer(args);
+    }
+    subscribeToAddressChanges(args: subscribeToAddressChangesArgs): void {
+        return this._getProvider().subscribeToAddressChanges(args);
+    }
+    signCoinSpends(args: signCoinSpendsArgs): Promise<Optional<SpendBundle>> {
+        return this._getProvider().signCoinSpends(args);
+    }
+    changeNetwork(args: changeNetworkArgs): Promise<boolean> {
+        return this._getProvider().changeNetwork(args);
+    }
+}
\ No newline at end of file
@@ -1,202 +1,215 @@
-/* eslint-disable @typescript-eslint/no-non-null-assertion */
-import { Provider, BlockHeader, Coin, CoinState, getBalanceArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinAdditionsArgs, getCoinChildrenArgs, getCoinRemovalsArgs, getPuzzleSolutionArgs, Optional, PuzzleSolution, subscribeToCoinUpdatesArgs, subscribeToPuzzleHashUpdatesArgs, acceptOfferArgs, transferCATArgs, transferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, pushSpendBundleArgs, changeNetworkArgs } from "./providers/provider";
+import { Provider, BlockHeader, Coin, CoinState, getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, getBlockHeaderArgs, getBlocksHeadersArgs, iterateBlockHeadersArgs, getCoinAdditionsArgs, getCoinChildrenArgs, getCoinRemovalsArgs, getPuzzleSolutionArgs, Optional, PuzzleSolution, subscribeToCoinUpdatesArgs, subscribeToPuzzleHashUpdatesArgs, acceptOfferArgs, transferCATArgs, transferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, pushSpendBundleArgs, changeNetworkArgs, Subscription, ProviderEvent, ProviderEventEmitter, ProviderEventListeners, SubscriptionIterator, ProviderCapabilities } from "./providers/provider";
+import { XCHClient, CreateProviderArgs } from "./client";
+import { TransactionHandle, TransactionState, sendTransactionArgs } from "./transaction";
 import { LeafletProvider } from "./providers/leaflet";
 import { GobyProvider } from "./providers/goby";
 import { MultiProvider } from "./providers/multi";
 import { BigNumber } from "@ethersproject/bignumber";
 import { PrivateKeyProvider } from "./providers/private_key";
+import { SimulatorProvider } from "./providers/simulator";
+import { FullNodePeerProvider } from "./providers/full_node_peer";
+import { FullNodeRpcProvider } from "./providers/full_node_rpc";
+import { WalletRpcProvider } from "./providers/wallet_rpc";
+import { CachingProvider, MemoryCacheStorage, FileCacheStorage, IndexedDBCacheStorage } from "./providers/caching";
+import { MiddlewareProvider, withMiddleware, retry, rateLimit, log, metrics, ProviderMetrics } from "./providers/middleware";
+import { RecordingProvider, ReplayProvider } from "./providers/replay";
+import { ProviderError, MethodNotSupportedError, ProviderTimeoutError, ProviderConnectionError, RequestRejectedError, InvalidArgumentError, InvalidAddressError, InvalidProofError, TransactionRejectedError, TransactionDroppedError, DoubleSpendError, UserRejectedError } from "./providers/provider_errors";
 import { SpendBundle } from "../util/serializer/types/spend_bundle";
 import { Network } from "../util/network";
 
-export type CreateProviderArgs = {
-    leafletHost?: string,
-    leafletAPIKey?: string,
-    leafletPort?: number,
-    useGoby?: boolean,
-    gobyTryNonInteractiveConnect?: boolean,
-    network?: Network,
-    privateKey?: string,
-};
+export { XCHClient, CreateProviderArgs, TransactionHandle, TransactionState, sendTransactionArgs };
 
 export class XCHModule {
+    public static XCHClient = XCHClient;
+
     public static providers = {
         LeafletProvider,
         GobyProvider,
         MultiProvider,
-        PrivateKeyProvider
+        PrivateKeyProvider,
+        SimulatorProvider,
+        FullNodePeerProvider,
+        FullNodeRpcProvider,
+        WalletRpcProvider,
+        CachingProvider,
+        MiddlewareProvider,
+        RecordingProvider,
+        ReplayProvider
     };
 
-    public static provider: Provider | null = null;
+    public static cacheStorage = {
+        MemoryCacheStorage,
+        FileCacheStorage,
+        IndexedDBCacheStorage
+    };
 
-    static setProvider(p: Provider): void {
-        this.provider = p;
-    }
-
-    static createProvider({
-        leafletHost = "leaflet.fireacademy.io",
-        leafletAPIKey,
-        leafletPort = 18444,
-        useGoby = false,
-        gobyTryNonInteractiveConnect = true,
-        network = Network.mainnet,
-        privateKey,
-    }: CreateProviderArgs): void {
-        const providers: Provider[] = [];
-
-        if(useGoby) {
-            providers.push(
-                new GobyProvider(gobyTryNonInteractiveConnect)
-            );
-        }
-        if(leafletAPIKey) {
-            providers.push(
-                new LeafletProvider(leafletHost, leafletAPIKey, leafletPort, network)
-            );
-        }
-        if(privateKey) {
-            providers.push(
-                new PrivateKeyProvider(privateKey, network)
-            );
+    public static middleware = {
+        withMiddleware,
+        retry,
+        rateLimit,
+        log,
+        metrics,
+        ProviderMetrics
+    };
+
+    public static errors = {
+        ProviderError,
+        MethodNotSupportedError,
+        ProviderTimeoutError,
+        ProviderConnectionError,
+        RequestRejectedError,
+        InvalidArgumentError,
+        InvalidAddressError,
+        InvalidProofError,
+        TransactionRejectedError,
+        TransactionDroppedError,
+        DoubleSpendError,
+        UserRejectedError
+    };
+
+    // the default client - use 'new XCHClient()' to connect to multiple providers/networks
+    public static client: XCHClient = new XCHClient();
+
+    static get provider(): Provider | null {
+        return XCHModule.client.provider;
+    }
+
+    static set provider(p: Provider | null) {
+        if(p === null) {
+            XCHModule.client.clearProvider();
+        } else {
+            XCHModule.client.setProvider(p);
         }
+    }
+
+    // receives the events of the current provider - listeners are kept when the provider changes
+    static get events(): ProviderEventEmitter {
+        return XCHModule.client.events;
+    }
+
+    static setProvider(p: Provider): void {
+        return XCHModule.client.setProvider(p);
+    }
 
-        this.setProvider(new MultiProvider(providers));
+    static createProvider(args: CreateProviderArgs): void {
+        return XCHModule.client.createProvider(args);
     }
 
     static clearProvider(): void {
-        this.provider = null;
+        return XCHModule.client.clearProvider();
+    }
+
+    // events
+    static on<E extends ProviderEvent>(event: E, listener: ProviderEventListeners[E]): Subscription {
+        return XCHModule.client.on(event, listener);
+    }
+    static off<E extends ProviderEvent>(event: E, listener: ProviderEventListeners[E]): void {
+        return XCHModule.client.off(event, listener);
+    }
+
+    // async iterators - use 'break' to unsubscribe
+    static watchPuzzleHash(puzzleHash: string, minHeight?: number): SubscriptionIterator<CoinState[]> {
+        return XCHModule.client.watchPuzzleHash(puzzleHash, minHeight);
+    }
+    static watchCoin(coinId: string, minHeight?: number): SubscriptionIterator<CoinState[]> {
+        return XCHModule.client.watchCoin(coinId, minHeight);
+    }
+
+    // fetches large ranges in chunks (with a few requests in flight) - use 'break' to stop early
+    static iterateBlockHeaders(args: iterateBlockHeadersArgs): AsyncGenerator<BlockHeader> {
+        return XCHModule.client.iterateBlockHeaders(args);
+    }
+
+    // block timestamps - see XCHClient
+    static getBlockTimestamp(height: number): Promise<Optional<number>> {
+        return XCHModule.client.getBlockTimestamp(height);
+    }
+    static findHeightForTimestamp(unixTime: number): Promise<Optional<number>> {
+        return XCHModule.client.findHeightForTimestamp(unixTime);
+    }
+
+    // pushes the spend bundle and returns a handle that tracks it until it's confirmed, dropped or double-spent
+    static sendTransaction(args: sendTransactionArgs): Promise<TransactionHandle> {
+        return XCHModule.client.sendTransaction(args);
     }
 
     // Provider method wrappers
     static connect(): Promise<void> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-        
-        return XCHModule.provider!.connect();
+        return XCHModule.client.connect();
     }
     static close(): Promise<void> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.close();
+        return XCHModule.client.close();
     }
     static getNetworkId(): Network {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.getNetworkId();
+        return XCHModule.client.getNetworkId();
     }
     static isConnected(): boolean {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.isConnected();
+        return XCHModule.client.isConnected();
+    }
+    static capabilities(): ProviderCapabilities {
+        return XCHModule.client.capabilities();
     }
     static getBlockNumber(): Promise<Optional<number>> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.getBlockNumber();
+        return XCHModule.client.getBlockNumber();
     }
     static getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.getBalance(args);
+        return XCHModule.client.getBalance(args);
     }
-    static subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): void {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.subscribeToPuzzleHashUpdates(args);
+    static getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> {
+        return XCHModule.client.getUnspentCoins(args);
     }
-    static subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): void {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.subscribeToCoinUpdates(args);
+    static getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>> {
+        return XCHModule.client.getCoinRecord(args);
+    }
+    static getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]> {
+        return XCHModule.client.getCoinRecords(args);
+    }
+    static subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription {
+        return XCHModule.client.subscribeToPuzzleHashUpdates(args);
+    }
+    static subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription {
+        return XCHModule.client.subscribeToCoinUpdates(args);
     }
     static getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.getPuzzleSolution(args);
+        return XCHModule.client.getPuzzleSolution(args);
     }
     static getCoinChildren(args: getCoinChildrenArgs): Promise<CoinState[]> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.getCoinChildren(args);
+        return XCHModule.client.getCoinChildren(args);
     }
     static getBlockHeader(args: getBlockHeaderArgs): Promise<Optional<BlockHeader>> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.getBlockHeader(args);
+        return XCHModule.client.getBlockHeader(args);
     }
     static getBlocksHeaders(args: getBlocksHeadersArgs): Promise<Optional<BlockHeader[]>> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.getBlocksHeaders(args);
+        return XCHModule.client.getBlocksHeaders(args);
     }
     static getCoinRemovals(args: getCoinRemovalsArgs): Promise<Optional<Coin[]>> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.getCoinRemovals(args);
+        return XCHModule.client.getCoinRemovals(args);
     }
     static getCoinAdditions(args: getCoinAdditionsArgs): Promise<Optional<Coin[]>> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.getCoinAdditions(args);
+        return XCHModule.client.getCoinAdditions(args);
     }
     static pushSpendBundle(args: pushSpendBundleArgs): Promise<boolean> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.pushSpendBundle(args);
+        return XCHModule.client.pushSpendBundle(args);
     }
     static getAddress(): Promise<string> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.getAddress();
+        return XCHModule.client.getAddress();
     }
     static transfer(args: transferArgs): Promise<Optional<SpendBundle>> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.transfer(args);
+        return XCHModule.client.transfer(args);
     }
     static transferCAT(args: transferCATArgs): Promise<Optional<SpendBundle>> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.transferCAT(args);
+        return XCHModule.client.transferCAT(args);
     }
     static acceptOffer(args: acceptOfferArgs): Promise<Optional<SpendBundle>> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.acceptOffer(args);
+        return XCHModule.client.acceptOffer(args);
     }
     static subscribeToAddressChanges(args: subscribeToAddressChangesArgs): void {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.subscribeToAddressChanges(args);
+        return XCHModule.client.subscribeToAddressChanges(args);
     }
     static signCoinSpends(args: signCoinSpendsArgs): Promise<Optional<SpendBundle>> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.signCoinSpends(args);
+        return XCHModule.client.signCoinSpends(args);
     }
     static changeNetwork(args: changeNetworkArgs): Promise<boolean> {
-        if(XCHModule.provider === null)
-            throw new Error("Provider not set!");
-
-        return XCHModule.provider!.changeNetwork(args);
+        return XCHModule.client.changeNetwork(args);
     }
 }
\ No newline at end of file
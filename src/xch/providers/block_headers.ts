@@ -0,0 +1,78 @@
+import { BlockHeader, Optional } from "./provider_types";
+import { getBlocksHeadersArgs, iterateBlockHeadersArgs } from "./provider_args";
+import { InvalidArgumentError, ProviderError } from "./provider_errors";
+
+// full nodes reject RequestHeaderBlocks messages that span more blocks
+export const MAX_HEADER_BLOCKS_PER_REQUEST = 32;
+export const DEFAULT_HEADER_REQUESTS_CONCURRENCY = 4;
+
+function _validatePositiveInteger(name: string, value: number): void {
+    if(!Number.isInteger(value) || value < 1) {
+        throw new InvalidArgumentError(`${name} must be an integer >= 1 (got ${value}).`);
+    }
+}
+
+// splits [startHeight, endHeight] into ranges of at most 'chunkSize' blocks
+export function splitHeightRange(startHeight: number, endHeight: number, chunkSize: number): Array<[number, number]> {
+    _validatePositiveInteger("chunkSize", chunkSize);
+
+    const chunks: Array<[number, number]> = [];
+    for(let height = startHeight; height <= endHeight; height += chunkSize) {
+        chunks.push([height, Math.min(height + chunkSize - 1, endHeight)]);
+    }
+
+    return chunks;
+}
+
+// calls 'fetch' for each chunk with at most 'concurrency' calls in flight; yields the results in order
+export async function* fetchChunks<T>(
+    chunks: Array<[number, number]>,
+    fetch: (startHeight: number, endHeight: number) => Promise<T>,
+    concurrency: number = DEFAULT_HEADER_REQUESTS_CONCURRENCY,
+): AsyncGenerator<T> {
+    const inFlight: Array<Promise<T>> = [];
+    let next: number = 0;
+
+    const _startNext = () => {
+        const [startHeight, endHeight] = chunks[next++];
+        const promise: Promise<T> = fetch(startHeight, endHeight);
+        promise.catch(() => null); // results of abandoned requests are ignored
+
+        inFlight.push(promise);
+    };
+
+    while(next < chunks.length || inFlight.length > 0) {
+        while(next < chunks.length && inFlight.length < Math.max(concurrency, 1)) {
+            _startNext();
+        }
+
+        yield await (inFlight.shift() as Promise<T>);
+    }
+}
+
+// yields the headers of [startHeight, endHeight] one by one; throws if a chunk can't be fetched
+export async function* iterateBlockHeaders(
+    getBlocksHeaders: (args: getBlocksHeadersArgs) => Promise<Optional<BlockHeader[]>>,
+    {
+        startHeight,
+        endHeight,
+        chunkSize = MAX_HEADER_BLOCKS_PER_REQUEST,
+        concurrency = DEFAULT_HEADER_REQUESTS_CONCURRENCY,
+    }: iterateBlockHeadersArgs,
+): AsyncGenerator<BlockHeader> {
+    _validatePositiveInteger("concurrency", concurrency);
+
+    const chunks: Array<[number, number]> = splitHeightRange(startHeight, endHeight, chunkSize);
+    const fetch = async (start: number, end: number): Promise<[number, number, Optional<BlockHeader[]>]> =>
+        [start, end, await getBlocksHeaders({ startHeight: start, endHeight: end })];
+
+    for await (const [start, end, headers] of fetchChunks(chunks, fetch, concurrency)) {
+        if(headers === null) {
+            throw new ProviderError(`Could not fetch the headers of blocks ${start}-${end}.`);
+        }
+
+        for(const header of headers) {
+            yield header;
+        }
+    }
+}
\ No newline at end of file
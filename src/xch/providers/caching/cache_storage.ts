@@ -0,0 +1,49 @@
+import { Optional } from "../provider_types";
+
+// values are JSON strings; implementations may lose entries at any time (a missing entry is just a cache miss)
+export interface CacheStorageAdapter {
+    get(key: string): Promise<Optional<string>>;
+    set(key: string, value: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+// keeps the most recently used maxEntries values in memory
+export class MemoryCacheStorage implements CacheStorageAdapter {
+    private readonly maxEntries: number;
+    private entries: Map<string, string> = new Map();
+
+    constructor(maxEntries: number = 1000) {
+        this.maxEntries = maxEntries;
+    }
+
+    public async get(key: string): Promise<Optional<string>> {
+        const value: string | undefined = this.entries.get(key);
+        if(value === undefined) {
+            return null;
+        }
+
+        // Maps keep insertion order - re-inserting marks the entry as recently used
+        this.entries.delete(key);
+        this.entries.set(key, value);
+
+        return value;
+    }
+
+    public async set(key: string, value: string): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+
+        while(this.entries.size > this.maxEntries) {
+            const oldestKey: string = this.entries.keys().next().value;
+            this.entries.delete(oldestKey);
+        }
+    }
+
+    public async clear(): Promise<void> {
+        this.entries.clear();
+    }
+
+    public get size(): number {
+        return this.entries.size;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,278 @@
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+import { SExp } from "clvm";
+import { Util } from "../../../util";
+import { Network } from "../../../util/network";
+import { SpendBundle } from "../../../util/serializer/types/spend_bundle";
+import { Provider } from "../provider";
+import { ProviderEventEmitter } from "../provider_events";
+import { getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, transferArgs, transferCATArgs, acceptOfferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
+import { Optional, PuzzleSolution, CoinState, BlockHeader, Coin, Subscription, ProviderCapabilities } from "../provider_types";
+import { CacheStorageAdapter, MemoryCacheStorage } from "./cache_storage";
+
+// wraps another provider and caches data that can't change:
+//  - coin additions & removals (keyed by header hash)
+//  - block headers, puzzle solutions, coin records and coin children (spent only) at least reorgSafetyDepth blocks below the peak
+// keys are prefixed with the wrapped provider's network id, so one storage can be shared by several networks
+export class CachingProvider implements Provider {
+    public provider: Provider;
+    public storage: CacheStorageAdapter;
+    public events: ProviderEventEmitter;
+
+    private reorgSafetyDepth: number;
+
+    constructor(
+        provider: Provider,
+        storage: CacheStorageAdapter = new MemoryCacheStorage(),
+        reorgSafetyDepth: number = 32,
+    ) {
+        this.provider = provider;
+        this.storage = storage;
+        this.reorgSafetyDepth = reorgSafetyDepth;
+        this.events = provider.events;
+    }
+
+    // BigNumbers and SExps don't survive JSON.stringify() / JSON.parse() on their own
+    public static encode(value: any): string {
+        return JSON.stringify(value, (key: string, v: any) => v instanceof SExp ?
+            { type: "SExp", hex: Util.sexp.toHex(v) } : v
+        );
+    }
+
+    public static decode(value: string): any {
+        return JSON.parse(value, (key: string, v: any) => {
+            if(v?.type === "BigNumber") {
+                return BigNumber.from(v.hex);
+            }
+            if(v?.type === "SExp") {
+                return Util.sexp.fromHex(v.hex);
+            }
+
+            return v;
+        });
+    }
+
+    private _scopedKey(key: string): string {
+        return `${this.provider.getNetworkId()}:${key}`;
+    }
+
+    // a broken storage backend results in cache misses, not errors
+    private async _get(key: string): Promise<any> {
+        try {
+            const value: Optional<string> = await this.storage.get(this._scopedKey(key));
+            return value === null ? undefined : CachingProvider.decode(value);
+        } catch(_) {
+            return undefined;
+        }
+    }
+
+    private async _set(key: string, value: any): Promise<void> {
+        try {
+            await this.storage.set(this._scopedKey(key), CachingProvider.encode(value));
+        } catch(_) {
+            // do nothing
+        }
+    }
+
+    private async _getFinalHeight(): Promise<Optional<number>> {
+        const blockNumber: Optional<number> = await this.provider.getBlockNumber();
+        if(blockNumber === null) {
+            return null;
+        }
+
+        return blockNumber - this.reorgSafetyDepth;
+    }
+
+    private _isFinal(height: Optional<BigNumberish>, finalHeight: Optional<number>): boolean {
+        return height !== null && finalHeight !== null && BigNumber.from(height).lte(finalHeight);
+    }
+
+    public async connect(): Promise<void> { return this.provider.connect(); }
+    public async close(): Promise<void> { return this.provider.close(); }
+    public getNetworkId(): Network { return this.provider.getNetworkId(); }
+    public isConnected(): boolean { return this.provider.isConnected(); }
+    public capabilities(): ProviderCapabilities { return this.provider.capabilities(); }
+
+    public async getBlockNumber(): Promise<Optional<number>> { return this.provider.getBlockNumber(); }
+    public async getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> { return this.provider.getBalance(args); }
+    public async getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> { return this.provider.getUnspentCoins(args); }
+    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription {
+        return this.provider.subscribeToPuzzleHashUpdates(args);
+    }
+    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription {
+        return this.provider.subscribeToCoinUpdates(args);
+    }
+
+    // a coin record can only change until the coin is spent
+    public async getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>> {
+        const key: string = `coinRecord:${Util.address.validateHashString(args.coinId)}`;
+        const cached: CoinState | undefined = await this._get(key);
+        if(cached !== undefined) {
+            return cached;
+        }
+
+        const coinState: Optional<CoinState> = await this.provider.getCoinRecord(args);
+        if(coinState !== null && this._isFinal(coinState.spentHeight, await this._getFinalHeight())) {
+            await this._set(key, coinState);
+        }
+
+        return coinState;
+    }
+
+    // records are cached individually; only the coins that aren't cached are fetched from the wrapped provider
+    public async getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]> {
+        const coinIds: string[] = args.coinIds.map((coinId) => Util.address.validateHashString(coinId));
+        if(coinIds.some((coinId) => coinId.length === 0)) {
+            return this.provider.getCoinRecords(args);
+        }
+
+        const coinStates: Map<string, CoinState> = new Map();
+        for(const coinId of coinIds) {
+            const cached: CoinState | undefined = await this._get(`coinRecord:${coinId}`);
+            if(cached !== undefined) {
+                coinStates.set(coinId, cached);
+            }
+        }
+
+        const missingCoinIds: string[] = coinIds.filter((coinId) => !coinStates.has(coinId));
+        if(missingCoinIds.length > 0) {
+            const fetched: CoinState[] = await this.provider.getCoinRecords({ coinIds: missingCoinIds });
+            const finalHeight: Optional<number> = await this._getFinalHeight();
+            for(const coinState of fetched) {
+                const coinId: string = Util.coin.getId(coinState.coin);
+                coinStates.set(coinId, coinState);
+                if(this._isFinal(coinState.spentHeight, finalHeight)) {
+                    await this._set(`coinRecord:${coinId}`, coinState);
+                }
+            }
+        }
+
+        // same order as coinIds; unknown coins are left out
+        return coinIds.map(
+            (coinId) => coinStates.get(coinId)
+        ).filter((coinState): coinState is CoinState => coinState !== undefined);
+    }
+
+    public async getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> {
+        const key: string = `puzzleSolution:${Util.address.validateHashString(args.coinId)}:${args.height}`;
+        const cached: PuzzleSolution | undefined = await this._get(key);
+        if(cached !== undefined) {
+            return cached;
+        }
+
+        const puzzleSolution: Optional<PuzzleSolution> = await this.provider.getPuzzleSolution(args);
+        if(puzzleSolution !== null && this._isFinal(args.height, await this._getFinalHeight())) {
+            await this._set(key, puzzleSolution);
+        }
+
+        return puzzleSolution;
+    }
+
+    // the list of children can only change until all children are spent
+    public async getCoinChildren(args: getCoinChildrenArgs): Promise<CoinState[]> {
+        const key: string = `coinChildren:${Util.address.validateHashString(args.coinId)}`;
+        const cached: CoinState[] | undefined = await this._get(key);
+        if(cached !== undefined) {
+            return cached;
+        }
+
+        const coinStates: CoinState[] = await this.provider.getCoinChildren(args);
+        if(coinStates.length > 0) {
+            const finalHeight: Optional<number> = await this._getFinalHeight();
+            if(coinStates.every((coinState) => this._isFinal(coinState.spentHeight, finalHeight))) {
+                await this._set(key, coinStates);
+            }
+        }
+
+        return coinStates;
+    }
+
+    public async getBlockHeader(args: getBlockHeaderArgs): Promise<Optional<BlockHeader>> {
+        const key: string = `blockHeader:${args.height}`;
+        const cached: BlockHeader | undefined = await this._get(key);
+        if(cached !== undefined) {
+            return cached;
+        }
+
+        const header: Optional<BlockHeader> = await this.provider.getBlockHeader(args);
+        if(header !== null && this._isFinal(args.height, await this._getFinalHeight())) {
+            await this._set(key, header);
+        }
+
+        return header;
+    }
+
+    // headers are cached individually; ranges are only served from the cache if all their headers are cached
+    // ranges that should be verified are always fetched from the wrapped provider
+    public async getBlocksHeaders(args: getBlocksHeadersArgs): Promise<Optional<BlockHeader[]>> {
+        const cachedHeaders: BlockHeader[] = [];
+        for(let height = args.startHeight; height <= args.endHeight && !args.verify; ++height) {
+            const cached: BlockHeader | undefined = await this._get(`blockHeader:${height}`);
+            if(cached === undefined) {
+                break;
+            }
+
+            cachedHeaders.push(cached);
+        }
+        if(cachedHeaders.length === args.endHeight - args.startHeight + 1) {
+            return cachedHeaders;
+        }
+
+        const headers: Optional<BlockHeader[]> = await this.provider.getBlocksHeaders(args);
+        if(headers === null) {
+            return null;
+        }
+
+        const finalHeight: Optional<number> = await this._getFinalHeight();
+        for(const header of headers) {
+            if(this._isFinal(header.height, finalHeight)) {
+                await this._set(`blockHeader:${BigNumber.from(header.height).toString()}`, header);
+            }
+        }
+
+        return headers;
+    }
+
+    public async getCoinRemovals(args: getCoinRemovalsArgs): Promise<Optional<Coin[]>> {
+        const coinIds: string = args.coinIds?.map((c) => Util.address.validateHashString(c)).sort().join(",") ?? "*";
+        const key: string = `coinRemovals:${Util.address.validateHashString(args.headerHash)}:${coinIds}`;
+        const cached: Coin[] | undefined = await this._get(key);
+        if(cached !== undefined) {
+            return cached;
+        }
+
+        const coins: Optional<Coin[]> = await this.provider.getCoinRemovals(args);
+        if(coins !== null) {
+            await this._set(key, coins);
+        }
+
+        return coins;
+    }
+
+    public async getCoinAdditions(args: getCoinAdditionsArgs): Promise<Optional<Coin[]>> {
+        const puzzleHashes: string = args.puzzleHashes?.map(
+            (p) => Util.address.validateHashString(p)
+        ).sort().join(",") ?? "*";
+        const key: string = `coinAdditions:${Util.address.validateHashString(args.headerHash)}:${puzzleHashes}`;
+        const cached: Coin[] | undefined = await this._get(key);
+        if(cached !== undefined) {
+            return cached;
+        }
+
+        const coins: Optional<Coin[]> = await this.provider.getCoinAdditions(args);
+        if(coins !== null) {
+            await this._set(key, coins);
+        }
+
+        return coins;
+    }
+
+    public async pushSpendBundle(args: pushSpendBundleArgs): Promise<boolean> { return this.provider.pushSpendBundle(args); }
+
+    public async getAddress(): Promise<string> { return this.provider.getAddress(); }
+    public async transfer(args: transferArgs): Promise<Optional<SpendBundle>> { return this.provider.transfer(args); }
+    public async transferCAT(args: transferCATArgs): Promise<Optional<SpendBundle>> { return this.provider.transferCAT(args); }
+    public async acceptOffer(args: acceptOfferArgs): Promise<Optional<SpendBundle>> { return this.provider.acceptOffer(args); }
+    public subscribeToAddressChanges(args: subscribeToAddressChangesArgs): void { return this.provider.subscribeToAddressChanges(args); }
+    public async signCoinSpends(args: signCoinSpendsArgs): Promise<Optional<SpendBundle>> { return this.provider.signCoinSpends(args); }
+    public async changeNetwork(args: changeNetworkArgs): Promise<boolean> { return this.provider.changeNetwork(args); }
+}
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { Util } from "../../../util";
+import { Optional } from "../provider_types";
+import { CacheStorageAdapter } from "./cache_storage";
+
+// stores each value in its own file inside the given directory
+// server-only: uses node's 'fs' module
+export class FileCacheStorage implements CacheStorageAdapter {
+    private readonly directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    private _fs(): any {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        return require("fs").promises;
+    }
+
+    private _path(key: string): string {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const path = require("path");
+
+        // keys can contain characters that aren't allowed in file names
+        return path.join(this.directory, Util.stdHash(Buffer.from(key).toString("hex")) + ".json");
+    }
+
+    public async get(key: string): Promise<Optional<string>> {
+        try {
+            return await this._fs().readFile(this._path(key), "utf8");
+        } catch(_) {
+            return null;
+        }
+    }
+
+    public async set(key: string, value: string): Promise<void> {
+        await this._fs().mkdir(this.directory, { recursive: true });
+        await this._fs().writeFile(this._path(key), value, "utf8");
+    }
+
+    public async clear(): Promise<void> {
+        let fileNames: string[];
+        try {
+            fileNames = await this._fs().readdir(this.directory);
+        } catch(_) {
+            return; // the directory doesn't exist
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const path = require("path");
+        for(const fileName of fileNames) {
+            if(fileName.endsWith(".json")) {
+                await this._fs().unlink(path.join(this.directory, fileName));
+            }
+        }
+    }
+}
\ No newline at end of file
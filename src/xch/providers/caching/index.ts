@@ -0,0 +1,4 @@
+export { CachingProvider } from "./caching_provider";
+export { CacheStorageAdapter, MemoryCacheStorage } from "./cache_storage";
+export { FileCacheStorage } from "./file_cache_storage";
+export { IndexedDBCacheStorage } from "./indexeddb_cache_storage";
\ No newline at end of file
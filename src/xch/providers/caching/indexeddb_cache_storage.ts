@@ -0,0 +1,61 @@
+import { Optional } from "../provider_types";
+import { CacheStorageAdapter } from "./cache_storage";
+
+// browser-only: uses IndexedDB (the factory can be overwritten for testing)
+export class IndexedDBCacheStorage implements CacheStorageAdapter {
+    private readonly dbName: string;
+    private readonly storeName: string;
+    private readonly indexedDBFactory: IDBFactory;
+    private db: Promise<IDBDatabase> | null = null;
+
+    constructor(
+        dbName: string = "greenweb-cache",
+        storeName: string = "cache",
+        indexedDBFactory: IDBFactory = globalThis.indexedDB
+    ) {
+        this.dbName = dbName;
+        this.storeName = storeName;
+        this.indexedDBFactory = indexedDBFactory;
+    }
+
+    private _open(): Promise<IDBDatabase> {
+        if(this.db === null) {
+            this.db = new Promise((resolve, reject) => {
+                const request: IDBOpenDBRequest = this.indexedDBFactory.open(this.dbName, 1);
+
+                request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+
+        return this.db;
+    }
+
+    private async _request<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const db: IDBDatabase = await this._open();
+
+        return new Promise((resolve, reject) => {
+            const request: IDBRequest<T> = makeRequest(
+                db.transaction(this.storeName, mode).objectStore(this.storeName)
+            );
+
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    public async get(key: string): Promise<Optional<string>> {
+        const value: any = await this._request("readonly", (store) => store.get(key));
+
+        return typeof value === "string" ? value : null;
+    }
+
+    public async set(key: string, value: string): Promise<void> {
+        await this._request("readwrite", (store) => store.put(value, key));
+    }
+
+    public async clear(): Promise<void> {
+        await this._request("readwrite", (store) => store.clear());
+    }
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { Network } from "../../../util/network";
+import { ChiaMessageChannel, IWebSocket } from "../leaflet/chia_message_channel";
+
+export interface FullNodeMessageChannelOptions {
+    host: string;
+    port: number;
+    cert: string | Buffer;
+    key: string | Buffer;
+    onMessage: (message: Buffer) => void;
+    onClose?: () => void;
+    network: Network;
+    webSocketCreateFunc?: (url: string) => IWebSocket;
+}
+
+// connects directly to a full node's peer port (default: 8444) using the node's ssl/ certificates
+// https://github.com/Chia-Network/chia-blockchain/blob/main/chia/server/server.py
+export class FullNodeMessageChannel extends ChiaMessageChannel {
+    constructor({ host, port, cert, key, onMessage, onClose, network, webSocketCreateFunc }: FullNodeMessageChannelOptions) {
+        super({
+            host,
+            port,
+            apiKey: "",
+            onMessage,
+            onClose,
+            network,
+            webSocketCreateFunc: webSocketCreateFunc ?? ((url: string) => {
+                // server-only: browsers can't present client certificates
+                // eslint-disable-next-line @typescript-eslint/no-var-requires
+                const NodeWebSocket = require("ws");
+                return new NodeWebSocket(url, {
+                    cert,
+                    key,
+                    rejectUnauthorized: false, // node certificates are signed by the node's private CA
+                });
+            }),
+        });
+    }
+
+    protected getUrl(): string {
+        return "wss://" + this.host + ":" + this.port.toString() + "/ws";
+    }
+
+    public isConnected(): boolean {
+        // the WebSocket global (and its constants) might not exist in node
+        return this.ws !== undefined && this.ws.readyState === 1; // OPEN
+    }
+}
\ No newline at end of file
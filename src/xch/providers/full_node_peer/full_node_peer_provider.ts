@@ -0,0 +1,25 @@
+import { Network, NetworkUtil } from "../../../util/network";
+import { IWebSocket } from "../leaflet/chia_message_channel";
+import { LeafletProvider } from "../leaflet/leaflet_provider";
+import { MessageManager } from "../leaflet/message_manager";
+import { FullNodeMessageChannel } from "./full_node_message_channel";
+
+export class FullNodePeerProvider extends LeafletProvider {
+    constructor(
+        host: string,
+        cert: string | Buffer,
+        key: string | Buffer,
+        port?: number, // defaults to the network's default port (e.g., 8444 for mainnet)
+        network = Network.mainnet,
+        webSocketCreateFunc?: (url: string) => IWebSocket,
+    ) {
+        const peerPort: number = port ?? new NetworkUtil().getDefaultPort(network);
+        super(host, "", peerPort, network);
+
+        this.messageManager = new MessageManager(
+            async (onMessage, onClose) => new FullNodeMessageChannel({
+                host, port: peerPort, cert, key, onMessage, onClose, network, webSocketCreateFunc
+            })
+        );
+    }
+}
\ No newline at end of file
@@ -0,0 +1,2 @@
+export { FullNodePeerProvider } from "./full_node_peer_provider";
+export { FullNodeMessageChannel } from "./full_node_message_channel";
\ No newline at end of file
@@ -0,0 +1,408 @@
+import { Provider, ProviderEventEmitter, getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs } from "../provider";
+import * as providerTypes from "../provider_types";
+import { AddressUtil } from "../../../util/address";
+import { transferArgs, transferCATArgs, acceptOfferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
+import { MethodNotSupportedError, InvalidAddressError, InvalidArgumentError, RequestRejectedError, TransactionRejectedError } from "../provider_errors";
+import { BigNumber } from "@ethersproject/bignumber";
+import { Util } from "../../../util";
+import { SpendBundle } from "../../../util/serializer/types/spend_bundle";
+import { Optional } from "../../../util/serializer/basic_types";
+import { Network } from "../../../util/network";
+import { RpcClient, RpcOptions } from "./rpc_client";
+
+const addressUtil = new AddressUtil();
+
+// uses the full node's JSON RPC (default port: 8555) and the node's private_full_node certificate
+// https://github.com/Chia-Network/chia-blockchain/blob/main/chia/rpc/full_node_rpc_api.py
+export class FullNodeRpcProvider implements Provider {
+    public rpcClient: RpcClient;
+    public events: ProviderEventEmitter = new ProviderEventEmitter();
+    // throw typed errors (see provider_errors.ts) instead of returning null / [] / false
+    public strict: boolean = false;
+
+    private connected: boolean = false;
+    private network: Network;
+
+    constructor(
+        host: string,
+        cert: string | Buffer,
+        key: string | Buffer,
+        port = 8555,
+        network = Network.mainnet,
+        options: RpcOptions = {},
+    ) {
+        this.rpcClient = new RpcClient({ host, port, cert, key, ...options });
+        this.network = network;
+    }
+
+    private async _rpc(endpoint: string, data: any = {}): Promise<any> {
+        return this.strict ? this.rpcClient.request(endpoint, data) : this.rpcClient.call(endpoint, data);
+    }
+
+    private _fail<T>(error: Error, fallback: T): T {
+        if(this.strict) {
+            throw error;
+        }
+
+        return fallback;
+    }
+
+    private _coinRecordToCoinState(coinRecord: any): providerTypes.CoinState {
+        const coinState = new providerTypes.CoinState();
+        coinState.coin = Util.rpc.parseRpcCoin(coinRecord.coin) as providerTypes.Coin;
+        coinState.createdHeight = coinRecord.confirmed_block_index;
+        coinState.spentHeight = coinRecord.spent ? coinRecord.spent_block_index : null;
+
+        return coinState;
+    }
+
+    private _blockRecordToBlockHeader(blockRecord: any): providerTypes.BlockHeader {
+        const header = new providerTypes.BlockHeader();
+        header.height = blockRecord.height;
+        header.headerHash = Util.dehexlify(blockRecord.header_hash) as string;
+        header.prevBlockHash = Util.dehexlify(blockRecord.prev_hash);
+        // only transaction blocks have a timestamp
+        header.isTransactionBlock = blockRecord.timestamp !== null && blockRecord.timestamp !== undefined;
+        header.fees = blockRecord.fees ?? null;
+        header.farmerPuzzleHash = Util.dehexlify(blockRecord.farmer_puzzle_hash);
+        header.poolPuzzleHash = Util.dehexlify(blockRecord.pool_puzzle_hash);
+        header.timestamp = blockRecord.timestamp ?? null;
+
+        return header;
+    }
+
+    public async connect(): Promise<void> {
+        const resp = await this._rpc("get_blockchain_state");
+        this.connected = resp !== null;
+
+        if(this.connected) {
+            this.events.emit("connected");
+        }
+    }
+
+    public async close(): Promise<void> {
+        if(!this.connected) return;
+
+        this.connected = false;
+        this.events.emit("disconnected");
+    }
+
+    public getNetworkId(): Network {
+        return this.network;
+    }
+
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    public capabilities(): providerTypes.ProviderCapabilities {
+        return {
+            methods: [
+                "getBlockNumber", "getBalance", "getUnspentCoins", "getCoinRecord", "getCoinRecords", "getPuzzleSolution",
+                "getCoinChildren", "getBlockHeader", "getBlocksHeaders", "getCoinRemovals", "getCoinAdditions",
+                "pushSpendBundle"
+            ],
+            networks: [this.network],
+            features: [],
+        };
+    }
+
+    public async getBlockNumber(): Promise<providerTypes.Optional<number>> {
+        const resp = await this._rpc("get_blockchain_state");
+        const peak = resp?.blockchain_state?.peak;
+        if(peak === null || peak === undefined) {
+            return null;
+        }
+
+        return BigNumber.from(peak.height).toNumber();
+    }
+
+    public async getBalance(args: getBalanceArgs): Promise<providerTypes.Optional<BigNumber>> {
+        const coinRecords: Optional<any[]> = await this._getUnspentCoinRecords(args);
+        if(coinRecords === null) {
+            return null;
+        }
+
+        let balance = BigNumber.from(0);
+        for(const coinRecord of coinRecords) {
+            balance = balance.add(coinRecord.coin.amount);
+        }
+
+        return balance;
+    }
+
+    public async getUnspentCoins(args: getUnspentCoinsArgs): Promise<providerTypes.CoinState[]> {
+        const coinRecords: Optional<any[]> = await this._getUnspentCoinRecords(args);
+        if(coinRecords === null) {
+            return [];
+        }
+
+        return coinRecords.map(
+            (coinRecord: any) => this._coinRecordToCoinState(coinRecord)
+        );
+    }
+
+    private async _getUnspentCoinRecords({
+        address,
+        puzzleHash,
+        minHeight = 1
+    }: getUnspentCoinsArgs): Promise<Optional<any[]>> {
+        let puzHash: string;
+
+        // get puzHash: Buffer from address / puzzle hash
+        if(address !== undefined) {
+            puzHash = addressUtil.addressToPuzzleHash(address);
+            if(puzHash.length === 0 || addressUtil.getPrefix(address) !== Util.network.getAddressPrefix(this.network)) {
+                return this._fail(new InvalidAddressError(address), null);
+            }
+        }
+        else if(puzzleHash !== undefined) {
+            puzHash = addressUtil.validateHashString(puzzleHash);
+            if(puzHash.length === 0) {
+                return this._fail(new InvalidArgumentError("Invalid puzzle hash."), null);
+            }
+        }
+        else return this._fail(new InvalidArgumentError("Either address or puzzleHash must be given."), null);
+
+        const resp = await this._rpc("get_coin_records_by_puzzle_hash", {
+            puzzle_hash: "0x" + puzHash,
+            start_height: minHeight,
+            include_spent_coins: false,
+        });
+        if(resp === null) {
+            return null;
+        }
+
+        return resp.coin_records;
+    }
+
+    public async getCoinRecord({ coinId }: getCoinRecordArgs): Promise<providerTypes.Optional<providerTypes.CoinState>> {
+        const coinStates: providerTypes.CoinState[] = await this.getCoinRecords({ coinIds: [coinId] });
+
+        return coinStates.length > 0 ? coinStates[0] : null;
+    }
+
+    public async getCoinRecords({ coinIds }: getCoinRecordsArgs): Promise<providerTypes.CoinState[]> {
+        coinIds = coinIds.map((coinId) => addressUtil.validateHashString(coinId));
+        if(coinIds.some((coinId) => coinId.length === 0)) return this._fail(new InvalidArgumentError("Invalid coin id."), []);
+        if(coinIds.length === 0) return [];
+
+        const resp = await this._rpc("get_coin_records_by_names", {
+            names: coinIds.map((coinId) => "0x" + coinId),
+            include_spent_coins: true,
+        });
+        if(resp === null) {
+            return [];
+        }
+
+        const coinStates: providerTypes.CoinState[] = resp.coin_records.map(
+            (coinRecord: any) => this._coinRecordToCoinState(coinRecord)
+        );
+
+        // same order as coinIds
+        return coinIds.map(
+            (coinId) => coinStates.find((cs) => Util.coin.getId(cs.coin) === coinId)
+        ).filter((cs): cs is providerTypes.CoinState => cs !== undefined);
+    }
+
+    public async getPuzzleSolution({coinId, height}: getPuzzleSolutionArgs): Promise<providerTypes.Optional<providerTypes.PuzzleSolution>> {
+        coinId = addressUtil.validateHashString(coinId);
+        if(coinId.length === 0) return this._fail(new InvalidArgumentError("Invalid coin id."), null);
+
+        const resp = await this._rpc("get_puzzle_and_solution", {
+            coin_id: "0x" + coinId,
+            height,
+        });
+        if(resp === null) {
+            return null;
+        }
+
+        const puzzleSolution = new providerTypes.PuzzleSolution();
+        puzzleSolution.coinName = coinId;
+        puzzleSolution.height = height;
+        puzzleSolution.puzzle = Util.sexp.fromHex(Util.dehexlify(resp.coin_solution.puzzle_reveal) as string);
+        puzzleSolution.solution = Util.sexp.fromHex(Util.dehexlify(resp.coin_solution.solution) as string);
+
+        return puzzleSolution;
+    }
+
+    public async getCoinChildren({ coinId }: getCoinChildrenArgs): Promise<providerTypes.CoinState[]> {
+        coinId = addressUtil.validateHashString(coinId);
+        if(coinId.length === 0) return this._fail(new InvalidArgumentError("Invalid coin id."), []);
+
+        const resp = await this._rpc("get_coin_records_by_parent_ids", {
+            parent_ids: ["0x" + coinId],
+            include_spent_coins: true,
+        });
+        if(resp === null) {
+            return [];
+        }
+
+        return resp.coin_records.map(
+            (coinRecord: any) => this._coinRecordToCoinState(coinRecord)
+        );
+    }
+
+    public async getBlockHeader({ height }: getBlockHeaderArgs): Promise<providerTypes.Optional<providerTypes.BlockHeader>> {
+        const resp = await this._rpc("get_block_record_by_height", { height });
+        if(resp === null) {
+            return null;
+        }
+
+        return this._blockRecordToBlockHeader(resp.block_record);
+    }
+
+    public async getBlocksHeaders(
+        { startHeight, endHeight }: getBlocksHeadersArgs
+    ): Promise<providerTypes.Optional<providerTypes.BlockHeader[]>> {
+        // the RPC's 'end' is exclusive
+        const resp = await this._rpc("get_block_records", {
+            start: startHeight,
+            end: endHeight + 1,
+        });
+        if(resp === null) {
+            return null;
+        }
+
+        return resp.block_records.map(
+            (blockRecord: any) => this._blockRecordToBlockHeader(blockRecord)
+        );
+    }
+
+    public async getCoinRemovals({
+        headerHash,
+        coinIds = undefined
+    }: getCoinRemovalsArgs): Promise<providerTypes.Optional<providerTypes.Coin[]>> {
+        headerHash = addressUtil.validateHashString(headerHash);
+        if(headerHash.length === 0) return this._fail(new InvalidArgumentError("Invalid header hash."), null);
+
+        const parsedCoinIds: string[] = [];
+        if(coinIds !== undefined) {
+            for(let i = 0;i < coinIds.length; ++i) {
+                const parsed: string = addressUtil.validateHashString(coinIds[i]);
+
+                if(parsed.length === 0) return this._fail(new InvalidArgumentError("Invalid coin id."), null);
+                parsedCoinIds.push(parsed);
+            }
+        }
+
+        const resp = await this._rpc("get_additions_and_removals", {
+            header_hash: "0x" + headerHash,
+        });
+        if(resp === null) {
+            return null;
+        }
+
+        const coins: providerTypes.Coin[] = resp.removals.map(
+            (coinRecord: any) => Util.rpc.parseRpcCoin(coinRecord.coin) as providerTypes.Coin
+        );
+        if(coinIds === undefined) {
+            return coins;
+        }
+
+        return coins.filter((coin) => parsedCoinIds.includes(Util.coin.getId(coin)));
+    }
+
+    public async getCoinAdditions({
+        headerHash,
+        puzzleHashes = undefined
+    }: getCoinAdditionsArgs): Promise<providerTypes.Optional<providerTypes.Coin[]>> {
+        headerHash = addressUtil.validateHashString(headerHash);
+        if(headerHash.length === 0) return this._fail(new InvalidArgumentError("Invalid header hash."), null);
+
+        const parsedPuzzleHashes: string[] = [];
+        if(puzzleHashes !== undefined) {
+            for(let i = 0;i < puzzleHashes.length; ++i) {
+                const parsed: string = addressUtil.validateHashString(puzzleHashes[i]);
+
+                if(parsed.length === 0) return this._fail(new InvalidArgumentError("Invalid puzzle hash."), null);
+                parsedPuzzleHashes.push(parsed);
+            }
+        }
+
+        const resp = await this._rpc("get_additions_and_removals", {
+            header_hash: "0x" + headerHash,
+        });
+        if(resp === null) {
+            return null;
+        }
+
+        const coins: providerTypes.Coin[] = resp.additions.map(
+            (coinRecord: any) => Util.rpc.parseRpcCoin(coinRecord.coin) as providerTypes.Coin
+        );
+        if(puzzleHashes === undefined) {
+            return coins;
+        }
+
+        return coins.filter((coin) => parsedPuzzleHashes.includes(coin.puzzleHash));
+    }
+
+    public async pushSpendBundle({ spendBundle }: pushSpendBundleArgs): Promise<boolean> {
+        let resp: any;
+        try {
+            // request() instead of _rpc() - the reason is kept even if the provider is not in strict mode
+            resp = await this.rpcClient.request("push_tx", {
+                spend_bundle: Util.rpc.spendBundleToRpc(spendBundle),
+            });
+        } catch(e: any) {
+            // the node reports invalid spend bundles as failed requests
+            return e instanceof RequestRejectedError ?
+                this._reject(spendBundle, new TransactionRejectedError(null, e.reason)) :
+                this._fail(e, false);
+        }
+
+        // https://github.com/Chia-Network/chia-blockchain/blob/25ab0c90cb34cd048463082801c3cc26bfac389a/chia/types/mempool_inclusion_status.py#L4
+        if(["SUCCESS", "PENDING"].includes(resp.status)) {
+            return true;
+        }
+
+        return this._reject(spendBundle, new TransactionRejectedError(null, resp.status ?? null));
+    }
+
+    private _reject(spendBundle: SpendBundle, error: TransactionRejectedError): boolean {
+        this.events.emit("transactionRejected", spendBundle, error);
+
+        return this._fail(error, false);
+    }
+
+    private _doesNotImplementError(): any {
+        throw new MethodNotSupportedError("FullNodeRpcProvider");
+    }
+
+    // the RPC does not push updates
+    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): providerTypes.Subscription {
+        return this._doesNotImplementError();
+    }
+
+    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): providerTypes.Subscription {
+        return this._doesNotImplementError();
+    }
+
+    public getAddress(): Promise<string> {
+        return this._doesNotImplementError();
+    }
+
+    public transfer(args: transferArgs): Promise<Optional<SpendBundle>> {
+        return this._doesNotImplementError();
+    }
+
+    public transferCAT(args: transferCATArgs): Promise<Optional<SpendBundle>> {
+        return this._doesNotImplementError();
+    }
+
+    public acceptOffer(args: acceptOfferArgs): Promise<Optional<SpendBundle>> {
+        return this._doesNotImplementError();
+    }
+
+    public subscribeToAddressChanges(args: subscribeToAddressChangesArgs): void {
+        return this._doesNotImplementError();
+    }
+
+    public async signCoinSpends(args: signCoinSpendsArgs): Promise<Optional<SpendBundle>> {
+        return this._doesNotImplementError();
+    }
+
+    public async changeNetwork(args: changeNetworkArgs): Promise<boolean> {
+        return this._doesNotImplementError();
+    }
+}
\ No newline at end of file
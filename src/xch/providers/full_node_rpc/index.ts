@@ -0,0 +1,2 @@
+export { FullNodeRpcProvider } from "./full_node_rpc_provider";
+export { RpcClient, RpcClientOptions, RpcOptions } from "./rpc_client";
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { ProviderConnectionError, ProviderTimeoutError, RequestRejectedError } from "../provider_errors";
+
+export const DEFAULT_RPC_TIMEOUT = 10 * 1000;
+
+export interface RpcOptions {
+    // the service's CA (e.g., ~/.chia/mainnet/config/ssl/ca/private_ca.crt); defaults to the system's CAs
+    ca?: string | Buffer;
+    // accept any server certificate - only use this if the connection can't be intercepted
+    insecure?: boolean;
+    timeout?: number; // in ms; 0 = wait forever
+}
+
+export interface RpcClientOptions extends RpcOptions {
+    host: string;
+    port: number;
+    cert: string | Buffer;
+    key: string | Buffer;
+}
+
+// talks to the JSON RPC exposed by chia services (full node, wallet, etc.)
+// https://github.com/Chia-Network/chia-blockchain/blob/main/chia/rpc/rpc_server.py
+export class RpcClient {
+    private readonly host: string;
+    private readonly port: number;
+    private readonly cert: string | Buffer;
+    private readonly key: string | Buffer;
+    private readonly ca?: string | Buffer;
+    private readonly insecure: boolean;
+    private readonly timeout: number;
+
+    constructor({ host, port, cert, key, ca, insecure = false, timeout = DEFAULT_RPC_TIMEOUT }: RpcClientOptions) {
+        this.host = host;
+        this.port = port;
+        this.cert = cert;
+        this.key = key;
+        this.ca = ca;
+        this.insecure = insecure;
+        this.timeout = timeout;
+    }
+
+    // returns null if the request fails or the service doesn't report success
+    public async call(endpoint: string, data: any = {}): Promise<any> {
+        try {
+            return await this.request(endpoint, data);
+        } catch(_) {
+            return null;
+        }
+    }
+
+    // like call(), but throws a ProviderTimeoutError, ProviderConnectionError or RequestRejectedError instead of returning null
+    public async request(endpoint: string, data: any = {}): Promise<any> {
+        let resp: any;
+        try {
+            const respText: string = await this._post(endpoint, JSON.stringify(data));
+            resp = JSON.parse(RpcClient.quoteBigIntegers(respText));
+        } catch(e: any) {
+            if(e instanceof ProviderTimeoutError) {
+                throw e;
+            }
+            throw new ProviderConnectionError(`RPC request '${endpoint}' failed: ${e?.message ?? e}`);
+        }
+
+        if(resp?.success !== true) {
+            throw new RequestRejectedError(endpoint, resp?.error ?? null);
+        }
+
+        return resp;
+    }
+
+    // amounts are uint64s - JSON.parse would silently lose precision for values > 2^53
+    // strings are matched first, so digits inside them (memos, error messages, offers) are left alone
+    public static quoteBigIntegers(json: string): string {
+        return json.replace(
+            /"(?:[^"\\]|\\.)*"|([:[,]\s*)(-?\d{16,})(?=\s*[,\]}])/g,
+            (match: string, prefix?: string, value?: string) => value === undefined ? match : `${prefix}"${value}"`
+        );
+    }
+
+    private _post(endpoint: string, body: string): Promise<string> {
+        // server-only: browsers can't present client certificates
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const https = require("https");
+
+        const tlsOptions: any = { rejectUnauthorized: !this.insecure };
+        if(this.ca !== undefined) {
+            tlsOptions.ca = this.ca;
+            // certificates signed by the private CA are issued for "chia.net", not for the service's host
+            tlsOptions.checkServerIdentity = () => undefined;
+        }
+
+        return new Promise<string>((resolve, reject) => {
+            let timer: ReturnType<typeof setTimeout> | null = null;
+            const done = () => {
+                if(timer !== null) clearTimeout(timer);
+            };
+
+            const req = https.request({
+                host: this.host,
+                port: this.port,
+                path: "/" + endpoint,
+                method: "POST",
+                cert: this.cert,
+                key: this.key,
+                ...tlsOptions,
+                headers: { "Content-Type": "application/json" },
+            }, (res: any) => {
+                const chunks: Buffer[] = [];
+                res.on("data", (chunk: Buffer) => chunks.push(chunk));
+                res.on("end", () => {
+                    done();
+                    resolve(Buffer.concat(chunks).toString());
+                });
+                res.on("error", (e: any) => {
+                    done();
+                    reject(e);
+                });
+            });
+
+            req.on("error", (e: any) => {
+                done();
+                reject(e);
+            });
+            if(this.timeout > 0) {
+                timer = setTimeout(() => {
+                    reject(new ProviderTimeoutError(`RPC request '${endpoint}' timed out.`));
+                    req.destroy();
+                }, this.timeout);
+            }
+            req.end(body);
+        });
+    }
+}
\ No newline at end of file
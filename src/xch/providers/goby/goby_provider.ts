@@ -7,8 +7,10 @@ import { Util } from "../../../util";
 import { Network } from "../../../util/network";
 import { SpendBundle } from "../../../util/serializer/types/spend_bundle";
 import { Provider } from "../provider";
-import { getBalanceArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, acceptOfferArgs, transferArgs, transferCATArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
-import { Optional, PuzzleSolution, CoinState, BlockHeader, Coin } from "../provider_types";
+import { ProviderEventEmitter } from "../provider_events";
+import { getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, acceptOfferArgs, transferArgs, transferCATArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
+import { Optional, PuzzleSolution, CoinState, BlockHeader, Coin, Subscription, ProviderCapabilities } from "../provider_types";
+import { InvalidArgumentError, MethodNotSupportedError, ProviderConnectionError, ProviderError, RequestRejectedError, UserRejectedError } from "../provider_errors";
 
 // https://stackoverflow.com/questions/56457935/typescript-error-property-x-does-not-exist-on-type-window
 declare global {
@@ -18,6 +20,10 @@ declare global {
 }
 
 export class GobyProvider implements Provider {
+    public events: ProviderEventEmitter = new ProviderEventEmitter();
+    // throw typed errors (see provider_errors.ts) instead of returning null / false
+    public strict: boolean = false;
+
     private _address: string = "";
     private _network: Network = Network.mainnet;
     private _callbacks: Array<(address: string) => void> = [];
@@ -54,6 +60,23 @@ export class GobyProvider implements Provider {
         }
     }
 
+    private _fail<T>(error: Error, fallback: T): T {
+        if(this.strict) {
+            throw error;
+        }
+
+        return fallback;
+    }
+
+    // Goby uses EIP-1193 error codes - 4001 means that the user rejected the request
+    private _requestError(method: string, e: any): ProviderError {
+        if(e?.code === 4001) {
+            return new UserRejectedError(e?.message);
+        }
+
+        return new RequestRejectedError(method, e?.message ?? null);
+    }
+
     private _changeAddress(newAddress: string): void {
         if(this._address === "" && newAddress !== "" && !this._callbacksInitialized) {
             this._callbacksInitialized = true;
@@ -67,13 +90,26 @@ export class GobyProvider implements Provider {
                 } else {
                     this._network = Network.testnet10;
                 }
+                this.events.emit("networkChanged", this._network);
             });
         }
+        const oldAddress: string = this._address;
         this._address = newAddress;
 
         for(let i = 0; i < this._callbacks.length; ++i) {
             this._callbacks[i](newAddress);
         }
+
+        if(oldAddress === newAddress) {
+            return;
+        }
+        if(oldAddress === "") {
+            this.events.emit("connected");
+        }
+        this.events.emit("addressChanged", newAddress);
+        if(newAddress === "") {
+            this.events.emit("disconnected");
+        }
     }
 
     public async connect(): Promise<void> {
@@ -84,8 +120,8 @@ export class GobyProvider implements Provider {
         let accounts: string[];
         try {
             accounts = await this._getChia().request({ method: "requestAccounts" });
-        } catch(_) {
-            accounts = [];
+        } catch(e) {
+            accounts = this._fail(this._requestError("requestAccounts", e), []);
         }
         this._changeAddress(
             accounts === null || accounts.length === 0 ? "" : accounts[0]
@@ -112,14 +148,25 @@ export class GobyProvider implements Provider {
         return this._address !== "";
     }
 
+    public capabilities(): ProviderCapabilities {
+        return {
+            methods: ["getAddress", "transfer", "transferCAT", "acceptOffer", "subscribeToAddressChanges", "changeNetwork"],
+            networks: [Network.mainnet, Network.testnet10],
+            features: ["signing", "userApproval"],
+        };
+    }
+
     private _doesNotImplementError(): any {
-        throw new Error("GobyProvider does not implement this method.");
+        throw new MethodNotSupportedError("GobyProvider");
     }
 
     public async getBlockNumber(): Promise<Optional<number>> { return this._doesNotImplementError(); }
     public async getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> { return this._doesNotImplementError(); }
-    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): void { return this._doesNotImplementError(); }
-    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): void { return this._doesNotImplementError(); }
+    public async getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> { return this._doesNotImplementError(); }
+    public async getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>> { return this._doesNotImplementError(); }
+    public async getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]> { return this._doesNotImplementError(); }
+    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription { return this._doesNotImplementError(); }
+    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription { return this._doesNotImplementError(); }
     public async getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> { return this._doesNotImplementError(); }
     public async getCoinChildren(args: getCoinChildrenArgs): Promise<CoinState[]> { return this._doesNotImplementError(); }
     public async getBlockHeader(args: getBlockHeaderArgs): Promise<Optional<BlockHeader>> { return this._doesNotImplementError(); }
@@ -160,7 +207,7 @@ export class GobyProvider implements Provider {
 
     public async transferCAT({ to, value, assetId, fee = 0 }: transferCATArgs): Promise<Optional<SpendBundle>> {
         if (!this.isConnected()) {
-            return null;
+            return this._fail(new ProviderConnectionError("GobyProvider is not connected."), null);
         }
 
         try {
@@ -180,14 +227,14 @@ export class GobyProvider implements Provider {
             return Util.goby.parseGobySpendBundle(
                 resp["transaction"]
             );
-        } catch (_) {
-            return null;
+        } catch (e) {
+            return this._fail(this._requestError("transfer", e), null);
         }
     }
 
     public async acceptOffer({ offer, fee = 0 }: acceptOfferArgs): Promise<Optional<SpendBundle>> {
         if (!this.isConnected()) {
-            return null;
+            return this._fail(new ProviderConnectionError("GobyProvider is not connected."), null);
         }
 
         try {
@@ -204,8 +251,8 @@ export class GobyProvider implements Provider {
             return Util.goby.parseGobySpendBundle(
                 resp["transaction"]
             );
-        } catch (_) {
-            return null;
+        } catch (e) {
+            return this._fail(this._requestError("takeOffer", e), null);
         }
     }
 
@@ -229,7 +276,7 @@ export class GobyProvider implements Provider {
                 chainId = "0x02";
                 break;
             default:
-                return false;
+                return this._fail(new InvalidArgumentError(`Goby does not support ${network}.`), false);
         }
 
         try {
@@ -239,8 +286,8 @@ export class GobyProvider implements Provider {
                     chainId,
                 }
             });
-        } catch (_) {
-            return false;
+        } catch (e) {
+            return this._fail(this._requestError("walletSwitchChain", e), false);
         }
 
         return true;
@@ -1,6 +1,6 @@
 // https://github.com/freddiecoleman/chia-network-scanner/blob/main/MessageChannel.ts
 
-import { Network } from "../../../util/network";
+import { Network, NetworkUtil } from "../../../util/network";
 import { makeMsg, NodeType } from "../../../util/serializer/types/outbound_message";
 import { ProtocolMessageTypes } from "../../../util/serializer/types/protocol_message_types";
 import { Capability, Handshake, PROTOCOL_VERSION } from "../../../util/serializer/types/shared_protocol";
@@ -25,6 +25,7 @@ export interface ChiaMessageChannelOptions {
     port: number;
     apiKey: string;
     onMessage: (message: Buffer) => void;
+    onClose?: () => void; // called when the connection is lost (not when close() is called)
     network: Network;
     webSocketCreateFunc: (url: string) => IWebSocket;
 }
@@ -40,6 +41,7 @@ export interface IWebSocket {
     onmessage: ((this: any, ev: any) => any) | null;
     onopen: ((this: any, ev: any) => any) | null;
     onerror: ((this: any, ev: any) => any) | null;
+    onclose?: ((this: any, ev: any) => any) | null;
     send: (message: Buffer) => void;
     close: () => void;
 
@@ -47,18 +49,20 @@ export interface IWebSocket {
 }
 
 export class ChiaMessageChannel implements IChiaMessageChannel {
-    private ws: IWebSocket | undefined;
-    private readonly port: number;
-    private readonly host: string;
+    protected ws: IWebSocket | undefined;
+    protected readonly port: number;
+    protected readonly host: string;
     private readonly apiKey: string;
     private readonly onMessage: (message: Buffer) => void;
+    private readonly onClose?: () => void;
     private readonly network: Network;
     private inboundDataBuffer: Buffer = Buffer.from([]);
     private webSocketCreateFunc: (url: string) => IWebSocket;
 
-    constructor({ host, port, apiKey, onMessage, network, webSocketCreateFunc }: ChiaMessageChannelOptions) {
+    constructor({ host, port, apiKey, onMessage, onClose, network, webSocketCreateFunc }: ChiaMessageChannelOptions) {
         this.port = port;
         this.onMessage = onMessage;
+        this.onClose = onClose;
 
         if(host.includes(":") && host[0] !== "[") { // IPv6
             host = "[" + host + "]"
@@ -69,8 +73,12 @@ export class ChiaMessageChannel implements IChiaMessageChannel {
         this.webSocketCreateFunc = webSocketCreateFunc;
     }
 
+    protected getUrl(): string {
+        return "wss://" + this.host + ":" + this.port.toString() + "/" + this.apiKey + "/ws";
+    }
+
     public async connect(): Promise<void> {
-        const url: string = "wss://" + this.host + ":" + this.port.toString() + "/" + this.apiKey + "/ws";
+        const url: string = this.getUrl();
 
         if(this.isConnected()) {
             return;
@@ -108,6 +116,19 @@ export class ChiaMessageChannel implements IChiaMessageChannel {
             this.ws!.onerror = () => {
                 this.close();
 
+                resolve();
+                this.onClose?.();
+            }
+
+            const ws = this.ws;
+            // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+            this.ws!.onclose = () => {
+                // close() unsets this.ws, so this only runs if the other side closed the connection
+                if(this.ws === ws) {
+                    this.ws = undefined;
+                    this.onClose?.();
+                }
+
                 resolve();
             }
         });
@@ -160,7 +181,7 @@ export class ChiaMessageChannel implements IChiaMessageChannel {
 
     private onConnected(): void {
         const handshake: Handshake = new Handshake();
-        handshake.networkId = this.network;
+        handshake.networkId = new NetworkUtil().getNetwork(this.network).id;
         handshake.protocolVersion = PROTOCOL_VERSION;
         handshake.softwareVersion = getSoftwareVersion();
         handshake.serverPort = this.port;
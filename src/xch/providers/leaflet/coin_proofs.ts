@@ -0,0 +1,114 @@
+// checks RespondAdditions / RespondRemovals against the roots of the block's FoliageTransactionBlock
+// https://github.com/Chia-Network/chia-blockchain/blob/6205d954e8ac2ea40ee7386b1ee3124da21f4c4a/chia/wallet/wallet_node.py - validate_additions / validate_removals
+import { Util } from "../../../util";
+import { bytes, Optional } from "../../../util/serializer/basic_types";
+import { Coin } from "../../../util/serializer/types/coin";
+
+// requestedPuzzleHashes is null if all additions were requested (the response has no proofs)
+export function validateAdditions(
+    coins: Array<[bytes, Coin[]]>,
+    proofs: Optional<Array<[bytes, bytes, Optional<bytes>]>>,
+    root: bytes,
+    requestedPuzzleHashes: Optional<bytes[]>,
+): boolean {
+    for(const [puzzleHash, coinList] of coins) {
+        if(coinList.some((coin) => coin.puzzleHash !== puzzleHash)) {
+            return false;
+        }
+    }
+
+    if(requestedPuzzleHashes === null) {
+        // the addition set contains each puzzle hash and the hash of the ids of the coins created with it
+        const leaves: bytes[] = [];
+        for(const [puzzleHash, coinList] of coins) {
+            leaves.push(puzzleHash, Util.coin.hashCoinIds(coinList.map((coin) => Util.coin.getId(coin))));
+        }
+
+        return proofs === null && Util.merkleSet.computeRoot(leaves) === root;
+    }
+
+    // each requested puzzle hash needs a proof - otherwise, coins could be hidden
+    if(
+        proofs === null ||
+        proofs.length !== coins.length ||
+        !requestedPuzzleHashes.every((puzzleHash) => coins.some((e) => e[0] === puzzleHash))
+    ) {
+        return false;
+    }
+
+    for(let i = 0; i < coins.length; ++i) {
+        const [puzzleHash, coinList] = coins[i];
+        const [proofPuzzleHash, puzzleHashProof, coinListProof] = proofs[i];
+        if(puzzleHash !== proofPuzzleHash || !requestedPuzzleHashes.includes(puzzleHash)) {
+            return false;
+        }
+
+        if(coinList.length === 0) {
+            if(!Util.merkleSet.confirmNotIncluded(root, puzzleHash, puzzleHashProof)) {
+                return false;
+            }
+            continue;
+        }
+
+        const coinListHash: bytes = Util.coin.hashCoinIds(coinList.map((coin) => Util.coin.getId(coin)));
+        if(
+            coinListProof === null ||
+            !Util.merkleSet.confirmIncluded(root, coinListHash, coinListProof) ||
+            !Util.merkleSet.confirmIncluded(root, puzzleHash, puzzleHashProof)
+        ) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+// requestedCoinIds is null if all removals were requested (the response has no proofs)
+export function validateRemovals(
+    coins: Array<[bytes, Optional<Coin>]>,
+    proofs: Optional<Array<[bytes, bytes]>>,
+    root: bytes,
+    requestedCoinIds: Optional<bytes[]>,
+): boolean {
+    for(const [coinId, coin] of coins) {
+        if(coin !== null && Util.coin.getId(coin) !== coinId) {
+            return false;
+        }
+    }
+
+    if(requestedCoinIds === null) {
+        const leaves: bytes[] = coins.filter((e) => e[1] !== null).map((e) => e[0]);
+
+        return proofs === null && Util.merkleSet.computeRoot(leaves) === root;
+    }
+
+    // nodes respond with empty lists for blocks that have no transactions
+    if(coins.length === 0 && root === Util.merkleSet.computeRoot([])) {
+        return true;
+    }
+
+    if(
+        proofs === null ||
+        proofs.length !== coins.length ||
+        !requestedCoinIds.every((coinId) => coins.some((e) => e[0] === coinId))
+    ) {
+        return false;
+    }
+
+    for(let i = 0; i < coins.length; ++i) {
+        const [coinId, coin] = coins[i];
+        const [proofCoinId, proof] = proofs[i];
+        if(coinId !== proofCoinId || !requestedCoinIds.includes(coinId)) {
+            return false;
+        }
+
+        const valid: boolean = coin === null ?
+            Util.merkleSet.confirmNotIncluded(root, coinId, proof) :
+            Util.merkleSet.confirmIncluded(root, coinId, proof);
+        if(!valid) {
+            return false;
+        }
+    }
+
+    return true;
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+// checks that a RespondHeaderBlocks range forms a chain
+// https://github.com/Chia-Network/chia-blockchain/blob/6205d954e8ac2ea40ee7386b1ee3124da21f4c4a/chia/consensus/block_header_validation.py
+import { BigNumber } from "@ethersproject/bignumber";
+import { Util } from "../../../util";
+import { Optional } from "../../../util/serializer/basic_types";
+import { Serializer } from "../../../util/serializer/serializer";
+import { HeaderBlock } from "../../../util/serializer/types/header_block";
+import { Peak } from "../provider_types";
+
+const _hash = (obj: any): string => Util.stdHash(Serializer.serialize(obj).toString("hex"));
+
+// the foliage commits to the FoliageTransactionBlock, which commits to the TransactionsInfo
+export function validateFoliage(headerBlock: HeaderBlock): boolean {
+    const foliageTransactionBlock = headerBlock.foliageTransactionBlock;
+    if(foliageTransactionBlock === null) {
+        return headerBlock.foliage.foliageTransactionBlockHash === null &&
+            headerBlock.transactionsInfo === null &&
+            !headerBlock.rewardChainBlock.isTransactionBlock;
+    }
+
+    if(
+        !headerBlock.rewardChainBlock.isTransactionBlock ||
+        headerBlock.foliage.foliageTransactionBlockHash !== _hash(foliageTransactionBlock)
+    ) {
+        return false;
+    }
+
+    // transaction blocks always come with their TransactionsInfo
+    return headerBlock.transactionsInfo !== null &&
+        foliageTransactionBlock.transactionsInfoHash === _hash(headerBlock.transactionsInfo);
+}
+
+// 'anchor' is a trusted block (checkpoint or peak) that has to be part of the range or its parent
+export function validateHeaderChain(
+    headerBlocks: HeaderBlock[],
+    startHeight: number,
+    endHeight: number,
+    anchor: Optional<Peak>,
+): boolean {
+    if(headerBlocks.length !== endHeight - startHeight + 1) {
+        return false;
+    }
+
+    const headerHashes: string[] = [];
+    for(let i = 0; i < headerBlocks.length; ++i) {
+        const headerBlock: HeaderBlock = headerBlocks[i];
+        if(
+            BigNumber.from(headerBlock.rewardChainBlock.height).toNumber() !== startHeight + i ||
+            !validateFoliage(headerBlock) ||
+            (i > 0 && headerBlock.foliage.prevBlockHash !== headerHashes[i - 1])
+        ) {
+            return false;
+        }
+
+        headerHashes.push(headerBlock.headerHash());
+    }
+
+    if(anchor === null) {
+        return false;
+    }
+
+    const anchorHash: string = anchor.headerHash.toLowerCase();
+    if(anchor.height === startHeight - 1) {
+        return headerBlocks[0].foliage.prevBlockHash === anchorHash;
+    }
+
+    return anchor.height >= startHeight && anchor.height <= endHeight &&
+        headerHashes[anchor.height - startHeight] === anchorHash;
+}
\ No newline at end of file
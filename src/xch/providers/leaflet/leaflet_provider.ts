@@ -1,28 +1,53 @@
-import { Provider, getBalanceArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs } from "../provider";
+import { Provider, ProviderEventEmitter, getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, iterateBlockHeadersArgs } from "../provider";
 import * as providerTypes from "../provider_types";
 import { makeMsg, Message } from "../../../util/serializer/types/outbound_message";
 import { Serializer } from "../../../util/serializer/serializer";
 import { ProtocolMessageTypes } from "../../../util/serializer/types/protocol_message_types";
-import { CoinState, NewPeakWallet, PuzzleSolutionResponse, RegisterForCoinUpdates, RegisterForPhUpdates, RejectAdditionsRequest, RejectHeaderBlocks, RejectHeaderRequest, RejectPuzzleSolution, RejectRemovalsRequest, RequestAdditions, RequestBlockHeader, RequestChildren, RequestHeaderBlocks, RequestPuzzleSolution, RequestRemovals, RespondAdditions, RespondBlockHeader, RespondChildren, RespondHeaderBlocks, RespondPuzzleSolution, RespondRemovals, RespondToCoinUpdates, RespondToPhUpdates, SendTransaction, TransactionAck } from "../../../util/serializer/types/wallet_protocol";
+import { CoinState, CoinStateUpdate, NewPeakWallet, PuzzleSolutionResponse, RegisterForCoinUpdates, RegisterForPhUpdates, RejectAdditionsRequest, RejectHeaderBlocks, RejectHeaderRequest, RejectPuzzleSolution, RejectRemovalsRequest, RequestAdditions, RequestBlockHeader, RequestChildren, RequestHeaderBlocks, RequestPuzzleSolution, RequestRemovals, RespondAdditions, RespondBlockHeader, RespondChildren, RespondHeaderBlocks, RespondPuzzleSolution, RespondRemovals, RespondToCoinUpdates, RespondToPhUpdates, SendTransaction, TransactionAck, RequestFeeEstimates, RespondFeeEstimates, RequestRemovePuzzleSubscriptions, RequestRemoveCoinSubscriptions, CoinStateFilters, RequestPuzzleState, RespondPuzzleState, RejectPuzzleState, RequestCoinState, RespondCoinState, RejectCoinState, RejectStateReason } from "../../../util/serializer/types/wallet_protocol";
 import { HeaderBlock } from "../../../util/serializer/types/header_block";
+import { FoliageTransactionBlock } from "../../../util/serializer/types/foliage";
 import { Coin } from "../../../util/serializer/types/coin";
 import { AddressUtil } from "../../../util/address";
-import { transferArgs, transferCATArgs, acceptOfferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
+import { transferArgs, transferCATArgs, acceptOfferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs, getFeeEstimateArgs, requestPuzzleStateArgs, requestCoinStateArgs } from "../provider_args";
+import { MethodNotSupportedError, InvalidAddressError, InvalidArgumentError, InvalidProofError, RequestRejectedError, TransactionRejectedError } from "../provider_errors";
 import { BigNumber } from "@ethersproject/bignumber";
-import { MessageManager } from "./message_manager";
+import { MessageFilter, MessageManager } from "./message_manager";
 import { ChiaMessageChannel, IWebSocket } from "./chia_message_channel";
+import { validateAdditions, validateRemovals } from "./coin_proofs";
+import { validateFoliage, validateHeaderChain } from "./header_chain";
+import { fetchChunks, iterateBlockHeaders, splitHeightRange, MAX_HEADER_BLOCKS_PER_REQUEST } from "../block_headers";
 import { Util } from "../../../util";
 import { SpendBundle } from "../../../util/serializer/types/spend_bundle";
 import { Optional } from "../../../util/serializer/basic_types";
-import { Network } from "../../../util/network";
+import { Network, NetworkUtil } from "../../../util/network";
 
 const addressUtil = new AddressUtil();
 
+type _LeafletSubscription = {
+    filter: MessageFilter,
+    matches: (coinState: providerTypes.CoinState) => boolean, // used to route pushed coin state updates
+    callback: (coinStates: providerTypes.CoinState[]) => void,
+    rollbackCallback?: (forkHeight: number) => void,
+    maxHeight: number, // highest created/spent height sent to the callback
+    registration: string, // subscriptions with the same registration share the node's subscription
+    removeRequest: MessageFilter, // asks the node to stop pushing updates
+};
+
 export class LeafletProvider implements Provider {
     public messageManager: MessageManager;
+    public events: ProviderEventEmitter = new ProviderEventEmitter();
+    // throw typed errors (see provider_errors.ts) instead of returning null / [] / false
+    public strict: boolean = false;
+    // check the Merkle proofs of getCoinAdditions / getCoinRemovals responses against the block's header
+    public verifyProofs: boolean = true;
+    // getBlocksHeaders({ verify: true }) fetches the headers up to the checkpoint / peak - at most this many beyond endHeight
+    public maxCheckpointDistance: number = 1024;
 
     private blockNumber: providerTypes.Optional<number> = null;
+    private peak: providerTypes.Optional<providerTypes.Peak> = null;
     private network: Network;
+    private subscriptions: _LeafletSubscription[] = [];
+    private filtersRegistered: boolean = false;
 
     constructor(
         host: string,
@@ -32,8 +57,8 @@ export class LeafletProvider implements Provider {
         webSocketCreateFunc: (url: string) => IWebSocket = (url: string) => new WebSocket(url),
     ) {
         this.messageManager = new MessageManager(
-            async (onMessage) => new ChiaMessageChannel({
-                host, port, apiKey, onMessage, network, webSocketCreateFunc
+            async (onMessage, onClose) => new ChiaMessageChannel({
+                host, port, apiKey, onMessage, onClose, network, webSocketCreateFunc
             })
         );
 
@@ -42,6 +67,18 @@ export class LeafletProvider implements Provider {
 
     public async connect() {
         await this.messageManager.initialize();
+        // the message manager keeps these filters when it's closed
+        if(!this.filtersRegistered) {
+            this._registerFilters();
+        }
+
+        if(this.isConnected()) {
+            this.events.emit("connected");
+        }
+    }
+
+    private _registerFilters(): void {
+        this.filtersRegistered = true;
         this.messageManager.registerFilter({
             consumeMessage: (msg: Message) => {
                 if(BigNumber.from(msg.type).toNumber() !== ProtocolMessageTypes.new_peak_wallet) {
@@ -52,16 +89,171 @@ export class LeafletProvider implements Provider {
                     NewPeakWallet,
                     Buffer.from(msg.data, "hex")
                 );
-                this.blockNumber = BigNumber.from(pckt.height).toNumber();
+                this._handleNewPeak(
+                    { height: BigNumber.from(pckt.height).toNumber(), headerHash: pckt.headerHash },
+                    BigNumber.from(pckt.forkPointWithPreviousPeak).toNumber(),
+                );
                 return true;
             },
             deleteAfterFirstMessageConsumed: false,
             expectedMaxRensponseWait: 120 * 1000
         });
+        // coin state updates are pushed for each new peak that changes a subscribed coin
+        this.messageManager.registerFilter({
+            consumeMessage: (msg: Message) => {
+                if(BigNumber.from(msg.type).toNumber() !== ProtocolMessageTypes.coin_state_update) {
+                    return false;
+                }
+
+                const pckt: CoinStateUpdate = Serializer.deserialize(CoinStateUpdate, msg.data);
+                this._handleNewPeak(
+                    { height: BigNumber.from(pckt.height).toNumber(), headerHash: pckt.peakHash },
+                    BigNumber.from(pckt.forkHeight).toNumber(),
+                );
+
+                for(const subscription of [...this.subscriptions]) {
+                    const coinStates = pckt.items.filter(subscription.matches);
+                    if(coinStates.length > 0) {
+                        this._deliver(subscription, coinStates);
+                    }
+                }
+                if(pckt.items.length > 0) {
+                    this.events.emit("coinState", pckt.items);
+                }
+                return true;
+            },
+            deleteAfterFirstMessageConsumed: false,
+            expectedMaxRensponseWait: 0
+        });
+    }
+
+    // both 'new_peak_wallet' and 'coin_state_update' messages announce a peak
+    private _handleNewPeak(peak: providerTypes.Peak, forkHeight: number): void {
+        if(this.peak !== null && this.peak.headerHash === peak.headerHash) {
+            return;
+        }
+
+        const previousPeak = this.peak;
+        this.peak = peak;
+        this.blockNumber = peak.height;
+        this.events.emit("peak", peak);
+
+        // blocks above the fork point are no longer part of the chain
+        if(previousPeak !== null && forkHeight < previousPeak.height) {
+            this._rollback(forkHeight);
+        }
+    }
+
+    private _rollback(forkHeight: number): void {
+        this.events.emit("rollback", forkHeight);
+
+        for(const subscription of [...this.subscriptions]) {
+            if(subscription.maxHeight <= forkHeight) {
+                continue;
+            }
+
+            // the node replies with the current coin states, which are sent to the callback
+            subscription.maxHeight = forkHeight;
+            subscription.rollbackCallback?.(forkHeight);
+            this.messageManager.resendFilter(subscription.filter);
+        }
+    }
+
+    // parseResponse returns null if the message is not a reply to messageToSend
+    private _subscribe(
+        messageToSend: Buffer,
+        parseResponse: (msg: Message) => providerTypes.Optional<providerTypes.CoinState[]>,
+        {
+            matches, callback, rollbackCallback, registration, removeRequest
+        }: Pick<_LeafletSubscription, "matches" | "callback" | "rollbackCallback" | "registration" | "removeRequest">
+    ): providerTypes.Subscription {
+        const subscription: _LeafletSubscription = {
+            filter: {
+                messageToSend,
+                consumeMessage: (msg: Message) => {
+                    const coinStates = parseResponse(msg);
+                    if(coinStates === null) {
+                        return false;
+                    }
+
+                    this._deliver(subscription, coinStates);
+                    if(coinStates.length > 0) {
+                        this.events.emit("coinState", coinStates);
+                    }
+                    return true;
+                },
+                deleteAfterFirstMessageConsumed: false,
+                expectedMaxRensponseWait: 0
+            },
+            matches,
+            callback,
+            rollbackCallback,
+            maxHeight: 0,
+            registration,
+            removeRequest,
+        };
+        this.subscriptions.push(subscription);
+        this.messageManager.registerFilter(subscription.filter);
+
+        return {
+            unsubscribe: () => {
+                if(!this.subscriptions.includes(subscription)) {
+                    return;
+                }
+
+                this.subscriptions = this.subscriptions.filter((s) => s !== subscription);
+                this.messageManager.removeFilter(subscription.filter);
+                // the node's subscriptions are lost when the connection is; they're re-registered on reconnect
+                if(this.isConnected() && !this.subscriptions.some((s) => s.registration === registration)) {
+                    this.messageManager.registerFilter(removeRequest).catch(() => null);
+                }
+            },
+        };
+    }
+
+    // resolves to false if the request timed out (or the connection was closed)
+    // in strict mode, the ProviderTimeoutError / ProviderConnectionError is thrown instead
+    private async _request(filter: MessageFilter): Promise<boolean> {
+        try {
+            return await this.messageManager.registerFilter(filter) !== null;
+        } catch(e: any) {
+            return this._fail(e, false);
+        }
+    }
+
+    private _fail<T>(error: Error, fallback: T): T {
+        if(this.strict) {
+            throw error;
+        }
+
+        return fallback;
+    }
+
+    private _deliver(subscription: _LeafletSubscription, coinStates: providerTypes.CoinState[]): void {
+        subscription.maxHeight = Math.max(subscription.maxHeight, this._maxHeight(coinStates));
+        subscription.callback(coinStates);
+    }
+
+    private _maxHeight(coinStates: providerTypes.CoinState[]): number {
+        let maxHeight: number = 0;
+        for(const coinState of coinStates) {
+            for(const height of [coinState.createdHeight, coinState.spentHeight]) {
+                if(height !== null && BigNumber.from(height).gt(maxHeight)) {
+                    maxHeight = BigNumber.from(height).toNumber();
+                }
+            }
+        }
+
+        return maxHeight;
     }
 
     public async close(): Promise<void> {
+        const wasConnected: boolean = this.isConnected();
         await this.messageManager.close();
+
+        if(wasConnected) {
+            this.events.emit("disconnected");
+        }
     }
 
     public getNetworkId(): Network {
@@ -72,28 +264,62 @@ export class LeafletProvider implements Provider {
         return this.messageManager.open;
     }
 
+    public capabilities(): providerTypes.ProviderCapabilities {
+        return {
+            methods: [
+                "getBlockNumber", "getBalance", "getUnspentCoins", "getCoinRecord", "getCoinRecords",
+                "subscribeToPuzzleHashUpdates", "subscribeToCoinUpdates", "getPuzzleSolution", "getCoinChildren",
+                "getBlockHeader", "getBlocksHeaders", "getCoinRemovals", "getCoinAdditions", "pushSpendBundle"
+            ],
+            networks: [this.network],
+            features: ["subscriptions"],
+        };
+    }
+
     public async getBlockNumber(): Promise<providerTypes.Optional<number>> {
         return this.blockNumber;
     }
 
-    public async getBalance({
+    public async getBalance(args: getBalanceArgs): Promise<providerTypes.Optional<BigNumber>> {
+        const unspentCoins: providerTypes.Optional<CoinState[]> = await this._getUnspentCoins(args);
+        if(unspentCoins === null) {
+            return null;
+        }
+
+        let balance = BigNumber.from(0);
+        for(let i = 0; i < unspentCoins.length; ++i) {
+            balance = balance.add(unspentCoins[i].coin.amount);
+        }
+
+        return balance;
+    }
+
+    public async getUnspentCoins(args: getUnspentCoinsArgs): Promise<providerTypes.CoinState[]> {
+        return (await this._getUnspentCoins(args)) ?? [];
+    }
+
+    // null if the puzzle hash is invalid or the node did not reply
+    private async _getUnspentCoins({
         address,
         puzzleHash,
         minHeight = 1
-    }: getBalanceArgs): Promise<providerTypes.Optional<BigNumber>> {
+    }: getUnspentCoinsArgs): Promise<providerTypes.Optional<CoinState[]>> {
         let puzHash: string;
 
         // get puzHash: Buffer from address / puzzle hash
         if(address !== undefined) {
             puzHash = addressUtil.addressToPuzzleHash(address);
-            if(puzHash.length === 0) {
-                return null;
+            if(puzHash.length === 0 || addressUtil.getPrefix(address) !== Util.network.getAddressPrefix(this.network)) {
+                return this._fail(new InvalidAddressError(address), null);
             }
         }
         else if(puzzleHash !== undefined) {
             puzHash = addressUtil.validateHashString(puzzleHash);
+            if(puzHash.length === 0) {
+                return this._fail(new InvalidArgumentError("Invalid puzzle hash."), null);
+            }
         }
-        else return null;
+        else return this._fail(new InvalidArgumentError("Either address or puzzleHash must be given."), null);
 
         // Register for updates
         const pckt: RegisterForPhUpdates = new RegisterForPhUpdates();
@@ -105,7 +331,7 @@ export class LeafletProvider implements Provider {
             ProtocolMessageTypes.register_interest_in_puzzle_hash,
             pckt,
         );
-        await this.messageManager.registerFilter({
+        const replied: boolean = await this._request({
             messageToSend: msgToSend,
             consumeMessage: (msg: Message) => {
                 if(BigNumber.from(msg.type).toNumber() !== ProtocolMessageTypes.respond_to_ph_update) {
@@ -124,22 +350,71 @@ export class LeafletProvider implements Provider {
             },
         });
 
-        // filter received list of puzzle hashes and compute balance
-        const unspentCoins: CoinState[] = coinStates.filter(
+        if(!replied) {
+            return null;
+        }
+
+        // filter received list of coin states
+        return coinStates.filter(
             (coinState) => coinState.spentHeight == null
         );
+    }
 
-        let balance = BigNumber.from(0);
-        for(let i = 0; i < unspentCoins.length; ++i) {
-            balance = balance.add(unspentCoins[i].coin.amount);
+    public async getCoinRecord({ coinId }: getCoinRecordArgs): Promise<providerTypes.Optional<providerTypes.CoinState>> {
+        const coinStates: providerTypes.CoinState[] = await this.getCoinRecords({ coinIds: [coinId] });
+
+        return coinStates.length > 0 ? coinStates[0] : null;
+    }
+
+    public async getCoinRecords({ coinIds }: getCoinRecordsArgs): Promise<providerTypes.CoinState[]> {
+        coinIds = coinIds.map((coinId) => addressUtil.validateHashString(coinId));
+        if(coinIds.some((coinId) => coinId.length === 0)) return this._fail(new InvalidArgumentError("Invalid coin id."), []);
+        if(coinIds.length === 0) return [];
+
+        // Register for updates - minHeight 0 returns the coins' current state, whenever they were created
+        const pckt: RegisterForCoinUpdates = new RegisterForCoinUpdates();
+        pckt.minHeight = 0;
+        pckt.coinIds = coinIds;
+
+        let coinStates: CoinState[] = [];
+        const msgToSend: Buffer = makeMsg(
+            ProtocolMessageTypes.register_interest_in_coin,
+            pckt,
+        );
+        const replied: boolean = await this._request({
+            messageToSend: msgToSend,
+            consumeMessage: (msg: Message) => {
+                if(BigNumber.from(msg.type).toNumber() !== ProtocolMessageTypes.respond_to_coin_update) {
+                    return false;
+                }
+                const rPckt: RespondToCoinUpdates = Serializer.deserialize(RespondToCoinUpdates, msg.data);
+                if(
+                    !coinIds.every((coinId) => rPckt.coinIds.includes(coinId)) ||
+                    !BigNumber.from(rPckt.minHeight).eq(0)
+                ) {
+                    return false;
+                }
+
+                coinStates = rPckt.coinStates.filter((cs) => coinIds.includes(Util.coin.getId(cs.coin)));
+                return true;
+            },
+        });
+
+        if(!replied) {
+            return [];
         }
 
-        return balance;
+        // same order as coinIds
+        return coinIds.map(
+            (coinId) => coinStates.find((cs) => Util.coin.getId(cs.coin) === coinId)
+        ).filter((cs): cs is CoinState => cs !== undefined);
     }
 
-    public subscribeToPuzzleHashUpdates({ puzzleHash, callback, minHeight = 1 }: subscribeToPuzzleHashUpdatesArgs): void {
+    public subscribeToPuzzleHashUpdates(
+        { puzzleHash, callback, minHeight = 1, rollbackCallback }: subscribeToPuzzleHashUpdatesArgs
+    ): providerTypes.Subscription {
         puzzleHash = addressUtil.validateHashString(puzzleHash);
-        if(puzzleHash.length === 0) return;
+        if(puzzleHash.length === 0) return this._fail(new InvalidArgumentError("Invalid puzzle hash."), { unsubscribe: () => null });
 
         // Register for updates
         const pckt: RegisterForPhUpdates = new RegisterForPhUpdates();
@@ -152,33 +427,41 @@ export class LeafletProvider implements Provider {
             ProtocolMessageTypes.register_interest_in_puzzle_hash,
             pckt,
         );
-        this.messageManager.registerFilter({
-            messageToSend: msgToSend,
-            consumeMessage: (msg: Message) => {
+        const matches = (cs: providerTypes.CoinState) => cs.coin.puzzleHash === puzzleHash;
+
+        const removePckt: RequestRemovePuzzleSubscriptions = new RequestRemovePuzzleSubscriptions();
+        removePckt.puzzleHashes = [puzzleHash];
+        const removeRequest: MessageFilter = {
+            messageToSend: makeMsg(ProtocolMessageTypes.request_remove_puzzle_subscriptions, removePckt),
+            consumeMessage: (msg: Message) =>
+                BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.respond_remove_puzzle_subscriptions,
+        };
+
+        return this._subscribe(
+            msgToSend,
+            (msg: Message) => {
                 if(BigNumber.from(msg.type).toNumber() !== ProtocolMessageTypes.respond_to_ph_update) {
-                    return false;
+                    return null;
                 }
                 const rPckt: RespondToPhUpdates = Serializer.deserialize(RespondToPhUpdates, msg.data);
                 if(
                     !rPckt.puzzleHashes.includes(puzzleHash) ||
                     !BigNumber.from(rPckt.minHeight).eq(minHeight)
                 ) {
-                    return false;
+                    return null;
                 }
 
-                const coins: providerTypes.CoinState[] = rPckt.coinStates.filter((cs) => cs.coin.puzzleHash === puzzleHash);
-                callback(coins);
-
-                return true;
+                return rPckt.coinStates.filter(matches);
             },
-            deleteAfterFirstMessageConsumed: false,
-            expectedMaxRensponseWait: 0
-        });
+            { matches, callback, rollbackCallback, registration: `puzzle_hash:${puzzleHash}`, removeRequest }
+        );
     }
 
-    public subscribeToCoinUpdates({ coinId, callback, minHeight = 1 }: subscribeToCoinUpdatesArgs): void {
+    public subscribeToCoinUpdates(
+        { coinId, callback, minHeight = 1, rollbackCallback }: subscribeToCoinUpdatesArgs
+    ): providerTypes.Subscription {
         coinId = addressUtil.validateHashString(coinId);
-        if(coinId.length === 0) return;
+        if(coinId.length === 0) return this._fail(new InvalidArgumentError("Invalid coin id."), { unsubscribe: () => null });
 
         // Register for updates
         const pckt: RegisterForCoinUpdates = new RegisterForCoinUpdates();
@@ -191,33 +474,39 @@ export class LeafletProvider implements Provider {
             ProtocolMessageTypes.register_interest_in_coin,
             pckt,
         );
-        this.messageManager.registerFilter({
-            messageToSend: msgToSend,
-            consumeMessage: (msg: Message) => {
+        const matches = (cs: providerTypes.CoinState) => Util.coin.getId(cs.coin) === coinId;
+
+        const removePckt: RequestRemoveCoinSubscriptions = new RequestRemoveCoinSubscriptions();
+        removePckt.coinIds = [coinId];
+        const removeRequest: MessageFilter = {
+            messageToSend: makeMsg(ProtocolMessageTypes.request_remove_coin_subscriptions, removePckt),
+            consumeMessage: (msg: Message) =>
+                BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.respond_remove_coin_subscriptions,
+        };
+
+        return this._subscribe(
+            msgToSend,
+            (msg: Message) => {
                 if(BigNumber.from(msg.type).toNumber() !== ProtocolMessageTypes.respond_to_coin_update) {
-                    return false;
+                    return null;
                 }
                 const rPckt: RespondToCoinUpdates = Serializer.deserialize(RespondToCoinUpdates, msg.data);
                 if(
                     !rPckt.coinIds.includes(coinId) ||
                     !BigNumber.from(rPckt.minHeight).eq(minHeight)
                 ) {
-                    return false;
+                    return null;
                 }
 
-                const coins: providerTypes.CoinState[] = rPckt.coinStates.filter((cs) => Util.coin.getId(cs.coin) === coinId);
-                callback(coins);
-
-                return true;
+                return rPckt.coinStates.filter(matches);
             },
-            deleteAfterFirstMessageConsumed: false,
-            expectedMaxRensponseWait: 0
-        });
+            { matches, callback, rollbackCallback, registration: `coin:${coinId}`, removeRequest }
+        );
     }
 
     public async getPuzzleSolution({coinId, height}: getPuzzleSolutionArgs): Promise<providerTypes.Optional<providerTypes.PuzzleSolution>> {
         coinId = addressUtil.validateHashString(coinId);
-        if(coinId.length === 0) return null;
+        if(coinId.length === 0) return this._fail(new InvalidArgumentError("Invalid coin id."), null);
 
         const pckt: RequestPuzzleSolution = new RequestPuzzleSolution();
         pckt.coinName = coinId;
@@ -230,7 +519,7 @@ export class LeafletProvider implements Provider {
 
         let respPckt: PuzzleSolutionResponse = new PuzzleSolutionResponse();
         let returnNull: boolean = false;
-        await this.messageManager.registerFilter({
+        const replied: boolean = await this._request({
             messageToSend: msgToSend,
             consumeMessage: (msg: Message) => {
                 if(BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.reject_puzzle_solution) {
@@ -268,6 +557,9 @@ export class LeafletProvider implements Provider {
         });
 
         if(returnNull) {
+            return this._fail(new RequestRejectedError("reject_puzzle_solution"), null);
+        }
+        if(!replied) {
             return null;
         }
 
@@ -276,7 +568,7 @@ export class LeafletProvider implements Provider {
 
     public async getCoinChildren({ coinId }: getCoinChildrenArgs): Promise<providerTypes.CoinState[]> {
         coinId = addressUtil.validateHashString(coinId);
-        if(coinId.length === 0) return [];
+        if(coinId.length === 0) return this._fail(new InvalidArgumentError("Invalid coin id."), []);
 
         const pckt: RequestChildren = new RequestChildren();
         pckt.coinName = coinId;
@@ -287,7 +579,7 @@ export class LeafletProvider implements Provider {
         );
         let respPckt: RespondChildren = new RespondChildren();
 
-        await this.messageManager.registerFilter({
+        const replied: boolean = await this._request({
             messageToSend: msgToSend,
             consumeMessage: (msg: Message) => {
                 if(BigNumber.from(msg.type).toNumber() !== ProtocolMessageTypes.respond_children) {
@@ -304,6 +596,10 @@ export class LeafletProvider implements Provider {
             },
         });
 
+        if(!replied) {
+            return [];
+        }
+
         const coinStates: providerTypes.CoinState[] = respPckt.coinStates;
 
         return coinStates;
@@ -318,12 +614,22 @@ export class LeafletProvider implements Provider {
         header.farmerPuzzleHash = headerBlock.foliage.foliageBlockData.farmerRewardPuzzleHash;
         header.poolPuzzleHash = headerBlock.foliage.foliageBlockData.poolTarget.puzzleHash;
         header.fees = headerBlock.transactionsInfo?.fees ?? null;
+        header.timestamp = headerBlock.foliageTransactionBlock?.timestamp ?? null;
 
         return header;
     }
 
 
     public async getBlockHeader({ height }: getBlockHeaderArgs): Promise<providerTypes.Optional<providerTypes.BlockHeader>> {
+        const headerBlock: providerTypes.Optional<HeaderBlock> = await this._getHeaderBlock(height);
+        if(headerBlock === null) {
+            return null;
+        }
+
+        return this._headerBlockToProviderBlockHeader(headerBlock, height);
+    }
+
+    private async _getHeaderBlock(height: number): Promise<providerTypes.Optional<HeaderBlock>> {
         const pckt: RequestBlockHeader = new RequestBlockHeader();
         pckt.height = height;
 
@@ -334,7 +640,7 @@ export class LeafletProvider implements Provider {
 
         let returnNull: boolean = false;
         let respPckt: RespondBlockHeader = new RespondBlockHeader();
-        await this.messageManager.registerFilter({
+        const replied: boolean = await this._request({
             messageToSend: msgToSend,
             consumeMessage: (msg: Message) => {
                 if(BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.reject_header_request) {
@@ -371,16 +677,98 @@ export class LeafletProvider implements Provider {
 
         
         if(returnNull) {
+            return this._fail(new RequestRejectedError("reject_header_request"), null);
+        }
+        if(!replied) {
             return null;
         }
 
-        const headerBlock: HeaderBlock = respPckt.headerBlock;
-        return this._headerBlockToProviderBlockHeader(headerBlock, height);
+        return respPckt.headerBlock;
+    }
+
+    // the FoliageTransactionBlock (which has the additions and removals roots) of the block with the given header hash
+    private async _getFoliageTransactionBlock(
+        height: number,
+        headerHash: string,
+    ): Promise<providerTypes.Optional<FoliageTransactionBlock>> {
+        const headerBlock: providerTypes.Optional<HeaderBlock> = await this._getHeaderBlock(height);
+        if(headerBlock === null || headerBlock.headerHash() !== headerHash) {
+            return null;
+        }
+
+        if(!validateFoliage(headerBlock)) {
+            return null;
+        }
+
+        return headerBlock.foliageTransactionBlock;
     }
 
     public async getBlocksHeaders(
-        { startHeight, endHeight }: getBlocksHeadersArgs
+        { startHeight, endHeight, verify = false, checkpoint }: getBlocksHeadersArgs
     ): Promise<providerTypes.Optional<providerTypes.BlockHeader[]>> {
+        // the chain has to reach the trusted block - fetch the headers up to it if it's above the range
+        const anchor: providerTypes.Optional<providerTypes.Peak> = checkpoint ?? this.peak;
+        if(verify && anchor !== null && anchor.height - endHeight > this.maxCheckpointDistance) {
+            return this._fail(
+                new InvalidArgumentError(
+                    `The checkpoint is more than ${this.maxCheckpointDistance} blocks above the range - pass a closer one.`
+                ),
+                null
+            );
+        }
+        const fetchEndHeight: number = verify && anchor !== null ? Math.max(endHeight, anchor.height) : endHeight;
+
+        const headerBlocks: providerTypes.Optional<HeaderBlock[]> = await this._getHeaderBlocks(startHeight, fetchEndHeight);
+        if(headerBlocks === null) {
+            return null;
+        }
+
+        if(verify && !validateHeaderChain(headerBlocks, startHeight, fetchEndHeight, anchor)) {
+            return this._fail(
+                new InvalidProofError("The headers do not form a chain that connects to the checkpoint or peak."),
+                null
+            );
+        }
+
+        const headers: providerTypes.BlockHeader[] = [];
+        for(let i = 0; i < Math.min(headerBlocks.length, endHeight - startHeight + 1); ++i) {
+            const header: providerTypes.BlockHeader =
+                this._headerBlockToProviderBlockHeader(
+                    headerBlocks[i],
+                    BigNumber.from(startHeight).add(i)
+                );
+
+            headers.push(header);
+        }
+
+        return headers;
+    }
+
+    // yields the headers of large ranges without keeping them all in memory; throws if a chunk can't be fetched
+    public iterateBlockHeaders(args: iterateBlockHeadersArgs): AsyncGenerator<providerTypes.BlockHeader> {
+        return iterateBlockHeaders((chunkArgs) => this.getBlocksHeaders(chunkArgs), args);
+    }
+
+    // nodes reject large ranges - split them into chunks
+    private async _getHeaderBlocks(startHeight: number, endHeight: number): Promise<providerTypes.Optional<HeaderBlock[]>> {
+        const chunks: Array<[number, number]> = splitHeightRange(startHeight, endHeight, MAX_HEADER_BLOCKS_PER_REQUEST);
+        if(chunks.length === 1) {
+            return this._requestHeaderBlocks(startHeight, endHeight);
+        }
+
+        const headerBlocks: HeaderBlock[] = [];
+        for await (const chunk of fetchChunks(chunks, (start, end) => this._requestHeaderBlocks(start, end))) {
+            if(chunk === null) {
+                return null;
+            }
+
+            headerBlocks.push(...chunk);
+        }
+
+        return headerBlocks;
+    }
+
+    private async _requestHeaderBlocks(startHeight: number, endHeight: number): Promise<providerTypes.Optional<HeaderBlock[]>> {
         const pckt: RequestHeaderBlocks = new RequestHeaderBlocks();
         pckt.startHeight = startHeight;
         pckt.endHeight = endHeight;
@@ -392,7 +780,7 @@ export class LeafletProvider implements Provider {
 
         let returnNull: boolean = false;
         let respPckt: RespondHeaderBlocks = new RespondHeaderBlocks();
-        await this.messageManager.registerFilter({
+        const replied: boolean = await this._request({
             messageToSend: msgToSend,
             consumeMessage: (msg: Message) => {
                 if(BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.reject_header_blocks) {
@@ -430,21 +818,13 @@ export class LeafletProvider implements Provider {
         });
         
         if(returnNull) {
-            return null;
+            return this._fail(new RequestRejectedError("reject_header_blocks"), null);
         }
-
-        const headers: providerTypes.BlockHeader[] = [];
-        for(let i = 0; i < respPckt.headerBlocks.length; ++i) {
-            const header: providerTypes.BlockHeader =
-                this._headerBlockToProviderBlockHeader(
-                    respPckt.headerBlocks[i],
-                    BigNumber.from(respPckt.startHeight).add(i)
-                );
-
-            headers.push(header);
+        if(!replied) {
+            return null;
         }
 
-        return headers;
+        return respPckt.headerBlocks;
     }
 
     public async getCoinRemovals({
@@ -453,14 +833,14 @@ export class LeafletProvider implements Provider {
         coinIds = undefined
     }: getCoinRemovalsArgs): Promise<providerTypes.Optional<providerTypes.Coin[]>> {
         headerHash = addressUtil.validateHashString(headerHash);
-        if(headerHash.length === 0) return null;
+        if(headerHash.length === 0) return this._fail(new InvalidArgumentError("Invalid header hash."), null);
 
         const parsedCoinIds: string[] = [];
         if(coinIds !== undefined) {
             for(let i = 0;i < coinIds.length; ++i) {
-                const parsed: string = addressUtil.validateHashString(coinIds[i]);
+                const parsed: string = addressUtil.validateHashString(coinIds[i]).toLowerCase();
 
-                if(parsed.length === 0) return null;
+                if(parsed.length === 0) return this._fail(new InvalidArgumentError("Invalid coin id."), null);
                 parsedCoinIds.push(parsed);
             }
         }
@@ -477,7 +857,7 @@ export class LeafletProvider implements Provider {
 
         let returnNull: boolean = false;
         let respPckt: RespondRemovals = new RespondRemovals();
-        await this.messageManager.registerFilter({
+        const replied: boolean = await this._request({
             messageToSend: msgToSend,
             consumeMessage: (msg: Message) => {
                 if(BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.reject_removals_request) {
@@ -515,9 +895,27 @@ export class LeafletProvider implements Provider {
         });
 
         if(returnNull) {
+            return this._fail(new RequestRejectedError("reject_removals_request"), null);
+        }
+        if(!replied) {
             return null;
         }
 
+        if(this.verifyProofs) {
+            const foliageTransactionBlock = await this._getFoliageTransactionBlock(height, headerHash);
+            if(
+                foliageTransactionBlock === null ||
+                !validateRemovals(
+                    respPckt.coins,
+                    respPckt.proofs,
+                    foliageTransactionBlock.removalsroot,
+                    parsedCoinIds.length > 0 ? parsedCoinIds : null
+                )
+            ) {
+                return this._fail(new InvalidProofError("Could not verify the removals of the block."), null);
+            }
+        }
+
         const coins: providerTypes.Coin[] = respPckt.coins
             .filter((e) => e[1] !== null)
             // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
@@ -532,14 +930,14 @@ export class LeafletProvider implements Provider {
         puzzleHashes = undefined
     }: getCoinAdditionsArgs): Promise<providerTypes.Optional<providerTypes.Coin[]>> {
         headerHash = addressUtil.validateHashString(headerHash);
-        if(headerHash.length === 0) return null;
+        if(headerHash.length === 0) return this._fail(new InvalidArgumentError("Invalid header hash."), null);
 
         const parsedPuzzleHashes: string[] = [];
         if(puzzleHashes !== undefined) {
             for(let i = 0;i < puzzleHashes.length; ++i) {
-                const parsed: string = addressUtil.validateHashString(puzzleHashes[i]);
+                const parsed: string = addressUtil.validateHashString(puzzleHashes[i]).toLowerCase();
 
-                if(parsed.length === 0) return null;
+                if(parsed.length === 0) return this._fail(new InvalidArgumentError("Invalid puzzle hash."), null);
                 parsedPuzzleHashes.push(parsed);
             }
         }
@@ -556,7 +954,7 @@ export class LeafletProvider implements Provider {
 
         let returnNull: boolean = false;
         let respPckt: RespondAdditions = new RespondAdditions();
-        await this.messageManager.registerFilter({
+        const replied: boolean = await this._request({
             messageToSend: msgToSend,
             consumeMessage: (msg: Message) => {
                 if(BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.reject_additions_request) {
@@ -593,8 +991,27 @@ export class LeafletProvider implements Provider {
             },
         });
 
-        if(returnNull)
+        if(returnNull) {
+            return this._fail(new RequestRejectedError("reject_additions_request"), null);
+        }
+        if(!replied) {
             return null;
+        }
+
+        if(this.verifyProofs) {
+            const foliageTransactionBlock = await this._getFoliageTransactionBlock(height, headerHash);
+            if(
+                foliageTransactionBlock === null ||
+                !validateAdditions(
+                    respPckt.coins,
+                    respPckt.proofs,
+                    foliageTransactionBlock.additionsRoot,
+                    puzzleHashes !== undefined ? parsedPuzzleHashes : null
+                )
+            ) {
+                return this._fail(new InvalidProofError("Could not verify the additions of the block."), null);
+            }
+        }
 
         const coins: providerTypes.Coin[] = [];
         for(const key of respPckt.coins.keys()) {
@@ -620,7 +1037,7 @@ export class LeafletProvider implements Provider {
         );
 
         let respPckt: TransactionAck = new TransactionAck();
-        await this.messageManager.registerFilter({
+        const replied: boolean = await this._request({
             messageToSend: msgToSend,
             consumeMessage: (msg: Message) => {
                 if(BigNumber.from(msg.type).eq(ProtocolMessageTypes.transaction_ack)) {
@@ -629,26 +1046,223 @@ export class LeafletProvider implements Provider {
                         msg.data
                     );
 
-                    return true; // txid, status, and error don't really help
+                    return true;
                 }
 
                 return false;
             },
         });
 
+        if(!replied) {
+            return false;
+        }
+
         // https://github.com/Chia-Network/chia-blockchain/blob/25ab0c90cb34cd048463082801c3cc26bfac389a/chia/types/mempool_inclusion_status.py#L4
-        if(
-            respPckt.error === null &&
-            [1, 2].includes(BigNumber.from(respPckt.status).toNumber())
-        ) {
+        const status: number = BigNumber.from(respPckt.status).toNumber();
+        if(respPckt.error === null && [1, 2].includes(status)) {
             return true;
         }
 
-        return false;
+        const error = new TransactionRejectedError(status, respPckt.error);
+        this.events.emit("transactionRejected", args.spendBundle, error);
+
+        return this._fail(error, false);
+    }
+
+    // not part of the Provider interface - wallets can use it to pick a fee instead of using 0
+    public async getFeeEstimate({ cost, targetTimes }: getFeeEstimateArgs): Promise<Optional<providerTypes.FeeEstimate[]>> {
+        // the node expects unix timestamps
+        const now: number = Math.floor(Date.now() / 1000);
+        const pckt: RequestFeeEstimates = new RequestFeeEstimates();
+        pckt.timeTargets = targetTimes.map((targetTime) => now + targetTime);
+
+        const msgToSend: Buffer = makeMsg(
+            ProtocolMessageTypes.request_fee_estimates,
+            pckt,
+        );
+
+        let respPckt: RespondFeeEstimates = new RespondFeeEstimates();
+        const replied: boolean = await this._request({
+            messageToSend: msgToSend,
+            consumeMessage: (msg: Message) => {
+                if(BigNumber.from(msg.type).toNumber() !== ProtocolMessageTypes.respond_fee_estimates) {
+                    return false;
+                }
+
+                respPckt = Serializer.deserialize(RespondFeeEstimates, msg.data);
+                return true;
+            },
+        });
+
+        if(!replied) {
+            return null;
+        }
+        if(respPckt.estimates.error !== null) {
+            return this._fail(new RequestRejectedError("request_fee_estimates", respPckt.estimates.error), null);
+        }
+
+        return respPckt.estimates.estimates.map((estimate, i) => {
+            const feeEstimate = new providerTypes.FeeEstimate();
+            feeEstimate.targetTime = targetTimes[i];
+            feeEstimate.error = estimate.error;
+            feeEstimate.feeRate = estimate.error === null ? BigNumber.from(estimate.estimatedFeeRate.mojosPerClvmCost) : null;
+            feeEstimate.fee = feeEstimate.feeRate?.mul(cost) ?? null;
+
+            return feeEstimate;
+        });
+    }
+
+    // one page of coin states; if isFinished is false, request the next one with the returned height and headerHash
+    public async requestPuzzleState({
+        puzzleHashes,
+        previousHeight = null,
+        headerHash,
+        includeSpent = true,
+        includeUnspent = true,
+        includeHinted = true,
+        minAmount = 0,
+        subscribeWhenFinished = false,
+    }: requestPuzzleStateArgs): Promise<Optional<providerTypes.PuzzleState>> {
+        puzzleHashes = puzzleHashes.map((puzzleHash) => addressUtil.validateHashString(puzzleHash));
+        if(puzzleHashes.some((puzzleHash) => puzzleHash.length === 0)) {
+            return this._fail(new InvalidArgumentError("Invalid puzzle hash."), null);
+        }
+
+        const pckt: RequestPuzzleState = new RequestPuzzleState();
+        pckt.puzzleHashes = puzzleHashes;
+        pckt.previousHeight = previousHeight;
+        pckt.headerHash = this._stateHeaderHash(previousHeight, headerHash);
+        if(pckt.headerHash.length === 0) {
+            return this._fail(new InvalidArgumentError("Invalid header hash."), null);
+        }
+        pckt.filters = new CoinStateFilters();
+        pckt.filters.includeSpent = includeSpent;
+        pckt.filters.includeUnspent = includeUnspent;
+        pckt.filters.includeHinted = includeHinted;
+        pckt.filters.minAmount = minAmount;
+        pckt.subscribeWhenFinished = subscribeWhenFinished;
+
+        const msgToSend: Buffer = makeMsg(
+            ProtocolMessageTypes.request_puzzle_state,
+            pckt,
+        );
+
+        let respPckt: RespondPuzzleState = new RespondPuzzleState();
+        let rejectReason: Optional<string> = null;
+        const replied: boolean = await this._request({
+            messageToSend: msgToSend,
+            consumeMessage: (msg: Message) => {
+                const type: number = BigNumber.from(msg.type).toNumber();
+                if(type === ProtocolMessageTypes.reject_puzzle_state) {
+                    const rPckt: RejectPuzzleState = Serializer.deserialize(RejectPuzzleState, msg.data);
+                    const reason: number = BigNumber.from(rPckt.reason).toNumber();
+                    rejectReason = RejectStateReason[reason] ?? reason.toString();
+                    return true;
+                }
+                if(type !== ProtocolMessageTypes.respond_puzzle_state) {
+                    return false;
+                }
+
+                const rPckt: RespondPuzzleState = Serializer.deserialize(RespondPuzzleState, msg.data);
+                if(!rPckt.puzzleHashes.every((puzzleHash) => puzzleHashes.includes(puzzleHash))) {
+                    return false;
+                }
+
+                respPckt = rPckt;
+                return true;
+            },
+        });
+
+        if(rejectReason !== null) {
+            return this._fail(new RequestRejectedError("request_puzzle_state", rejectReason), null);
+        }
+        if(!replied) {
+            return null;
+        }
+
+        const puzzleState = new providerTypes.PuzzleState();
+        puzzleState.puzzleHashes = respPckt.puzzleHashes;
+        puzzleState.height = BigNumber.from(respPckt.height).toNumber();
+        puzzleState.headerHash = respPckt.headerHash;
+        puzzleState.isFinished = respPckt.isFinished;
+        puzzleState.coinStates = respPckt.coinStates;
+
+        return puzzleState;
+    }
+
+    public async requestCoinState({
+        coinIds,
+        previousHeight = null,
+        headerHash,
+        subscribe = false,
+    }: requestCoinStateArgs): Promise<Optional<providerTypes.CoinState[]>> {
+        coinIds = coinIds.map((coinId) => addressUtil.validateHashString(coinId));
+        if(coinIds.some((coinId) => coinId.length === 0)) {
+            return this._fail(new InvalidArgumentError("Invalid coin id."), null);
+        }
+
+        const pckt: RequestCoinState = new RequestCoinState();
+        pckt.coinIds = coinIds;
+        pckt.previousHeight = previousHeight;
+        pckt.headerHash = this._stateHeaderHash(previousHeight, headerHash);
+        if(pckt.headerHash.length === 0) {
+            return this._fail(new InvalidArgumentError("Invalid header hash."), null);
+        }
+        pckt.subscribe = subscribe;
+
+        const msgToSend: Buffer = makeMsg(
+            ProtocolMessageTypes.request_coin_state,
+            pckt,
+        );
+
+        let respPckt: RespondCoinState = new RespondCoinState();
+        let rejectReason: Optional<string> = null;
+        const replied: boolean = await this._request({
+            messageToSend: msgToSend,
+            consumeMessage: (msg: Message) => {
+                const type: number = BigNumber.from(msg.type).toNumber();
+                if(type === ProtocolMessageTypes.reject_coin_state) {
+                    const rPckt: RejectCoinState = Serializer.deserialize(RejectCoinState, msg.data);
+                    const reason: number = BigNumber.from(rPckt.reason).toNumber();
+                    rejectReason = RejectStateReason[reason] ?? reason.toString();
+                    return true;
+                }
+                if(type !== ProtocolMessageTypes.respond_coin_state) {
+                    return false;
+                }
+
+                const rPckt: RespondCoinState = Serializer.deserialize(RespondCoinState, msg.data);
+                if(!rPckt.coinIds.every((coinId) => coinIds.includes(coinId))) {
+                    return false;
+                }
+
+                respPckt = rPckt;
+                return true;
+            },
+        });
+
+        if(rejectReason !== null) {
+            return this._fail(new RequestRejectedError("request_coin_state", rejectReason), null);
+        }
+        if(!replied) {
+            return null;
+        }
+
+        return respPckt.coinStates;
+    }
+
+    // the node checks that headerHash is the hash of the block at previousHeight (the genesis challenge if it's null)
+    // returns "" if headerHash is invalid or missing
+    private _stateHeaderHash(previousHeight: Optional<number>, headerHash: string | undefined): string {
+        if(headerHash === undefined) {
+            return previousHeight === null ? new NetworkUtil().getGenesisChallenge(this.network) : "";
+        }
+
+        return addressUtil.validateHashString(headerHash);
     }
 
     private _doesNotImplementError(): any {
-        throw new Error("LeafletProvider does not implement this method.");
+        throw new MethodNotSupportedError("LeafletProvider");
     }
 
     public getAddress(): Promise<string> {
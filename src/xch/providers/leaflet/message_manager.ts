@@ -3,115 +3,226 @@ import { Serializer } from "../../../util/serializer/serializer";
 import { Message } from "../../../util/serializer/types/outbound_message";
 import { ProtocolMessageTypes } from "../../../util/serializer/types/protocol_message_types";
 import { IChiaMessageChannel } from "./chia_message_channel";
-
-const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+import { ProviderConnectionError, ProviderTimeoutError } from "../provider_errors";
 
 export type MessageFilter = {
     messageToSend?: Buffer,
     consumeMessage: (msg: Message) => boolean,
     deleteAfterFirstMessageConsumed?: boolean,
-    expectedMaxRensponseWait?: number // in ms (1 second = 1000ms)
+    expectedMaxRensponseWait?: number // in ms (1 second = 1000ms); 0 = wait forever
 };
 
 type _MessageFilterInternalStruct = {
+    source?: MessageFilter,
+    messageId: number | null, // assigned to messageToSend; replies that echo it are only given to this filter
     filter: {
         messageToSend?: Buffer,
         consumeMessage: (msg: Message) => boolean,
         deleteAfterFirstMessageConsumed: boolean,
         expectedMaxRensponseWait: number
     },
-    lastMessageReceived: number,
+    // requests (deleteAfterFirstMessageConsumed = true) are rejected when it fires
+    // for other filters, it restarts the connection if no message was consumed in time
+    timer: ReturnType<typeof setTimeout> | null,
     resolvePromise: (value: unknown) => void,
+    rejectPromise: (reason: Error) => void,
 }
 
 export class MessageManager {
     public open: boolean = false;
-    private _createMessageChannel: (handleMessage: (rawMsg: Buffer) => void) => Promise<IChiaMessageChannel>;
-    private _msgChannel: IChiaMessageChannel;
+    private _createMessageChannel: (
+        handleMessage: (rawMsg: Buffer) => void,
+        handleClose: () => void
+    ) => Promise<IChiaMessageChannel>;
+    private _msgChannel: IChiaMessageChannel | null = null;
     private _canSendMessage: boolean = false;
-    private _controller: Promise<void>;
+    private _connecting: boolean = false;
+    private _reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private _reconnectAttempts: number = 0;
     private _filters: _MessageFilterInternalStruct[] = [];
-    private _timeout: number;
-    private _controllerSleepBetweenChecks: number;
-    private _skipTimeoutWait: boolean = false;
+    private _reconnectDelay: number;
+    private _maxReconnectDelay: number;
+    private _nextMessageId: number = 0;
+    private _keepAliveRegistered: boolean = false;
 
     constructor(
-        createMessageChannel: (handleMessage: (rawMsg: Buffer) => void) => Promise<IChiaMessageChannel>,
-        timeout: number = 500,
-        controllerSleepBetweenChecks: number = 1000
+        createMessageChannel: (
+            handleMessage: (rawMsg: Buffer) => void,
+            handleClose: () => void
+        ) => Promise<IChiaMessageChannel>,
+        reconnectDelay: number = 500,
+        maxReconnectDelay: number = 30 * 1000
     ) {
         this._createMessageChannel = createMessageChannel;
-        this._timeout = timeout;
-        this._controllerSleepBetweenChecks = controllerSleepBetweenChecks;
+        this._reconnectDelay = reconnectDelay;
+        this._maxReconnectDelay = maxReconnectDelay;
     }
 
     public async initialize() {
         // push a filter that listens for 'new peak wallet' packets
-        const filter = {
-            messageToSend: undefined,
-            consumeMessage: (msg: Message) =>
-                BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.new_peak_wallet ||
-                BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.handshake,
-            deleteAfterFirstMessageConsumed: false,
-            expectedMaxRensponseWait: 60 * 1000,
-        };
-
-        this._filters.push({
-            filter: filter,
-            lastMessageReceived: 0, // setting this to 0 will initialize the messageChannel
-            // eslint-disable-next-line @typescript-eslint/no-empty-function
-            resolvePromise: () => {},
-        });
+        // nodes send a new peak every few seconds - the connection is restarted if they stop
+        // close() keeps it, so it's only pushed by the first call
+        if(!this._keepAliveRegistered) {
+            const filter = {
+                messageToSend: undefined,
+                consumeMessage: (msg: Message) =>
+                    BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.new_peak_wallet ||
+                    BigNumber.from(msg.type).toNumber() === ProtocolMessageTypes.handshake,
+                deleteAfterFirstMessageConsumed: false,
+                expectedMaxRensponseWait: 60 * 1000,
+            };
 
-        // initialize other things
+            this._filters.push({
+                filter: filter,
+                messageId: null,
+                timer: null,
+                resolvePromise: () => null,
+                rejectPromise: () => null,
+            });
+            this._keepAliveRegistered = true;
+        }
+
+        // the first connection attempt is made right away
         this._canSendMessage = false;
-        this._skipTimeoutWait = true;
+        this._reconnectAttempts = 0;
         this.open = true;
-        this._controller = this._controllerFunction();
+        this._connect();
     }
 
     public async close() {
         this.open = false;
-        await this._controller;
+        this._canSendMessage = false;
+
+        if(this._reconnectTimer !== null) {
+            clearTimeout(this._reconnectTimer);
+            this._reconnectTimer = null;
+        }
+        this._closeChannel();
+
+        // requests will not be answered anymore; other filters are kept for the next initialize()
+        for(let i = 0; i < this._filters.length; ++i) {
+            this._clearTimer(this._filters[i]);
+
+            if(this._filters[i].filter.deleteAfterFirstMessageConsumed) {
+                this._filters[i].rejectPromise(new ProviderConnectionError("MessageManager was closed."));
+                this._filters.splice(i, 1);
+                i--;
+            }
+        }
     }
 
-    public async registerFilter({
-        messageToSend,
-        consumeMessage,
-        deleteAfterFirstMessageConsumed = true,
-        expectedMaxRensponseWait = 4200
-    }: MessageFilter) {
-        return new Promise(resolve => {
-            const timestamp: number = new Date().getTime();
+    // resolves with the first consumed message
+    // requests are rejected if no reply is consumed within expectedMaxRensponseWait
+    public async registerFilter(source: MessageFilter) {
+        const {
+            consumeMessage,
+            deleteAfterFirstMessageConsumed = true,
+            expectedMaxRensponseWait = 4200
+        } = source;
+        let messageToSend = source.messageToSend;
+
+        let messageId: number | null = null;
+        if(messageToSend !== undefined) {
+            messageId = this._getNextMessageId();
+            messageToSend = this._setMessageId(messageToSend, messageId);
+        }
+
+        return new Promise((resolve, reject) => {
             const filterToPush: _MessageFilterInternalStruct = {
+                source,
+                messageId,
                 filter: {messageToSend, consumeMessage, deleteAfterFirstMessageConsumed, expectedMaxRensponseWait},
-                lastMessageReceived: timestamp,
-                resolvePromise: resolve
+                timer: null,
+                resolvePromise: resolve,
+                rejectPromise: reject,
             };
             this._filters.push(filterToPush);
-            
-            if(messageToSend != null && this._canSendMessage) {
-                this._msgChannel.sendMessage(messageToSend);
+            this._startTimer(filterToPush);
+
+            if(messageToSend !== undefined) {
+                this._sendMessage(messageToSend);
             }
         });
     }
 
+    // the filter will not be re-sent on reconnect and its promise resolves with null
+    public removeFilter(source: MessageFilter): void {
+        for(let i = 0; i < this._filters.length; ++i) {
+            if(this._filters[i].source !== source) {
+                continue;
+            }
+
+            this._clearTimer(this._filters[i]);
+            this._filters[i].resolvePromise(null);
+            this._filters.splice(i, 1);
+            i--;
+        }
+    }
+
+    // used to re-query data (e.g., after a reorg); filters are re-sent on reconnect anyway
+    public resendFilter(source: MessageFilter): void {
+        for(let i = 0; i < this._filters.length; ++i) {
+            const messageToSend = this._filters[i].filter.messageToSend;
+            if(this._filters[i].source === source && messageToSend !== undefined) {
+                this._sendMessage(messageToSend);
+            }
+        }
+    }
+
+    // message ids are uint16 values; ids of registered filters are skipped
+    private _getNextMessageId(): number {
+        const usedIds: Array<number | null> = this._filters.map((f) => f.messageId);
+        for(let tries = 0; tries < 65536; ++tries) {
+            const id: number = this._nextMessageId;
+            this._nextMessageId = (this._nextMessageId + 1) % 65536;
+
+            if(!usedIds.includes(id)) {
+                return id;
+            }
+        }
+
+        throw new Error("No message ids available.");
+    }
+
+    private _setMessageId(rawMsg: Buffer, id: number): Buffer {
+        const msg: Message = Serializer.deserialize(Message, rawMsg);
+        msg.id = id;
+
+        return Serializer.serialize(msg);
+    }
+
     private _handleMessage(this: any, rawMsg: Buffer) {
         const msg: Message = Serializer.deserialize(Message, rawMsg);
-        
-        for(let i = 0; i < this._filters.length; ++i) {
-            const filter = this._filters[i].filter;
+
+        // replies that echo a message id only go to the filter that sent the request
+        // messages without an id (or with an unknown one) are matched using the filters' predicates
+        const msgId: number | null = msg.id === null ? null : BigNumber.from(msg.id).toNumber();
+        const idMatched: boolean = msgId !== null && this._filters.some(
+            (f: _MessageFilterInternalStruct) => f.messageId === msgId
+        );
+
+        // consumeMessage may call subscription callbacks that add or remove filters
+        const filters: _MessageFilterInternalStruct[] = [...this._filters];
+        for(const f of filters) {
+            if((idMatched && f.messageId !== msgId) || !this._filters.includes(f)) {
+                continue;
+            }
+
+            const filter = f.filter;
             try {
                 if(filter.consumeMessage(msg)) {
-                    const timestamp: number = new Date().getTime();
-                    this._filters[i].lastMessageReceived = timestamp;
-                    this._filters[i].resolvePromise(msg);
-                    // eslint-disable-next-line @typescript-eslint/no-empty-function
-                    this._filters[i].resolvePromise = () => { };
+                    f.resolvePromise(msg);
+                    f.resolvePromise = () => null;
+                    f.rejectPromise = () => null;
 
+                    const index: number = this._filters.indexOf(f);
                     if(filter.deleteAfterFirstMessageConsumed) {
-                        this._filters.splice(i, 1);
-                        i--;
+                        this._clearTimer(f);
+                        if(index !== -1) {
+                            this._filters.splice(index, 1);
+                        }
+                    } else if(index !== -1) {
+                        this._startTimer(f);
                     }
                 }
             } catch(_: any) {
@@ -120,49 +231,128 @@ export class MessageManager {
         }
     }
 
-    private async _controllerFunction(): Promise<void> {
-        while(this.open) {
-            const timestamp: number = new Date().getTime();
-            let restart: boolean = !this._canSendMessage || !this._msgChannel.isConnected();
-            
-            for(let i = 0; i < this._filters.length && !restart; ++i) {
-                const filter = this._filters[i].filter;
-                if(
-                    filter.expectedMaxRensponseWait !== 0 &&
-                    this._filters[i].lastMessageReceived + filter.expectedMaxRensponseWait < timestamp
-                ) {
-                    restart = true;
-                }
+    private _sendMessage(rawMsg: Buffer): void {
+        if(!this._canSendMessage || this._msgChannel === null) {
+            return; // sent when the channel (re)connects
+        }
 
-            }
-            
-            if(restart) {
-                this._canSendMessage = false;
-
-                if(this._skipTimeoutWait) {
-                    this._skipTimeoutWait = false;
-                } else {
-                    await sleep(this._timeout);
-                }
+        if(!this._msgChannel.isConnected()) {
+            this._restart();
+            return;
+        }
 
-                this._msgChannel = await this._createMessageChannel(
-                    (msg: Buffer) => this._handleMessage(msg)
-                );
-                await this._msgChannel.connect();
-                this._canSendMessage = this._msgChannel.isConnected();
-                
-                for(let i = 0; i < this._filters.length && this._canSendMessage; ++i) {
-                    const filter: MessageFilter = this._filters[i].filter;
-                    this._filters[i].lastMessageReceived = new Date().getTime();
-                    if(filter.messageToSend !== undefined) {
-                        this._msgChannel.sendMessage(filter.messageToSend);
-                    }
-                }
-            } else {
-                await sleep(this._controllerSleepBetweenChecks);
+        this._msgChannel.sendMessage(rawMsg);
+    }
+
+    private _startTimer(filter: _MessageFilterInternalStruct): void {
+        this._clearTimer(filter);
+        if(filter.filter.expectedMaxRensponseWait === 0) {
+            return;
+        }
+
+        filter.timer = setTimeout(
+            () => this._handleTimeout(filter),
+            filter.filter.expectedMaxRensponseWait
+        );
+    }
+
+    private _clearTimer(filter: _MessageFilterInternalStruct): void {
+        if(filter.timer !== null) {
+            clearTimeout(filter.timer);
+            filter.timer = null;
+        }
+    }
+
+    private _handleTimeout(filter: _MessageFilterInternalStruct): void {
+        filter.timer = null;
+
+        if(!filter.filter.deleteAfterFirstMessageConsumed) {
+            // the connection went quiet
+            this._restart();
+            return;
+        }
+
+        const index: number = this._filters.indexOf(filter);
+        if(index !== -1) {
+            this._filters.splice(index, 1);
+            filter.rejectPromise(new ProviderTimeoutError());
+        }
+    }
+
+    private async _connect(): Promise<void> {
+        this._connecting = true;
+        this._canSendMessage = false;
+        this._closeChannel();
+
+        let channel: IChiaMessageChannel | null = null;
+        try {
+            channel = await this._createMessageChannel(
+                (msg: Buffer) => this._handleMessage(msg),
+                () => this._handleClose(channel)
+            );
+            this._msgChannel = channel;
+            await channel.connect();
+        } catch(_: any) {
+            // treated like any other failed connection attempt
+        }
+        this._connecting = false;
+
+        if(!this.open) {
+            channel?.close();
+            return;
+        }
+        if(channel === null || !channel.isConnected()) {
+            this._scheduleReconnect();
+            return;
+        }
+
+        this._canSendMessage = true;
+        this._reconnectAttempts = 0;
+        for(let i = 0; i < this._filters.length && this._canSendMessage; ++i) {
+            const filter = this._filters[i];
+            // request timeouts keep running; other filters get a fresh 'quiet' timer
+            if(!filter.filter.deleteAfterFirstMessageConsumed) {
+                this._startTimer(filter);
+            }
+            if(filter.filter.messageToSend !== undefined) {
+                channel.sendMessage(filter.filter.messageToSend);
             }
         }
+    }
+
+    private _closeChannel(): void {
+        const channel = this._msgChannel;
+        this._msgChannel = null;
+        channel?.close();
+    }
+
+    private _handleClose(channel: IChiaMessageChannel | null): void {
+        if(channel === this._msgChannel) {
+            this._restart();
+        }
+    }
+
+    private _restart(): void {
+        this._canSendMessage = false;
+        this._closeChannel();
+        this._scheduleReconnect();
+    }
+
+    // exponential backoff with jitter, so clients that lost the same node don't all reconnect at once
+    private _scheduleReconnect(): void {
+        if(!this.open || this._connecting || this._reconnectTimer !== null) {
+            return;
+        }
+
+        const delay: number = Math.min(
+            this._maxReconnectDelay,
+            this._reconnectDelay * Math.pow(2, this._reconnectAttempts)
+        );
+        this._reconnectAttempts += 1;
 
-        this._msgChannel.close();
+        this._reconnectTimer = setTimeout(() => {
+            this._reconnectTimer = null;
+            this._connect();
+        }, delay / 2 + Math.random() * delay / 2);
     }
 }
\ No newline at end of file
@@ -0,0 +1,2 @@
+export { MiddlewareProvider, ProviderCallContext, ProviderMiddleware, withMiddleware } from "./middleware_provider";
+export { retry, RetryOptions, rateLimit, RateLimitOptions, log, metrics, MethodMetrics, ProviderMetrics } from "./middlewares";
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { Network } from "../../../util/network";
+import { SpendBundle } from "../../../util/serializer/types/spend_bundle";
+import { Provider } from "../provider";
+import { ProviderEventEmitter } from "../provider_events";
+import { getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, transferArgs, transferCATArgs, acceptOfferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
+import { Optional, PuzzleSolution, CoinState, BlockHeader, Coin, Subscription, ProviderCapabilities } from "../provider_types";
+
+// result, error and latency (in ms) are set after the wrapped provider was called
+// middlewares may change them after next() returns - e.g., clear 'error' to recover
+export type ProviderCallContext = {
+    method: string,
+    args: any[],
+    result?: any,
+    error?: any,
+    latency?: number,
+};
+
+export type ProviderMiddleware = (context: ProviderCallContext, next: () => Promise<void>) => Promise<void>;
+
+// passes async calls through a chain of middlewares; the first middleware is the outermost one
+// sync methods (getNetworkId, isConnected, capabilities and the subscribe* methods) are not intercepted
+export class MiddlewareProvider implements Provider {
+    public provider: Provider;
+    public middlewares: ProviderMiddleware[];
+    public events: ProviderEventEmitter;
+
+    constructor(provider: Provider, middlewares: ProviderMiddleware[] = []) {
+        this.provider = provider;
+        this.middlewares = middlewares;
+        this.events = provider.events;
+    }
+
+    private async _call(method: string, args: any[], call: () => Promise<any>): Promise<any> {
+        const context: ProviderCallContext = { method, args };
+
+        const dispatch = async (index: number): Promise<void> => {
+            if(index < this.middlewares.length) {
+                return this.middlewares[index](context, () => dispatch(index + 1));
+            }
+
+            // next() may be called more than once (e.g., retries)
+            context.result = undefined;
+            context.error = undefined;
+
+            const startTime: number = Date.now();
+            try {
+                context.result = await call();
+            } catch(e) {
+                context.error = e;
+            }
+            context.latency = Date.now() - startTime;
+        };
+
+        await dispatch(0);
+        if(context.error !== undefined) {
+            throw context.error;
+        }
+
+        return context.result;
+    }
+
+    public async connect(): Promise<void> { return this._call("connect", [], () => this.provider.connect()); }
+    public async close(): Promise<void> { return this._call("close", [], () => this.provider.close()); }
+    public getNetworkId(): Network { return this.provider.getNetworkId(); }
+    public isConnected(): boolean { return this.provider.isConnected(); }
+    public capabilities(): ProviderCapabilities { return this.provider.capabilities(); }
+
+    public async getBlockNumber(): Promise<Optional<number>> {
+        return this._call("getBlockNumber", [], () => this.provider.getBlockNumber());
+    }
+
+    public async getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> {
+        return this._call("getBalance", [args], () => this.provider.getBalance(args));
+    }
+
+    public async getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> {
+        return this._call("getUnspentCoins", [args], () => this.provider.getUnspentCoins(args));
+    }
+
+    public async getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>> {
+        return this._call("getCoinRecord", [args], () => this.provider.getCoinRecord(args));
+    }
+
+    public async getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]> {
+        return this._call("getCoinRecords", [args], () => this.provider.getCoinRecords(args));
+    }
+
+    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription {
+        return this.provider.subscribeToPuzzleHashUpdates(args);
+    }
+
+    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription {
+        return this.provider.subscribeToCoinUpdates(args);
+    }
+
+    public async getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> {
+        return this._call("getPuzzleSolution", [args], () => this.provider.getPuzzleSolution(args));
+    }
+
+    public async getCoinChildren(args: getCoinChildrenArgs): Promise<CoinState[]> {
+        return this._call("getCoinChildren", [args], () => this.provider.getCoinChildren(args));
+    }
+
+    public async getBlockHeader(args: getBlockHeaderArgs): Promise<Optional<BlockHeader>> {
+        return this._call("getBlockHeader", [args], () => this.provider.getBlockHeader(args));
+    }
+
+    public async getBlocksHeaders(args: getBlocksHeadersArgs): Promise<Optional<BlockHeader[]>> {
+        return this._call("getBlocksHeaders", [args], () => this.provider.getBlocksHeaders(args));
+    }
+
+    public async getCoinRemovals(args: getCoinRemovalsArgs): Promise<Optional<Coin[]>> {
+        return this._call("getCoinRemovals", [args], () => this.provider.getCoinRemovals(args));
+    }
+
+    public async getCoinAdditions(args: getCoinAdditionsArgs): Promise<Optional<Coin[]>> {
+        return this._call("getCoinAdditions", [args], () => this.provider.getCoinAdditions(args));
+    }
+
+    public async pushSpendBundle(args: pushSpendBundleArgs): Promise<boolean> {
+        return this._call("pushSpendBundle", [args], () => this.provider.pushSpendBundle(args));
+    }
+
+    public async getAddress(): Promise<string> {
+        return this._call("getAddress", [], () => this.provider.getAddress());
+    }
+
+    public async transfer(args: transferArgs): Promise<Optional<SpendBundle>> {
+        return this._call("transfer", [args], () => this.provider.transfer(args));
+    }
+
+    public async transferCAT(args: transferCATArgs): Promise<Optional<SpendBundle>> {
+        return this._call("transferCAT", [args], () => this.provider.transferCAT(args));
+    }
+
+    public async acceptOffer(args: acceptOfferArgs): Promise<Optional<SpendBundle>> {
+        return this._call("acceptOffer", [args], () => this.provider.acceptOffer(args));
+    }
+
+    public subscribeToAddressChanges(args: subscribeToAddressChangesArgs): void {
+        return this.provider.subscribeToAddressChanges(args);
+    }
+
+    public async signCoinSpends(args: signCoinSpendsArgs): Promise<Optional<SpendBundle>> {
+        return this._call("signCoinSpends", [args], () => this.provider.signCoinSpends(args));
+    }
+
+    public async changeNetwork(args: changeNetworkArgs): Promise<boolean> {
+        return this._call("changeNetwork", [args], () => this.provider.changeNetwork(args));
+    }
+}
+
+export function withMiddleware(provider: Provider, middlewares: ProviderMiddleware[]): MiddlewareProvider {
+    return new MiddlewareProvider(provider, middlewares);
+}
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { ProviderConnectionError, ProviderTimeoutError } from "../provider_errors";
+import { ProviderCallContext, ProviderMiddleware } from "./middleware_provider";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export type RetryOptions = {
+    retries?: number,
+    delay?: number,
+    shouldRetry?: (context: ProviderCallContext) => boolean,
+};
+
+// calling these again can't spend coins twice or ask the user for another approval
+const READ_METHODS: string[] = [
+    "getBlockNumber", "getBalance", "getUnspentCoins", "getCoinRecord", "getCoinRecords",
+    "getPuzzleSolution", "getCoinChildren", "getBlockHeader", "getBlocksHeaders", "getCoinRemovals", "getCoinAdditions",
+];
+
+const _isTransientReadError = (context: ProviderCallContext): boolean => READ_METHODS.includes(context.method) &&
+    (context.error instanceof ProviderTimeoutError || context.error instanceof ProviderConnectionError);
+
+// calls the provider again after thrown errors, waiting delay * 2^attempt ms between tries
+// by default, only read methods that timed out or lost their connection are retried
+export function retry({
+    retries = 2,
+    delay = 500,
+    shouldRetry = _isTransientReadError,
+}: RetryOptions = {}): ProviderMiddleware {
+    return async (context, next) => {
+        await next();
+
+        for(let attempt = 0; attempt < retries && shouldRetry(context); ++attempt) {
+            await sleep(delay * 2 ** attempt);
+            await next();
+        }
+    };
+}
+
+export type RateLimitOptions = {
+    requestsPerSecond?: number,
+};
+
+// spaces out calls so that at most requestsPerSecond calls start each second
+export function rateLimit({ requestsPerSecond = 10 }: RateLimitOptions = {}): ProviderMiddleware {
+    const interval: number = 1000 / requestsPerSecond;
+    let nextSlot: number = 0;
+
+    return async (context, next) => {
+        const now: number = Date.now();
+        const wait: number = Math.max(0, nextSlot - now);
+        nextSlot = Math.max(now, nextSlot) + interval;
+
+        if(wait > 0) {
+            await sleep(wait);
+        }
+        await next();
+    };
+}
+
+export function log(logger: (message: string) => void = console.log): ProviderMiddleware {
+    return async (context, next) => {
+        await next();
+
+        if(context.error !== undefined) {
+            logger(`${context.method} failed after ${context.latency}ms: ${context.error?.message ?? context.error}`);
+        } else {
+            logger(`${context.method} took ${context.latency}ms`);
+        }
+    };
+}
+
+export type MethodMetrics = {
+    calls: number,
+    errors: number,
+    nullResults: number,
+    totalLatency: number,
+};
+
+// collects per-method call counts and latencies; pass the same instance to metrics() and read it later
+export class ProviderMetrics {
+    private methods: Map<string, MethodMetrics> = new Map();
+
+    public record(context: ProviderCallContext): void {
+        const metrics: MethodMetrics = this.methods.get(context.method) ?? {
+            calls: 0, errors: 0, nullResults: 0, totalLatency: 0
+        };
+
+        metrics.calls += 1;
+        metrics.totalLatency += context.latency ?? 0;
+        if(context.error !== undefined) {
+            metrics.errors += 1;
+        } else if(context.result === null) {
+            metrics.nullResults += 1;
+        }
+
+        this.methods.set(context.method, metrics);
+    }
+
+    public get(method: string): MethodMetrics {
+        return { ...(this.methods.get(method) ?? { calls: 0, errors: 0, nullResults: 0, totalLatency: 0 }) };
+    }
+
+    public getMethods(): string[] {
+        return Array.from(this.methods.keys());
+    }
+
+    public reset(): void {
+        this.methods.clear();
+    }
+}
+
+export function metrics(collector: ProviderMetrics): ProviderMiddleware {
+    return async (context, next) => {
+        await next();
+
+        collector.record(context);
+    };
+}
\ No newline at end of file
@@ -1 +1 @@
-export { MultiProvider } from "./multi_provider";
\ No newline at end of file
+export { MultiProvider, MultiProviderStrategy, MultiProviderOptions, MultiProviderDisagreement, ProviderHealth } from "./multi_provider";
\ No newline at end of file
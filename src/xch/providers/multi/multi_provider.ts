@@ -2,14 +2,67 @@ import { BigNumber } from "@ethersproject/bignumber";
 import { Network } from "../../../util/network";
 import { SpendBundle } from "../../../util/serializer/types/spend_bundle";
 import { Provider } from "../provider";
-import { getBalanceArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, transferArgs, transferCATArgs, acceptOfferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
-import { Optional, PuzzleSolution, CoinState, BlockHeader, Coin } from "../provider_types";
+import { ProviderEventEmitter } from "../provider_events";
+import { getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, transferArgs, transferCATArgs, acceptOfferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
+import { Optional, PuzzleSolution, CoinState, BlockHeader, Coin, Subscription, ProviderCapabilities, ProviderFeature, ProviderMethod, PROVIDER_METHODS } from "../provider_types";
+import { MethodNotSupportedError, ProviderError } from "../provider_errors";
+import { Util } from "../../../util";
+
+// fallback: use the first connected provider that doesn't throw (in the given order)
+// race: query all connected providers and use the first non-null result
+// round-robin: like fallback, but each call starts with the next provider; unhealthy providers are tried last
+export type MultiProviderStrategy = "fallback" | "race" | "round-robin";
+
+export type ProviderHealth = {
+    score: number, // between 0 and 1; moves towards 0 with each failure and towards 1 with each success
+    latency: number, // moving average of successful calls, in ms
+    successes: number,
+    failures: number,
+};
+
+export type MultiProviderDisagreement = {
+    method: string,
+    results: Array<{ provider: Provider, result: any }>,
+};
+
+export type MultiProviderOptions = {
+    strategy?: MultiProviderStrategy, // only used for read methods
+    // getBalance, getUnspentCoins, getCoinRecord(s), getCoinChildren and getPuzzleSolution query all connected providers
+    // and only return a result if at least this many providers agree on it
+    quorum?: number,
+    onDisagreement?: (disagreement: MultiProviderDisagreement) => void,
+};
+
+const _coinStatesKey = (coinStates: CoinState[]): string => coinStates.map(
+    (cs) => [Util.coin.getId(cs.coin), cs.createdHeight, cs.spentHeight].join(":")
+).sort().join(",");
+
+const HEALTH_SMOOTHING_FACTOR = 0.2;
+const MIN_HEALTHY_SCORE = 0.5;
 
 export class MultiProvider implements Provider {
     public providers: Provider[] = [];
-
-    constructor(providers: Provider[]) {
+    public events: ProviderEventEmitter = new ProviderEventEmitter();
+    public strategy: MultiProviderStrategy;
+    public quorum: number;
+
+    private onDisagreement?: (disagreement: MultiProviderDisagreement) => void;
+    private health: Map<Provider, ProviderHealth> = new Map();
+    private nextProviderIndex: number = 0;
+
+    constructor(
+        providers: Provider[],
+        { strategy = "fallback", quorum = 1, onDisagreement }: MultiProviderOptions = {}
+    ) {
         this.providers = providers;
+        this.strategy = strategy;
+        this.quorum = quorum;
+        this.onDisagreement = onDisagreement;
+
+        // events from all providers are re-emitted
+        for(let i = 0; i < this.providers.length; ++i) {
+            this.providers[i].events.pipe(this.events);
+        }
     }
 
     public async connect(): Promise<void> {
@@ -38,324 +91,522 @@ export class MultiProvider implements Provider {
         }
     }
 
-    private _doesNotImplementError(): any {
-        throw new Error("MultiProvider could not find an active Provider that implements this method.");
+    // errors that are more specific (e.g., thrown by providers in strict mode) are re-thrown
+    private _doesNotImplementError(lastError: any = null): any {
+        if(lastError instanceof ProviderError && !(lastError instanceof MethodNotSupportedError)) {
+            throw lastError;
+        }
+
+        throw new MethodNotSupportedError(
+            "MultiProvider", "MultiProvider could not find an active Provider that implements this method."
+        );
     }
 
-    public getNetworkId(): Network {
-        for(let i = 0; i < this.providers.length; ++i) {
-            try {
-                if(!this.providers[i].isConnected()) {
-                    continue;
-                }
+    public getHealth(provider: Provider): ProviderHealth {
+        return this.health.get(provider) ?? {
+            score: 1,
+            latency: 0,
+            successes: 0,
+            failures: 0,
+        };
+    }
 
-                return this.providers[i].getNetworkId();
-            } catch (_) {
-                continue;
-            }
+    // latency is null if the call failed
+    private _recordHealth(provider: Provider, latency: number | null): void {
+        const health: ProviderHealth = { ...this.getHealth(provider) };
+        const success: boolean = latency !== null;
+
+        health.score = health.score * (1 - HEALTH_SMOOTHING_FACTOR) + (success ? HEALTH_SMOOTHING_FACTOR : 0);
+        if(latency !== null) {
+            health.latency = health.successes === 0 ? latency :
+                health.latency * (1 - HEALTH_SMOOTHING_FACTOR) + latency * HEALTH_SMOOTHING_FACTOR;
+            health.successes += 1;
+        } else {
+            health.failures += 1;
         }
 
-        return this._doesNotImplementError();
+        this.health.set(provider, health);
     }
 
-    public isConnected(): boolean {
-        for (let i = 0; i < this.providers.length; ++i) {
+    private async _call<T>(provider: Provider, call: (provider: Provider) => Promise<T>): Promise<T> {
+        const startTime: number = new Date().getTime();
+        try {
+            const result: T = await call(provider);
+            this._recordHealth(provider, new Date().getTime() - startTime);
+
+            return result;
+        } catch(e) {
+            this._recordHealth(provider, null);
+            throw e;
+        }
+    }
+
+    // providers that can't describe their capabilities are assumed to implement all methods
+    private _supports(provider: Provider, method: ProviderMethod): boolean {
+        try {
+            return provider.capabilities().methods.includes(method);
+        } catch(_) {
+            return true;
+        }
+    }
+
+    private _connectedProviders(method: ProviderMethod): Provider[] {
+        return this.providers.filter((provider) => {
             try {
-                if(this.providers[i].isConnected())
-                    return true;
+                return provider.isConnected() && this._supports(provider, method);
             } catch(_) {
-                continue;
+                return false;
             }
+        });
+    }
+
+    private async _read<T>(method: ProviderMethod, call: (provider: Provider) => Promise<T>): Promise<T> {
+        if(this.strategy === "race") {
+            return this._race(method, call);
         }
 
-        return false;
-    }
+        let providers: Provider[] = this.providers;
+        if(this.strategy === "round-robin" && providers.length > 0) {
+            const start: number = this.nextProviderIndex % providers.length;
+            this.nextProviderIndex = start + 1;
 
-    public async getBlockNumber(): Promise<Optional<number>> {
-        for(let i = 0; i < this.providers.length; ++i) {
+            providers = [...providers.slice(start), ...providers.slice(0, start)];
+            providers = [
+                ...providers.filter((p) => this.getHealth(p).score >= MIN_HEALTHY_SCORE),
+                ...providers.filter((p) => this.getHealth(p).score < MIN_HEALTHY_SCORE),
+            ];
+        }
+
+        let lastError: any = null;
+        for(let i = 0; i < providers.length; ++i) {
             try {
-                if(!this.providers[i].isConnected()) {
+                if(!providers[i].isConnected() || !this._supports(providers[i], method)) {
                     continue;
                 }
 
-                return await this.providers[i].getBlockNumber();
-            } catch (_) {
+                return await this._call(providers[i], call);
+            } catch (e) {
+                lastError = e;
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return this._doesNotImplementError(lastError);
     }
-    
-    public async getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> {
-        for(let i = 0; i < this.providers.length; ++i) {
-            try {
-                if(!this.providers[i].isConnected()) {
-                    continue;
+
+    // null results only win if no provider returns something else
+    private async _race<T>(method: ProviderMethod, call: (provider: Provider) => Promise<T>): Promise<T> {
+        const providers: Provider[] = this._connectedProviders(method);
+
+        return new Promise((resolve) => {
+            let pending: number = providers.length;
+            let nullResult: { value: T } | null = null;
+            let lastError: any = null;
+
+            const onSettled = () => {
+                pending -= 1;
+                if(pending <= 0) {
+                    resolve(Promise.resolve().then(
+                        () => nullResult !== null ? nullResult.value : this._doesNotImplementError(lastError)
+                    ));
                 }
+            };
 
-                return await this.providers[i].getBalance(args);
-            } catch (_) {
-                continue;
+            if(providers.length === 0) {
+                onSettled();
             }
-        }
-
-        return this._doesNotImplementError();
+            for(let i = 0; i < providers.length; ++i) {
+                this._call(providers[i], call).then((result: T) => {
+                    if(result !== null) {
+                        resolve(result);
+                    } else {
+                        nullResult = { value: result };
+                    }
+                    onSettled();
+                }, (e) => {
+                    lastError = e;
+                    onSettled();
+                });
+            }
+        });
     }
 
-    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): void {
-        for(let i = 0; i < this.providers.length; ++i) {
+    // providers that disagree with the majority are recorded as failures
+    // non-strict providers return noQuorumResult (null / []) if a call fails, so those results are not counted as votes
+    private async _quorum<T>(
+        method: ProviderMethod,
+        call: (provider: Provider) => Promise<T>,
+        resultKey: (result: T) => string,
+        noQuorumResult: T
+    ): Promise<T> {
+        const providers: Provider[] = this._connectedProviders(method);
+        const results: Array<{ provider: Provider, result: T }> = [];
+        let lastError: any = null;
+
+        await Promise.all(providers.map(async (provider) => {
             try {
-                if(!this.providers[i].isConnected()) {
-                    continue;
-                }
+                results.push({ provider, result: await this._call(provider, call) });
+            } catch(e) {
+                // the provider does not implement the method or is not working
+                lastError = e;
+            }
+        }));
+        if(results.length === 0) {
+            return this._doesNotImplementError(lastError);
+        }
 
-                return this.providers[i].subscribeToPuzzleHashUpdates(args);
-            } catch (_) {
-                continue;
+        const noDataKey: string = resultKey(noQuorumResult);
+        const votes = results.filter((result) => resultKey(result.result) !== noDataKey);
+
+        const groups: Map<string, Array<{ provider: Provider, result: T }>> = new Map();
+        for(const result of votes) {
+            const key: string = resultKey(result.result);
+            groups.set(key, [...(groups.get(key) ?? []), result]);
+        }
+
+        let majority: Array<{ provider: Provider, result: T }> = [];
+        for(const group of groups.values()) {
+            if(group.length > majority.length) {
+                majority = group;
             }
         }
 
-        return this._doesNotImplementError();
+        if(groups.size > 1) {
+            for(const result of votes) {
+                if(!majority.includes(result)) {
+                    this._recordHealth(result.provider, null);
+                }
+            }
+
+            this.onDisagreement?.({ method, results: votes });
+        }
+
+        return majority.length >= this.quorum ? majority[0].result : noQuorumResult;
     }
 
-    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): void {
+    public getNetworkId(): Network {
+        let lastError: any = null;
         for(let i = 0; i < this.providers.length; ++i) {
             try {
                 if(!this.providers[i].isConnected()) {
                     continue;
                 }
 
-                return this.providers[i].subscribeToCoinUpdates(args);
-            } catch (_) {
+                return this.providers[i].getNetworkId();
+            } catch (e) {
+                lastError = e;
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return this._doesNotImplementError(lastError);
     }
 
-    public async getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> {
-        for(let i = 0; i < this.providers.length; ++i) {
+    public isConnected(): boolean {
+        for (let i = 0; i < this.providers.length; ++i) {
             try {
-                if(!this.providers[i].isConnected()) {
-                    continue;
-                }
-
-                return await this.providers[i].getPuzzleSolution(args);
-            } catch (_) {
+                if(this.providers[i].isConnected())
+                    return true;
+            } catch(_) {
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return false;
     }
 
-    public async getCoinChildren(args: getCoinChildrenArgs): Promise<CoinState[]> {
+    // combined capabilities of all providers
+    public capabilities(): ProviderCapabilities {
+        const methods: Set<ProviderMethod> = new Set();
+        const networks: Set<Network> = new Set();
+        const features: Set<ProviderFeature> = new Set();
+
         for(let i = 0; i < this.providers.length; ++i) {
+            let capabilities: ProviderCapabilities;
             try {
-                if(!this.providers[i].isConnected()) {
-                    continue;
-                }
-
-                return await this.providers[i].getCoinChildren(args);
-            } catch (_) {
+                capabilities = this.providers[i].capabilities();
+            } catch(_) {
                 continue;
             }
+
+            capabilities.methods.forEach((method) => methods.add(method));
+            capabilities.networks.forEach((network) => networks.add(network));
+            capabilities.features.forEach((feature) => features.add(feature));
         }
 
-        return this._doesNotImplementError();
+        return {
+            methods: PROVIDER_METHODS.filter((method) => methods.has(method)),
+            networks: Array.from(networks),
+            features: Array.from(features),
+        };
     }
 
-    public async getBlockHeader(args: getBlockHeaderArgs): Promise<Optional<BlockHeader>> {
-        for(let i = 0; i < this.providers.length; ++i) {
-            try {
-                if(!this.providers[i].isConnected()) {
-                    continue;
-                }
+    public async getBlockNumber(): Promise<Optional<number>> {
+        return this._read("getBlockNumber", (provider) => provider.getBlockNumber());
+    }
+    
+    public async getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> {
+        if(this.quorum > 1) {
+            return this._quorum(
+                "getBalance",
+                (provider) => provider.getBalance(args),
+                (balance) => balance?.toString() ?? "null",
+                null
+            );
+        }
 
-                return await this.providers[i].getBlockHeader(args);
-            } catch (_) {
-                continue;
-            }
+        return this._read("getBalance", (provider) => provider.getBalance(args));
+    }
+
+    public async getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> {
+        if(this.quorum > 1) {
+            return this._quorum("getUnspentCoins", (provider) => provider.getUnspentCoins(args), _coinStatesKey, []);
         }
 
-        return this._doesNotImplementError();
+        return this._read("getUnspentCoins", (provider) => provider.getUnspentCoins(args));
     }
 
-    public async getBlocksHeaders(args: getBlocksHeadersArgs): Promise<Optional<BlockHeader[]>> {
-        for(let i = 0; i < this.providers.length; ++i) {
-            try {
-                if(!this.providers[i].isConnected()) {
-                    continue;
-                }
+    public async getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>> {
+        if(this.quorum > 1) {
+            return this._quorum(
+                "getCoinRecord",
+                (provider) => provider.getCoinRecord(args),
+                (coinState) => coinState === null ? "null" : _coinStatesKey([coinState]),
+                null
+            );
+        }
 
-                return await this.providers[i].getBlocksHeaders(args);
-            } catch (_) {
-                continue;
-            }
+        return this._read("getCoinRecord", (provider) => provider.getCoinRecord(args));
+    }
+
+    public async getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]> {
+        if(this.quorum > 1) {
+            return this._quorum("getCoinRecords", (provider) => provider.getCoinRecords(args), _coinStatesKey, []);
         }
 
-        return this._doesNotImplementError();
+        return this._read("getCoinRecords", (provider) => provider.getCoinRecords(args));
     }
 
-    public async getCoinRemovals(args: getCoinRemovalsArgs): Promise<Optional<Coin[]>> {
+    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription {
+        let lastError: any = null;
         for(let i = 0; i < this.providers.length; ++i) {
             try {
-                if(!this.providers[i].isConnected()) {
+                if(!this.providers[i].isConnected() || !this._supports(this.providers[i], "subscribeToPuzzleHashUpdates")) {
                     continue;
                 }
 
-                return await this.providers[i].getCoinRemovals(args);
-            } catch (_) {
+                return this.providers[i].subscribeToPuzzleHashUpdates(args);
+            } catch (e) {
+                lastError = e;
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return this._doesNotImplementError(lastError);
     }
 
-    public async getCoinAdditions(args: getCoinAdditionsArgs): Promise<Optional<Coin[]>> {
+    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription {
+        let lastError: any = null;
         for(let i = 0; i < this.providers.length; ++i) {
             try {
-                if(!this.providers[i].isConnected()) {
+                if(!this.providers[i].isConnected() || !this._supports(this.providers[i], "subscribeToCoinUpdates")) {
                     continue;
                 }
 
-                return await this.providers[i].getCoinAdditions(args);
-            } catch (_) {
+                return this.providers[i].subscribeToCoinUpdates(args);
+            } catch (e) {
+                lastError = e;
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return this._doesNotImplementError(lastError);
+    }
+
+    public async getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> {
+        if(this.quorum > 1) {
+            return this._quorum(
+                "getPuzzleSolution",
+                (provider) => provider.getPuzzleSolution(args),
+                (puzzleSolution) => puzzleSolution === null ? "null" :
+                    Util.sexp.toHex(puzzleSolution.puzzle) + Util.sexp.toHex(puzzleSolution.solution),
+                null
+            );
+        }
+
+        return this._read("getPuzzleSolution", (provider) => provider.getPuzzleSolution(args));
+    }
+
+    public async getCoinChildren(args: getCoinChildrenArgs): Promise<CoinState[]> {
+        if(this.quorum > 1) {
+            return this._quorum(
+                "getCoinChildren",
+                (provider) => provider.getCoinChildren(args),
+                _coinStatesKey,
+                []
+            );
+        }
+
+        return this._read("getCoinChildren", (provider) => provider.getCoinChildren(args));
+    }
+
+    public async getBlockHeader(args: getBlockHeaderArgs): Promise<Optional<BlockHeader>> {
+        return this._read("getBlockHeader", (provider) => provider.getBlockHeader(args));
+    }
+
+    public async getBlocksHeaders(args: getBlocksHeadersArgs): Promise<Optional<BlockHeader[]>> {
+        return this._read("getBlocksHeaders", (provider) => provider.getBlocksHeaders(args));
+    }
+
+    public async getCoinRemovals(args: getCoinRemovalsArgs): Promise<Optional<Coin[]>> {
+        return this._read("getCoinRemovals", (provider) => provider.getCoinRemovals(args));
+    }
+
+    public async getCoinAdditions(args: getCoinAdditionsArgs): Promise<Optional<Coin[]>> {
+        return this._read("getCoinAdditions", (provider) => provider.getCoinAdditions(args));
     }
 
     public async getAddress(): Promise<string> {
+        let lastError: any = null;
         for(let i = 0; i < this.providers.length; ++i) {
             try {
-                if(!this.providers[i].isConnected()) {
+                if(!this.providers[i].isConnected() || !this._supports(this.providers[i], "getAddress")) {
                     continue;
                 }
 
                 return await this.providers[i].getAddress();
-            } catch (_) {
+            } catch (e) {
+                lastError = e;
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return this._doesNotImplementError(lastError);
     }
 
     public async pushSpendBundle(args: pushSpendBundleArgs): Promise<boolean> {
+        let lastError: any = null;
         for(let i = 0; i < this.providers.length; ++i) {
             try {
-                if(!this.providers[i].isConnected()) {
+                if(!this.providers[i].isConnected() || !this._supports(this.providers[i], "pushSpendBundle")) {
                     continue;
                 }
 
                 return await this.providers[i].pushSpendBundle(args);
-            } catch (_) {
+            } catch (e) {
+                lastError = e;
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return this._doesNotImplementError(lastError);
     }
 
     public async transfer(args: transferArgs): Promise<Optional<SpendBundle>> {
+        let lastError: any = null;
         for(let i = 0; i < this.providers.length; ++i) {
             try {
-                if(!this.providers[i].isConnected()) {
+                if(!this.providers[i].isConnected() || !this._supports(this.providers[i], "transfer")) {
                     continue;
                 }
 
                 return await this.providers[i].transfer(args);
-            } catch (_) {
+            } catch (e) {
+                lastError = e;
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return this._doesNotImplementError(lastError);
     }
 
     public async transferCAT(args: transferCATArgs): Promise<Optional<SpendBundle>> {
+        let lastError: any = null;
         for(let i = 0; i < this.providers.length; ++i) {
             try {
-                if(!this.providers[i].isConnected()) {
+                if(!this.providers[i].isConnected() || !this._supports(this.providers[i], "transferCAT")) {
                     continue;
                 }
 
                 return await this.providers[i].transferCAT(args);
-            } catch (_) {
+            } catch (e) {
+                lastError = e;
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return this._doesNotImplementError(lastError);
     }
 
     public async acceptOffer(args: acceptOfferArgs): Promise<Optional<SpendBundle>> {
+        let lastError: any = null;
         for(let i = 0; i < this.providers.length; ++i) {
             try {
-                if(!this.providers[i].isConnected()) {
+                if(!this.providers[i].isConnected() || !this._supports(this.providers[i], "acceptOffer")) {
                     continue;
                 }
 
                 return await this.providers[i].acceptOffer(args);
-            } catch (_) {
+            } catch (e) {
+                lastError = e;
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return this._doesNotImplementError(lastError);
     }
 
     public subscribeToAddressChanges(args: subscribeToAddressChangesArgs): void {
+        let lastError: any = null;
         for (let i = 0; i < this.providers.length; ++i) {
             try {
-                if(!this.providers[i].isConnected()) {
+                if(!this.providers[i].isConnected() || !this._supports(this.providers[i], "subscribeToAddressChanges")) {
                     continue;
                 }
 
                 return this.providers[i].subscribeToAddressChanges(args);
-            } catch (_) {
+            } catch (e) {
+                lastError = e;
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return this._doesNotImplementError(lastError);
     }
 
     public async signCoinSpends(args: signCoinSpendsArgs): Promise<Optional<SpendBundle>> {
+        let lastError: any = null;
         for(let i = 0; i < this.providers.length; ++i) {
             try {
-                if(!this.providers[i].isConnected()) {
+                if(!this.providers[i].isConnected() || !this._supports(this.providers[i], "signCoinSpends")) {
                     continue;
                 }
 
                 return await this.providers[i].signCoinSpends(args);
-            } catch(_) {
+            } catch(e) {
+                lastError = e;
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return this._doesNotImplementError(lastError);
     }
 
     public async changeNetwork(args: changeNetworkArgs): Promise<boolean> {
+        let lastError: any = null;
         for(let i = 0; i < this.providers.length; ++i) {
             try {
-                if(!this.providers[i].isConnected()) {
+                if(!this.providers[i].isConnected() || !this._supports(this.providers[i], "changeNetwork")) {
                     continue;
                 }
 
                 return await this.providers[i].changeNetwork(args);
-            } catch(_) {
+            } catch(e) {
+                lastError = e;
                 continue;
             }
         }
 
-        return this._doesNotImplementError();
+        return this._doesNotImplementError(lastError);
     }
 }
\ No newline at end of file
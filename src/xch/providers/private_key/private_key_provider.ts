@@ -2,13 +2,17 @@ import { BigNumber } from "@ethersproject/bignumber";
 import { getBLSModule, initialize, } from "clvm";
 import { SpendBundle } from "../../../util/serializer/types/spend_bundle";
 import { Provider } from "../provider";
-import { getBalanceArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, transferArgs, transferCATArgs, acceptOfferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
-import { Optional, PuzzleSolution, CoinState, BlockHeader, Coin, bytes } from "../provider_types";
+import { ProviderEventEmitter } from "../provider_events";
+import { getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, transferArgs, transferCATArgs, acceptOfferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
+import { Optional, PuzzleSolution, CoinState, BlockHeader, Coin, bytes, Subscription, ProviderCapabilities } from "../provider_types";
+import { MethodNotSupportedError } from "../provider_errors";
 import { Util } from "../../../util";
 import { Network } from "../../../util/network";
 import { util } from "../../..";
 
 export class PrivateKeyProvider implements Provider {
+    public events: ProviderEventEmitter = new ProviderEventEmitter();
+
     private privateKey: string;
     private connected: boolean;
     private network: Network;
@@ -29,10 +33,14 @@ export class PrivateKeyProvider implements Provider {
         await initialize();
 
         this.connected = true;
+        this.events.emit("connected");
     }
 
     public async close(): Promise<void> {
+        if(!this.connected) return;
+
         this.connected = false;
+        this.events.emit("disconnected");
     }
 
     public getNetworkId(): Network {
@@ -43,14 +51,25 @@ export class PrivateKeyProvider implements Provider {
         return this.connected;
     }
 
+    public capabilities(): ProviderCapabilities {
+        return {
+            methods: ["signCoinSpends", "changeNetwork"],
+            networks: [...Util.network.networks],
+            features: ["signing"],
+        };
+    }
+
     private _doesNotImplementError(): any {
-        throw new Error("PrivateKeyProvider does not implement this method.");
+        throw new MethodNotSupportedError("PrivateKeyProvider");
     }
 
     public async getBlockNumber(): Promise<Optional<number>> { return this._doesNotImplementError(); }
     public async getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> { return this._doesNotImplementError(); }
-    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): void { return this._doesNotImplementError(); }
-    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): void { return this._doesNotImplementError(); }
+    public async getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> { return this._doesNotImplementError(); }
+    public async getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>> { return this._doesNotImplementError(); }
+    public async getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]> { return this._doesNotImplementError(); }
+    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription { return this._doesNotImplementError(); }
+    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription { return this._doesNotImplementError(); }
     public async getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> { return this._doesNotImplementError(); }
     public async getCoinChildren(args: getCoinChildrenArgs): Promise<CoinState[]> { return this._doesNotImplementError(); }
     public async getBlockHeader(args: getBlockHeaderArgs): Promise<Optional<BlockHeader>> { return this._doesNotImplementError(); }
@@ -122,6 +141,7 @@ export class PrivateKeyProvider implements Provider {
     public async changeNetwork(args: changeNetworkArgs): Promise<boolean> {
         if(Util.network.networks.includes(args.network)) {
             this.network = args.network;
+            this.events.emit("networkChanged", args.network);
             return true;
         }
 
@@ -1,11 +1,14 @@
-import { Optional, Coin, CoinState, BlockHeader, PuzzleSolution } from "./provider_types";
-import { acceptOfferArgs, changeNetworkArgs, getBalanceArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinAdditionsArgs, getCoinChildrenArgs, getCoinRemovalsArgs, getPuzzleSolutionArgs, pushSpendBundleArgs, signCoinSpendsArgs, subscribeToAddressChangesArgs, subscribeToCoinUpdatesArgs, subscribeToPuzzleHashUpdatesArgs, transferArgs, transferCATArgs } from "./provider_args";
+import { Optional, Coin, CoinState, BlockHeader, PuzzleSolution, Subscription, ProviderCapabilities } from "./provider_types";
+import { acceptOfferArgs, changeNetworkArgs, getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinAdditionsArgs, getCoinChildrenArgs, getCoinRemovalsArgs, getPuzzleSolutionArgs, pushSpendBundleArgs, signCoinSpendsArgs, subscribeToAddressChangesArgs, subscribeToCoinUpdatesArgs, subscribeToPuzzleHashUpdatesArgs, transferArgs, transferCATArgs } from "./provider_args";
 import { BigNumber } from "@ethersproject/bignumber";
 import { SpendBundle } from "../../util/serializer/types/spend_bundle";
 import { Network } from "../../util/network";
+import { ProviderEventEmitter } from "./provider_events";
 
 export * from "./provider_types";
 export * from "./provider_args";
+export * from "./provider_events";
+export * from "./provider_errors";
 
 export interface Provider {
     /* basics */
@@ -13,14 +16,21 @@ export interface Provider {
     close(): Promise<void>;
     getNetworkId(): Network;
     isConnected(): boolean;
+    capabilities(): ProviderCapabilities;
+
+    /* events */
+    events: ProviderEventEmitter;
 
     /* blockchain-related */
     getBlockNumber(): Promise<Optional<number>>;
     getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>>;
+    getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]>;
+    getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>>;
+    getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]>;
 
     /* callbacks */
-    subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): void;
-    subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): void;
+    subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription;
+    subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription;
 
     /* advanced */
     getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>>;
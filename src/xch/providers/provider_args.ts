@@ -2,7 +2,7 @@ import { BigNumberish } from "@ethersproject/bignumber";
 import { Network } from "../../util/network";
 import { CoinSpend } from "../../util/serializer/types/coin_spend";
 import { SpendBundle } from "../../util/serializer/types/spend_bundle";
-import { CoinState } from "./provider_types";
+import { CoinState, Peak } from "./provider_types";
 
 export type getBalanceArgs = {
     address?: string,
@@ -10,16 +10,32 @@ export type getBalanceArgs = {
     minHeight?: number
 };
 
+export type getUnspentCoinsArgs = {
+    address?: string,
+    puzzleHash?: string,
+    minHeight?: number
+};
+
+export type getCoinRecordArgs = {
+    coinId: string
+};
+
+export type getCoinRecordsArgs = {
+    coinIds: string[]
+};
+
 export type subscribeToPuzzleHashUpdatesArgs = {
     puzzleHash: string,
     callback: (coin_states: CoinState[]) => void,
-    minHeight?: number
+    minHeight?: number,
+    rollbackCallback?: (forkHeight: number) => void
 };
 
 export type subscribeToCoinUpdatesArgs = {
     coinId: string,
     callback: (coin_states: CoinState[]) => void,
-    minHeight?: number
+    minHeight?: number,
+    rollbackCallback?: (forkHeight: number) => void
 };
 
 export type getPuzzleSolutionArgs = {
@@ -37,7 +53,16 @@ export type getBlockHeaderArgs = {
 
 export type getBlocksHeadersArgs = {
     startHeight: number,
-    endHeight: number
+    endHeight: number,
+    verify?: boolean, // LeafletProvider: check that the headers form a chain that connects to 'checkpoint' (or the peak)
+    checkpoint?: Peak, // a trusted block; defaults to the last peak announced by the node
+};
+
+export type iterateBlockHeadersArgs = {
+    startHeight: number,
+    endHeight: number,
+    chunkSize?: number, // blocks per getBlocksHeaders call (default: 32)
+    concurrency?: number, // max. number of getBlocksHeaders calls in flight (default: 4)
 };
 
 export type getCoinRemovalsArgs = {
@@ -84,4 +109,27 @@ export type signCoinSpendsArgs = {
 
 export type changeNetworkArgs = {
     network: Network,
+};
+
+export type getFeeEstimateArgs = {
+    cost: BigNumberish, // clvm cost of the spend bundle
+    targetTimes: number[], // seconds from now
+};
+
+export type requestPuzzleStateArgs = {
+    puzzleHashes: string[],
+    previousHeight?: number | null, // only changes after this height are returned (null returns all coin states)
+    headerHash?: string, // hash of the block at previousHeight; defaults to the genesis challenge if previousHeight is null
+    includeSpent?: boolean,
+    includeUnspent?: boolean,
+    includeHinted?: boolean,
+    minAmount?: BigNumberish,
+    subscribeWhenFinished?: boolean, // the node pushes updates (see the 'coinState' event) once the last page was sent
+};
+
+export type requestCoinStateArgs = {
+    coinIds: string[],
+    previousHeight?: number | null, // only changes after this height are returned (null returns all coin states)
+    headerHash?: string, // hash of the block at previousHeight; defaults to the genesis challenge if previousHeight is null
+    subscribe?: boolean, // the node pushes updates (see the 'coinState' event)
 };
\ No newline at end of file
@@ -0,0 +1,95 @@
+// errors thrown by providers
+// most failures are only thrown in strict mode (provider.strict = true); otherwise, methods return null / [] / false
+
+export class ProviderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+// the provider does not implement the method (always thrown)
+export class MethodNotSupportedError extends ProviderError {
+    public providerName: string;
+
+    constructor(providerName: string, message: string = `${providerName} does not implement this method.`) {
+        super(message);
+        this.providerName = providerName;
+    }
+}
+
+// no reply was received in time
+export class ProviderTimeoutError extends ProviderError {
+    constructor(message: string = "Request timed out.") {
+        super(message);
+    }
+}
+
+// the connection was closed or could not be established
+export class ProviderConnectionError extends ProviderError {}
+
+// the node / service refused to answer a request (e.g., 'reject_puzzle_solution')
+export class RequestRejectedError extends ProviderError {
+    public request: string;
+    public reason: string | null;
+
+    constructor(request: string, reason: string | null = null) {
+        super(reason === null ? `Request rejected: ${request}` : `Request rejected: ${request} (${reason})`);
+        this.request = request;
+        this.reason = reason;
+    }
+}
+
+export class InvalidArgumentError extends ProviderError {}
+
+export class InvalidAddressError extends InvalidArgumentError {
+    public address: string;
+
+    constructor(address: string) {
+        super(`Invalid address: ${address}`);
+        this.address = address;
+    }
+}
+
+// the response of the node does not match the data it should be committed to (e.g., a Merkle proof does not match the block's root)
+export class InvalidProofError extends ProviderError {}
+
+// the transaction was not accepted into the mempool
+// error is the error string from the node's TransactionAck, if any
+export class TransactionRejectedError extends ProviderError {
+    public status: number | null;
+    public error: string | null;
+
+    constructor(status: number | null, error: string | null) {
+        super(`Transaction rejected: ${error ?? `status ${status}`}`);
+        this.status = status;
+        this.error = error;
+    }
+}
+
+// the transaction was accepted into the mempool, but not included in a block (see TransactionHandle)
+export class TransactionDroppedError extends ProviderError {
+    public transactionName: string;
+
+    constructor(transactionName: string) {
+        super(`Transaction dropped: ${transactionName}`);
+        this.transactionName = transactionName;
+    }
+}
+
+// the coins removed by the transaction were spent by another transaction
+export class DoubleSpendError extends ProviderError {
+    public transactionName: string;
+
+    constructor(transactionName: string) {
+        super(`Transaction double-spent: ${transactionName}`);
+        this.transactionName = transactionName;
+    }
+}
+
+// the user declined the request in their wallet
+export class UserRejectedError extends ProviderError {
+    constructor(message: string = "User rejected the request.") {
+        super(message);
+    }
+}
\ No newline at end of file
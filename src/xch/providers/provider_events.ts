@@ -0,0 +1,124 @@
+import { Network } from "../../util/network";
+import { SpendBundle } from "../../util/serializer/types/spend_bundle";
+import { TransactionRejectedError } from "./provider_errors";
+import { CoinState, Peak, Subscription } from "./provider_types";
+
+export type ProviderEventListeners = {
+    peak: (peak: Peak) => void,
+    coinState: (coinStates: CoinState[]) => void,
+    rollback: (forkHeight: number) => void,
+    connected: () => void,
+    disconnected: () => void,
+    addressChanged: (address: string) => void,
+    networkChanged: (network: Network) => void,
+    // emitted before pushSpendBundle() returns false (or throws in strict mode), so the reason isn't lost
+    transactionRejected: (spendBundle: SpendBundle, error: TransactionRejectedError) => void,
+};
+
+export type ProviderEvent = keyof ProviderEventListeners;
+
+export const PROVIDER_EVENTS: ProviderEvent[] = [
+    "peak", "coinState", "rollback", "connected", "disconnected", "addressChanged", "networkChanged", "transactionRejected"
+];
+
+export class ProviderEventEmitter {
+    private listeners: Map<ProviderEvent, Array<(...args: any[]) => void>> = new Map();
+
+    public on<E extends ProviderEvent>(event: E, listener: ProviderEventListeners[E]): Subscription {
+        this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+
+        return {
+            unsubscribe: () => this.off(event, listener),
+        };
+    }
+
+    public off<E extends ProviderEvent>(event: E, listener: ProviderEventListeners[E]): void {
+        this.listeners.set(
+            event,
+            (this.listeners.get(event) ?? []).filter((l) => l !== listener)
+        );
+    }
+
+    public emit<E extends ProviderEvent>(event: E, ...args: Parameters<ProviderEventListeners[E]>): void {
+        // on() and off() replace the array, so listeners can safely unsubscribe while being called
+        const listeners = this.listeners.get(event) ?? [];
+
+        for(let i = 0; i < listeners.length; ++i) {
+            listeners[i](...args);
+        }
+    }
+
+    public listenerCount(event: ProviderEvent): number {
+        return this.listeners.get(event)?.length ?? 0;
+    }
+
+    // re-emits all events on the given emitter until unsubscribed
+    public pipe(destination: ProviderEventEmitter): Subscription {
+        const subscriptions: Subscription[] = PROVIDER_EVENTS.map(
+            (event) => this.on(event, (...args: any[]) => destination.emit(event, ...(args as [any])))
+        );
+
+        return {
+            unsubscribe: () => subscriptions.forEach((s) => s.unsubscribe()),
+        };
+    }
+
+    public iterate<E extends ProviderEvent>(event: E): SubscriptionIterator<Parameters<ProviderEventListeners[E]>[0]> {
+        return new SubscriptionIterator(
+            (push) => this.on(event, ((value: any) => push(value)) as ProviderEventListeners[E])
+        );
+    }
+}
+
+// turns a callback-based subscription into an async iterator
+// values are buffered until they are consumed; return() (or 'break' in a for await loop) unsubscribes
+export class SubscriptionIterator<T> implements AsyncIterableIterator<T> {
+    private values: T[] = [];
+    private waiting: Array<(result: IteratorResult<T>) => void> = [];
+    private done: boolean = false;
+    private subscription: Subscription;
+
+    constructor(subscribe: (push: (value: T) => void) => Subscription) {
+        this.subscription = subscribe((value: T) => this.push(value));
+    }
+
+    private push(value: T): void {
+        if(this.done) return;
+
+        const resolve = this.waiting.shift();
+        if(resolve !== undefined) {
+            resolve({ value, done: false });
+        } else {
+            this.values.push(value);
+        }
+    }
+
+    public async next(): Promise<IteratorResult<T>> {
+        if(this.values.length > 0) {
+            return { value: this.values.shift() as T, done: false };
+        }
+        if(this.done) {
+            return { value: undefined, done: true };
+        }
+
+        return new Promise((resolve) => this.waiting.push(resolve));
+    }
+
+    public async return(): Promise<IteratorResult<T>> {
+        if(!this.done) {
+            this.done = true;
+            this.values = [];
+            this.subscription.unsubscribe();
+
+            for(const resolve of this.waiting.splice(0)) {
+                resolve({ value: undefined, done: true });
+            }
+        }
+
+        return { value: undefined, done: true };
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return this;
+    }
+}
\ No newline at end of file
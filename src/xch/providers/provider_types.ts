@@ -1,6 +1,7 @@
-import { BigNumberish } from "@ethersproject/bignumber";
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
 import { SExp } from "clvm";
 import { Coin } from "../../util/serializer/types/coin";
+import { Network } from "../../util/network";
 
 export { Coin } from "../../util/serializer/types/coin";
 
@@ -22,6 +23,7 @@ export class BlockHeader {
     fees: Optional<uint>;
     farmerPuzzleHash: Optional<bytes>;
     poolPuzzleHash: Optional<bytes>;
+    timestamp: Optional<uint>; // transaction blocks only (FoliageTransactionBlock.timestamp)
 }
 
 export class PuzzleSolution {
@@ -29,4 +31,52 @@ export class PuzzleSolution {
     height: uint;
     puzzle: SExp;
     solution: SExp;
-}
\ No newline at end of file
+}
+
+// error is set (and feeRate / fee are null) if the node could not estimate the fee for the target time
+export class FeeEstimate {
+    targetTime: number; // seconds from now
+    feeRate: Optional<BigNumber>; // mojo per clvm cost
+    fee: Optional<BigNumber>; // feeRate * cost
+    error: Optional<string>;
+}
+
+// one page of LeafletProvider.requestPuzzleState results; coin states changed up to height (with header hash headerHash)
+export class PuzzleState {
+    puzzleHashes: bytes[];
+    height: number;
+    headerHash: bytes;
+    isFinished: boolean;
+    coinStates: CoinState[];
+}
+
+export type Subscription = {
+    unsubscribe: () => void;
+};
+
+export type Peak = {
+    height: number;
+    headerHash: bytes;
+};
+
+// Provider methods that may not be implemented (connect, close, getNetworkId, isConnected and capabilities always are)
+export const PROVIDER_METHODS = [
+    "getBlockNumber", "getBalance", "getUnspentCoins", "getCoinRecord", "getCoinRecords",
+    "subscribeToPuzzleHashUpdates", "subscribeToCoinUpdates",
+    "getPuzzleSolution", "getCoinChildren", "getBlockHeader", "getBlocksHeaders", "getCoinRemovals", "getCoinAdditions",
+    "pushSpendBundle", "getAddress", "transfer", "transferCAT", "acceptOffer", "subscribeToAddressChanges",
+    "signCoinSpends", "changeNetwork",
+] as const;
+
+export type ProviderMethod = typeof PROVIDER_METHODS[number];
+
+// signing: the provider can sign spend bundles
+// subscriptions: subscribeToPuzzleHashUpdates / subscribeToCoinUpdates report updates as they happen
+// userApproval: requests have to be approved by the user (e.g., in a browser extension)
+export type ProviderFeature = "signing" | "subscriptions" | "userApproval";
+
+export type ProviderCapabilities = {
+    methods: ProviderMethod[];
+    networks: Network[];
+    features: ProviderFeature[];
+};
\ No newline at end of file
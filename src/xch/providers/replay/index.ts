@@ -0,0 +1,3 @@
+export { RecordingProvider } from "./recording_provider";
+export { ReplayProvider } from "./replay_provider";
+export { ProviderFixture, RecordedCall, RecordedError } from "./provider_fixture";
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { SExp } from "clvm";
+import { Util } from "../../../util";
+import { Network } from "../../../util/network";
+import { bytes, uint } from "../../../util/serializer/basic_types";
+import { Serializer } from "../../../util/serializer/serializer";
+import { Coin } from "../../../util/serializer/types/coin";
+import fields from "../../../util/serializer/types/fields";
+import { SpendBundle } from "../../../util/serializer/types/spend_bundle";
+import { CoinState, PuzzleSolutionResponse } from "../../../util/serializer/types/wallet_protocol";
+import { Optional, ProviderCapabilities } from "../provider_types";
+
+// properties are the error's own fields (e.g., the 'reason' of a RequestRejectedError)
+export type RecordedError = {
+    name: string,
+    message: string,
+    properties?: { [key: string]: any },
+};
+
+export type RecordedCall = {
+    method: string,
+    args: string, // see encodeArgs()
+    result?: any,
+    error?: RecordedError,
+    updates?: any[], // values passed to the callback of subscriptions
+};
+
+export type ProviderFixture = {
+    network: Network,
+    capabilities: ProviderCapabilities,
+    calls: RecordedCall[],
+};
+
+// provider BlockHeaders are not streamable
+class SerializableBlockHeader {
+    @fields.Uint(32) height: uint;
+    @fields.Bytes(32) headerHash: bytes;
+    @fields.Optional(fields.Bytes(32)) prevBlockHash: Optional<bytes>;
+    @fields.Optional(fields.Boolean()) isTransactionBlock: Optional<boolean>;
+    @fields.Optional(fields.Uint(64)) fees: Optional<uint>;
+    @fields.Optional(fields.Bytes(32)) farmerPuzzleHash: Optional<bytes>;
+    @fields.Optional(fields.Bytes(32)) poolPuzzleHash: Optional<bytes>;
+    @fields.Optional(fields.Uint(64)) timestamp: Optional<uint>;
+}
+
+type Codec = {
+    encode: (value: any) => any,
+    decode: (value: any) => any,
+};
+
+const plain: Codec = { encode: (value) => value, decode: (value) => value };
+
+// values may be plain objects (or use plain objects for their coins) - the serializer needs class instances
+const streamable = (classType: new () => any, prepare: (value: any) => any = (value) => value): Codec => ({
+    encode: (value) => value === null ? null :
+        Serializer.serialize(Object.assign(new classType(), prepare(value))).toString("hex"),
+    decode: (value) => value === null ? null : Serializer.deserialize(classType, value),
+});
+
+const list = (codec: Codec): Codec => ({
+    encode: (value) => value === null ? null : value.map(codec.encode),
+    decode: (value) => value === null ? null : value.map(codec.decode),
+});
+
+const coin: Codec = streamable(Coin);
+const coinState: Codec = streamable(CoinState, (value) => ({ ...value, coin: Object.assign(new Coin(), value.coin) }));
+const spendBundle: Codec = streamable(SpendBundle);
+const blockHeader: Codec = streamable(SerializableBlockHeader, (value) => ({ ...value, timestamp: value.timestamp ?? null }));
+
+const CODECS: { [method: string]: Codec } = {
+    getBalance: {
+        encode: (value) => value === null ? null : value.toString(),
+        decode: (value) => value === null ? null : BigNumber.from(value),
+    },
+    getUnspentCoins: list(coinState),
+    getCoinRecord: coinState,
+    getCoinRecords: list(coinState),
+    subscribeToPuzzleHashUpdates: list(coinState),
+    subscribeToCoinUpdates: list(coinState),
+    getPuzzleSolution: streamable(PuzzleSolutionResponse),
+    getCoinChildren: list(coinState),
+    getBlockHeader: blockHeader,
+    getBlocksHeaders: list(blockHeader),
+    getCoinRemovals: list(coin),
+    getCoinAdditions: list(coin),
+    transfer: spendBundle,
+    transferCAT: spendBundle,
+    acceptOffer: spendBundle,
+    signCoinSpends: spendBundle,
+};
+
+// results of subscriptions are the values passed to their callback
+export function encodeResult(method: string, value: any): any {
+    return (CODECS[method] ?? plain).encode(value);
+}
+
+export function decodeResult(method: string, value: any): any {
+    return (CODECS[method] ?? plain).decode(value);
+}
+
+// used to match replayed calls to recorded ones; callbacks are ignored
+export function encodeArgs(args: any): string {
+    return JSON.stringify(args ?? {}, (key: string, v: any) => v instanceof SExp ? Util.sexp.toHex(v) : v);
+}
\ No newline at end of file
@@ -0,0 +1,210 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { Network } from "../../../util/network";
+import { SpendBundle } from "../../../util/serializer/types/spend_bundle";
+import { Provider } from "../provider";
+import { ProviderEventEmitter } from "../provider_events";
+import { getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, transferArgs, transferCATArgs, acceptOfferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
+import { Optional, PuzzleSolution, CoinState, BlockHeader, Coin, Subscription, ProviderCapabilities } from "../provider_types";
+import { encodeArgs, encodeResult, ProviderFixture, RecordedCall, RecordedError } from "./provider_fixture";
+
+// wraps another provider and records every call with its result (or error), as well as subscription updates
+// the fixture is written to fixturePath (if given) after each call and can be served by ReplayProvider
+export class RecordingProvider implements Provider {
+    public provider: Provider;
+    public fixture: ProviderFixture;
+    public events: ProviderEventEmitter;
+
+    private fixturePath: Optional<string>;
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(provider: Provider, fixturePath: Optional<string> = null) {
+        this.provider = provider;
+        this.fixturePath = fixturePath;
+        this.events = provider.events;
+        this.fixture = {
+            network: provider.getNetworkId(),
+            capabilities: provider.capabilities(),
+            calls: [],
+        };
+    }
+
+    // writes are queued, so the file always ends up containing the latest fixture
+    // server-only: uses node's 'fs' module
+    public save(): Promise<void> {
+        if(this.fixturePath === null) {
+            return this.saving;
+        }
+
+        const fixturePath: string = this.fixturePath;
+        const saving: Promise<void> = this.saving.then(async () => {
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            await require("fs").promises.writeFile(fixturePath, JSON.stringify(this.fixture, null, 2), "utf8");
+        });
+        this.saving = saving.catch(() => undefined);
+
+        return saving;
+    }
+
+    private static _describeError(e: any): RecordedError {
+        const error: RecordedError = { name: e?.name ?? "Error", message: e?.message ?? String(e) };
+        if(typeof e === "object" && e !== null) {
+            const properties: { [key: string]: any } = {};
+            for(const key of Object.keys(e).filter((k) => k !== "name")) {
+                properties[key] = e[key];
+            }
+
+            if(Object.keys(properties).length > 0) {
+                error.properties = properties;
+            }
+        }
+
+        return error;
+    }
+
+    private async _record(method: string, args: any, call: () => Promise<any>): Promise<any> {
+        const recordedCall: RecordedCall = { method, args: encodeArgs(args) };
+        this.fixture.calls.push(recordedCall);
+
+        let result: any;
+        let error: any;
+        try {
+            result = await call();
+            recordedCall.result = encodeResult(method, result);
+        } catch(e: any) {
+            error = e;
+            recordedCall.error = RecordingProvider._describeError(e);
+        }
+
+        await this.save().catch(() => null); // a failed write must not change the call's result
+        if(error !== undefined) {
+            throw error;
+        }
+
+        return result;
+    }
+
+    // the callback's arguments are recorded as they arrive
+    private _recordSubscription<T extends { callback: (value: any) => void }>(
+        method: string,
+        args: T,
+        subscribe: (args: T) => any
+    ): any {
+        const { callback, ...argsWithoutCallback } = args;
+        const recordedCall: RecordedCall = { method, args: encodeArgs(argsWithoutCallback), updates: [] };
+        this.fixture.calls.push(recordedCall);
+
+        let result: any;
+        try {
+            result = subscribe({
+                ...args,
+                callback: (value: any) => {
+                    recordedCall.updates?.push(encodeResult(method, value));
+                    this.save().catch(() => null); // a failed write must not break the subscription
+
+                    callback(value);
+                },
+            });
+        } catch(e: any) {
+            recordedCall.error = RecordingProvider._describeError(e);
+            throw e;
+        } finally {
+            this.save().catch(() => null);
+        }
+
+        return result;
+    }
+
+    public async connect(): Promise<void> { return this.provider.connect(); }
+    public async close(): Promise<void> { return this.provider.close(); }
+    public getNetworkId(): Network { return this.provider.getNetworkId(); }
+    public isConnected(): boolean { return this.provider.isConnected(); }
+    public capabilities(): ProviderCapabilities { return this.provider.capabilities(); }
+
+    public async getBlockNumber(): Promise<Optional<number>> {
+        return this._record("getBlockNumber", {}, () => this.provider.getBlockNumber());
+    }
+
+    public async getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> {
+        return this._record("getBalance", args, () => this.provider.getBalance(args));
+    }
+
+    public async getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> {
+        return this._record("getUnspentCoins", args, () => this.provider.getUnspentCoins(args));
+    }
+
+    public async getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>> {
+        return this._record("getCoinRecord", args, () => this.provider.getCoinRecord(args));
+    }
+
+    public async getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]> {
+        return this._record("getCoinRecords", args, () => this.provider.getCoinRecords(args));
+    }
+
+    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription {
+        return this._recordSubscription(
+            "subscribeToPuzzleHashUpdates", args, (a) => this.provider.subscribeToPuzzleHashUpdates(a)
+        );
+    }
+
+    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription {
+        return this._recordSubscription("subscribeToCoinUpdates", args, (a) => this.provider.subscribeToCoinUpdates(a));
+    }
+
+    public async getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> {
+        return this._record("getPuzzleSolution", args, () => this.provider.getPuzzleSolution(args));
+    }
+
+    public async getCoinChildren(args: getCoinChildrenArgs): Promise<CoinState[]> {
+        return this._record("getCoinChildren", args, () => this.provider.getCoinChildren(args));
+    }
+
+    public async getBlockHeader(args: getBlockHeaderArgs): Promise<Optional<BlockHeader>> {
+        return this._record("getBlockHeader", args, () => this.provider.getBlockHeader(args));
+    }
+
+    public async getBlocksHeaders(args: getBlocksHeadersArgs): Promise<Optional<BlockHeader[]>> {
+        return this._record("getBlocksHeaders", args, () => this.provider.getBlocksHeaders(args));
+    }
+
+    public async getCoinRemovals(args: getCoinRemovalsArgs): Promise<Optional<Coin[]>> {
+        return this._record("getCoinRemovals", args, () => this.provider.getCoinRemovals(args));
+    }
+
+    public async getCoinAdditions(args: getCoinAdditionsArgs): Promise<Optional<Coin[]>> {
+        return this._record("getCoinAdditions", args, () => this.provider.getCoinAdditions(args));
+    }
+
+    public async pushSpendBundle(args: pushSpendBundleArgs): Promise<boolean> {
+        return this._record("pushSpendBundle", args, () => this.provider.pushSpendBundle(args));
+    }
+
+    public async getAddress(): Promise<string> {
+        return this._record("getAddress", {}, () => this.provider.getAddress());
+    }
+
+    public async transfer(args: transferArgs): Promise<Optional<SpendBundle>> {
+        return this._record("transfer", args, () => this.provider.transfer(args));
+    }
+
+    public async transferCAT(args: transferCATArgs): Promise<Optional<SpendBundle>> {
+        return this._record("transferCAT", args, () => this.provider.transferCAT(args));
+    }
+
+    public async acceptOffer(args: acceptOfferArgs): Promise<Optional<SpendBundle>> {
+        return this._record("acceptOffer", args, () => this.provider.acceptOffer(args));
+    }
+
+    public subscribeToAddressChanges(args: subscribeToAddressChangesArgs): void {
+        return this._recordSubscription(
+            "subscribeToAddressChanges", args, (a) => this.provider.subscribeToAddressChanges(a)
+        );
+    }
+
+    public async signCoinSpends(args: signCoinSpendsArgs): Promise<Optional<SpendBundle>> {
+        return this._record("signCoinSpends", args, () => this.provider.signCoinSpends(args));
+    }
+
+    public async changeNetwork(args: changeNetworkArgs): Promise<boolean> {
+        return this._record("changeNetwork", args, () => this.provider.changeNetwork(args));
+    }
+}
\ No newline at end of file
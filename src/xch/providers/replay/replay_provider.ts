@@ -0,0 +1,208 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { Network } from "../../../util/network";
+import { SpendBundle } from "../../../util/serializer/types/spend_bundle";
+import { Provider } from "../provider";
+import { ProviderEventEmitter } from "../provider_events";
+import { getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, transferArgs, transferCATArgs, acceptOfferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
+import { Optional, PuzzleSolution, CoinState, BlockHeader, Coin, Subscription, ProviderCapabilities } from "../provider_types";
+import { ProviderError, MethodNotSupportedError, ProviderTimeoutError, ProviderConnectionError, RequestRejectedError, InvalidArgumentError, InvalidAddressError, InvalidProofError, TransactionRejectedError, TransactionDroppedError, DoubleSpendError, UserRejectedError } from "../provider_errors";
+import { decodeResult, encodeArgs, ProviderFixture, RecordedCall, RecordedError } from "./provider_fixture";
+
+// recorded errors with one of these names are thrown as instances of the class, so 'instanceof' checks keep working
+// other errors are thrown as ProviderErrors with the recorded name
+const ERROR_CLASSES: { [name: string]: new (...args: any[]) => ProviderError } = {
+    ProviderError,
+    MethodNotSupportedError,
+    ProviderTimeoutError,
+    ProviderConnectionError,
+    RequestRejectedError,
+    InvalidArgumentError,
+    InvalidAddressError,
+    InvalidProofError,
+    TransactionRejectedError,
+    TransactionDroppedError,
+    DoubleSpendError,
+    UserRejectedError,
+};
+
+// serves the calls recorded by RecordingProvider - no network access required
+// calls are matched by method name and arguments; if the same call was recorded more than once,
+// the recorded results are returned in order (the last one is repeated)
+export class ReplayProvider implements Provider {
+    public fixture: ProviderFixture;
+    public events: ProviderEventEmitter = new ProviderEventEmitter();
+
+    private connected: boolean = false;
+    private replayed: Map<string, number> = new Map();
+
+    // fixture can also be the path of a fixture file (server-only)
+    constructor(fixture: ProviderFixture | string) {
+        if(typeof fixture === "string") {
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            fixture = JSON.parse(require("fs").readFileSync(fixture, "utf8")) as ProviderFixture;
+        }
+
+        this.fixture = fixture;
+    }
+
+    private _find(method: string, args: any): RecordedCall {
+        const encodedArgs: string = encodeArgs(args);
+        const calls: RecordedCall[] = this.fixture.calls.filter(
+            (call) => call.method === method && call.args === encodedArgs
+        );
+        if(calls.length === 0) {
+            throw new ProviderError(`ReplayProvider has no recorded call for ${method}(${encodedArgs}).`);
+        }
+
+        const key: string = method + encodedArgs;
+        const index: number = this.replayed.get(key) ?? 0;
+        this.replayed.set(key, index + 1);
+
+        const call: RecordedCall = calls[Math.min(index, calls.length - 1)];
+        if(call.error !== undefined) {
+            throw ReplayProvider._createError(call.error);
+        }
+
+        return call;
+    }
+
+    // the constructors of the error classes take different arguments - the recorded message and properties are used instead
+    private static _createError({ name, message, properties = {} }: RecordedError): Error {
+        const errorClass: new (...args: any[]) => ProviderError = ERROR_CLASSES[name] ?? ProviderError;
+        const error: ProviderError = Reflect.construct(Error, [message], errorClass);
+        error.name = name;
+
+        return Object.assign(error, properties);
+    }
+
+    private async _replay(method: string, args: any): Promise<any> {
+        return decodeResult(method, this._find(method, args).result);
+    }
+
+    // recorded updates are delivered asynchronously, in order
+    private _replaySubscription<T extends { callback: (value: any) => void }>(method: string, args: T): Subscription {
+        const { callback, ...argsWithoutCallback } = args;
+        const call: RecordedCall = this._find(method, argsWithoutCallback);
+
+        let active: boolean = true;
+        (call.updates ?? []).forEach((update) => setTimeout(() => {
+            if(active) {
+                callback(decodeResult(method, update));
+            }
+        }, 0));
+
+        return {
+            unsubscribe: () => {
+                active = false;
+            },
+        };
+    }
+
+    public async connect(): Promise<void> {
+        this.connected = true;
+        this.events.emit("connected");
+    }
+
+    public async close(): Promise<void> {
+        if(!this.connected) return;
+
+        this.connected = false;
+        this.events.emit("disconnected");
+    }
+
+    public getNetworkId(): Network {
+        return this.fixture.network;
+    }
+
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    public capabilities(): ProviderCapabilities {
+        return this.fixture.capabilities;
+    }
+
+    public async getBlockNumber(): Promise<Optional<number>> {
+        return this._replay("getBlockNumber", {});
+    }
+
+    public async getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> {
+        return this._replay("getBalance", args);
+    }
+
+    public async getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> {
+        return this._replay("getUnspentCoins", args);
+    }
+
+    public async getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>> {
+        return this._replay("getCoinRecord", args);
+    }
+
+    public async getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]> {
+        return this._replay("getCoinRecords", args);
+    }
+
+    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription {
+        return this._replaySubscription("subscribeToPuzzleHashUpdates", args);
+    }
+
+    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription {
+        return this._replaySubscription("subscribeToCoinUpdates", args);
+    }
+
+    public async getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> {
+        return this._replay("getPuzzleSolution", args);
+    }
+
+    public async getCoinChildren(args: getCoinChildrenArgs): Promise<CoinState[]> {
+        return this._replay("getCoinChildren", args);
+    }
+
+    public async getBlockHeader(args: getBlockHeaderArgs): Promise<Optional<BlockHeader>> {
+        return this._replay("getBlockHeader", args);
+    }
+
+    public async getBlocksHeaders(args: getBlocksHeadersArgs): Promise<Optional<BlockHeader[]>> {
+        return this._replay("getBlocksHeaders", args);
+    }
+
+    public async getCoinRemovals(args: getCoinRemovalsArgs): Promise<Optional<Coin[]>> {
+        return this._replay("getCoinRemovals", args);
+    }
+
+    public async getCoinAdditions(args: getCoinAdditionsArgs): Promise<Optional<Coin[]>> {
+        return this._replay("getCoinAdditions", args);
+    }
+
+    public async pushSpendBundle(args: pushSpendBundleArgs): Promise<boolean> {
+        return this._replay("pushSpendBundle", args);
+    }
+
+    public async getAddress(): Promise<string> {
+        return this._replay("getAddress", {});
+    }
+
+    public async transfer(args: transferArgs): Promise<Optional<SpendBundle>> {
+        return this._replay("transfer", args);
+    }
+
+    public async transferCAT(args: transferCATArgs): Promise<Optional<SpendBundle>> {
+        return this._replay("transferCAT", args);
+    }
+
+    public async acceptOffer(args: acceptOfferArgs): Promise<Optional<SpendBundle>> {
+        return this._replay("acceptOffer", args);
+    }
+
+    public subscribeToAddressChanges(args: subscribeToAddressChangesArgs): void {
+        this._replaySubscription("subscribeToAddressChanges", args);
+    }
+
+    public async signCoinSpends(args: signCoinSpendsArgs): Promise<Optional<SpendBundle>> {
+        return this._replay("signCoinSpends", args);
+    }
+
+    public async changeNetwork(args: changeNetworkArgs): Promise<boolean> {
+        return this._replay("changeNetwork", args);
+    }
+}
\ No newline at end of file
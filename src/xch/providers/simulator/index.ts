@@ -0,0 +1 @@
+export { SimulatorProvider } from "./simulator_provider";
\ No newline at end of file
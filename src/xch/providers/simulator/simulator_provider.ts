@@ -0,0 +1,588 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { getBLSModule, initialize } from "clvm";
+import { Util } from "../../../util";
+import { Network } from "../../../util/network";
+import { Serializer } from "../../../util/serializer/serializer";
+import { CoinSpend } from "../../../util/serializer/types/coin_spend";
+import { SpendBundle } from "../../../util/serializer/types/spend_bundle";
+import { ConditionOpcode } from "../../../util/sexp/condition_opcodes";
+import { Provider } from "../provider";
+import { ProviderEventEmitter } from "../provider_events";
+import { getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, transferArgs, transferCATArgs, acceptOfferArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
+import { Optional, PuzzleSolution, CoinState, BlockHeader, Coin, bytes, Subscription, ProviderCapabilities } from "../provider_types";
+import { MethodNotSupportedError } from "../provider_errors";
+
+// https://github.com/Chia-Network/chia-blockchain/blob/main/chia/consensus/block_rewards.py
+export const SIMULATOR_POOL_REWARD = BigNumber.from("1750000000000");
+export const SIMULATOR_FARMER_REWARD = BigNumber.from("250000000000");
+
+type _SimulatorBlock = {
+    header: BlockHeader,
+    additions: Coin[],
+    removals: Coin[],
+};
+
+type _ValidatedSpendBundle = {
+    removals: Coin[],
+    additions: Coin[],
+    fees: BigNumber,
+};
+
+export class SimulatorProvider implements Provider {
+    public events: ProviderEventEmitter = new ProviderEventEmitter();
+
+    private connected: boolean = false;
+    private network: Network;
+    private genesisChallenge: bytes;
+
+    private coinStates: Map<bytes, CoinState> = new Map<bytes, CoinState>();
+    private puzzleSolutions: Map<bytes, PuzzleSolution> = new Map<bytes, PuzzleSolution>();
+    private blocks: _SimulatorBlock[] = [];
+    private mempool: SpendBundle[] = [];
+
+    private puzzleHashSubscriptions: subscribeToPuzzleHashUpdatesArgs[] = [];
+    private coinSubscriptions: subscribeToCoinUpdatesArgs[] = [];
+
+    constructor(network: Network = Network.mainnet, customGenesisChallenge: bytes | null = null) {
+        this.network = network;
+        this.genesisChallenge = customGenesisChallenge ?? Util.network.getGenesisChallenge(network);
+    }
+
+    public async connect(): Promise<void> {
+        await initialize();
+
+        this.connected = true;
+        this.events.emit("connected");
+    }
+
+    public async close(): Promise<void> {
+        if(!this.connected) return;
+
+        this.connected = false;
+        this.events.emit("disconnected");
+    }
+
+    public getNetworkId(): Network {
+        return this.network;
+    }
+
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    public capabilities(): ProviderCapabilities {
+        return {
+            methods: [
+                "getBlockNumber", "getBalance", "getUnspentCoins", "getCoinRecord", "getCoinRecords",
+                "subscribeToPuzzleHashUpdates", "subscribeToCoinUpdates", "getPuzzleSolution", "getCoinChildren",
+                "getBlockHeader", "getBlocksHeaders", "getCoinRemovals", "getCoinAdditions", "pushSpendBundle"
+            ],
+            networks: [this.network],
+            features: ["subscriptions"],
+        };
+    }
+
+    public async getBlockNumber(): Promise<Optional<number>> {
+        if(this.blocks.length === 0) {
+            return null;
+        }
+
+        return this.blocks.length - 1;
+    }
+
+    public async getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> {
+        const unspentCoins: Optional<CoinState[]> = this._getUnspentCoins(args);
+        if(unspentCoins === null) {
+            return null;
+        }
+
+        let balance = BigNumber.from(0);
+        for(const coinState of unspentCoins) {
+            balance = balance.add(coinState.coin.amount);
+        }
+
+        return balance;
+    }
+
+    public async getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> {
+        return this._getUnspentCoins(args) ?? [];
+    }
+
+    public async getCoinRecord({ coinId }: getCoinRecordArgs): Promise<Optional<CoinState>> {
+        return this.coinStates.get(Util.address.validateHashString(coinId)) ?? null;
+    }
+
+    public async getCoinRecords({ coinIds }: getCoinRecordsArgs): Promise<CoinState[]> {
+        return coinIds.map(
+            (coinId) => this.coinStates.get(Util.address.validateHashString(coinId))
+        ).filter((coinState): coinState is CoinState => coinState !== undefined);
+    }
+
+    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription {
+        const puzzleHash = Util.address.validateHashString(args.puzzleHash);
+        if(puzzleHash.length === 0) return { unsubscribe: () => null };
+
+        const subscription = { ...args, puzzleHash };
+        this.puzzleHashSubscriptions.push(subscription);
+
+        subscription.callback(
+            this._getCoinStatesForPuzzleHash(puzzleHash, subscription.minHeight ?? 1)
+        );
+
+        return {
+            unsubscribe: () => {
+                this.puzzleHashSubscriptions = this.puzzleHashSubscriptions.filter((s) => s !== subscription);
+            },
+        };
+    }
+
+    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription {
+        const coinId = Util.address.validateHashString(args.coinId);
+        if(coinId.length === 0) return { unsubscribe: () => null };
+
+        const subscription = { ...args, coinId };
+        this.coinSubscriptions.push(subscription);
+
+        const coinState = this.coinStates.get(coinId);
+        subscription.callback(
+            coinState !== undefined && this._isAtOrAboveHeight(coinState, subscription.minHeight ?? 1) ? [coinState] : []
+        );
+
+        return {
+            unsubscribe: () => {
+                this.coinSubscriptions = this.coinSubscriptions.filter((s) => s !== subscription);
+            },
+        };
+    }
+
+    public async getPuzzleSolution({ coinId, height }: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> {
+        coinId = Util.address.validateHashString(coinId);
+        if(coinId.length === 0) return null;
+
+        const puzzleSolution = this.puzzleSolutions.get(coinId);
+        if(puzzleSolution === undefined || !BigNumber.from(puzzleSolution.height).eq(height)) {
+            return null;
+        }
+
+        return puzzleSolution;
+    }
+
+    public async getCoinChildren({ coinId }: getCoinChildrenArgs): Promise<CoinState[]> {
+        coinId = Util.address.validateHashString(coinId);
+        if(coinId.length === 0) return [];
+
+        return Array.from(this.coinStates.values()).filter(
+            (coinState) => coinState.coin.parentCoinInfo === coinId
+        );
+    }
+
+    public async getBlockHeader({ height }: getBlockHeaderArgs): Promise<Optional<BlockHeader>> {
+        return this.blocks[height]?.header ?? null;
+    }
+
+    public async getBlocksHeaders({ startHeight, endHeight }: getBlocksHeadersArgs): Promise<Optional<BlockHeader[]>> {
+        if(startHeight < 0 || endHeight < startHeight || endHeight >= this.blocks.length) {
+            return null;
+        }
+
+        return this.blocks.slice(startHeight, endHeight + 1).map((block) => block.header);
+    }
+
+    public async getCoinRemovals({ height, headerHash, coinIds }: getCoinRemovalsArgs): Promise<Optional<Coin[]>> {
+        const block = this._getBlock(height, headerHash);
+        if(block === null) return null;
+
+        if(coinIds === undefined) {
+            return block.removals;
+        }
+
+        const parsedCoinIds: bytes[] = coinIds.map((coinId) => Util.address.validateHashString(coinId));
+        return block.removals.filter(
+            (coin) => parsedCoinIds.includes(Util.coin.getId(coin))
+        );
+    }
+
+    public async getCoinAdditions({ height, headerHash, puzzleHashes }: getCoinAdditionsArgs): Promise<Optional<Coin[]>> {
+        const block = this._getBlock(height, headerHash);
+        if(block === null) return null;
+
+        if(puzzleHashes === undefined) {
+            return block.additions;
+        }
+
+        const parsedPuzzleHashes: bytes[] = puzzleHashes.map((puzzleHash) => Util.address.validateHashString(puzzleHash));
+        return block.additions.filter(
+            (coin) => parsedPuzzleHashes.includes(coin.puzzleHash)
+        );
+    }
+
+    public async pushSpendBundle({ spendBundle }: pushSpendBundleArgs): Promise<boolean> {
+        const pendingRemovals: bytes[] = [];
+        for(const pendingSpendBundle of this.mempool) {
+            for(const coinSpend of pendingSpendBundle.coinSpends) {
+                pendingRemovals.push(Util.coin.getId(coinSpend.coin));
+            }
+        }
+
+        const validated = this._validateSpendBundle(spendBundle, pendingRemovals);
+        if(validated === null) {
+            return false;
+        }
+
+        this.mempool.push(spendBundle);
+        return true;
+    }
+
+    public getMempool(): SpendBundle[] {
+        return [...this.mempool];
+    }
+
+    // drops a pending spend bundle, as if the mempool had evicted it; returns false if it's not in the mempool
+    public removeFromMempool(spendBundleName: bytes): boolean {
+        const name: bytes = Util.address.validateHashString(spendBundleName).toLowerCase();
+        const length: number = this.mempool.length;
+        this.mempool = this.mempool.filter(
+            (spendBundle) => Util.stdHash(Serializer.serialize(spendBundle).toString("hex")) !== name
+        );
+
+        return this.mempool.length !== length;
+    }
+
+    public clearMempool(): void {
+        this.mempool = [];
+    }
+
+    // 'timestamp' defaults to the current time; block timestamps never decrease
+    public async farmBlock(rewardPuzzleHash: bytes | null = null, timestamp: number | null = null): Promise<BlockHeader> {
+        const height: number = this.blocks.length;
+        const prevBlockHash: bytes = height === 0 ? this.genesisChallenge : this.blocks[height - 1].header.headerHash;
+        const prevTimestamp: number = height === 0 ? 0 : BigNumber.from(this.blocks[height - 1].header.timestamp).toNumber();
+
+        const additions: Coin[] = [];
+        const removals: Coin[] = [];
+        let fees = BigNumber.from(0);
+
+        const mempool = this.mempool;
+        this.mempool = [];
+        for(const spendBundle of mempool) {
+            // spend bundles are validated again - an earlier bundle may have spent the same coins
+            const validated = this._validateSpendBundle(spendBundle, [], height);
+            if(validated === null) {
+                continue;
+            }
+
+            for(const coinSpend of spendBundle.coinSpends) {
+                const puzzleSolution = new PuzzleSolution();
+                puzzleSolution.coinName = Util.coin.getId(coinSpend.coin);
+                puzzleSolution.height = height;
+                puzzleSolution.puzzle = coinSpend.puzzleReveal;
+                puzzleSolution.solution = coinSpend.solution;
+                this.puzzleSolutions.set(puzzleSolution.coinName, puzzleSolution);
+            }
+
+            for(const coin of validated.additions) {
+                this._addCoin(coin, height);
+            }
+            for(const coin of validated.removals) {
+                // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+                this.coinStates.get(Util.coin.getId(coin))!.spentHeight = height;
+            }
+
+            additions.push(...validated.additions);
+            removals.push(...validated.removals);
+            fees = fees.add(validated.fees);
+        }
+
+        if(rewardPuzzleHash !== null) {
+            // https://github.com/Chia-Network/chia-blockchain/blob/main/chia/consensus/coinbase.py
+            const heightBytes: bytes = BigNumber.from(height).toHexString().slice(2).padStart(32, "0");
+
+            const poolRewardCoin = new Coin();
+            poolRewardCoin.parentCoinInfo = this.genesisChallenge.slice(0, 32) + heightBytes;
+            poolRewardCoin.puzzleHash = rewardPuzzleHash;
+            poolRewardCoin.amount = SIMULATOR_POOL_REWARD;
+
+            const farmerRewardCoin = new Coin();
+            farmerRewardCoin.parentCoinInfo = this.genesisChallenge.slice(32) + heightBytes;
+            farmerRewardCoin.puzzleHash = rewardPuzzleHash;
+            farmerRewardCoin.amount = SIMULATOR_FARMER_REWARD.add(fees);
+
+            for(const coin of [poolRewardCoin, farmerRewardCoin]) {
+                this._addCoin(coin, height);
+                additions.push(coin);
+            }
+        }
+
+        const header = new BlockHeader();
+        header.height = height;
+        header.headerHash = Util.stdHash(prevBlockHash + BigNumber.from(height).toHexString().slice(2).padStart(8, "0"));
+        header.prevBlockHash = prevBlockHash;
+        header.isTransactionBlock = true;
+        header.fees = fees;
+        header.farmerPuzzleHash = rewardPuzzleHash ?? "00".repeat(32);
+        header.poolPuzzleHash = rewardPuzzleHash ?? "00".repeat(32);
+        header.timestamp = Math.max(timestamp ?? Math.floor(Date.now() / 1000), prevTimestamp);
+
+        this.blocks.push({ header, additions, removals });
+        this._notifySubscribers([...additions, ...removals]);
+        this.events.emit("peak", { height, headerHash: header.headerHash });
+
+        return header;
+    }
+
+    private _addCoin(coin: Coin, height: number): void {
+        const coinState = new CoinState();
+        coinState.coin = coin;
+        coinState.createdHeight = height;
+        coinState.spentHeight = null;
+
+        this.coinStates.set(Util.coin.getId(coin), coinState);
+    }
+
+    private _getBlock(height: number, headerHash: bytes): Optional<_SimulatorBlock> {
+        const block = this.blocks[height];
+        if(block === undefined || block.header.headerHash !== Util.address.validateHashString(headerHash)) {
+            return null;
+        }
+
+        return block;
+    }
+
+    private _isAtOrAboveHeight(coinState: CoinState, minHeight: number): boolean {
+        return BigNumber.from(coinState.createdHeight ?? 0).gte(minHeight) ||
+            (coinState.spentHeight !== null && BigNumber.from(coinState.spentHeight).gte(minHeight));
+    }
+
+    private _getCoinStatesForPuzzleHash(puzzleHash: bytes, minHeight: number): CoinState[] {
+        return Array.from(this.coinStates.values()).filter(
+            (coinState) => coinState.coin.puzzleHash === puzzleHash && this._isAtOrAboveHeight(coinState, minHeight)
+        );
+    }
+
+    private _getUnspentCoins({
+        address,
+        puzzleHash,
+        minHeight = 1
+    }: getUnspentCoinsArgs): Optional<CoinState[]> {
+        let puzHash: string;
+
+        if(address !== undefined) {
+            puzHash = Util.address.addressToPuzzleHash(address);
+            if(puzHash.length === 0 || Util.address.getPrefix(address) !== Util.network.getAddressPrefix(this.network)) {
+                return null;
+            }
+        }
+        else if(puzzleHash !== undefined) {
+            puzHash = Util.address.validateHashString(puzzleHash);
+        }
+        else return null;
+
+        return this._getCoinStatesForPuzzleHash(puzHash, minHeight).filter(
+            (coinState) => coinState.spentHeight === null
+        );
+    }
+
+    private _notifySubscribers(changedCoins: Coin[]): void {
+        const changedCoinStates: CoinState[] = [];
+        const seenCoinIds: bytes[] = [];
+        for(const coin of changedCoins) {
+            const coinId = Util.coin.getId(coin);
+            if(seenCoinIds.includes(coinId)) continue;
+
+            seenCoinIds.push(coinId);
+            // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+            changedCoinStates.push(this.coinStates.get(coinId)!);
+        }
+        if(changedCoinStates.length > 0) {
+            this.events.emit("coinState", changedCoinStates);
+        }
+
+        for(const subscription of this.puzzleHashSubscriptions) {
+            const coinStates = changedCoinStates.filter(
+                (coinState) => coinState.coin.puzzleHash === subscription.puzzleHash &&
+                    this._isAtOrAboveHeight(coinState, subscription.minHeight ?? 1)
+            );
+
+            if(coinStates.length > 0) {
+                subscription.callback(coinStates);
+            }
+        }
+
+        for(const subscription of this.coinSubscriptions) {
+            const coinStates = changedCoinStates.filter(
+                (coinState) => Util.coin.getId(coinState.coin) === subscription.coinId &&
+                    this._isAtOrAboveHeight(coinState, subscription.minHeight ?? 1)
+            );
+
+            if(coinStates.length > 0) {
+                subscription.callback(coinStates);
+            }
+        }
+    }
+
+    private _atomToBigNumber(atom: bytes): BigNumber {
+        if(atom.length === 0) {
+            return BigNumber.from(0);
+        }
+
+        return BigNumber.from("0x" + atom).fromTwos(atom.length * 4);
+    }
+
+    // https://github.com/Chia-Network/chia-blockchain/blob/main/chia/full_node/mempool_manager.py
+    private _validateSpendBundle(
+        spendBundle: SpendBundle,
+        pendingRemovals: bytes[],
+        height: number = this.blocks.length
+    ): Optional<_ValidatedSpendBundle> {
+        if(spendBundle.coinSpends === undefined || spendBundle.coinSpends.length === 0) {
+            return null;
+        }
+
+        const removalIds: bytes[] = spendBundle.coinSpends.map((coinSpend) => Util.coin.getId(coinSpend.coin));
+        const additions: Coin[] = [];
+        const pkmPairs: Array<[bytes, bytes]> = [];
+        const announcements: bytes[] = [];
+        const assertedAnnouncements: bytes[] = [];
+        let reservedFee = BigNumber.from(0);
+
+        for(let i = 0; i < spendBundle.coinSpends.length; ++i) {
+            const coinSpend: CoinSpend = spendBundle.coinSpends[i];
+            const coinId: bytes = removalIds[i];
+
+            if(removalIds.indexOf(coinId) !== i || pendingRemovals.includes(coinId)) {
+                return null; // double spend
+            }
+            if(Util.sexp.sha256tree(coinSpend.puzzleReveal) !== coinSpend.coin.puzzleHash) {
+                return null;
+            }
+
+            const [error, conditions] = Util.sexp.conditionsDictForSolution(
+                coinSpend.puzzleReveal,
+                coinSpend.solution,
+                Util.sexp.MAX_BLOCK_COST_CLVM
+            );
+            if(error || conditions === null) {
+                return null;
+            }
+
+            for(const cwa of conditions.get(ConditionOpcode.CREATE_COIN) ?? []) {
+                const coin = new Coin();
+                coin.parentCoinInfo = coinId;
+                coin.puzzleHash = cwa.vars[0];
+                coin.amount = this._atomToBigNumber(cwa.vars[1]);
+                additions.push(coin);
+            }
+            for(const cwa of conditions.get(ConditionOpcode.RESERVE_FEE) ?? []) {
+                reservedFee = reservedFee.add(this._atomToBigNumber(cwa.vars[0]));
+            }
+            for(const cwa of conditions.get(ConditionOpcode.CREATE_COIN_ANNOUNCEMENT) ?? []) {
+                announcements.push(Util.stdHash(coinId + cwa.vars[0]));
+            }
+            for(const cwa of conditions.get(ConditionOpcode.CREATE_PUZZLE_ANNOUNCEMENT) ?? []) {
+                announcements.push(Util.stdHash(coinSpend.coin.puzzleHash + cwa.vars[0]));
+            }
+            for(const cwa of [
+                ...(conditions.get(ConditionOpcode.ASSERT_COIN_ANNOUNCEMENT) ?? []),
+                ...(conditions.get(ConditionOpcode.ASSERT_PUZZLE_ANNOUNCEMENT) ?? []),
+            ]) {
+                assertedAnnouncements.push(cwa.vars[0]);
+            }
+
+            for(const cwa of conditions.get(ConditionOpcode.ASSERT_MY_COIN_ID) ?? []) {
+                if(cwa.vars[0] !== coinId) return null;
+            }
+            for(const cwa of conditions.get(ConditionOpcode.ASSERT_MY_PARENT_ID) ?? []) {
+                if(cwa.vars[0] !== coinSpend.coin.parentCoinInfo) return null;
+            }
+            for(const cwa of conditions.get(ConditionOpcode.ASSERT_MY_PUZZLEHASH) ?? []) {
+                if(cwa.vars[0] !== coinSpend.coin.puzzleHash) return null;
+            }
+            for(const cwa of conditions.get(ConditionOpcode.ASSERT_MY_AMOUNT) ?? []) {
+                if(!this._atomToBigNumber(cwa.vars[0]).eq(coinSpend.coin.amount)) return null;
+            }
+            for(const cwa of conditions.get(ConditionOpcode.ASSERT_HEIGHT_ABSOLUTE) ?? []) {
+                if(this._atomToBigNumber(cwa.vars[0]).gt(height)) return null;
+            }
+
+            const coinState = this.coinStates.get(coinId);
+            for(const cwa of conditions.get(ConditionOpcode.ASSERT_HEIGHT_RELATIVE) ?? []) {
+                if(coinState === undefined || this._atomToBigNumber(cwa.vars[0]).add(coinState.createdHeight ?? 0).gt(height)) {
+                    return null;
+                }
+            }
+
+            pkmPairs.push(
+                ...Util.sexp.pkmPairsForConditionsDict(conditions, coinId, this.genesisChallenge)
+            );
+        }
+
+        // removals must either exist and be unspent or be created in this spend bundle (ephemeral coins)
+        const additionIds: bytes[] = additions.map((coin) => Util.coin.getId(coin));
+        for(const removalId of removalIds) {
+            const coinState = this.coinStates.get(removalId);
+            if(coinState !== undefined ? coinState.spentHeight !== null : !additionIds.includes(removalId)) {
+                return null;
+            }
+        }
+
+        for(const announcement of assertedAnnouncements) {
+            if(!announcements.includes(announcement)) {
+                return null;
+            }
+        }
+
+        let totalInput = BigNumber.from(0);
+        for(const coinSpend of spendBundle.coinSpends) {
+            totalInput = totalInput.add(coinSpend.coin.amount);
+        }
+        let totalOutput = BigNumber.from(0);
+        for(const coin of additions) {
+            totalOutput = totalOutput.add(coin.amount);
+        }
+        if(totalInput.lt(totalOutput.add(reservedFee))) {
+            return null;
+        }
+
+        if(!this._verifySignature(pkmPairs, spendBundle.aggregatedSignature)) {
+            return null;
+        }
+
+        return {
+            removals: spendBundle.coinSpends.map((coinSpend) => coinSpend.coin),
+            additions,
+            fees: totalInput.sub(totalOutput),
+        };
+    }
+
+    private _verifySignature(pkmPairs: Array<[bytes, bytes]>, signature: bytes): boolean {
+        const { AugSchemeMPL, G1Element, G2Element } = getBLSModule();
+
+        try {
+            const sig = G2Element.from_bytes(Buffer.from(signature, "hex"));
+            if(pkmPairs.length === 0) {
+                return Buffer.from(sig.serialize()).toString("hex") ===
+                    Buffer.from(AugSchemeMPL.aggregate([]).serialize()).toString("hex");
+            }
+
+            return AugSchemeMPL.aggregate_verify(
+                pkmPairs.map(([pk]) => G1Element.from_bytes(Buffer.from(pk, "hex"))),
+                pkmPairs.map(([, msg]) => Buffer.from(msg, "hex")),
+                sig
+            );
+        } catch(_) {
+            return false;
+        }
+    }
+
+    private _doesNotImplementError(): any {
+        throw new MethodNotSupportedError("SimulatorProvider");
+    }
+
+    public async getAddress(): Promise<string> { return this._doesNotImplementError(); }
+    public async transfer(args: transferArgs): Promise<Optional<SpendBundle>> { return this._doesNotImplementError(); }
+    public async transferCAT(args: transferCATArgs): Promise<Optional<SpendBundle>> { return this._doesNotImplementError(); }
+    public async acceptOffer(args: acceptOfferArgs): Promise<Optional<SpendBundle>> { return this._doesNotImplementError(); }
+    public subscribeToAddressChanges(args: subscribeToAddressChangesArgs): void { return this._doesNotImplementError(); }
+    public async signCoinSpends(args: signCoinSpendsArgs): Promise<Optional<SpendBundle>> { return this._doesNotImplementError(); }
+    public async changeNetwork(args: changeNetworkArgs): Promise<boolean> { return this._doesNotImplementError(); }
+}
\ No newline at end of file
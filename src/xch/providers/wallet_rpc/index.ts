@@ -0,0 +1 @@
+export { WalletRpcProvider } from "./wallet_rpc_provider";
\ No newline at end of file
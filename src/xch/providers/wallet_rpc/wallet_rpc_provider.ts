@@ -0,0 +1,193 @@
+import { Provider } from "../provider";
+import { ProviderEventEmitter } from "../provider_events";
+import { getBalanceArgs, getUnspentCoinsArgs, getCoinRecordArgs, getCoinRecordsArgs, subscribeToPuzzleHashUpdatesArgs, subscribeToCoinUpdatesArgs, getPuzzleSolutionArgs, getCoinChildrenArgs, getBlockHeaderArgs, getBlocksHeadersArgs, getCoinRemovalsArgs, getCoinAdditionsArgs, acceptOfferArgs, transferArgs, transferCATArgs, subscribeToAddressChangesArgs, signCoinSpendsArgs, changeNetworkArgs, pushSpendBundleArgs } from "../provider_args";
+import { Optional, PuzzleSolution, CoinState, BlockHeader, Coin, Subscription, ProviderCapabilities } from "../provider_types";
+import { InvalidArgumentError, MethodNotSupportedError } from "../provider_errors";
+import { BigNumber } from "@ethersproject/bignumber";
+import { Util } from "../../../util";
+import { SpendBundle } from "../../../util/serializer/types/spend_bundle";
+import { Network } from "../../../util/network";
+import { RpcClient, RpcOptions } from "../full_node_rpc/rpc_client";
+
+export type SignedMessage = {
+    publicKey: string,
+    signature: string,
+    signingMode: string,
+};
+
+// uses the wallet's JSON RPC (default port: 9256) and the wallet's private_wallet certificate
+// https://github.com/Chia-Network/chia-blockchain/blob/main/chia/rpc/wallet_rpc_api.py
+export class WalletRpcProvider implements Provider {
+    public rpcClient: RpcClient;
+    public events: ProviderEventEmitter = new ProviderEventEmitter();
+    // throw typed errors (see provider_errors.ts) instead of returning null / ""
+    public strict: boolean = false;
+
+    private connected: boolean = false;
+    private network: Network;
+    private walletId: number;
+
+    constructor(
+        host: string,
+        cert: string | Buffer,
+        key: string | Buffer,
+        port = 9256,
+        network = Network.mainnet,
+        walletId = 1, // the standard XCH wallet
+        options: RpcOptions = {},
+    ) {
+        this.rpcClient = new RpcClient({ host, port, cert, key, ...options });
+        this.network = network;
+        this.walletId = walletId;
+    }
+
+    private async _rpc(endpoint: string, data: any = {}): Promise<any> {
+        return this.strict ? this.rpcClient.request(endpoint, data) : this.rpcClient.call(endpoint, data);
+    }
+
+    // newer wallets return all created transactions; older ones only return 'transaction'
+    private _parseSpendBundleFromResponse(resp: any): Optional<SpendBundle> {
+        const transactions: any[] = resp?.transactions ?? [resp?.transaction];
+
+        for(let i = 0; i < transactions.length; ++i) {
+            const spendBundle = transactions[i]?.spend_bundle;
+            if(spendBundle !== null && spendBundle !== undefined) {
+                return Util.rpc.parseRpcSpendBundle(spendBundle);
+            }
+        }
+
+        return null;
+    }
+
+    public async connect(): Promise<void> {
+        const resp = await this._rpc("get_sync_status");
+        this.connected = resp !== null;
+
+        if(this.connected) {
+            this.events.emit("connected");
+        }
+    }
+
+    public async close(): Promise<void> {
+        if(!this.connected) return;
+
+        this.connected = false;
+        this.events.emit("disconnected");
+    }
+
+    public getNetworkId(): Network {
+        return this.network;
+    }
+
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    public capabilities(): ProviderCapabilities {
+        return {
+            methods: ["getAddress", "transfer", "transferCAT", "acceptOffer", "subscribeToAddressChanges"],
+            networks: [this.network],
+            features: ["signing"],
+        };
+    }
+
+    private _doesNotImplementError(): any {
+        throw new MethodNotSupportedError("WalletRpcProvider");
+    }
+
+    public async getBlockNumber(): Promise<Optional<number>> { return this._doesNotImplementError(); }
+    public async getBalance(args: getBalanceArgs): Promise<Optional<BigNumber>> { return this._doesNotImplementError(); }
+    public async getUnspentCoins(args: getUnspentCoinsArgs): Promise<CoinState[]> { return this._doesNotImplementError(); }
+    public async getCoinRecord(args: getCoinRecordArgs): Promise<Optional<CoinState>> { return this._doesNotImplementError(); }
+    public async getCoinRecords(args: getCoinRecordsArgs): Promise<CoinState[]> { return this._doesNotImplementError(); }
+    public subscribeToPuzzleHashUpdates(args: subscribeToPuzzleHashUpdatesArgs): Subscription { return this._doesNotImplementError(); }
+    public subscribeToCoinUpdates(args: subscribeToCoinUpdatesArgs): Subscription { return this._doesNotImplementError(); }
+    public async getPuzzleSolution(args: getPuzzleSolutionArgs): Promise<Optional<PuzzleSolution>> { return this._doesNotImplementError(); }
+    public async getCoinChildren(args: getCoinChildrenArgs): Promise<CoinState[]> { return this._doesNotImplementError(); }
+    public async getBlockHeader(args: getBlockHeaderArgs): Promise<Optional<BlockHeader>> { return this._doesNotImplementError(); }
+    public async getBlocksHeaders(args: getBlocksHeadersArgs): Promise<Optional<BlockHeader[]>> { return this._doesNotImplementError(); }
+    public async getCoinRemovals(args: getCoinRemovalsArgs): Promise<Optional<Coin[]>> { return this._doesNotImplementError(); }
+    public async getCoinAdditions(args: getCoinAdditionsArgs): Promise<Optional<Coin[]>> { return this._doesNotImplementError(); }
+    public async pushSpendBundle(args: pushSpendBundleArgs): Promise<boolean> { return this._doesNotImplementError(); }
+
+    public async getAddress(): Promise<string> {
+        const resp = await this._rpc("get_next_address", {
+            wallet_id: this.walletId,
+            new_address: false,
+        });
+
+        return resp?.address ?? "";
+    }
+
+    public async transfer({ to, value, fee = 0 }: transferArgs): Promise<Optional<SpendBundle>> {
+        const resp = await this._rpc("send_transaction", {
+            wallet_id: this.walletId,
+            address: to,
+            amount: Util.rpc.amountToRpc(value),
+            fee: Util.rpc.amountToRpc(fee),
+        });
+
+        return this._parseSpendBundleFromResponse(resp);
+    }
+
+    public async transferCAT({ to, assetId, value, fee = 0 }: transferCATArgs): Promise<Optional<SpendBundle>> {
+        // the wallet needs to have a CAT wallet for the given asset id
+        const walletResp = await this._rpc("cat_asset_id_to_name", {
+            asset_id: Util.dehexlify(assetId),
+        });
+        if(walletResp?.wallet_id === null || walletResp?.wallet_id === undefined) {
+            if(this.strict) {
+                throw new InvalidArgumentError(`The wallet does not have a CAT wallet for asset id ${assetId}.`);
+            }
+
+            return null;
+        }
+
+        const resp = await this._rpc("cat_spend", {
+            wallet_id: walletResp.wallet_id,
+            inner_address: to,
+            amount: Util.rpc.amountToRpc(value),
+            fee: Util.rpc.amountToRpc(fee),
+        });
+
+        return this._parseSpendBundleFromResponse(resp);
+    }
+
+    public async acceptOffer({ offer, fee = 0 }: acceptOfferArgs): Promise<Optional<SpendBundle>> {
+        const resp = await this._rpc("take_offer", {
+            offer,
+            fee: Util.rpc.amountToRpc(fee),
+        });
+
+        return this._parseSpendBundleFromResponse(resp);
+    }
+
+    // the wallet's address only changes when a new one is requested
+    public subscribeToAddressChanges({ callback }: subscribeToAddressChangesArgs): void {
+        this.getAddress().then(callback, () => null); // strict mode: errors are not reported here
+    }
+
+    public async signMessageByAddress(address: string, message: string): Promise<Optional<SignedMessage>> {
+        const resp = await this._rpc("sign_message_by_address", {
+            address,
+            message,
+        });
+        if(resp === null) {
+            return null;
+        }
+
+        return {
+            publicKey: Util.dehexlify(resp.pubkey) as string,
+            signature: Util.dehexlify(resp.signature) as string,
+            signingMode: resp.signing_mode,
+        };
+    }
+
+    public async signCoinSpends(args: signCoinSpendsArgs): Promise<Optional<SpendBundle>> {
+        return this._doesNotImplementError();
+    }
+
+    public async changeNetwork(args: changeNetworkArgs): Promise<boolean> {
+        return this._doesNotImplementError();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,273 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { Provider, CoinState, Optional, Subscription } from "./providers/provider";
+import { ProviderError, TransactionRejectedError, TransactionDroppedError, DoubleSpendError } from "./providers/provider_errors";
+import { Util } from "../util";
+import { bytes } from "../util/serializer/basic_types";
+import { Serializer } from "../util/serializer/serializer";
+import { SpendBundle } from "../util/serializer/types/spend_bundle";
+
+// pending: in the mempool (or waiting to be included in a block)
+// confirmed: all removals were spent in the same block (see 'height'); can go back to 'pending' after a reorg
+// failed, dropped and doubleSpent are final
+export type TransactionState = "pending" | "confirmed" | "failed" | "dropped" | "doubleSpent";
+
+export type sendTransactionArgs = {
+    spendBundle: SpendBundle,
+    maxPendingBlocks?: number, // the transaction is considered dropped if none of its removals were spent after this many blocks
+};
+
+type _ConfirmationListener = {
+    depth: number,
+    resolve: (height: number) => void,
+    reject: (error: any) => void,
+};
+
+export const DEFAULT_MAX_PENDING_BLOCKS = 64;
+
+// tracks a spend bundle after it was pushed
+// uses coin subscriptions on the bundle's removals and the provider's 'peak' events
+// tracking stops once the last pending confirmed() promise resolved - calling confirmed() again resumes it
+export class TransactionHandle {
+    public name: bytes; // spend bundle name (hash)
+    public spendBundle: SpendBundle;
+    public accepted: boolean; // mempool status from the TransactionAck
+    public error: Optional<string>; // TransactionAck error (see the 'transactionRejected' event)
+    public state: TransactionState;
+    public height: Optional<number> = null; // block that spent the removals
+
+    private provider: Provider;
+    private maxPendingBlocks: number;
+    private removalIds: bytes[];
+    private spentHeights: Map<bytes, Optional<number>> = new Map();
+    private startHeight: Optional<number> = null;
+    private peakHeight: Optional<number> = null;
+    private verifiedHeight: Optional<number> = null;
+    private verifying: boolean = false;
+    private failure: Optional<ProviderError> = null;
+    private listeners: _ConfirmationListener[] = [];
+    private subscriptions: Subscription[] = [];
+
+    constructor(
+        provider: Provider,
+        spendBundle: SpendBundle,
+        accepted: boolean,
+        error: Optional<string> = null,
+        maxPendingBlocks: number = DEFAULT_MAX_PENDING_BLOCKS,
+    ) {
+        this.provider = provider;
+        this.spendBundle = spendBundle;
+        this.name = Util.stdHash(Serializer.serialize(spendBundle).toString("hex"));
+        this.accepted = accepted;
+        this.error = error;
+        this.maxPendingBlocks = maxPendingBlocks;
+        this.removalIds = spendBundle.coinSpends.map((coinSpend) => Util.coin.getId(coinSpend.coin));
+
+        if(!accepted) {
+            this.state = "failed";
+            this.failure = new TransactionRejectedError(null, error);
+            return;
+        }
+
+        this.state = "pending";
+        this._subscribe();
+    }
+
+    // resolves with the height of the block that spent the removals once it is 'depth' blocks deep (1 = included)
+    public confirmed(depth: number = 1): Promise<number> {
+        if(this.failure === null && this.subscriptions.length === 0) {
+            this._subscribe();
+        }
+        if(this.failure !== null) {
+            return Promise.reject(this.failure);
+        }
+
+        return new Promise((resolve, reject) => {
+            this.listeners.push({ depth, resolve, reject });
+            this._update();
+        });
+    }
+
+    public getConfirmations(): number {
+        if(this.height === null || this.peakHeight === null) {
+            return 0;
+        }
+
+        return Math.max(this.peakHeight - this.height + 1, 0);
+    }
+
+    // stops tracking the transaction - pending confirmed() promises will not be resolved until confirmed() is called again
+    public close(): void {
+        this.subscriptions.forEach((s) => s.unsubscribe());
+        this.subscriptions = [];
+    }
+
+    private _subscribe(): void {
+        this.subscriptions.push(
+            this.provider.events.on("peak", (peak) => this._onPeak(peak.height)),
+            this.provider.events.on("rollback", (forkHeight) => this._onRollback(forkHeight)),
+        );
+
+        try {
+            for(const coinId of this.removalIds) {
+                this.subscriptions.push(
+                    this.provider.subscribeToCoinUpdates({
+                        coinId,
+                        minHeight: 0,
+                        callback: (coinStates) => this._onCoinStates(coinStates),
+                    })
+                );
+            }
+        } catch(e: any) {
+            // e.g., the provider does not support subscriptions - the state can't be tracked
+            this.close();
+            this.failure = e;
+            return;
+        }
+
+        // some providers throw synchronously
+        Promise.resolve().then(() => this.provider.getBlockNumber()).then((height) => {
+            if(height !== null) this._onPeak(height);
+        }).catch(() => null);
+    }
+
+    private _onPeak(height: number): void {
+        if(this.peakHeight !== null && height < this.peakHeight) {
+            return;
+        }
+
+        this.startHeight = this.startHeight ?? height;
+        this.peakHeight = height;
+        this._update();
+    }
+
+    private _onRollback(forkHeight: number): void {
+        for(const [coinId, spentHeight] of this.spentHeights.entries()) {
+            if(spentHeight !== null && spentHeight > forkHeight) {
+                this.spentHeights.set(coinId, null);
+            }
+        }
+
+        this.peakHeight = this.peakHeight === null ? null : Math.min(this.peakHeight, forkHeight);
+        this._update();
+    }
+
+    private _onCoinStates(coinStates: CoinState[]): void {
+        for(const coinState of coinStates) {
+            const coinId: bytes = Util.coin.getId(coinState.coin);
+            if(!this.removalIds.includes(coinId)) continue;
+
+            this.spentHeights.set(
+                coinId,
+                coinState.spentHeight === null ? null : BigNumber.from(coinState.spentHeight).toNumber()
+            );
+        }
+
+        this._update();
+    }
+
+    private _update(): void {
+        if(this._isFinal()) {
+            return;
+        }
+
+        const spentHeights: number[] = this.removalIds.map(
+            (coinId) => this.spentHeights.get(coinId) ?? null
+        ).filter((h): h is number => h !== null);
+
+        if(spentHeights.length === 0) {
+            this.state = "pending";
+            this.height = null;
+
+            if(this.startHeight !== null && this.peakHeight !== null && this.peakHeight - this.startHeight >= this.maxPendingBlocks) {
+                this._finish("dropped", new TransactionDroppedError(this.name));
+            }
+            return;
+        }
+
+        // all removals of a spend bundle are spent in the same block
+        const height: number = Math.min(...spentHeights);
+        if(spentHeights.some((h) => h !== height)) {
+            this._finish("doubleSpent", new DoubleSpendError(this.name));
+            return;
+        }
+        if(spentHeights.length < this.removalIds.length) {
+            // updates for the other removals might still be on their way
+            if(this.peakHeight !== null && this.peakHeight > height) {
+                this._finish("doubleSpent", new DoubleSpendError(this.name));
+            }
+            return;
+        }
+
+        if(this.verifiedHeight !== height) {
+            this._verify(height);
+            return;
+        }
+
+        this.state = "confirmed";
+        this.height = height;
+
+        const confirmations: number = this.getConfirmations();
+        const listeners = this.listeners;
+        const resolved = listeners.filter((l) => l.depth <= confirmations);
+        this.listeners = listeners.filter((l) => l.depth > confirmations);
+        if(resolved.length > 0 && this.listeners.length === 0) {
+            this._closeLater();
+        }
+        resolved.forEach((l) => l.resolve(height));
+    }
+
+    // the removals could have been spent by another spend bundle - compare the solution of the first coin spend
+    private _verify(height: number): void {
+        if(this.verifying) return;
+        this.verifying = true;
+
+        const coinSpend = this.spendBundle.coinSpends[0];
+        const check = async (): Promise<boolean> => {
+            if(!this.provider.capabilities().methods.includes("getPuzzleSolution")) {
+                return true;
+            }
+
+            const puzzleSolution = await this.provider.getPuzzleSolution({ coinId: this.removalIds[0], height });
+            return puzzleSolution === null ||
+                Util.sexp.toHex(puzzleSolution.solution) === Util.sexp.toHex(coinSpend.solution);
+        };
+
+        check().catch(() => true).then((ours) => {
+            this.verifying = false;
+
+            if(!ours) {
+                this._finish("doubleSpent", new DoubleSpendError(this.name));
+                return;
+            }
+
+            this.verifiedHeight = height;
+            this._update();
+        });
+    }
+
+    private _isFinal(): boolean {
+        return ["failed", "dropped", "doubleSpent"].includes(this.state);
+    }
+
+    // coin state callbacks run while the provider is dispatching a message - unsubscribing right away would modify its filters
+    // confirmed() might be called again before this runs
+    private _closeLater(): void {
+        Promise.resolve().then(() => {
+            if(this.listeners.length === 0) {
+                this.close();
+            }
+        });
+    }
+
+    private _finish(state: TransactionState, error: ProviderError): void {
+        this._closeLater();
+
+        this.state = state;
+        this.height = null;
+        this.failure = error;
+
+        const listeners = this.listeners;
+        this.listeners = [];
+        listeners.forEach((l) => l.reject(error));
+    }
+}
\ No newline at end of file
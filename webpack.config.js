@@ -32,6 +32,7 @@ module.exports = {
       "path": false,
       "fs": false,
       "crypto": false,
+      "https": false,
       "stream": require.resolve("stream-browserify"),
       "buffer": require.resolve("buffer")
     }